@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Header } from '@/components/layout/Header';
 import { SearchBar } from '@/components/search/SearchBar';
 import { StatsCard } from '@/components/stats/StatsCard';
@@ -8,12 +8,40 @@ import { ProfileCard } from '@/components/profile/ProfileCard';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { Alert } from '@/components/ui/Alert';
 import { Modal } from '@/components/ui/Modal';
+import { Pager } from '@/components/ui/Pager';
+import { useToast } from '@/components/ui/Toast';
 import { ProfileForm } from '@/components/forms/ProfileForm';
-import { profileApi, searchApi, statsApi } from '@/lib/api';
-import { Profile, Stats, SearchResults } from '@/types';
+import { authApi, errorMessage, profileApi, requestIdOf, searchApi, statsApi } from '@/lib/api';
+import { AUTH_CHANGE_EVENT, canModifyProfile, canWrite, getStoredUser } from '@/lib/auth';
+import { hasSearchFilters } from '@/lib/utils';
+import { Pagination, Profile, Stats, SearchFilters, SearchHit, SearchResults, User } from '@/types';
+
+// Sort control options mapped to the sort parameter of each list. Search
+// hits have no email, so that option keeps them in relevance order.
+const PROFILE_SORTS: Record<string, string> = {
+  name: 'name:asc',
+  email: 'email:asc',
+  created_at: 'created_at:desc',
+};
+
+const SEARCH_SORTS: Record<string, string> = {
+  name: 'title:asc',
+  created_at: 'created_at:desc',
+};
+
+// Fills the 3-column profile selector
+const PROFILE_PAGE_SIZE = 9;
+
+const HIT_LABELS: Record<SearchHit['type'], string> = {
+  profile: 'Profile',
+  project: 'Project',
+  work: 'Work',
+  skill: 'Skill',
+};
 
 export default function HomePage() {
   const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [profilePagination, setProfilePagination] = useState<Pagination | null>(null);
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
   const [stats, setStats] = useState<Stats | null>(null);
   const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
@@ -22,96 +50,108 @@ export default function HomePage() {
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
   const [isStatsModalOpen, setIsStatsModalOpen] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  // The sort control lives in SearchBar; the page only needs it for requests
+  const sortBy = useRef('');
+  const lastSearch = useRef<{ query: string; filters: SearchFilters } | null>(null);
+  const { showToast } = useToast();
 
   // Load initial data
   useEffect(() => {
     loadInitialData();
   }, []);
 
+  // Follow the stored session, which also changes when a token refresh fails
+  useEffect(() => {
+    const syncUser = () => setUser(getStoredUser());
+    syncUser();
+    window.addEventListener(AUTH_CHANGE_EVENT, syncUser);
+    return () => window.removeEventListener(AUTH_CHANGE_EVENT, syncUser);
+  }, []);
+
   const loadInitialData = async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const [profilesData, statsData, skillsData] = await Promise.all([
-        profileApi.getAll().catch((err) => {
-          console.error('Profiles fetch error:', err);
-          return [];
-        }),
-        statsApi.get().catch((err) => {
-          console.error('Stats fetch error:', err);
-          return null;
-        }),
-        searchApi.getAllSkills().catch((err) => {
-          console.error('Skills fetch error:', err);
-          return { skills: [] };
+      // The page still works without stats and skills, so only a failure
+      // to load the profiles is reported
+      const [profilePage, statsData, skillsData] = await Promise.all([
+        profileApi.list(PROFILE_SORTS[sortBy.current], undefined, PROFILE_PAGE_SIZE).catch((err: unknown) => {
+          setError(errorMessage(err, 'Failed to load profiles'));
+          return { profiles: [], pagination: null };
         }),
+        statsApi.get().catch(() => null),
+        searchApi.getAllSkills().catch(() => ({ skills: [] })),
       ]);
 
+      const profilesData = profilePage.profiles;
       setProfiles(profilesData);
-      setSelectedProfile(profilesData.length > 0 ? profilesData[0] : null);
+      setProfilePagination(profilePage.pagination);
+      // Keep the current selection across reloads when it still exists
+      setSelectedProfile(prev =>
+        profilesData.find(profile => profile.id === prev?.id) || profilesData[0] || null
+      );
       setStats(statsData);
-      setSkills([...new Set(skillsData.skills.map(s => s.skill_name))]);
+      setSkills([...new Set(skillsData.skills.map(s => s.name))]);
     } catch (err: unknown) {
-      console.error('Error loading initial data:', err);
-      const error = err as { response?: { data?: { error?: string } } };
-      setError(error.response?.data?.error || 'Failed to load data');
+      setError(errorMessage(err, 'Failed to load data'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleSearch = async (query: string) => {
-    if (!query.trim()) {
-      setSearchResults(null);
-      return;
+  // Load one page of the profile selector; the selected profile stays as is
+  const loadProfiles = async (cursor?: string, page: number = 1) => {
+    try {
+      const profilePage = await profileApi.list(PROFILE_SORTS[sortBy.current], cursor, PROFILE_PAGE_SIZE, page);
+      setProfiles(profilePage.profiles);
+      setProfilePagination(profilePage.pagination);
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to load profiles'));
     }
+  };
 
+  const runSearch = async (query: string, filters: SearchFilters, sort: string, cursor?: string) => {
     try {
       setIsSearching(true);
-      const results = await searchApi.search(query);
+      const results = await searchApi.search(query, filters, SEARCH_SORTS[sort], cursor);
       setSearchResults(results);
     } catch (err: unknown) {
-      console.error('Search error:', err);
-      setError('Search failed');
+      setError(errorMessage(err, 'Search failed'));
     } finally {
       setIsSearching(false);
     }
   };
 
-  const handleFilterBySkill = async (skill: string) => {
-    if (!skill) {
+  const handleSearch = async (query: string, filters: SearchFilters) => {
+    if (!query.trim() && !hasSearchFilters(filters)) {
+      lastSearch.current = null;
       setSearchResults(null);
       return;
     }
 
-    try {
-      setIsSearching(true);
-      const results = await searchApi.filterProjectsBySkill(skill);
-      // Transform to match SearchResults format
-      setSearchResults({
-        query: skill,
-        type: 'skill',
-        results: {
-          profiles: [],
-          projects: results.projects,
-          skills: [],
-          workExperience: [],
-        },
-        pagination: results.pagination,
-      });
-    } catch (err: unknown) {
-      console.error('Filter error:', err);
-      setError('Filter failed');
-    } finally {
-      setIsSearching(false);
+    lastSearch.current = { query, filters };
+    await runSearch(query, filters, sortBy.current);
+  };
+
+  const handleSort = async (sort: string) => {
+    sortBy.current = sort;
+
+    if (lastSearch.current) {
+      await runSearch(lastSearch.current.query, lastSearch.current.filters, sort);
+      return;
     }
+
+    await loadProfiles();
   };
 
-  const handleSort = (sortBy: string) => {
-    // This would need backend support for sorting
-    console.log('Sorting by:', sortBy);
+  const handleSearchPage = async (cursor: string) => {
+    if (lastSearch.current) {
+      await runSearch(lastSearch.current.query, lastSearch.current.filters, sortBy.current, cursor);
+    }
   };
 
   const handleRefresh = () => {
@@ -123,28 +163,58 @@ export default function HomePage() {
   };
 
   const handleEditProfile = () => {
+    setEditingProfile(selectedProfile);
+    setIsEditModalOpen(true);
+  };
+
+  const handleNewProfile = () => {
+    setEditingProfile(null);
     setIsEditModalOpen(true);
   };
 
   const handleDeleteProfile = async () => {
-    if (!confirm('Are you sure you want to delete this profile? This action cannot be undone.')) {
+    if (!selectedProfile) {
       return;
     }
 
+    // Deleting moves the profile to the trash, so it can be undone
+    const { id, name } = selectedProfile;
+    const handleUndo = async () => {
+      try {
+        await profileApi.restoreFromTrash('profiles', id);
+        setSelectedProfile(await profileApi.getById(id));
+        loadInitialData();
+      } catch (err: unknown) {
+        showToast({ type: 'error', message: errorMessage(err, 'Failed to restore profile'), requestId: requestIdOf(err) });
+      }
+    };
+
     try {
-      await profileApi.delete();
+      await profileApi.delete(id);
       setSelectedProfile(null);
+      loadInitialData();
+      showToast({ message: `Deleted ${name}`, action: { label: 'Undo', onClick: handleUndo } });
     } catch (err: unknown) {
-      console.error('Delete error:', err);
-      setError('Failed to delete profile');
+      setError(errorMessage(err, 'Failed to delete profile'));
     }
   };
 
   const handleProfileUpdated = () => {
     setIsEditModalOpen(false);
+    setEditingProfile(null);
     loadInitialData();
   };
 
+  const handleLogout = async () => {
+    try {
+      await authApi.logout();
+    } catch (err: unknown) {
+      // The session is cleared here either way; the server just could not
+      // revoke its refresh token
+      showToast({ type: 'error', message: errorMessage(err, 'Failed to log out on the server'), requestId: requestIdOf(err) });
+    }
+  };
+
   const handleShowStats = () => {
     setIsStatsModalOpen(true);
   };
@@ -173,71 +243,55 @@ export default function HomePage() {
       return (
         <div className="space-y-6">
           <div className="bg-white rounded-2xl shadow-lg p-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-4">
-              Search Results for &quot;{searchResults.query}&quot;
+            <h2 className="text-2xl font-bold text-gray-900 mb-1">
+              {searchResults.query
+                ? <>Search Results for &quot;{searchResults.query}&quot;</>
+                : 'Filtered Results'}
             </h2>
-            
-            {searchResults.results.profiles.length > 0 && (
-              <div className="mb-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Profiles</h3>
-                <div className="space-y-3">
-                  {searchResults.results.profiles.map((profile) => (
-                    <div key={profile.id} className="p-4 bg-gray-50 rounded-lg">
-                      <h4 className="font-semibold text-gray-900">{profile.name}</h4>
-                      <p className="text-gray-600">{profile.email}</p>
-                    </div>
-                  ))}
-                </div>
-              </div>
+            <p className="text-sm text-gray-500">
+              {searchResults.pagination.total} {searchResults.pagination.total === 1 ? 'result' : 'results'}
+            </p>
+            {searchResults.fuzzy && searchResults.hits.length > 0 && (
+              <p className="text-sm text-gray-500 mb-4">No exact matches, showing similar results</p>
             )}
 
-            {searchResults.results.projects.length > 0 && (
-              <div className="mb-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Projects</h3>
-                <div className="space-y-3">
-                  {searchResults.results.projects.map((project) => (
-                    <div key={project.id} className="p-4 bg-gray-50 rounded-lg">
-                      <h4 className="font-semibold text-gray-900">{project.title}</h4>
-                      <p className="text-gray-600">{project.description}</p>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {searchResults.results.skills.length > 0 && (
-              <div className="mb-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Skills</h3>
-                <div className="flex flex-wrap gap-2">
-                  {searchResults.results.skills.map((skill, index) => (
-                    <span
-                      key={index}
-                      className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm"
-                    >
-                      {skill.skill_name}
+            <div className="space-y-3 mt-4">
+              {searchResults.hits.map((hit) => (
+                <div key={`${hit.type}-${hit.id}`} className="p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">
+                      {HIT_LABELS[hit.type]}
                     </span>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {searchResults.results.workExperience.length > 0 && (
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Work Experience</h3>
-                <div className="space-y-3">
-                  {searchResults.results.workExperience.map((work) => (
-                    <div key={work.id} className="p-4 bg-gray-50 rounded-lg">
-                      <h4 className="font-semibold text-gray-900">{work.position}</h4>
-                      <p className="text-gray-600">{work.company}</p>
-                    </div>
-                  ))}
+                    <h4 className="font-semibold text-gray-900">{hit.title}</h4>
+                  </div>
+                  {hit.subtitle && <p className="text-sm text-gray-500">{hit.subtitle}</p>}
+                  {hit.type !== 'skill' && hit.highlight.length > 0 && (
+                    <p className="text-gray-600 mt-1">
+                      {hit.highlight.map((segment, index) =>
+                        segment.match ? (
+                          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                            {segment.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{segment.text}</span>
+                        )
+                      )}
+                    </p>
+                  )}
                 </div>
-              </div>
-            )}
+              ))}
+            </div>
 
-            {Object.values(searchResults.results).every(arr => arr.length === 0) && (
+            {searchResults.hits.length === 0 && (
               <p className="text-gray-500 text-center py-8">No results found</p>
             )}
+
+            <Pager
+              pagination={searchResults.pagination}
+              onPageChange={handleSearchPage}
+              isLoading={isSearching}
+              className="mt-6"
+            />
           </div>
         </div>
       );
@@ -251,13 +305,19 @@ export default function HomePage() {
               <span className="text-2xl">👤</span>
             </div>
             <h3 className="text-2xl font-bold text-gray-900 mb-2">No Profiles Found</h3>
-            <p className="text-gray-600 mb-6">Create your first profile to get started!</p>
-            <button
-              onClick={() => setIsEditModalOpen(true)}
-              className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Create Profile
-            </button>
+            {canWrite(user) ? (
+              <>
+                <p className="text-gray-600 mb-6">Create your first profile to get started!</p>
+                <button
+                  onClick={handleNewProfile}
+                  className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Create Profile
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-600">Sign in as an editor to create a profile.</p>
+            )}
           </div>
         </div>
       );
@@ -266,7 +326,7 @@ export default function HomePage() {
     return (
       <div className="space-y-6">
         {/* Profile Selection */}
-        {profiles.length > 1 && (
+        {(profiles.length > 1 || (profilePagination?.totalPages ?? 1) > 1) && (
           <div className="bg-white rounded-lg p-4 shadow-sm">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">Select Profile</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
@@ -285,6 +345,9 @@ export default function HomePage() {
                 </button>
               ))}
             </div>
+            {profilePagination && (
+              <Pager pagination={profilePagination} onPageChange={loadProfiles} className="mt-4" />
+            )}
           </div>
         )}
 
@@ -295,6 +358,7 @@ export default function HomePage() {
             onEdit={handleEditProfile}
             onDelete={handleDeleteProfile}
             onRefresh={handleRefresh}
+            canEdit={canModifyProfile(user, selectedProfile)}
           />
         )}
       </div>
@@ -304,32 +368,42 @@ export default function HomePage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
       <Header
+        user={user}
         onRefresh={handleRefresh}
         onShowStats={handleShowStats}
         onCreateProfile={handleCreateProfile}
+        onLogin={setUser}
+        onLogout={handleLogout}
       />
 
       <div className="container mx-auto px-4 py-8">
-        <SearchBar
-          onSearch={handleSearch}
-          onFilterBySkill={handleFilterBySkill}
-          onSort={handleSort}
-          skills={skills}
-          isLoading={isSearching}
-        />
-
-        {stats && <StatsCard stats={stats} />}
-
-        {renderContent()}
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <aside className="lg:col-span-1">
+            <SearchBar
+              onSearch={handleSearch}
+              onSort={handleSort}
+              skills={skills}
+              facets={searchResults?.facets}
+              isLoading={isSearching}
+            />
+          </aside>
+
+          <main className="lg:col-span-3">
+            {stats && <StatsCard stats={stats} />}
+
+            {renderContent()}
+          </main>
+        </div>
       </div>
 
       {/* Edit Profile Modal */}
       <Modal
         isOpen={isEditModalOpen}
         onClose={() => setIsEditModalOpen(false)}
-        title="Add New Profile"
+        title={editingProfile ? 'Edit Profile' : 'Add New Profile'}
       >
         <ProfileForm
+          initialData={editingProfile ?? undefined}
           onSuccess={handleProfileUpdated}
           onCancel={() => setIsEditModalOpen(false)}
         />
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { FileUp } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { profileApi, errorMessage } from '@/lib/api';
+import { ImportFormat, ImportPreview } from '@/types';
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  jsonresume: 'JSON Resume',
+  linkedin: 'LinkedIn export',
+  vcard: 'vCard',
+};
+
+interface ImportProfileFormProps {
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Upload a JSON Resume, LinkedIn export or vCard, preview the profile it
+// maps to and create it
+export function ImportProfileForm({ onSuccess, onCancel }: ImportProfileFormProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectFile = async (selected: File | undefined) => {
+    if (!selected) return;
+
+    setFile(selected);
+    setPreview(null);
+    setError(null);
+    setIsLoading(true);
+    try {
+      setPreview(await profileApi.previewImport(selected));
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to read the file'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectFile(e.dataTransfer.files[0]);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      await profileApi.import(file);
+      onSuccess();
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to import profile'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const profile = preview?.profile;
+
+  return (
+    <div className="space-y-6">
+      <label
+        htmlFor="import-file"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-8 cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+        }`}
+      >
+        <FileUp className="h-8 w-8 text-gray-400" />
+        <span className="text-sm font-medium text-gray-700">
+          {file ? file.name : 'Drop a file here or click to choose one'}
+        </span>
+        <span className="text-xs text-gray-500">
+          JSON Resume (.json), LinkedIn data export (.zip or .csv) or vCard (.vcf)
+        </span>
+        <input
+          id="import-file"
+          type="file"
+          accept=".json,.zip,.csv,.vcf,application/json,application/zip,text/csv,text/vcard"
+          className="sr-only"
+          onChange={(e) => selectFile(e.target.files?.[0])}
+        />
+      </label>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {preview && profile && (
+        <div className="space-y-4">
+          <div className="bg-gray-50 rounded-lg p-4">
+            <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">
+              {FORMAT_LABELS[preview.format]} preview
+            </p>
+            <p className="text-lg font-semibold text-gray-900">{profile.name || 'No name'}</p>
+            <p className="text-gray-600">{profile.email || 'No email'}</p>
+            {profile.education && <p className="text-sm text-gray-600 mt-1">{profile.education}</p>}
+            <p className="text-sm text-gray-700 mt-3">
+              {profile.skills?.length ?? 0} skills · {profile.projects?.length ?? 0} projects · {profile.workExperience?.length ?? 0} jobs
+            </p>
+            {profile.skills && profile.skills.length > 0 && (
+              <p className="text-sm text-gray-500 mt-1">
+                {profile.skills.map(skill => (typeof skill === 'string' ? skill : skill.name)).join(', ')}
+              </p>
+            )}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg text-sm">
+              <p className="font-medium mb-1">This profile cannot be imported yet:</p>
+              <ul className="list-disc pl-5">
+                {preview.errors.map((issue, index) => (
+                  <li key={index}>{issue.path}: {issue.msg}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {preview.warnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+              <ul className="list-disc pl-5">
+                {preview.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3 pt-6 border-t border-gray-200">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isLoading}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          variant="primary"
+          onClick={handleImport}
+          isLoading={isLoading}
+          disabled={!preview?.valid}
+        >
+          Import Profile
+        </Button>
+      </div>
+    </div>
+  );
+}
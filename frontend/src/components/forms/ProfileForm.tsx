@@ -2,32 +2,13 @@
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/Button';
-import { profileApi } from '@/lib/api';
-import { Profile } from '@/types';
+import { SkillInput } from '@/components/forms/SkillInput';
+import { SkillTagsInput } from '@/components/forms/SkillTagsInput';
+import { ProjectLinksInput, completeLinks, toLinkInputs } from '@/components/forms/ProjectLinksInput';
+import { profileApi, errorMessage } from '@/lib/api';
+import { Profile, ProfileInput, ProjectLinkInput } from '@/types';
 import { Plus, Trash2, X } from 'lucide-react';
 
-interface ProfileFormData {
-  name: string;
-  email: string;
-  education: string;
-  github_url: string;
-  linkedin_url: string;
-  portfolio_url: string;
-  skills: string[];
-  projects: Array<{
-    title: string;
-    description: string;
-    links: Array<{ name: string; url: string }>;
-  }>;
-  workExperience: Array<{
-    company: string;
-    position: string;
-    start_date: string;
-    end_date: string;
-    description: string;
-  }>;
-}
-
 interface ProfileFormProps {
   onSuccess: () => void;
   onCancel: () => void;
@@ -35,22 +16,28 @@ interface ProfileFormProps {
 }
 
 interface Skill {
+  id?: number;
   name: string;
   level: number;
 }
 
 interface Project {
+  id?: number;
   title: string;
   description: string;
-  links: Array<{ name: string; url: string }>;
+  links: ProjectLinkInput[];
+  skills: string[];
 }
 
 interface WorkExperience {
+  id?: number;
   company: string;
   position: string;
   start_date: string;
-  end_date: string | undefined;
+  end_date: string;
+  is_current: boolean;
   description: string;
+  skills: string[];
 }
 
 export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormProps) {
@@ -65,6 +52,7 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
 
   const [skills, setSkills] = useState<Skill[]>(
     initialData?.skills?.map((skill, index) => ({
+      id: initialData?.skillsWithLevel?.[index]?.id,
       name: skill,
       level: initialData?.skillsWithLevel?.[index]?.proficiency_level || 1
     })) || []
@@ -72,19 +60,24 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
 
   const [projects, setProjects] = useState<Project[]>(
     initialData?.projects?.map(project => ({
+      id: project.id,
       title: project.title,
-      description: project.description,
-      links: project.links || []
+      description: project.description || '',
+      links: toLinkInputs(project.links),
+      skills: project.skills || []
     })) || []
   );
 
   const [workExperience, setWorkExperience] = useState<WorkExperience[]>(
     initialData?.workExperience?.map(work => ({
+      id: work.id,
       company: work.company,
       position: work.position,
-      start_date: work.start_date,
-      end_date: work.end_date,
-      description: work.description
+      start_date: work.start_date || '',
+      end_date: work.end_date || '',
+      is_current: work.is_current,
+      description: work.description || '',
+      skills: work.skills || []
     })) || []
   );
 
@@ -118,43 +111,25 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
 
   // Projects management
   const addProject = () => {
-    setProjects([...projects, { title: '', description: '', links: [] }]);
+    setProjects([...projects, { title: '', description: '', links: [], skills: [] }]);
   };
 
-  const updateProject = (index: number, field: keyof Project, value: string | Array<{ name: string; url: string }>) => {
+  const updateProject = (index: number, field: keyof Project, value: string | string[] | ProjectLinkInput[]) => {
     const updatedProjects = [...projects];
     updatedProjects[index] = { ...updatedProjects[index], [field]: value };
     setProjects(updatedProjects);
   };
 
-  const addProjectLink = (projectIndex: number) => {
-    const updatedProjects = [...projects];
-    updatedProjects[projectIndex].links.push({ name: '', url: '' });
-    setProjects(updatedProjects);
-  };
-
-  const updateProjectLink = (projectIndex: number, linkIndex: number, field: 'name' | 'url', value: string) => {
-    const updatedProjects = [...projects];
-    updatedProjects[projectIndex].links[linkIndex] = { ...updatedProjects[projectIndex].links[linkIndex], [field]: value };
-    setProjects(updatedProjects);
-  };
-
-  const removeProjectLink = (projectIndex: number, linkIndex: number) => {
-    const updatedProjects = [...projects];
-    updatedProjects[projectIndex].links = updatedProjects[projectIndex].links.filter((_, i) => i !== linkIndex);
-    setProjects(updatedProjects);
-  };
-
   const removeProject = (index: number) => {
     setProjects(projects.filter((_, i) => i !== index));
   };
 
   // Work experience management
   const addWorkExperience = () => {
-    setWorkExperience([...workExperience, { company: '', position: '', start_date: '', end_date: '', description: '' }]);
+    setWorkExperience([...workExperience, { company: '', position: '', start_date: '', end_date: '', is_current: false, description: '', skills: [] }]);
   };
 
-  const updateWorkExperience = (index: number, field: keyof WorkExperience, value: string) => {
+  const updateWorkExperience = (index: number, field: keyof WorkExperience, value: string | boolean | string[]) => {
     const updatedWork = [...workExperience];
     updatedWork[index] = { ...updatedWork[index], [field]: value };
     setWorkExperience(updatedWork);
@@ -202,6 +177,10 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
       if (!work.position.trim()) {
         newErrors[`work_position_${index}`] = 'Position is required';
       }
+      // "YYYY-MM" strings compare in date order
+      if (!work.is_current && work.start_date && work.end_date && work.end_date < work.start_date) {
+        newErrors[`work_end_${index}`] = 'End date must not be before the start date';
+      }
     });
 
     setErrors(newErrors);
@@ -217,34 +196,42 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
 
     setIsLoading(true);
     try {
-      const profileData: ProfileFormData = {
+      const profileData: ProfileInput = {
         ...formData,
-        skills: skills.map(skill => skill.name).filter(name => name.trim()),
+        skills: skills
+          .filter(skill => skill.name.trim())
+          .map(skill => ({ id: skill.id, name: skill.name, level: skill.level })),
         projects: projects
           .filter(project => project.title.trim() && project.description.trim())
           .map(project => ({
+            id: project.id,
             title: project.title,
             description: project.description,
-            links: project.links
+            links: completeLinks(project.links),
+            skills: project.skills
           })),
         workExperience: workExperience
           .filter(work => work.company.trim() && work.position.trim())
           .map(work => ({
+            id: work.id,
             company: work.company,
             position: work.position,
-            start_date: work.start_date,
-            end_date: work.end_date || '',
-            description: work.description
+            start_date: work.start_date || null,
+            end_date: work.is_current ? null : work.end_date || null,
+            is_current: work.is_current,
+            description: work.description,
+            skills: work.skills
           }))
       };
 
-      // Always create new profile
-      await profileApi.create(profileData as any);
+      if (initialData?.id) {
+        await profileApi.update(initialData.id, profileData);
+      } else {
+        await profileApi.create(profileData);
+      }
       onSuccess();
     } catch (error: unknown) {
-      console.error('Error saving profile:', error);
-      const err = error as { response?: { data?: { error?: string } } };
-      setErrors({ general: err.response?.data?.error || 'Failed to save profile' });
+      setErrors({ general: errorMessage(error, 'Failed to save profile') });
     } finally {
       setIsLoading(false);
     }
@@ -389,13 +376,10 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Skill Name *
                   </label>
-                  <input
-                    type="text"
+                  <SkillInput
                     value={skill.name}
-                    onChange={(e) => updateSkill(index, 'name', e.target.value)}
-                    className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      errors[`skill_${index}`] ? 'border-red-300' : 'border-gray-300'
-                    }`}
+                    onChange={(value) => updateSkill(index, 'name', value)}
+                    hasError={Boolean(errors[`skill_${index}`])}
                     placeholder="e.g., JavaScript, Python, React"
                   />
                   {errors[`skill_${index}`] && (
@@ -497,51 +481,16 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
                       <p className="mt-1 text-sm text-red-600">{errors[`project_desc_${index}`]}</p>
                     )}
                   </div>
+                  <ProjectLinksInput
+                    value={project.links}
+                    onChange={(links) => updateProject(index, 'links', links)}
+                  />
                   <div>
-                    <div className="flex items-center justify-between mb-2">
-                      <label className="block text-sm font-medium text-gray-700">
-                        Project Links
-                      </label>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => addProjectLink(index)}
-                        className="flex items-center gap-1"
-                      >
-                        <Plus className="h-3 w-3" />
-                        Add Link
-                      </Button>
-                    </div>
-                    <div className="space-y-2">
-                      {project.links.map((link, linkIndex) => (
-                        <div key={linkIndex} className="flex gap-2">
-                          <input
-                            type="text"
-                            value={link.name}
-                            onChange={(e) => updateProjectLink(index, linkIndex, 'name', e.target.value)}
-                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="Link name (e.g., GitHub, Live Demo)"
-                          />
-                          <input
-                            type="url"
-                            value={link.url}
-                            onChange={(e) => updateProjectLink(index, linkIndex, 'url', e.target.value)}
-                            className="flex-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="https://example.com"
-                          />
-                          <Button
-                            type="button"
-                            variant="danger"
-                            size="sm"
-                            onClick={() => removeProjectLink(index, linkIndex)}
-                            className="h-10 w-10 p-0"
-                          >
-                            <X className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
+                    <span className="block text-sm font-medium text-gray-700 mb-2">Skills Used</span>
+                    <SkillTagsInput
+                      value={project.skills}
+                      onChange={(skills) => updateProject(index, 'skills', skills)}
+                    />
                   </div>
                 </div>
               </div>
@@ -633,8 +582,23 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
                       type="month"
                       value={work.end_date}
                       onChange={(e) => updateWorkExperience(index, 'end_date', e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={work.is_current}
+                      className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 ${
+                        errors[`work_end_${index}`] ? 'border-red-300' : 'border-gray-300'
+                      }`}
                     />
+                    {errors[`work_end_${index}`] && (
+                      <p className="mt-1 text-sm text-red-600">{errors[`work_end_${index}`]}</p>
+                    )}
+                    <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={work.is_current}
+                        onChange={(e) => updateWorkExperience(index, 'is_current', e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      I currently work here
+                    </label>
                   </div>
                 </div>
                 <div className="mt-4">
@@ -649,6 +613,13 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
                     placeholder="Describe your role and responsibilities"
                   />
                 </div>
+                <div className="mt-4">
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Skills Used</span>
+                  <SkillTagsInput
+                    value={work.skills}
+                    onChange={(skills) => updateWorkExperience(index, 'skills', skills)}
+                  />
+                </div>
               </div>
             ))}
           </div>
@@ -668,7 +639,7 @@ export function ProfileForm({ onSuccess, onCancel, initialData }: ProfileFormPro
             variant="primary"
             isLoading={isLoading}
           >
-            Create Profile
+            {initialData?.id ? 'Update Profile' : 'Create Profile'}
           </Button>
         </div>
       </form>
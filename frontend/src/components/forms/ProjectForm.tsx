@@ -2,18 +2,23 @@
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/Button';
-import { profileApi } from '@/lib/api';
+import { SkillTagsInput } from '@/components/forms/SkillTagsInput';
+import { ProjectLinksInput, completeLinks } from '@/components/forms/ProjectLinksInput';
+import { profileApi, errorMessage } from '@/lib/api';
+import { ProjectLinkInput } from '@/types';
 
 interface ProjectFormProps {
+  profileId: number;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-export function ProjectForm({ onSuccess, onCancel }: ProjectFormProps) {
+export function ProjectForm({ profileId, onSuccess, onCancel }: ProjectFormProps) {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    links: '',
+    links: [] as ProjectLinkInput[],
+    skills: [] as string[],
   });
 
   const [isLoading, setIsLoading] = useState(false);
@@ -44,19 +49,6 @@ export function ProjectForm({ onSuccess, onCancel }: ProjectFormProps) {
     return Object.keys(newErrors).length === 0;
   };
 
-  const parseLinks = (linksText: string) => {
-    if (!linksText.trim()) return [];
-    
-    return linksText
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        const [name, url] = line.split('|');
-        return { name: name?.trim() || '', url: url?.trim() || '' };
-      })
-      .filter(link => link.name && link.url);
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -69,15 +61,14 @@ export function ProjectForm({ onSuccess, onCancel }: ProjectFormProps) {
       const projectData = {
         title: formData.title,
         description: formData.description,
-        links: parseLinks(formData.links),
+        links: completeLinks(formData.links),
+        skills: formData.skills,
       };
 
-      await profileApi.addProject(projectData);
+      await profileApi.addProject(profileId, projectData);
       onSuccess();
     } catch (error: unknown) {
-      console.error('Error saving project:', error);
-      const err = error as { response?: { data?: { error?: string } } };
-      setErrors({ general: err.response?.data?.error || 'Failed to save project' });
+      setErrors({ general: errorMessage(error, 'Failed to save project') });
     } finally {
       setIsLoading(false);
     }
@@ -131,22 +122,17 @@ export function ProjectForm({ onSuccess, onCancel }: ProjectFormProps) {
         )}
       </div>
 
+      <ProjectLinksInput
+        value={formData.links}
+        onChange={(links) => setFormData(prev => ({ ...prev, links }))}
+      />
+
       <div>
-        <label htmlFor="links" className="block text-sm font-medium text-gray-700 mb-2">
-          Links
-        </label>
-        <textarea
-          id="links"
-          name="links"
-          value={formData.links}
-          onChange={handleChange}
-          rows={3}
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-          placeholder="GitHub|https://github.com/user/repo&#10;Demo|https://demo.com"
+        <span className="block text-sm font-medium text-gray-700 mb-2">Skills Used</span>
+        <SkillTagsInput
+          value={formData.skills}
+          onChange={(skills) => setFormData(prev => ({ ...prev, skills }))}
         />
-        <p className="mt-1 text-sm text-gray-500">
-          Enter one link per line in the format: Name|URL
-        </p>
       </div>
 
       <div className="flex justify-end gap-3 pt-6 border-t border-gray-200">
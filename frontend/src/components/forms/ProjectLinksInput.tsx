@@ -0,0 +1,100 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { ProjectLink, ProjectLinkInput, ProjectLinkKind } from '@/types';
+
+export const LINK_KINDS: Array<{ value: ProjectLinkKind; label: string }> = [
+  { value: 'repo', label: 'Repository' },
+  { value: 'demo', label: 'Demo' },
+  { value: 'docs', label: 'Docs' },
+  { value: 'video', label: 'Video' },
+];
+
+// Editable fields of links returned by the API
+export const toLinkInputs = (links: ProjectLink[] = []): ProjectLinkInput[] =>
+  links.map(({ kind, name, url }) => ({ kind, name, url }));
+
+// Drops rows that were added but never filled in
+export const completeLinks = (links: ProjectLinkInput[]) =>
+  links.filter(link => link.name.trim() && link.url.trim());
+
+interface ProjectLinksInputProps {
+  value: ProjectLinkInput[];
+  onChange: (links: ProjectLinkInput[]) => void;
+}
+
+// Edits the typed links of a project
+export function ProjectLinksInput({ value, onChange }: ProjectLinksInputProps) {
+  const addLink = () => {
+    onChange([...value, { kind: 'repo', name: '', url: '' }]);
+  };
+
+  const updateLink = (index: number, changes: Partial<ProjectLinkInput>) => {
+    onChange(value.map((link, i) => (i === index ? { ...link, ...changes } : link)));
+  };
+
+  const removeLink = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-gray-700">Project Links</span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addLink}
+          disabled={value.length >= 10}
+          className="flex items-center gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          Add Link
+        </Button>
+      </div>
+      <div className="space-y-2">
+        {value.map((link, index) => (
+          <div key={index} className="flex gap-2">
+            <select
+              value={link.kind}
+              onChange={(e) => updateLink(index, { kind: e.target.value as ProjectLinkKind })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Link type"
+            >
+              {LINK_KINDS.map(kind => (
+                <option key={kind.value} value={kind.value}>{kind.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={link.name}
+              onChange={(e) => updateLink(index, { name: e.target.value })}
+              maxLength={50}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Link name (e.g., GitHub, Live Demo)"
+            />
+            <input
+              type="url"
+              value={link.url}
+              onChange={(e) => updateLink(index, { url: e.target.value })}
+              className="flex-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="https://example.com"
+            />
+            <Button
+              type="button"
+              variant="danger"
+              size="sm"
+              onClick={() => removeLink(index)}
+              className="h-10 w-10 p-0"
+              aria-label="Remove link"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
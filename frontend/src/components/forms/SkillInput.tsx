@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, useEffect, useId } from 'react';
+import { skillCatalogApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { CatalogSkill } from '@/types';
+
+interface SkillInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  hasError?: boolean;
+  placeholder?: string;
+  // Called with the chosen name when a suggestion is picked or Enter is
+  // pressed, instead of filling the input with a picked suggestion
+  onSelect?: (name: string) => void;
+}
+
+// Text input that suggests canonical skill names from the skill catalog
+export function SkillInput({ value, onChange, hasError, placeholder, onSelect }: SkillInputProps) {
+  const [suggestions, setSuggestions] = useState<CatalogSkill[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const listId = useId();
+
+  useEffect(() => {
+    const query = value.trim();
+    if (!isOpen || query.length === 0) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const skills = await skillCatalogApi.search(query);
+        if (!cancelled) {
+          // Nothing to suggest when the name is already canonical
+          setSuggestions(skills.length === 1 && skills[0].name === query ? [] : skills);
+          setHighlighted(0);
+        }
+      } catch {
+        if (!cancelled) setSuggestions([]);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [value, isOpen]);
+
+  const select = (skill: CatalogSkill) => {
+    if (onSelect) {
+      onSelect(skill.name);
+    } else {
+      onChange(skill.name);
+    }
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) {
+      // Keep Enter from submitting the surrounding form
+      if (e.key === 'Enter' && onSelect) {
+        e.preventDefault();
+        if (value.trim()) onSelect(value.trim());
+      }
+      return;
+    }
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-controls={listId}
+        aria-expanded={isOpen && suggestions.length > 0}
+        aria-autocomplete="list"
+        className={cn(
+          'w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500',
+          hasError ? 'border-red-300' : 'border-gray-300'
+        )}
+        placeholder={placeholder}
+      />
+      {isOpen && suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto"
+        >
+          {suggestions.map((skill, index) => (
+            <li
+              key={skill.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Select before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(skill);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'px-3 py-2 cursor-pointer flex items-center justify-between gap-2',
+                index === highlighted ? 'bg-blue-50' : 'bg-white'
+              )}
+            >
+              <span className="text-sm text-gray-900">
+                {skill.name}
+                {skill.aliases.length > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">{skill.aliases.join(', ')}</span>
+                )}
+              </span>
+              <span className="text-xs text-gray-500 capitalize">{skill.category}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
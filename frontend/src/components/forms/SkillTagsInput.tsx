@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { SkillInput } from '@/components/forms/SkillInput';
+
+interface SkillTagsInputProps {
+  value: string[];
+  onChange: (skills: string[]) => void;
+  placeholder?: string;
+}
+
+// Edits a list of skill names, suggesting canonical names from the catalog
+export function SkillTagsInput({ value, onChange, placeholder = 'Add a skill and press Enter' }: SkillTagsInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const addSkill = (name: string) => {
+    const exists = value.some(skill => skill.toLowerCase() === name.toLowerCase());
+    if (!exists) onChange([...value, name]);
+    setDraft('');
+  };
+
+  const removeSkill = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((skill, index) => (
+            <span
+              key={skill}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200"
+            >
+              {skill}
+              <button
+                type="button"
+                onClick={() => removeSkill(index)}
+                className="text-blue-500 hover:text-blue-800"
+                aria-label={`Remove ${skill}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <SkillInput
+        value={draft}
+        onChange={setDraft}
+        onSelect={addSkill}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+}
@@ -2,20 +2,24 @@
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/Button';
-import { profileApi } from '@/lib/api';
+import { SkillTagsInput } from '@/components/forms/SkillTagsInput';
+import { profileApi, errorMessage } from '@/lib/api';
 
 interface WorkFormProps {
+  profileId: number;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-export function WorkForm({ onSuccess, onCancel }: WorkFormProps) {
+export function WorkForm({ profileId, onSuccess, onCancel }: WorkFormProps) {
   const [formData, setFormData] = useState({
     position: '',
     company: '',
     start_date: '',
     end_date: '',
+    is_current: false,
     description: '',
+    skills: [] as string[],
   });
 
   const [isLoading, setIsLoading] = useState(false);
@@ -31,6 +35,12 @@ export function WorkForm({ onSuccess, onCancel }: WorkFormProps) {
     }
   };
 
+  const handleCurrentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const isCurrent = e.target.checked;
+    setFormData(prev => ({ ...prev, is_current: isCurrent, end_date: isCurrent ? '' : prev.end_date }));
+    setErrors(prev => ({ ...prev, end_date: '' }));
+  };
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -46,6 +56,11 @@ export function WorkForm({ onSuccess, onCancel }: WorkFormProps) {
       newErrors.start_date = 'Start date is required';
     }
 
+    // "YYYY-MM" strings compare in date order
+    if (formData.end_date && formData.end_date < formData.start_date) {
+      newErrors.end_date = 'End date must not be before the start date';
+    }
+
     if (!formData.description.trim()) {
       newErrors.description = 'Description is required';
     }
@@ -68,15 +83,15 @@ export function WorkForm({ onSuccess, onCancel }: WorkFormProps) {
         company: formData.company,
         start_date: formData.start_date,
         end_date: formData.end_date || undefined,
+        is_current: formData.is_current,
         description: formData.description,
+        skills: formData.skills,
       };
 
-      await profileApi.addWorkExperience(workData);
+      await profileApi.addWorkExperience(profileId, workData);
       onSuccess();
     } catch (error: unknown) {
-      console.error('Error saving work experience:', error);
-      const err = error as { response?: { data?: { error?: string } } };
-      setErrors({ general: err.response?.data?.error || 'Failed to save work experience' });
+      setErrors({ general: errorMessage(error, 'Failed to save work experience') });
     } finally {
       setIsLoading(false);
     }
@@ -138,7 +153,7 @@ export function WorkForm({ onSuccess, onCancel }: WorkFormProps) {
             Start Date *
           </label>
           <input
-            type="date"
+            type="month"
             id="start_date"
             name="start_date"
             value={formData.start_date}
@@ -157,14 +172,28 @@ export function WorkForm({ onSuccess, onCancel }: WorkFormProps) {
             End Date
           </label>
           <input
-            type="date"
+            type="month"
             id="end_date"
             name="end_date"
             value={formData.end_date}
             onChange={handleChange}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={formData.is_current}
+            className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 ${
+              errors.end_date ? 'border-red-300' : 'border-gray-300'
+            }`}
           />
-          <p className="mt-1 text-sm text-gray-500">Leave empty if currently working</p>
+          {errors.end_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.end_date}</p>
+          )}
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.is_current}
+              onChange={handleCurrentChange}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            I currently work here
+          </label>
         </div>
       </div>
 
@@ -188,6 +217,14 @@ export function WorkForm({ onSuccess, onCancel }: WorkFormProps) {
         )}
       </div>
 
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Skills Used</span>
+        <SkillTagsInput
+          value={formData.skills}
+          onChange={(skills) => setFormData(prev => ({ ...prev, skills }))}
+        />
+      </div>
+
       <div className="flex justify-end gap-3 pt-6 border-t border-gray-200">
         <Button
           type="button"
@@ -1,19 +1,28 @@
 'use client';
 
 import { useState } from 'react';
-import { Code, RefreshCw, BarChart3, Plus } from 'lucide-react';
+import { Code, RefreshCw, BarChart3, Plus, Upload, LogIn, LogOut, UserCircle } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { ProfileForm } from '@/components/forms/ProfileForm';
+import { ImportProfileForm } from '@/components/forms/ImportProfileForm';
+import { LoginForm } from '@/components/forms/LoginForm';
+import { canWrite } from '@/lib/auth';
+import { User } from '@/types';
 
 interface HeaderProps {
+  user: User | null;
   onRefresh: () => void;
   onShowStats: () => void;
   onCreateProfile: () => void;
+  onLogin: (user: User) => void;
+  onLogout: () => void;
 }
 
-export function Header({ onRefresh, onShowStats, onCreateProfile }: HeaderProps) {
+export function Header({ user, onRefresh, onShowStats, onCreateProfile, onLogin, onLogout }: HeaderProps) {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
 
   const handleCreateProfile = () => {
     setIsCreateModalOpen(true);
@@ -28,6 +37,16 @@ export function Header({ onRefresh, onShowStats, onCreateProfile }: HeaderProps)
     onCreateProfile();
   };
 
+  const handleProfileImported = () => {
+    setIsImportModalOpen(false);
+    onCreateProfile();
+  };
+
+  const handleLoggedIn = (loggedInUser: User) => {
+    setIsLoginModalOpen(false);
+    onLogin(loggedInUser);
+  };
+
   return (
     <>
       <header className="bg-gradient-to-r from-blue-600 to-purple-600 text-white">
@@ -54,15 +73,27 @@ export function Header({ onRefresh, onShowStats, onCreateProfile }: HeaderProps)
                 </div>
               </div>
 
-              <div className="flex flex-wrap gap-3">
-                <Button
-                  onClick={handleCreateProfile}
-                  variant="success"
-                  className="flex items-center gap-2"
-                >
-                  <Plus className="h-4 w-4" />
-                  New Profile
-                </Button>
+              <div className="flex flex-wrap gap-3 items-center">
+                {canWrite(user) && (
+                  <>
+                    <Button
+                      onClick={handleCreateProfile}
+                      variant="success"
+                      className="flex items-center gap-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      New Profile
+                    </Button>
+                    <Button
+                      onClick={() => setIsImportModalOpen(true)}
+                      variant="secondary"
+                      className="flex items-center gap-2"
+                    >
+                      <Upload className="h-4 w-4" />
+                      Import
+                    </Button>
+                  </>
+                )}
                 <Button
                   onClick={onRefresh}
                   variant="primary"
@@ -79,6 +110,31 @@ export function Header({ onRefresh, onShowStats, onCreateProfile }: HeaderProps)
                   <BarChart3 className="h-4 w-4" />
                   Statistics
                 </Button>
+                {user ? (
+                  <>
+                    <span className="flex items-center gap-2 text-sm text-white/90">
+                      <UserCircle className="h-5 w-5" />
+                      {user.username} ({user.role})
+                    </span>
+                    <Button
+                      onClick={onLogout}
+                      variant="secondary"
+                      className="flex items-center gap-2"
+                    >
+                      <LogOut className="h-4 w-4" />
+                      Sign Out
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => setIsLoginModalOpen(true)}
+                    variant="secondary"
+                    className="flex items-center gap-2"
+                  >
+                    <LogIn className="h-4 w-4" />
+                    Sign In
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -95,6 +151,29 @@ export function Header({ onRefresh, onShowStats, onCreateProfile }: HeaderProps)
           onCancel={handleCloseModal}
         />
       </Modal>
+
+      <Modal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        title="Import Profile"
+      >
+        <ImportProfileForm
+          onSuccess={handleProfileImported}
+          onCancel={() => setIsImportModalOpen(false)}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={isLoginModalOpen}
+        onClose={() => setIsLoginModalOpen(false)}
+        title="Sign In"
+        size="sm"
+      >
+        <LoginForm
+          onSuccess={handleLoggedIn}
+          onCancel={() => setIsLoginModalOpen(false)}
+        />
+      </Modal>
     </>
   );
 }
@@ -3,22 +3,25 @@
 import { useState, useEffect } from 'react';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
-import { Project } from '@/types';
-import { profileApi } from '@/lib/api';
-import { Plus, X } from 'lucide-react';
+import { Project, ProjectLinkInput } from '@/types';
+import { SkillTagsInput } from '@/components/forms/SkillTagsInput';
+import { ProjectLinksInput, completeLinks, toLinkInputs } from '@/components/forms/ProjectLinksInput';
+import { profileApi, errorMessage } from '@/lib/api';
 
 interface ProjectEditModalProps {
+  profileId: number;
   isOpen: boolean;
   onClose: () => void;
   project: Project | null;
   onSuccess: () => void;
 }
 
-export function ProjectEditModal({ isOpen, onClose, project, onSuccess }: ProjectEditModalProps) {
+export function ProjectEditModal({ profileId, isOpen, onClose, project, onSuccess }: ProjectEditModalProps) {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    links: [] as Array<{ name: string; url: string }>
+    links: [] as ProjectLinkInput[],
+    skills: [] as string[]
   });
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -27,8 +30,9 @@ export function ProjectEditModal({ isOpen, onClose, project, onSuccess }: Projec
     if (project) {
       setFormData({
         title: project.title,
-        description: project.description,
-        links: project.links || []
+        description: project.description || '',
+        links: toLinkInputs(project.links),
+        skills: project.skills || []
       });
     }
   }, [project]);
@@ -42,29 +46,6 @@ export function ProjectEditModal({ isOpen, onClose, project, onSuccess }: Projec
     }
   };
 
-  const addLink = () => {
-    setFormData(prev => ({
-      ...prev,
-      links: [...prev.links, { name: '', url: '' }]
-    }));
-  };
-
-  const updateLink = (index: number, field: 'name' | 'url', value: string) => {
-    setFormData(prev => ({
-      ...prev,
-      links: prev.links.map((link, i) => 
-        i === index ? { ...link, [field]: value } : link
-      )
-    }));
-  };
-
-  const removeLink = (index: number) => {
-    setFormData(prev => ({
-      ...prev,
-      links: prev.links.filter((_, i) => i !== index)
-    }));
-  };
-
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -89,13 +70,15 @@ export function ProjectEditModal({ isOpen, onClose, project, onSuccess }: Projec
 
     setIsLoading(true);
     try {
-      // For now, we'll update the entire profile since individual project updates aren't implemented in the backend
-      // This is a limitation - ideally we'd have individual project update endpoints
-      alert('Individual project editing is not yet implemented. Please use the main profile edit form.');
-      onClose();
-    } catch (error) {
-      console.error('Error updating project:', error);
-      alert('Failed to update project. Please try again.');
+      await profileApi.updateProject(profileId, project.id, {
+        title: formData.title,
+        description: formData.description,
+        links: completeLinks(formData.links),
+        skills: formData.skills
+      });
+      onSuccess();
+    } catch (error: unknown) {
+      setErrors({ general: errorMessage(error, 'Failed to update project') });
     } finally {
       setIsLoading(false);
     }
@@ -109,6 +92,12 @@ export function ProjectEditModal({ isOpen, onClose, project, onSuccess }: Projec
       size="lg"
     >
       <form onSubmit={handleSubmit} className="space-y-6">
+        {errors.general && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+            {errors.general}
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Project Title *
@@ -147,51 +136,17 @@ export function ProjectEditModal({ isOpen, onClose, project, onSuccess }: Projec
           )}
         </div>
 
+        <ProjectLinksInput
+          value={formData.links}
+          onChange={(links) => setFormData(prev => ({ ...prev, links }))}
+        />
+
         <div>
-          <div className="flex items-center justify-between mb-2">
-            <label className="block text-sm font-medium text-gray-700">
-              Project Links
-            </label>
-            <Button
-              type="button"
-              variant="outline"
-              size="sm"
-              onClick={addLink}
-              className="flex items-center gap-1"
-            >
-              <Plus className="h-3 w-3" />
-              Add Link
-            </Button>
-          </div>
-          <div className="space-y-2">
-            {formData.links.map((link, index) => (
-              <div key={index} className="flex gap-2">
-                <input
-                  type="text"
-                  value={link.name}
-                  onChange={(e) => updateLink(index, 'name', e.target.value)}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="Link name (e.g., GitHub, Live Demo)"
-                />
-                <input
-                  type="url"
-                  value={link.url}
-                  onChange={(e) => updateLink(index, 'url', e.target.value)}
-                  className="flex-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="https://example.com"
-                />
-                <Button
-                  type="button"
-                  variant="danger"
-                  size="sm"
-                  onClick={() => removeLink(index)}
-                  className="h-10 w-10 p-0"
-                >
-                  <X className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-          </div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">Skills Used</span>
+          <SkillTagsInput
+            value={formData.skills}
+            onChange={(skills) => setFormData(prev => ({ ...prev, skills }))}
+          />
         </div>
 
         <div className="flex justify-end gap-3 pt-6 border-t border-gray-200">
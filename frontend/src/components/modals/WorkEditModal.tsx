@@ -4,21 +4,26 @@ import { useState, useEffect } from 'react';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { WorkExperience } from '@/types';
+import { SkillTagsInput } from '@/components/forms/SkillTagsInput';
+import { profileApi, errorMessage } from '@/lib/api';
 
 interface WorkEditModalProps {
+  profileId: number;
   isOpen: boolean;
   onClose: () => void;
   work: WorkExperience | null;
   onSuccess: () => void;
 }
 
-export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModalProps) {
+export function WorkEditModal({ profileId, isOpen, onClose, work, onSuccess }: WorkEditModalProps) {
   const [formData, setFormData] = useState({
     company: '',
     position: '',
     start_date: '',
     end_date: '',
-    description: ''
+    is_current: false,
+    description: '',
+    skills: [] as string[]
   });
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -28,9 +33,11 @@ export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModa
       setFormData({
         company: work.company,
         position: work.position,
-        start_date: work.start_date,
+        start_date: work.start_date || '',
         end_date: work.end_date || '',
-        description: work.description
+        is_current: work.is_current,
+        description: work.description || '',
+        skills: work.skills || []
       });
     }
   }, [work]);
@@ -44,6 +51,12 @@ export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModa
     }
   };
 
+  const handleCurrentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const isCurrent = e.target.checked;
+    setFormData(prev => ({ ...prev, is_current: isCurrent, end_date: isCurrent ? '' : prev.end_date }));
+    setErrors(prev => ({ ...prev, end_date: '' }));
+  };
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -55,6 +68,11 @@ export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModa
       newErrors.position = 'Position is required';
     }
 
+    // "YYYY-MM" strings compare in date order
+    if (formData.start_date && formData.end_date && formData.end_date < formData.start_date) {
+      newErrors.end_date = 'End date must not be before the start date';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -68,13 +86,18 @@ export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModa
 
     setIsLoading(true);
     try {
-      // For now, we'll show a message since individual work experience updates aren't implemented in the backend
-      // This is a limitation - ideally we'd have individual work experience update endpoints
-      alert('Individual work experience editing is not yet implemented. Please use the main profile edit form.');
-      onClose();
-    } catch (error) {
-      console.error('Error updating work experience:', error);
-      alert('Failed to update work experience. Please try again.');
+      await profileApi.updateWorkExperience(profileId, work.id, {
+        company: formData.company,
+        position: formData.position,
+        start_date: formData.start_date || null,
+        end_date: formData.end_date || null,
+        is_current: formData.is_current,
+        description: formData.description,
+        skills: formData.skills
+      });
+      onSuccess();
+    } catch (error: unknown) {
+      setErrors({ general: errorMessage(error, 'Failed to update work experience') });
     } finally {
       setIsLoading(false);
     }
@@ -88,6 +111,12 @@ export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModa
       size="lg"
     >
       <form onSubmit={handleSubmit} className="space-y-6">
+        {errors.general && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+            {errors.general}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -149,8 +178,23 @@ export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModa
               name="end_date"
               value={formData.end_date}
               onChange={handleChange}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={formData.is_current}
+              className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 ${
+                errors.end_date ? 'border-red-300' : 'border-gray-300'
+              }`}
             />
+            {errors.end_date && (
+              <p className="mt-1 text-sm text-red-600">{errors.end_date}</p>
+            )}
+            <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.is_current}
+                onChange={handleCurrentChange}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              I currently work here
+            </label>
           </div>
         </div>
 
@@ -168,6 +212,14 @@ export function WorkEditModal({ isOpen, onClose, work, onSuccess }: WorkEditModa
           />
         </div>
 
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">Skills Used</span>
+          <SkillTagsInput
+            value={formData.skills}
+            onChange={(skills) => setFormData(prev => ({ ...prev, skills }))}
+          />
+        </div>
+
         <div className="flex justify-end gap-3 pt-6 border-t border-gray-200">
           <Button
             type="button"
@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { profileApi } from '@/lib/api';
+import { ResumeFormat } from '@/types';
+
+const FORMATS: Array<{ value: ResumeFormat; label: string }> = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'md', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
+  { value: 'jsonresume', label: 'JSON Resume' },
+];
+
+interface ExportMenuProps {
+  profileId: number;
+}
+
+// Download links for the resume export formats of a profile
+export function ExportMenu({ profileId }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const menuId = useId();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(open => !open)}
+        className="h-8 flex items-center gap-1"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={menuId}
+      >
+        <Download className="h-4 w-4" />
+        Export
+        <ChevronDown className="h-3 w-3" />
+      </Button>
+      {isOpen && (
+        <ul
+          id={menuId}
+          role="menu"
+          className="absolute right-0 z-10 mt-1 w-40 rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {FORMATS.map(format => (
+            <li key={format.value} role="none">
+              <a
+                role="menuitem"
+                href={profileApi.exportUrl(profileId, format.value)}
+                download
+                onClick={() => setIsOpen(false)}
+                className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+              >
+                {format.label}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
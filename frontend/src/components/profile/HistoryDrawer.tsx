@@ -0,0 +1,237 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { profileApi, errorMessage } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { ProfileRevision, RevisionAction, RevisionChange } from '@/types';
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: 'Created',
+  import: 'Imported',
+  update: 'Edited',
+  restore: 'Restored',
+};
+
+const CHANGE_STYLES: Record<RevisionChange['change'], string> = {
+  added: 'border-green-200 bg-green-50',
+  removed: 'border-red-200 bg-red-50',
+  changed: 'border-gray-200 bg-gray-50',
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+// Values are shown as text; items and lists as compact JSON
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// Readable name of a change, e.g. "Portfolio · description"
+const describeChange = (change: RevisionChange) => {
+  const field = change.path.match(/\]\.(.+)$/)?.[1];
+  if (!change.label) return change.path;
+  return field ? `${change.label} · ${field}` : change.label;
+};
+
+interface HistoryDrawerProps {
+  profileId: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+// Timeline of a profile's revisions. Selecting a revision shows what it
+// changed compared with the one before; any earlier revision can be restored.
+export function HistoryDrawer({ profileId, isOpen, onClose, onRestored }: HistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<ProfileRevision[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [changes, setChanges] = useState<RevisionChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await profileApi.getRevisions(profileId);
+      setRevisions(loaded);
+      setSelected(loaded[0]?.revision ?? null);
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to load the history'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (isOpen) loadRevisions();
+  }, [isOpen, loadRevisions]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  // The first revision has nothing to compare with
+  useEffect(() => {
+    setChanges([]);
+    if (selected === null || selected <= 1) return;
+
+    let cancelled = false;
+    setIsDiffLoading(true);
+    profileApi.diffRevisions(profileId, selected - 1, selected)
+      .then(diff => {
+        if (!cancelled) setChanges(diff.changes);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(errorMessage(err, 'Failed to load the changes'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsDiffLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, selected]);
+
+  const handleRestore = async (revision: number) => {
+    if (!confirm(`Restore the profile to revision ${revision}? The current version stays in the history.`)) {
+      return;
+    }
+
+    setRestoring(revision);
+    setError(null);
+    try {
+      await profileApi.restoreRevision(profileId, revision);
+      onRestored();
+      await loadRevisions();
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to restore the revision'));
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const latest = revisions[0]?.revision;
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      <aside
+        role="dialog"
+        aria-label="Profile history"
+        className="absolute inset-y-0 right-0 flex w-full max-w-md flex-col bg-white shadow-2xl"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-xl font-semibold text-gray-900">History</h2>
+          <Button variant="outline" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {error && (
+            <Alert type="error" message={error} onClose={() => setError(null)} className="mb-4" />
+          )}
+
+          {isLoading ? (
+            <LoadingSpinner className="py-12" />
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500">No revisions recorded yet.</p>
+          ) : (
+            <ol className="relative space-y-4 border-l border-gray-200 pl-4">
+              {revisions.map(revision => {
+                const isSelected = revision.revision === selected;
+
+                return (
+                  <li key={revision.revision} className="relative">
+                    <span
+                      className={cn(
+                        'absolute -left-[21px] top-2 h-2.5 w-2.5 rounded-full',
+                        isSelected ? 'bg-blue-600' : 'bg-gray-300'
+                      )}
+                    />
+                    <div className="flex items-start justify-between gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setSelected(revision.revision)}
+                        aria-pressed={isSelected}
+                        className="text-left"
+                      >
+                        <span className={cn('font-medium', isSelected ? 'text-blue-700' : 'text-gray-900')}>
+                          #{revision.revision} {ACTION_LABELS[revision.action]}
+                          {revision.restored_from !== null && ` from #${revision.restored_from}`}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {formatTimestamp(revision.created_at)}
+                          {revision.user && ` · ${revision.user.username}`}
+                        </span>
+                      </button>
+                      {revision.revision !== latest && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(revision.revision)}
+                          isLoading={restoring === revision.revision}
+                          disabled={restoring !== null}
+                          className="flex items-center gap-1"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+
+                    {isSelected && revision.revision > 1 && (
+                      <div className="mt-3 space-y-2">
+                        {isDiffLoading ? (
+                          <LoadingSpinner size="sm" />
+                        ) : changes.length === 0 ? (
+                          <p className="text-xs text-gray-500">No changes.</p>
+                        ) : (
+                          changes.map(change => (
+                            <div
+                              key={`${change.path}-${change.change}`}
+                              className={cn('rounded-lg border p-2 text-xs', CHANGE_STYLES[change.change])}
+                            >
+                              <p className="font-medium text-gray-900">
+                                {describeChange(change)}
+                                <span className="ml-1 font-normal text-gray-500">({change.change})</span>
+                              </p>
+                              {change.change !== 'added' && (
+                                <p className="break-all text-red-700 line-through">{formatValue(change.from)}</p>
+                              )}
+                              {change.change !== 'removed' && (
+                                <p className="break-all text-green-700">{formatValue(change.to)}</p>
+                              )}
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
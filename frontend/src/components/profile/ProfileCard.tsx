@@ -8,7 +8,8 @@ import {
   GraduationCap, 
   Edit, 
   Trash2, 
-  Plus
+  Plus,
+  History
 } from 'lucide-react';
 import { Profile, Project, WorkExperience } from '@/types';
 import { Button } from '@/components/ui/Button';
@@ -20,21 +21,26 @@ import { WorkEditModal } from '@/components/modals/WorkEditModal';
 import { SkillTag } from '@/components/profile/SkillTag';
 import { ProjectCard } from '@/components/profile/ProjectCard';
 import { WorkCard } from '@/components/profile/WorkCard';
+import { ExportMenu } from '@/components/profile/ExportMenu';
+import { HistoryDrawer } from '@/components/profile/HistoryDrawer';
+import { formatTenure } from '@/lib/utils';
 
 interface ProfileCardProps {
   profile: Profile;
   onEdit: () => void;
   onDelete: () => void;
   onRefresh: () => void;
+  canEdit: boolean;
 }
 
-export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCardProps) {
+export function ProfileCard({ profile, onEdit, onDelete, onRefresh, canEdit }: ProfileCardProps) {
   const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
   const [isWorkModalOpen, setIsWorkModalOpen] = useState(false);
   const [isProjectEditModalOpen, setIsProjectEditModalOpen] = useState(false);
   const [isWorkEditModalOpen, setIsWorkEditModalOpen] = useState(false);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [selectedWork, setSelectedWork] = useState<WorkExperience | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   const handleAddProject = () => {
     setIsProjectModalOpen(true);
@@ -79,28 +85,42 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
   return (
     <>
       <div className="bg-white rounded-2xl shadow-lg border-l-4 border-l-blue-600 p-8 relative">
-        {/* Profile Actions */}
+        {/* Profile Actions (editing is owner or admin only) */}
         <div className="absolute top-6 right-6 flex gap-2">
-          <Button
-            variant="warning"
-            size="sm"
-            onClick={onEdit}
-            className="h-8 w-8 p-0"
-          >
-            <Edit className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="danger"
-            size="sm"
-            onClick={onDelete}
-            className="h-8 w-8 p-0"
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <ExportMenu profileId={profile.id} />
+          {canEdit && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsHistoryOpen(true)}
+                className="h-8 w-8 p-0"
+                title="History"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="warning"
+                size="sm"
+                onClick={onEdit}
+                className="h-8 w-8 p-0"
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={onDelete}
+                className="h-8 w-8 p-0"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
         </div>
 
         {/* Profile Header */}
-        <div className="pr-24">
+        <div className={canEdit ? 'pr-56' : 'pr-28'}>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">{profile.name}</h1>
           <p className="text-lg text-gray-600 mb-6">{profile.email}</p>
 
@@ -176,15 +196,17 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
                 <span>Projects</span>
                 <span className="text-sm font-normal text-gray-500">({profile.projects.length})</span>
               </h3>
-              <Button
-                variant="success"
-                size="sm"
-                onClick={handleAddProject}
-                className="flex items-center gap-2"
-              >
-                <Plus className="h-4 w-4" />
-                Add Project
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="success"
+                  size="sm"
+                  onClick={handleAddProject}
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Project
+                </Button>
+              )}
             </div>
             <div className="space-y-4">
               {profile.projects.map((project) => (
@@ -193,6 +215,7 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
                   project={project}
                   onDelete={() => onRefresh()}
                   onEdit={handleEditProject}
+                  canEdit={canEdit}
                 />
               ))}
             </div>
@@ -204,16 +227,23 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
               <h3 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
                 <span>Work Experience</span>
                 <span className="text-sm font-normal text-gray-500">({profile.workExperience.length})</span>
+                {profile.total_experience_months > 0 && (
+                  <span className="text-sm font-normal text-gray-500">
+                    · {formatTenure(profile.total_experience_months)} total
+                  </span>
+                )}
               </h3>
-              <Button
-                variant="success"
-                size="sm"
-                onClick={handleAddWork}
-                className="flex items-center gap-2"
-              >
-                <Plus className="h-4 w-4" />
-                Add Experience
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="success"
+                  size="sm"
+                  onClick={handleAddWork}
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Experience
+                </Button>
+              )}
             </div>
             <div className="space-y-4">
               {profile.workExperience.map((work) => (
@@ -222,6 +252,7 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
                   work={work}
                   onDelete={() => onRefresh()}
                   onEdit={handleEditWork}
+                  canEdit={canEdit}
                 />
               ))}
             </div>
@@ -236,6 +267,7 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
         title="Add Project"
       >
         <ProjectForm
+          profileId={profile.id}
           onSuccess={handleProjectAdded}
           onCancel={() => setIsProjectModalOpen(false)}
         />
@@ -247,6 +279,7 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
         title="Add Work Experience"
       >
         <WorkForm
+          profileId={profile.id}
           onSuccess={handleWorkAdded}
           onCancel={() => setIsWorkModalOpen(false)}
         />
@@ -254,6 +287,7 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
 
       {/* Edit Modals */}
       <ProjectEditModal
+        profileId={profile.id}
         isOpen={isProjectEditModalOpen}
         onClose={() => {
           setIsProjectEditModalOpen(false);
@@ -263,7 +297,17 @@ export function ProfileCard({ profile, onEdit, onDelete, onRefresh }: ProfileCar
         onSuccess={handleProjectEditSuccess}
       />
 
+      {canEdit && (
+        <HistoryDrawer
+          profileId={profile.id}
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestored={onRefresh}
+        />
+      )}
+
       <WorkEditModal
+        profileId={profile.id}
         isOpen={isWorkEditModalOpen}
         onClose={() => {
           setIsWorkEditModalOpen(false);
@@ -1,33 +1,51 @@
 'use client';
 
 import { useState } from 'react';
-import { ExternalLink, Edit, Trash2 } from 'lucide-react';
-import { Project } from '@/types';
+import { AlertTriangle, ExternalLink, Edit, Trash2 } from 'lucide-react';
+import { Project, ProjectLink } from '@/types';
 import { Button } from '@/components/ui/Button';
+import { UsedSkills } from '@/components/profile/UsedSkills';
 import { formatDate } from '@/lib/utils';
-import { profileApi } from '@/lib/api';
+import { profileApi, errorMessage, requestIdOf } from '@/lib/api';
+import { useToast } from '@/components/ui/Toast';
+
+// Why the link checker flagged a link
+const brokenLinkTitle = (link: ProjectLink) =>
+  `Broken link: ${link.check_error || `HTTP ${link.status_code}`}`;
 
 interface ProjectCardProps {
   project: Project;
   onDelete: () => void;
   onEdit?: (project: Project) => void;
+  canEdit?: boolean;
 }
 
-export function ProjectCard({ project, onDelete, onEdit }: ProjectCardProps) {
+export function ProjectCard({ project, onDelete, onEdit, canEdit = true }: ProjectCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const { showToast } = useToast();
 
-  const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this project?')) {
-      return;
+  // Deleting moves the project to the trash, so it can be undone
+  const handleUndo = async () => {
+    try {
+      await profileApi.restoreFromTrash('projects', project.id);
+      onDelete();
+    } catch (error) {
+      showToast({ type: 'error', message: errorMessage(error, 'Failed to restore project.'), requestId: requestIdOf(error) });
     }
+  };
 
+  const handleDelete = async () => {
     setIsDeleting(true);
     try {
       await profileApi.deleteProject(project.id);
       onDelete();
+      showToast({ message: `Deleted "${project.title}"`, action: { label: 'Undo', onClick: handleUndo } });
     } catch (error) {
-      console.error('Error deleting project:', error);
-      alert('Failed to delete project. Please try again.');
+      showToast({
+        type: 'error',
+        message: errorMessage(error, 'Failed to delete project. Please try again.'),
+        requestId: requestIdOf(error),
+      });
     } finally {
       setIsDeleting(false);
     }
@@ -42,44 +60,56 @@ export function ProjectCard({ project, onDelete, onEdit }: ProjectCardProps) {
   return (
     <div className="bg-gray-50 rounded-xl p-6 hover:shadow-md transition-shadow relative group">
       {/* Project Actions */}
-      <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-        <Button
-          variant="warning"
-          size="sm"
-          onClick={handleEdit}
-          className="h-8 w-8 p-0"
-        >
-          <Edit className="h-4 w-4" />
-        </Button>
-        <Button
-          variant="danger"
-          size="sm"
-          onClick={handleDelete}
-          disabled={isDeleting}
-          className="h-8 w-8 p-0"
-        >
-          <Trash2 className="h-4 w-4" />
-        </Button>
-      </div>
+      {canEdit && (
+        <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="warning"
+            size="sm"
+            onClick={handleEdit}
+            className="h-8 w-8 p-0"
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="danger"
+            size="sm"
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="h-8 w-8 p-0"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
 
       {/* Project Content */}
       <div className="pr-20">
         <h4 className="text-lg font-semibold text-gray-900 mb-2">{project.title}</h4>
         <p className="text-gray-600 mb-4 leading-relaxed">{project.description}</p>
+
+        {project.skills.length > 0 && (
+          <div className="mb-4">
+            <UsedSkills skills={project.skills} />
+          </div>
+        )}
         
         {/* Project Links */}
         {project.links.length > 0 && (
           <div className="flex flex-wrap gap-3">
-            {project.links.map((link, index) => (
+            {project.links.map((link) => (
               <a
-                key={index}
+                key={link.id}
                 href={link.url}
                 target="_blank"
                 rel="noopener noreferrer"
-                className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 transition-colors text-sm font-medium"
+                title={link.broken ? brokenLinkTitle(link) : undefined}
+                className={`inline-flex items-center gap-2 transition-colors text-sm font-medium ${
+                  link.broken ? 'text-amber-700 hover:text-amber-900' : 'text-blue-600 hover:text-blue-800'
+                }`}
               >
-                <ExternalLink className="h-4 w-4" />
+                {link.broken ? <AlertTriangle className="h-4 w-4" /> : <ExternalLink className="h-4 w-4" />}
                 {link.name}
+                {link.broken && <span className="sr-only">(broken link)</span>}
               </a>
             ))}
           </div>
@@ -0,0 +1,19 @@
+interface UsedSkillsProps {
+  skills: string[];
+}
+
+// Tags for the skills a project or job used
+export function UsedSkills({ skills }: UsedSkillsProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {skills.map(skill => (
+        <span
+          key={skill}
+          className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200"
+        >
+          {skill}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -4,30 +4,51 @@ import { useState } from 'react';
 import { Edit, Trash2 } from 'lucide-react';
 import { WorkExperience } from '@/types';
 import { Button } from '@/components/ui/Button';
-import { formatDateRange } from '@/lib/utils';
-import { profileApi } from '@/lib/api';
+import { UsedSkills } from '@/components/profile/UsedSkills';
+import { formatDateRange, formatTenure } from '@/lib/utils';
+import { profileApi, errorMessage, requestIdOf } from '@/lib/api';
+import { useToast } from '@/components/ui/Toast';
 
 interface WorkCardProps {
   work: WorkExperience;
   onDelete: () => void;
   onEdit?: (work: WorkExperience) => void;
+  canEdit?: boolean;
 }
 
-export function WorkCard({ work, onDelete, onEdit }: WorkCardProps) {
+export function WorkCard({ work, onDelete, onEdit, canEdit = true }: WorkCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const { showToast } = useToast();
 
-  const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this work experience?')) {
-      return;
+  // Deleting moves the entry to the trash, so it can be undone
+  const handleUndo = async () => {
+    try {
+      await profileApi.restoreFromTrash('work-experience', work.id);
+      onDelete();
+    } catch (error) {
+      showToast({
+        type: 'error',
+        message: errorMessage(error, 'Failed to restore work experience.'),
+        requestId: requestIdOf(error),
+      });
     }
+  };
 
+  const handleDelete = async () => {
     setIsDeleting(true);
     try {
       await profileApi.deleteWorkExperience(work.id);
       onDelete();
+      showToast({
+        message: `Deleted ${work.position} at ${work.company}`,
+        action: { label: 'Undo', onClick: handleUndo },
+      });
     } catch (error) {
-      console.error('Error deleting work experience:', error);
-      alert('Failed to delete work experience. Please try again.');
+      showToast({
+        type: 'error',
+        message: errorMessage(error, 'Failed to delete work experience. Please try again.'),
+        requestId: requestIdOf(error),
+      });
     } finally {
       setIsDeleting(false);
     }
@@ -42,34 +63,44 @@ export function WorkCard({ work, onDelete, onEdit }: WorkCardProps) {
   return (
     <div className="bg-gray-50 rounded-xl p-6 hover:shadow-md transition-shadow relative group">
       {/* Work Actions */}
-      <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-        <Button
-          variant="warning"
-          size="sm"
-          onClick={handleEdit}
-          className="h-8 w-8 p-0"
-        >
-          <Edit className="h-4 w-4" />
-        </Button>
-        <Button
-          variant="danger"
-          size="sm"
-          onClick={handleDelete}
-          disabled={isDeleting}
-          className="h-8 w-8 p-0"
-        >
-          <Trash2 className="h-4 w-4" />
-        </Button>
-      </div>
+      {canEdit && (
+        <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="warning"
+            size="sm"
+            onClick={handleEdit}
+            className="h-8 w-8 p-0"
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="danger"
+            size="sm"
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="h-8 w-8 p-0"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
 
       {/* Work Content */}
       <div className="pr-20">
         <h4 className="text-lg font-semibold text-gray-900 mb-1">{work.position}</h4>
         <p className="text-gray-700 font-medium mb-2">{work.company}</p>
         <p className="text-gray-500 text-sm mb-4 italic">
-          {formatDateRange(work.start_date, work.end_date)}
+          {formatDateRange(work.start_date, work.end_date, work.is_current)}
+          {typeof work.tenure_months === 'number' && (
+            <span className="not-italic text-gray-400"> · {formatTenure(work.tenure_months)}</span>
+          )}
         </p>
         <p className="text-gray-600 leading-relaxed">{work.description}</p>
+        {work.skills.length > 0 && (
+          <div className="mt-4">
+            <UsedSkills skills={work.skills} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,46 +1,93 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Search, Filter, SortAsc } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Search, SlidersHorizontal, SortAsc } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
-import { debounce } from '@/lib/utils';
+import { hasSearchFilters } from '@/lib/utils';
+import { FacetCount, SearchFacets, SearchFilters } from '@/types';
 
 interface SearchBarProps {
-  onSearch: (query: string) => void;
-  onFilterBySkill: (skill: string) => void;
+  onSearch: (query: string, filters: SearchFilters) => void;
   onSort: (sortBy: string) => void;
   skills: string[];
+  facets?: SearchFacets;
   isLoading?: boolean;
 }
 
-export function SearchBar({ onSearch, onFilterBySkill, onSort, skills, isLoading }: SearchBarProps) {
+const EMPTY_FILTERS: SearchFilters = { skills: [], companies: [], positions: [] };
+
+interface FacetGroupProps {
+  title: string;
+  values: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}
+
+// Checkbox list for one facet. Selected values stay listed even when the
+// current results no longer contain them, so they can be unticked.
+function FacetGroup({ title, values, selected, onToggle }: FacetGroupProps) {
+  const missing = selected
+    .filter((value) => !values.some((facet) => facet.value === value))
+    .map((value) => ({ value, count: 0 }));
+  const options = [...missing, ...values];
+
+  if (options.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">{title}</h4>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {options.map((facet) => (
+          <li key={facet.value}>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(facet.value)}
+                onChange={() => onToggle(facet.value)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="flex-1 truncate">{facet.value}</span>
+              {facet.count > 0 && <span className="text-xs text-gray-500">{facet.count}</span>}
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function SearchBar({ onSearch, onSort, skills, facets, isLoading }: SearchBarProps) {
   const [query, setQuery] = useState('');
-  const [selectedSkill, setSelectedSkill] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
   const [sortBy, setSortBy] = useState('');
 
-  // Debounced search function
-  const debouncedSearch = debounce((...args: unknown[]) => {
-    const searchQuery = args[0] as string;
-    if (searchQuery.trim().length > 2) {
-      onSearch(searchQuery);
-    } else if (searchQuery.trim().length === 0) {
-      onSearch('');
-    }
-  }, 500);
+  // Keep the latest callback without re-running the search effect
+  const onSearchRef = useRef(onSearch);
+  useEffect(() => {
+    onSearchRef.current = onSearch;
+  }, [onSearch]);
 
+  // Narrow the results live as the query or the filters change
   useEffect(() => {
-    debouncedSearch(query);
-  }, [query, debouncedSearch]);
+    const searchQuery = query.trim();
+    if (searchQuery.length > 0 && searchQuery.length <= 2 && !hasSearchFilters(filters)) return;
+
+    const timeout = setTimeout(() => onSearchRef.current(searchQuery, filters), 300);
+    return () => clearTimeout(timeout);
+  }, [query, filters]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch(query);
+    onSearch(query.trim(), filters);
   };
 
-  const handleSkillChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const skill = e.target.value;
-    setSelectedSkill(skill);
-    onFilterBySkill(skill);
+  const toggle = (key: 'skills' | 'companies' | 'positions') => (value: string) => {
+    setFilters((current) => ({
+      ...current,
+      [key]: current[key].includes(value)
+        ? current[key].filter((item) => item !== value)
+        : [...current[key], value],
+    }));
   };
 
   const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -51,82 +98,150 @@ export function SearchBar({ onSearch, onFilterBySkill, onSort, skills, isLoading
 
   const clearFilters = () => {
     setQuery('');
-    setSelectedSkill('');
+    setFilters(EMPTY_FILTERS);
     setSortBy('');
-    onSearch('');
-    onFilterBySkill('');
     onSort('');
   };
 
+  // Before the first search, offer every known skill without counts
+  const skillFacets = facets?.skills ?? skills.map((skill) => ({ value: skill, count: 0 }));
+  const years = Array.from(
+    new Set([...(facets?.years.map((facet) => facet.value) ?? []), filters.from, filters.to])
+  )
+    .filter((year): year is string => Boolean(year))
+    .sort();
+
   return (
-    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
-      <form onSubmit={handleSearch} className="space-y-4">
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <form onSubmit={handleSearch} className="space-y-6">
         {/* Search Input */}
-        <div className="flex gap-3">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-            <input
-              type="text"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              placeholder="Search profiles, projects, skills, work experience..."
-              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-          </div>
-          <Button
-            type="submit"
-            variant="primary"
-            isLoading={isLoading}
-            className="px-6"
-          >
-            <Search className="h-4 w-4 mr-2" />
-            Search
-          </Button>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search..."
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
         </div>
+        <Button type="submit" variant="primary" isLoading={isLoading} className="w-full">
+          <Search className="h-4 w-4 mr-2" />
+          Search
+        </Button>
 
-        {/* Filters */}
-        <div className="flex flex-wrap gap-4 items-center">
-          <div className="flex items-center gap-2">
-            <Filter className="h-4 w-4 text-gray-500" />
-            <select
-              value={selectedSkill}
-              onChange={handleSkillChange}
-              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="">Filter by skill...</option>
-              {skills.map((skill, index) => (
-                <option key={`skill-${index}-${skill}`} value={skill}>
-                  {skill}
-                </option>
-              ))}
-            </select>
-          </div>
+        {/* Facets */}
+        <div className="space-y-5">
+          <h3 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-gray-500">
+            <SlidersHorizontal className="h-4 w-4" />
+            Filters
+          </h3>
 
-          <div className="flex items-center gap-2">
-            <SortAsc className="h-4 w-4 text-gray-500" />
-            <select
-              value={sortBy}
-              onChange={handleSortChange}
-              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="">Sort by...</option>
-              <option value="name">Name</option>
-              <option value="email">Email</option>
-              <option value="created_at">Date Created</option>
-            </select>
+          <FacetGroup
+            title="Skills"
+            values={skillFacets}
+            selected={filters.skills}
+            onToggle={toggle('skills')}
+          />
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Minimum proficiency</h4>
+            <div className="flex flex-wrap gap-1">
+              {[1, 2, 3, 4, 5].map((level) => {
+                const count = facets?.proficiency.find((facet) => facet.value === level)?.count;
+                const isSelected = filters.minLevel === level;
+                return (
+                  <button
+                    key={level}
+                    type="button"
+                    onClick={() =>
+                      setFilters((current) => ({ ...current, minLevel: isSelected ? undefined : level }))
+                    }
+                    className={`px-2 py-1 rounded-md text-xs border ${
+                      isSelected
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:border-blue-400'
+                    }`}
+                  >
+                    {level}+{count !== undefined && <span className="ml-1 opacity-75">({count})</span>}
+                  </button>
+                );
+              })}
+            </div>
           </div>
 
-          {(query || selectedSkill || sortBy) && (
-            <Button
-              type="button"
-              variant="outline"
-              onClick={clearFilters}
-              className="text-sm"
-            >
-              Clear Filters
-            </Button>
+          <FacetGroup
+            title="Companies"
+            values={facets?.companies ?? []}
+            selected={filters.companies}
+            onToggle={toggle('companies')}
+          />
+
+          <FacetGroup
+            title="Positions"
+            values={facets?.positions ?? []}
+            selected={filters.positions}
+            onToggle={toggle('positions')}
+          />
+
+          {years.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Worked between</h4>
+              <div className="flex items-center gap-2">
+                <select
+                  value={filters.from ?? ''}
+                  onChange={(e) => setFilters((current) => ({ ...current, from: e.target.value || undefined }))}
+                  className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Any</option>
+                  {years.map((year) => (
+                    <option key={year} value={year}>
+                      {year}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-gray-500 text-sm">–</span>
+                <select
+                  value={filters.to ?? ''}
+                  onChange={(e) => setFilters((current) => ({ ...current, to: e.target.value || undefined }))}
+                  className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Any</option>
+                  {years.map((year) => (
+                    <option key={year} value={year}>
+                      {year}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
           )}
         </div>
+
+        <div className="flex items-center gap-2">
+          <SortAsc className="h-4 w-4 text-gray-500" />
+          <select
+            value={sortBy}
+            onChange={handleSortChange}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Sort by...</option>
+            <option value="name">Name</option>
+            <option value="email">Email</option>
+            <option value="created_at">Date Created</option>
+          </select>
+        </div>
+
+        {(query || hasSearchFilters(filters) || sortBy) && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={clearFilters}
+            className="w-full text-sm"
+          >
+            Clear Filters
+          </Button>
+        )}
       </form>
     </div>
   );
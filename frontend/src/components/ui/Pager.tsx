@@ -0,0 +1,47 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from './Button';
+import { cn } from '@/lib/utils';
+import { Pagination } from '@/types';
+
+interface PagerProps {
+  pagination: Pagination;
+  onPageChange: (cursor: string, page: number) => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+// Previous/next navigation for cursor-paginated lists
+export function Pager({ pagination, onPageChange, isLoading, className }: PagerProps) {
+  const { total, currentPage = 1, totalPages = 1, nextCursor, prevCursor } = pagination;
+
+  if (totalPages <= 1) return null;
+
+  return (
+    <div className={cn('flex items-center justify-between gap-4', className)}>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!prevCursor || isLoading}
+        onClick={() => prevCursor && onPageChange(prevCursor, currentPage - 1)}
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Previous
+      </Button>
+
+      <span className="text-sm text-gray-600">
+        Page {currentPage} of {totalPages}
+        <span className="text-gray-400"> · {total} total</span>
+      </span>
+
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!nextCursor || isLoading}
+        onClick={() => nextCursor && onPageChange(nextCursor, currentPage + 1)}
+      >
+        Next
+        <ChevronRight className="h-4 w-4 ml-1" />
+      </Button>
+    </div>
+  );
+}
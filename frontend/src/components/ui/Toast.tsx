@@ -0,0 +1,107 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// How long a toast stays up, long enough to reach its Undo button
+const TOAST_DURATION_MS = 8000;
+
+interface ToastOptions {
+  message: string;
+  type?: 'success' | 'error';
+  // Shown with error toasts so users can quote it when reporting a problem
+  requestId?: string;
+  action?: {
+    label: string;
+    onClick: () => void | Promise<void>;
+  };
+}
+
+interface ToastContextValue {
+  showToast: (toast: ToastOptions) => void;
+}
+
+const ToastContext = createContext<ToastContextValue | null>(null);
+
+// Shows one toast at a time at the bottom of the screen; a new toast
+// replaces the current one
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toast, setToast] = useState<(ToastOptions & { id: number }) | null>(null);
+  const [isActing, setIsActing] = useState(false);
+  const nextId = useRef(0);
+
+  const showToast = useCallback((options: ToastOptions) => {
+    nextId.current += 1;
+    setToast({ ...options, id: nextId.current });
+  }, []);
+
+  useEffect(() => {
+    if (!toast) return;
+
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const handleAction = async () => {
+    if (!toast?.action) return;
+
+    setIsActing(true);
+    try {
+      await toast.action.onClick();
+      setToast(current => (current?.id === toast.id ? null : current));
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  return (
+    <ToastContext.Provider value={{ showToast }}>
+      {children}
+      <div aria-live="polite" className="fixed inset-x-0 bottom-6 z-50 flex justify-center px-4 pointer-events-none">
+        {toast && (
+          <div
+            role="status"
+            className={cn(
+              'pointer-events-auto flex items-center gap-4 rounded-lg px-4 py-3 text-sm text-white shadow-lg',
+              toast.type === 'error' ? 'bg-red-600' : 'bg-gray-900'
+            )}
+          >
+            <div>
+              <p>{toast.message}</p>
+              {toast.requestId && (
+                <p className="mt-0.5 font-mono text-xs opacity-75">Request ID: {toast.requestId}</p>
+              )}
+            </div>
+            {toast.action && (
+              <button
+                type="button"
+                onClick={handleAction}
+                disabled={isActing}
+                className="font-semibold text-blue-300 hover:text-blue-200 disabled:opacity-50"
+              >
+                {toast.action.label}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setToast(null)}
+              aria-label="Dismiss"
+              className="text-gray-300 hover:text-white"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast(): ToastContextValue {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used inside ToastProvider');
+  }
+  return context;
+}
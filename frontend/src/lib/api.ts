@@ -1,13 +1,32 @@
-import axios, { AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { 
   Profile, 
+  ProfileInput,
   Stats, 
   SearchResults, 
-  ProjectFilter, 
+  SearchFilters,
+  ProjectSearchPage,
+  ProfilePage,
+  ResumeFormat,
+  ImportPreview,
+  ImportResult,
+  ProfileRevision,
+  RevisionDiff,
+  Trashed,
+  TrashType,
   SkillsResponse,
+  TopSkillsResponse,
+  CatalogSkill,
   Project,
-  WorkExperience
+  ProjectInput,
+  WorkExperience,
+  WorkExperienceInput,
+  LoginResponse,
+  User,
+  FieldError,
+  ProblemDetails
 } from '@/types';
+import { getAccessToken, getRefreshToken, saveSession, clearSession } from '@/lib/auth';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api';
 
@@ -20,161 +39,409 @@ const api = axios.create({
   },
 });
 
-// Test API connectivity on startup
-const testApiConnection = async () => {
-  try {
-    const response = await fetch(`${API_BASE.replace('/api', '')}/api/health`);
-    console.log('API Health Check:', response.status);
-  } catch (error) {
-    console.error('API Health Check Failed:', error);
+// Request interceptor attaching the bearer token
+api.interceptors.request.use((config) => {
+  const token = getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
   }
-};
+  return config;
+});
 
-// Run health check
-testApiConnection();
+// Shared by concurrent requests so an expired token is refreshed only once
+let refreshPromise: Promise<string | null> | null = null;
 
-// Request interceptor for logging
-api.interceptors.request.use(
-  (config) => {
-    console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`, {
-      baseURL: config.baseURL,
-      fullURL: `${config.baseURL}${config.url}`
-    });
-    return config;
-  },
-  (error) => {
-    console.error('API Request Error:', error);
-    return Promise.reject(error);
+const refreshAccessToken = (): Promise<string | null> => {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    return Promise.resolve(null);
   }
-);
 
-// Response interceptor for error handling
+  if (!refreshPromise) {
+    // Plain axios so the refresh call does not go through these interceptors
+    refreshPromise = axios
+      .post<LoginResponse>(`${API_BASE}/auth/refresh`, { refreshToken })
+      .then((response) => {
+        saveSession(response.data);
+        return response.data.token;
+      })
+      .catch(() => {
+        clearSession();
+        return null;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+};
+
+// Response interceptor turning every failure into an ApiError, for callers
+// to report with errorMessage and requestIdOf
 api.interceptors.response.use(
-  (response: AxiosResponse) => {
-    console.log(`API Response: ${response.status} ${response.config.url}`);
-    return response;
-  },
-  (error) => {
-    // Handle completely empty error objects
-    if (!error || Object.keys(error).length === 0) {
-      console.error('API Error: Empty error object received');
-      return Promise.reject(new Error('Unknown API error occurred'));
+  (response: AxiosResponse) => response,
+  async (error) => {
+    // Retry once with a fresh access token when the current one has expired
+    const original = error?.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+    if (original && !original._retried && error.response?.data?.code === 'TOKEN_EXPIRED') {
+      original._retried = true;
+      const token = await refreshAccessToken();
+      if (token) {
+        original.headers.Authorization = `Bearer ${token}`;
+        return api(original);
+      }
     }
 
-    // Handle different types of errors
-    if (error.code === 'ECONNREFUSED' || error.code === 'ERR_NETWORK') {
-      console.error('API Connection Error: Backend server is not running or unreachable');
-    } else if (error.code === 'ERR_CANCELED') {
-      console.error('API Request Canceled');
-    } else if (error.response) {
-      // Server responded with error status
-      console.error('API Response Error:', {
-        status: error.response.status,
-        statusText: error.response.statusText,
-        data: error.response.data,
-        url: error.config?.url,
-        method: error.config?.method
-      });
-    } else if (error.request) {
-      // Request was made but no response received
-      console.error('API Request Error: No response received', {
-        url: error.config?.url,
-        method: error.config?.method,
-        timeout: error.code === 'ECONNABORTED'
-      });
-    } else {
-      // Something else happened
-      console.error('API Error:', {
-        message: error.message,
-        code: error.code,
-        url: error.config?.url,
-        method: error.config?.method,
-        fullError: error
+    return Promise.reject(parseApiError(error));
+  }
+);
+
+// Error thrown by every failed API call. Responses from the backend carry
+// its problem details; network failures, timeouts and cancellations have
+// status 0 and a code of their own.
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly title: string;
+  readonly requestId?: string;
+  readonly errors: FieldError[];
+
+  constructor({ status, code, title, detail, requestId, errors = [] }: {
+    status: number;
+    code: string;
+    title: string;
+    detail: string;
+    requestId?: string;
+    errors?: FieldError[];
+  }) {
+    super(detail);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.title = title;
+    this.requestId = requestId;
+    this.errors = errors;
+  }
+
+  get detail(): string {
+    return this.message;
+  }
+}
+
+const isProblemDetails = (data: unknown): data is ProblemDetails =>
+  typeof data === 'object' && data !== null && typeof (data as ProblemDetails).code === 'string';
+
+// Turn whatever a failed request rejected with into an ApiError
+export const parseApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (!axios.isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : 'Unknown API error occurred';
+    return new ApiError({ status: 0, code: 'UNKNOWN_ERROR', title: 'Unknown error', detail: message });
+  }
+
+  const { response } = error as AxiosError<unknown>;
+  if (response) {
+    const requestId = response.headers?.['x-request-id'] as string | undefined;
+    if (isProblemDetails(response.data)) {
+      const problem = response.data;
+      return new ApiError({
+        status: problem.status ?? response.status,
+        code: problem.code,
+        title: problem.title,
+        detail: problem.detail ?? problem.title,
+        requestId: problem.request_id ?? requestId,
+        errors: problem.errors
       });
     }
-    return Promise.reject(error);
+    // Not from the API itself, e.g. a proxy error page
+    return new ApiError({
+      status: response.status,
+      code: 'HTTP_ERROR',
+      title: response.statusText || 'Request failed',
+      detail: `Request failed with status ${response.status}`,
+      requestId
+    });
+  }
+
+  if (error.code === 'ERR_CANCELED') {
+    return new ApiError({ status: 0, code: 'REQUEST_CANCELED', title: 'Request canceled', detail: 'The request was canceled' });
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new ApiError({ status: 0, code: 'TIMEOUT', title: 'Request timed out', detail: 'The server took too long to respond' });
+  }
+  return new ApiError({
+    status: 0,
+    code: 'NETWORK_ERROR',
+    title: 'Network error',
+    detail: 'The server is not reachable. Check your connection and try again.'
+  });
+};
+
+// Message to show for a failed API call
+export const errorMessage = (error: unknown, fallback: string): string => {
+  const apiError = parseApiError(error);
+  return apiError.code === 'UNKNOWN_ERROR' ? fallback : apiError.detail;
+};
+
+// Request ID of a failed API call, to quote when reporting the error
+export const requestIdOf = (error: unknown): string | undefined =>
+  error instanceof ApiError ? error.requestId : undefined;
+
+// Read the cursors out of an RFC 8288 Link header, keyed by rel
+const cursorsFromLink = (header?: string): Record<string, string> => {
+  const cursors: Record<string, string> = {};
+
+  for (const part of (header ?? '').split(',')) {
+    const match = part.match(/<([^>]+)>;\s*rel="([^"]+)"/);
+    const cursor = match && new URL(match[1]).searchParams.get('cursor');
+    if (match && cursor) cursors[match[2]] = cursor;
   }
-);
+
+  return cursors;
+};
 
 // API functions
 export const profileApi = {
   // Get all profiles
-  getAll: async (): Promise<Profile[]> => {
-    const response = await api.get<Profile[]>('/profile');
+  getAll: async (sort?: string): Promise<Profile[]> => {
+    const response = await api.get<Profile[]>('/profile', {
+      params: { sort: sort || undefined }
+    });
     return response.data;
   },
   
+  // Get one page of profiles. The body is a plain array, so the page is
+  // described by the X-Total-Count and Link headers.
+  list: async (sort?: string, cursor?: string, limit: number = 9, currentPage: number = 1): Promise<ProfilePage> => {
+    const response = await api.get<Profile[]>('/profile', {
+      params: { sort: sort || undefined, cursor, limit }
+    });
+    const total = Number(response.headers['x-total-count'] ?? response.data.length);
+    const cursors = cursorsFromLink(response.headers['link']);
+
+    return {
+      profiles: response.data,
+      pagination: {
+        limit,
+        offset: (currentPage - 1) * limit,
+        total,
+        hasMore: Boolean(cursors.next),
+        currentPage,
+        totalPages: Math.max(Math.ceil(total / limit), 1),
+        nextCursor: cursors.next ?? null,
+        prevCursor: cursors.prev ?? null,
+      },
+    };
+  },
+
   // Get single profile (for backward compatibility)
   get: async (): Promise<Profile> => {
     const response = await api.get<Profile[]>('/profile');
     return response.data[0]; // Return the first (most recent) profile
   },
 
+  // Get a profile by ID
+  getById: async (id: number): Promise<Profile> => {
+    const response = await api.get<Profile>(`/profiles/${id}`);
+    return response.data;
+  },
+
+  // Download URL of a profile's resume. Export is public, so the browser
+  // can fetch it directly.
+  exportUrl: (id: number, format: ResumeFormat): string =>
+    `${API_BASE}/profiles/${id}/export?format=${format}`,
+
+  // Import a JSON Resume, LinkedIn export or vCard file. The file is the
+  // request body; the server detects its format. A dry run only previews it.
+  previewImport: async (file: File): Promise<ImportPreview> => {
+    const response = await api.post<ImportPreview>('/profiles/import', file, {
+      params: { dry_run: true },
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    });
+    return response.data;
+  },
+
+  import: async (file: File): Promise<ImportResult> => {
+    const response = await api.post<ImportResult>('/profiles/import', file, {
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    });
+    return response.data;
+  },
+
+  // Revision history of a profile, newest first (owner or admin only)
+  getRevisions: async (id: number, limit: number = 50): Promise<ProfileRevision[]> => {
+    const response = await api.get<{ revisions: ProfileRevision[] }>(`/profiles/${id}/revisions`, {
+      params: { limit }
+    });
+    return response.data.revisions;
+  },
+
+  // Field-level changes from one revision to another
+  diffRevisions: async (id: number, from: number, to: number): Promise<RevisionDiff> => {
+    const response = await api.get<RevisionDiff>(`/profiles/${id}/revisions/diff`, {
+      params: { from, to }
+    });
+    return response.data;
+  },
+
+  // Bring a profile back to a revision; the restore becomes a new revision
+  restoreRevision: async (id: number, revision: number): Promise<Profile> => {
+    const response = await api.post<Profile>(`/profiles/${id}/revisions/${revision}/restore`);
+    return response.data;
+  },
+
   // Create profile
-  create: async (profileData: Partial<Profile>): Promise<{ message: string; profileId: number }> => {
+  create: async (profileData: ProfileInput): Promise<{ message: string; profileId: number }> => {
     const response = await api.post<{ message: string; profileId: number }>('/profile', profileData);
     return response.data;
   },
 
-  // Update profile
-  update: async (profileData: Partial<Profile>): Promise<{ message: string }> => {
-    const response = await api.put<{ message: string }>('/profile', profileData);
+  // Replace a profile and all of its related data
+  update: async (id: number, profileData: ProfileInput): Promise<Profile> => {
+    const response = await api.put<Profile>(`/profiles/${id}`, profileData);
+    return response.data;
+  },
+
+  // Update only the given fields of a profile
+  patch: async (id: number, profileData: Partial<ProfileInput>): Promise<Profile> => {
+    const response = await api.patch<Profile>(`/profiles/${id}`, profileData);
+    return response.data;
+  },
+
+  // Move a profile to the trash
+  delete: async (id: number): Promise<Trashed> => {
+    const response = await api.delete<Trashed>(`/profiles/${id}`);
     return response.data;
   },
 
-  // Delete profile
-  delete: async (): Promise<{ message: string }> => {
-    const response = await api.delete<{ message: string }>('/profile');
+  // Take a deleted profile, project or work experience out of the trash
+  restoreFromTrash: async (type: TrashType, id: number): Promise<{ message: string }> => {
+    const response = await api.post<{ message: string }>(`/trash/${type}/${id}/restore`);
     return response.data;
   },
 
+  // List the projects of a profile
+  getProjects: async (profileId: number): Promise<Project[]> => {
+    const response = await api.get<{ projects: Project[] }>(`/profiles/${profileId}/projects`);
+    return response.data.projects;
+  },
+
   // Add project
-  addProject: async (projectData: Omit<Project, 'id' | 'created_at'>): Promise<{ message: string }> => {
-    const response = await api.post<{ message: string }>('/profile/projects', projectData);
+  addProject: async (profileId: number, projectData: ProjectInput): Promise<Project> => {
+    const response = await api.post<Project>(`/profiles/${profileId}/projects`, projectData);
+    return response.data;
+  },
+
+  // Update project
+  updateProject: async (profileId: number, projectId: number, projectData: Partial<ProjectInput>): Promise<Project> => {
+    const response = await api.patch<Project>(`/profiles/${profileId}/projects/${projectId}`, projectData);
     return response.data;
   },
 
-  // Delete project
-  deleteProject: async (projectId: number): Promise<{ message: string }> => {
-    const response = await api.delete<{ message: string }>(`/profile/projects/${projectId}`);
+  // Move a project to the trash
+  deleteProject: async (projectId: number): Promise<Trashed> => {
+    const response = await api.delete<Trashed>(`/profile/projects/${projectId}`);
     return response.data;
   },
 
+  // List the work experience of a profile
+  getWorkExperience: async (profileId: number): Promise<WorkExperience[]> => {
+    const response = await api.get<{ workExperience: WorkExperience[] }>(`/profiles/${profileId}/work-experience`);
+    return response.data.workExperience;
+  },
+
   // Add work experience
-  addWorkExperience: async (workData: Omit<WorkExperience, 'id'>): Promise<{ message: string }> => {
-    const response = await api.post<{ message: string }>('/profile/work-experience', workData);
+  addWorkExperience: async (profileId: number, workData: WorkExperienceInput): Promise<WorkExperience> => {
+    const response = await api.post<WorkExperience>(`/profiles/${profileId}/work-experience`, workData);
+    return response.data;
+  },
+
+  // Update work experience
+  updateWorkExperience: async (profileId: number, workId: number, workData: Partial<WorkExperienceInput>): Promise<WorkExperience> => {
+    const response = await api.patch<WorkExperience>(`/profiles/${profileId}/work-experience/${workId}`, workData);
+    return response.data;
+  },
+
+  // Move a work experience entry to the trash
+  deleteWorkExperience: async (workId: number): Promise<Trashed> => {
+    const response = await api.delete<Trashed>(`/profile/work-experience/${workId}`);
     return response.data;
   },
+};
 
-  // Delete work experience
-  deleteWorkExperience: async (workId: number): Promise<{ message: string }> => {
-    const response = await api.delete<{ message: string }>(`/profile/work-experience/${workId}`);
+export const authApi = {
+  // Log in and store the session
+  login: async (username: string, password: string): Promise<LoginResponse> => {
+    const response = await api.post<LoginResponse>('/auth/login', { username, password });
+    saveSession(response.data);
     return response.data;
   },
+
+  // Revoke the refresh token and forget the session
+  logout: async (): Promise<void> => {
+    const refreshToken = getRefreshToken();
+    try {
+      if (refreshToken) {
+        await api.post('/auth/logout', { refreshToken });
+      }
+    } finally {
+      clearSession();
+    }
+  },
+
+  // Get the user for the current access token
+  me: async (): Promise<User> => {
+    const response = await api.get<{ user: User }>('/auth/me');
+    return response.data.user;
+  },
 };
 
 export const searchApi = {
   // General search
-  search: async (query: string, type: string = 'all', page: number = 1, limit: number = 20): Promise<SearchResults> => {
-    const offset = (page - 1) * limit;
+  search: async (
+    query: string,
+    filters?: SearchFilters,
+    sort?: string,
+    cursor?: string,
+    type: string = 'all',
+    limit: number = 20
+  ): Promise<SearchResults> => {
     const response = await api.get<SearchResults>('/search', {
-      params: { q: query, type, limit, offset }
+      params: {
+        q: query || undefined,
+        type,
+        limit,
+        cursor,
+        skill: filters?.skills,
+        company: filters?.companies,
+        position: filters?.positions,
+        minLevel: filters?.minLevel,
+        from: filters?.from,
+        to: filters?.to,
+        sort: sort || undefined,
+      },
+      // Repeat array params as skill=a&skill=b
+      paramsSerializer: { indexes: null },
     });
     return response.data;
   },
 
   // Filter projects by skill
-  filterProjectsBySkill: async (skill: string, page: number = 1, limit: number = 10): Promise<ProjectFilter> => {
+  filterProjectsBySkill: async (skill: string, page: number = 1, limit: number = 10): Promise<ProjectSearchPage> => {
     const offset = (page - 1) * limit;
-    const response = await api.get<ProjectFilter>('/projects', {
+    const response = await api.get<ProjectSearchPage>('/projects', {
       params: { skill, limit, offset }
     });
     return response.data;
   },
 
   // Get top skills
-  getTopSkills: async (limit: number = 10): Promise<SkillsResponse> => {
-    const response = await api.get<SkillsResponse>('/skills/top', {
+  getTopSkills: async (limit: number = 10): Promise<TopSkillsResponse> => {
+    const response = await api.get<TopSkillsResponse>('/skills/top', {
       params: { limit }
     });
     return response.data;
@@ -187,6 +454,16 @@ export const searchApi = {
   },
 };
 
+export const skillCatalogApi = {
+  // Catalog skills whose name or alias starts with the query
+  search: async (query: string, limit: number = 8): Promise<CatalogSkill[]> => {
+    const response = await api.get<{ skills: CatalogSkill[] }>('/skill-catalog', {
+      params: { q: query || undefined, limit }
+    });
+    return response.data.skills;
+  },
+};
+
 export const statsApi = {
   // Get statistics
   get: async (): Promise<Stats> => {
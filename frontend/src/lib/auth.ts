@@ -0,0 +1,63 @@
+import { LoginResponse, Profile, User } from '@/types';
+
+// Session storage for the API tokens. Kept in localStorage so a login
+// survives reloads; every read is guarded for server rendering.
+
+const ACCESS_TOKEN_KEY = 'me-api.accessToken';
+const REFRESH_TOKEN_KEY = 'me-api.refreshToken';
+const USER_KEY = 'me-api.user';
+
+// Fired on window whenever the stored session changes
+export const AUTH_CHANGE_EVENT = 'me-api:auth-change';
+
+const storage = () => (typeof window === 'undefined' ? null : window.localStorage);
+
+export function getAccessToken(): string | null {
+  return storage()?.getItem(ACCESS_TOKEN_KEY) ?? null;
+}
+
+export function getRefreshToken(): string | null {
+  return storage()?.getItem(REFRESH_TOKEN_KEY) ?? null;
+}
+
+export function getStoredUser(): User | null {
+  const raw = storage()?.getItem(USER_KEY);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as User;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: LoginResponse): void {
+  const store = storage();
+  if (!store) return;
+
+  store.setItem(ACCESS_TOKEN_KEY, session.token);
+  store.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  store.setItem(USER_KEY, JSON.stringify(session.user));
+  window.dispatchEvent(new Event(AUTH_CHANGE_EVENT));
+}
+
+export function clearSession(): void {
+  const store = storage();
+  if (!store) return;
+
+  store.removeItem(ACCESS_TOKEN_KEY);
+  store.removeItem(REFRESH_TOKEN_KEY);
+  store.removeItem(USER_KEY);
+  window.dispatchEvent(new Event(AUTH_CHANGE_EVENT));
+}
+
+// Viewers may only read
+export function canWrite(user: User | null): boolean {
+  return user?.role === 'admin' || user?.role === 'editor';
+}
+
+// Admins may change any profile, editors only the ones they own
+export function canModifyProfile(user: User | null, profile: Profile): boolean {
+  if (!canWrite(user)) return false;
+  return user?.role === 'admin' || (profile.owner_id != null && profile.owner_id === user?.id);
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { SearchFilters } from '@/types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -14,10 +15,32 @@ export function formatDate(dateString: string): string {
   });
 }
 
-export function formatDateRange(startDate: string, endDate?: string): string {
-  const start = formatDate(startDate);
-  const end = endDate ? formatDate(endDate) : 'Present';
-  return `${start} - ${end}`;
+// Format a "YYYY-MM" month as "Jan 2022". Parsed by hand so the result
+// does not depend on the browser's date parsing or time zone.
+export function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+export function formatDateRange(startDate?: string | null, endDate?: string | null, isCurrent = false): string {
+  if (!startDate) return '';
+  const start = formatMonth(startDate);
+  if (isCurrent) return `${start} - Present`;
+  return endDate ? `${start} - ${formatMonth(endDate)}` : start;
+}
+
+// Format a number of months as "2 yrs 3 mos"
+export function formatTenure(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [];
+  if (years > 0) parts.push(`${years} ${years === 1 ? 'yr' : 'yrs'}`);
+  if (rest > 0 || years === 0) parts.push(`${rest} ${rest === 1 ? 'mo' : 'mos'}`);
+  return parts.join(' ');
 }
 
 export function truncateText(text: string, maxLength: number): string {
@@ -57,3 +80,12 @@ export function getInitials(name: string): string {
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return (
+    filters.skills.length > 0 ||
+    filters.companies.length > 0 ||
+    filters.positions.length > 0 ||
+    Boolean(filters.minLevel || filters.from || filters.to)
+  );
+}
@@ -0,0 +1,677 @@
+// Generated from lib/contract.js by `npm run contract:types`. Do not edit;
+// change the contract and regenerate.
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+export type ApiKeyScope = 'profile:read' | 'profile:write';
+
+export type ProjectLinkKind = 'repo' | 'demo' | 'docs' | 'video';
+
+export type SkillCategory = 'language' | 'framework' | 'cloud' | 'database' | 'other';
+
+export type ImportFormat = 'jsonresume' | 'linkedin' | 'vcard';
+
+export type RevisionAction = 'create' | 'import' | 'update' | 'restore';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'login' | 'login_failed';
+
+export type AuditEntityType =
+  | 'profile'
+  | 'project'
+  | 'work_experience'
+  | 'catalog_skill'
+  | 'api_key'
+  | 'webhook'
+  | 'user';
+
+export type WebhookEvent =
+  | 'profile.created'
+  | 'profile.updated'
+  | 'profile.deleted'
+  | 'profile.restored'
+  | 'project.created'
+  | 'project.updated'
+  | 'project.deleted'
+  | 'project.restored'
+  | 'work_experience.created'
+  | 'work_experience.updated'
+  | 'work_experience.deleted'
+  | 'work_experience.restored';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'MISSING_CREDENTIALS'
+  | 'MISSING_REFRESH_TOKEN'
+  | 'MISSING_QUERY'
+  | 'INVALID_JSON'
+  | 'INVALID_INPUT'
+  | 'INVALID_ID'
+  | 'INVALID_PROJECT_ID'
+  | 'INVALID_WORK_ID'
+  | 'INVALID_CHILD_ID'
+  | 'INVALID_CURSOR'
+  | 'INVALID_IMPORT'
+  | 'INVALID_MERGE'
+  | 'INVALID_PATCH'
+  | 'VALUE_TOO_LONG'
+  | 'FOREIGN_KEY_CONSTRAINT'
+  | 'NO_TOKEN'
+  | 'TOKEN_EXPIRED'
+  | 'INVALID_API_KEY'
+  | 'INVALID_CREDENTIALS'
+  | 'INVALID_REFRESH_TOKEN'
+  | 'INVALID_TOKEN'
+  | 'FORBIDDEN'
+  | 'INSUFFICIENT_SCOPE'
+  | 'NOT_PROFILE_OWNER'
+  | 'SESSION_REQUIRED'
+  | 'NOT_FOUND'
+  | 'PROFILE_NOT_FOUND'
+  | 'PROFILES_NOT_FOUND'
+  | 'PROJECT_NOT_FOUND'
+  | 'WORK_NOT_FOUND'
+  | 'REVISION_NOT_FOUND'
+  | 'SKILL_NOT_FOUND'
+  | 'API_KEY_NOT_FOUND'
+  | 'NOT_IN_TRASH'
+  | 'WEBHOOK_NOT_FOUND'
+  | 'DELIVERY_NOT_FOUND'
+  | 'DUPLICATE_ENTRY'
+  | 'PROFILE_EXISTS'
+  | 'SKILL_CONFLICT'
+  | 'PATCH_TEST_FAILED'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'WRITE_RATE_LIMIT_EXCEEDED'
+  | 'AUTH_RATE_LIMIT_EXCEEDED'
+  | 'SEARCH_RATE_LIMIT_EXCEEDED'
+  | 'API_KEY_RATE_LIMIT_EXCEEDED'
+  | 'INTERNAL_ERROR'
+  | 'DATABASE_ERROR'
+  | 'DATABASE_UNAVAILABLE';
+
+export interface Profile {
+  id: number;
+  name: string;
+  email: string;
+  education: string | null;
+  github_url: string | null;
+  linkedin_url: string | null;
+  portfolio_url: string | null;
+  /** ID of the user who owns the profile */
+  owner_id: number | null;
+  /** Canonical names from the skill catalog */
+  skills: string[];
+  /** The same skills with their proficiency, in the same order */
+  skillsWithLevel: SkillWithLevel[];
+  projects: Project[];
+  workExperience: WorkExperience[];
+  /** Months of work experience. Overlapping jobs are counted once. */
+  total_experience_months: number;
+  total_experience_years: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Items that carry an id update the existing record; items without one are created and records that are left out are moved to the trash. */
+export interface ProfileInput {
+  name: string;
+  email: string;
+  education?: string | null;
+  github_url?: string | null;
+  linkedin_url?: string | null;
+  portfolio_url?: string | null;
+  /** Skill names (level 1) or skills with a level */
+  skills?: (string | SkillInput)[];
+  projects?: ProfileProjectInput[];
+  workExperience?: ProfileWorkExperienceInput[];
+}
+
+export interface SkillWithLevel {
+  id: number;
+  /** Canonical name */
+  skill_name: string;
+  proficiency_level: number;
+  catalog_entry_id: number | null;
+}
+
+export interface SkillInput {
+  id?: number;
+  name: string;
+  level?: number;
+}
+
+export interface ProfileCreated {
+  message: string;
+  profileId: number;
+}
+
+export interface Project {
+  id: number;
+  title: string;
+  description: string | null;
+  links: ProjectLink[];
+  /** Skills the project used. Names are resolved through the skill catalog and returned in canonical form. */
+  skills: string[];
+  created_at: string;
+}
+
+export interface ProjectInput {
+  title: string;
+  description?: string | null;
+  /** Leaving out links keeps the current ones */
+  links?: ProjectLinkInput[];
+  /** Skills the project used. Leaving out skills keeps the current ones. */
+  skills?: string[];
+}
+
+export type ProfileProjectInput = ProjectInput & {
+  id?: number;
+};
+
+export type ProjectLink = ProjectLinkInput & {
+  id: number;
+  /** HTTP status of the last check, after following redirects */
+  status_code: number | null;
+  /** Where the link redirected to, when it did */
+  redirect_url: string | null;
+  /** Why the last check got no response (timeout, DNS failure, too many redirects) */
+  check_error: string | null;
+  last_checked_at: string | null;
+  /** True when the last check failed or returned a 4xx/5xx status */
+  broken: boolean;
+};
+
+export interface ProjectLinkInput {
+  kind: ProjectLinkKind;
+  name: string;
+  url: string;
+}
+
+export type ProjectWithProfile = Project & {
+  profile_name: string;
+};
+
+export interface WorkExperience {
+  id: number;
+  company: string;
+  position: string;
+  start_date: string | null;
+  end_date: string | null;
+  /** Still in this job. A current job has no end date. */
+  is_current: boolean;
+  description: string | null;
+  /** Skills used in the job. Names are resolved through the skill catalog and returned in canonical form. */
+  skills: string[];
+  /** Months in the job, counting the start and end month. Null when the dates are not known. */
+  tenure_months: number | null;
+}
+
+export interface WorkExperienceInput {
+  company: string;
+  position: string;
+  start_date?: string | null;
+  end_date?: string | null;
+  /** A current job cannot have an end date */
+  is_current?: boolean;
+  description?: string | null;
+  /** Skills used in the job. Leaving out skills keeps the current ones. */
+  skills?: string[];
+}
+
+export type ProfileWorkExperienceInput = WorkExperienceInput & {
+  id?: number;
+};
+
+export interface Skill {
+  name: string;
+  proficiency: number;
+}
+
+export interface SkillsResponse {
+  skills: Skill[];
+  pagination: Pagination;
+}
+
+export interface TopSkill {
+  name: string;
+  /** Number of profiles with this skill */
+  frequency: number;
+  averageProficiency?: number;
+}
+
+export interface TopSkillsResponse {
+  skills: TopSkill[];
+}
+
+export interface CatalogSkill {
+  id: number;
+  /** Canonical name */
+  name: string;
+  category: SkillCategory;
+  aliases: string[];
+  /** Number of profiles with this skill */
+  profile_count: number;
+  created_at: string;
+}
+
+export interface CatalogSkillInput {
+  name: string;
+  category?: SkillCategory;
+  aliases?: string[];
+}
+
+export interface Stats {
+  total_profiles: number;
+  total_projects: number;
+  unique_skills: number;
+  total_work_experience: number;
+  topSkills: {
+    name: string;
+    frequency: number;
+  }[];
+}
+
+export interface ImportPreview {
+  dry_run: true;
+  format: ImportFormat;
+  /** Whether importing would succeed */
+  valid: boolean;
+  /** Validation errors that would fail the import */
+  errors: FieldError[];
+  /** Data that was skipped or shortened to fit */
+  warnings: string[];
+  /** The profile that would be created, in the shape POST /api/profile accepts */
+  profile: ProfileInput;
+}
+
+export interface ImportResult {
+  message: string;
+  profileId: number;
+  format: ImportFormat;
+  warnings: string[];
+}
+
+export interface ProfileRevision {
+  revision: number;
+  action: RevisionAction;
+  /** For restores, the revision that was restored */
+  restored_from: number | null;
+  /** Who made the change; null once the user is deleted */
+  user: UserRef | null;
+  created_at: string;
+  /** The full profile after the change, in the shape PUT /api/profiles/{id} accepts. Only included when a single revision is requested. */
+  profile?: ProfileInput;
+}
+
+export interface RevisionChange {
+  /** Changed field; collection items are addressed by ID */
+  path: string;
+  /** Name of the collection item the change belongs to */
+  label?: string;
+  change: 'added' | 'removed' | 'changed';
+  /** Value in the `from` revision, or null */
+  from: unknown;
+  /** Value in the `to` revision, or null */
+  to: unknown;
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  changes: RevisionChange[];
+}
+
+export interface Trashed {
+  message: string;
+  deleted_at: string;
+  /** When the trash purge deletes it for good */
+  purge_at: string;
+}
+
+export interface TrashEntry {
+  type: 'profile' | 'project' | 'work';
+  id: number;
+  profile_id: number;
+  /** Profile name, project title or "position at company" */
+  title: string;
+  deleted_at: string;
+  purge_at: string;
+}
+
+export interface Restored {
+  message: string;
+  profile_id: number;
+}
+
+export interface SearchHit {
+  type: 'profile' | 'project' | 'work' | 'skill';
+  id: number;
+  profile_id?: number;
+  title: string;
+  subtitle?: string | null;
+  rank: number;
+  created_at?: string;
+  /** Snippet split into plain and matched segments */
+  highlight: HighlightSegment[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface FacetCount {
+  value: string;
+  /** Number of hits with this value */
+  count: number;
+}
+
+export interface LevelFacetCount {
+  value: number;
+  /** Number of hits with a skill at this level or above */
+  count: number;
+}
+
+export interface SearchFacets {
+  skills: FacetCount[];
+  companies: FacetCount[];
+  positions: FacetCount[];
+  proficiency: LevelFacetCount[];
+  /** Hits with a job started in this year */
+  years: FacetCount[];
+}
+
+export interface SearchResults {
+  query: string;
+  type: 'all' | 'profiles' | 'projects' | 'skills' | 'work';
+  /** True when no exact match was found and typo-tolerant matching was used */
+  fuzzy: boolean;
+  filters: {
+    skills: string[];
+    companies: string[];
+    positions: string[];
+    minLevel?: number;
+    from?: string;
+    to?: string;
+  };
+  hits: SearchHit[];
+  facets: SearchFacets;
+  /** The same hits grouped by type */
+  results: {
+    profiles: SearchHit[];
+    projects: SearchHit[];
+    skills: SearchHit[];
+    workExperience: SearchHit[];
+  };
+  pagination: Pagination;
+}
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+  total: number;
+  hasMore: boolean;
+  currentPage: number;
+  totalPages: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface ProjectPage {
+  projects: Project[];
+  pagination: Pagination;
+}
+
+export interface ProjectSearchPage {
+  projects: ProjectWithProfile[];
+  pagination: Pagination;
+}
+
+export interface WorkExperiencePage {
+  workExperience: WorkExperience[];
+  pagination: Pagination;
+}
+
+export interface RevisionPage {
+  revisions: ProfileRevision[];
+  pagination: Pagination;
+}
+
+export interface CatalogSkillPage {
+  skills: CatalogSkill[];
+  pagination: Pagination;
+}
+
+export interface ApiKeyPage {
+  apiKeys: ApiKey[];
+  pagination: Pagination;
+}
+
+export interface TrashPage {
+  trash: TrashEntry[];
+  pagination: Pagination;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  pagination: Pagination;
+}
+
+export interface WebhookPage {
+  webhooks: Webhook[];
+  pagination: Pagination;
+}
+
+export interface WebhookDeliveryPage {
+  deliveries: WebhookDelivery[];
+  pagination: Pagination;
+}
+
+export interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+export interface UserRef {
+  id: number;
+  username: string;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  message: string;
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  user: User;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  /** First characters of the key, to tell keys apart */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface AuditEvent {
+  id: number;
+  /** Null for failed logins and for users that have since been deleted */
+  actor: UserRef | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: number | null;
+  /** State of the entity before the change. Profiles are recorded in the format the write endpoints accept, everything else in the format the API returns. */
+  before: Record<string, unknown> | null;
+  /** State of the entity after the change */
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+export interface Webhook {
+  id: number;
+  url: string;
+  events: WebhookEvent[];
+  /** Paused subscriptions get no new deliveries and pending ones wait */
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookWithSecret = Webhook & {
+  /** Key of the HMAC signatures. Only returned when the subscription is created. */
+  secret: string;
+};
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  /** Generated when left out */
+  secret?: string;
+  active?: boolean;
+}
+
+/** Fields to change; a new secret takes effect for the next attempt of every delivery */
+export interface WebhookPatch {
+  url?: string;
+  events?: WebhookEvent[];
+  secret?: string;
+  active?: boolean;
+}
+
+/** Body of a webhook request */
+export interface WebhookPayload {
+  /** ID of the event, the same for every subscription and replay */
+  id: string;
+  event: 'profile.created' | 'profile.updated' | 'profile.deleted' | 'profile.restored' | 'project.created' | 'project.updated' | 'project.deleted' | 'project.restored' | 'work_experience.created' | 'work_experience.updated' | 'work_experience.deleted' | 'work_experience.restored' | 'ping';
+  created_at: string;
+  /** For changes: entity_type, id, profile_id, and before and after in the format of the audit log. For pings: subscription_id and events. */
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  subscription_id: number;
+  event: 'profile.created' | 'profile.updated' | 'profile.deleted' | 'profile.restored' | 'project.created' | 'project.updated' | 'project.deleted' | 'project.restored' | 'work_experience.created' | 'work_experience.updated' | 'work_experience.deleted' | 'work_experience.restored' | 'ping';
+  event_id: string;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  /** When a pending delivery is sent next */
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  /** Status code of the last attempt */
+  response_status: number | null;
+  /** Why the last attempt failed */
+  error: string | null;
+  delivered_at: string | null;
+  /** ID of the delivery this one replays */
+  replay_of: number | null;
+  created_at: string;
+}
+
+export type WebhookDeliveryDetail = WebhookDelivery & {
+  payload: WebhookPayload;
+  attempts: WebhookAttempt[];
+};
+
+export interface WebhookAttempt {
+  id: number;
+  response_status: number | null;
+  /** Start of the response body */
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+export interface GraphQLRequest {
+  query: string;
+  /** Values of the variables of the query */
+  variables?: Record<string, unknown> | null;
+  /** Operation to run when the query has several */
+  operationName?: string | null;
+}
+
+export interface GraphQLResponse {
+  /** Result of the query, missing when the query could not run */
+  data?: Record<string, unknown> | null;
+  errors?: GraphQLError[];
+}
+
+export interface GraphQLError {
+  message: string;
+  locations?: {
+    line: number;
+    column: number;
+  }[];
+  /** Field names and list indexes leading to the field that failed */
+  path?: (string | number)[];
+  /** Code and HTTP status the error would have in the REST API */
+  extensions?: {
+    code: ErrorCode;
+    status: number;
+  };
+}
+
+export interface Health {
+  status: string;
+  timestamp: string;
+  /** Seconds since the server started */
+  uptime: number;
+  environment: string;
+  version: string;
+}
+
+export interface Message {
+  message: string;
+}
+
+/** Problem details (RFC 7807), sent as application/problem+json */
+export interface Error {
+  /** URI identifying the error code */
+  type: string;
+  /** Summary of the error code, the same for every occurrence */
+  title: string;
+  status: number;
+  /** Explanation of this occurrence */
+  detail: string;
+  /** The request path */
+  instance?: string;
+  code: ErrorCode;
+  /** ID of the request, also sent in the X-Request-Id header */
+  request_id?: string;
+  /** The failed validations of a VALIDATION_ERROR */
+  errors?: FieldError[];
+  /** Stack trace, in development only */
+  stack?: string;
+}
+
+export interface FieldError {
+  path: string;
+  msg: string;
+  location?: string;
+  type?: string;
+  value?: unknown;
+}
@@ -1,99 +1,30 @@
-export interface Profile {
-  id: number;
-  name: string;
-  email: string;
-  education?: string;
-  github_url?: string;
-  linkedin_url?: string;
-  portfolio_url?: string;
-  created_at: string;
-  updated_at: string;
-  skills: string[];
-  skillsWithLevel: SkillWithLevel[];
-  projects: Project[];
-  workExperience: WorkExperience[];
-}
-
-export interface SkillWithLevel {
-  skill_name: string;
-  proficiency_level: number;
-}
-
-export interface Project {
-  id: number;
-  title: string;
-  description: string;
-  links: ProjectLink[];
-  created_at: string;
-}
-
-export interface ProjectLink {
-  name: string;
-  url: string;
-}
-
-export interface WorkExperience {
-  id: number;
-  company: string;
-  position: string;
-  start_date: string;
-  end_date?: string;
-  description: string;
-}
+// What the API accepts and returns is generated from the backend's contract
+// (lib/contract.js) into ./api. After changing the contract, run
+// `npm run contract:types` in the backend. Types that only exist in the
+// frontend live here.
+export type * from './api';
+export type { Error as ProblemDetails } from './api';
 
-export interface Stats {
-  total_profiles: number;
-  total_projects: number;
-  unique_skills: number;
-  total_work_experience: number;
-  topSkills: TopSkill[];
-}
+import type { Pagination, Profile } from './api';
 
-export interface TopSkill {
-  name: string;
-  frequency: number;
-}
-
-export interface SearchResults {
-  query: string;
-  type: string;
-  results: {
-    profiles: Profile[];
-    projects: Project[];
-    skills: SkillWithLevel[];
-    workExperience: WorkExperience[];
-  };
-  pagination: {
-    limit: number;
-    offset: number;
-  };
-}
+export type ResumeFormat = 'pdf' | 'md' | 'html' | 'jsonresume';
 
-export interface ProjectFilter {
-  projects: Project[];
-  pagination: {
-    limit: number;
-    offset: number;
-    total: number;
-    hasMore: boolean;
-  };
-}
-
-export interface SkillsResponse {
-  skills: SkillWithLevel[];
+// Facet filters of /search. Several skills must all match; several
+// companies or positions match any of them.
+export interface SearchFilters {
+  skills: string[];
+  companies: string[];
+  positions: string[];
+  minLevel?: number;
+  from?: string;
+  to?: string;
 }
 
-export interface ApiError {
-  error: string;
-  code?: string;
-  stack?: string;
+// GET /profile returns a plain array; the page is read from its headers
+export interface ProfilePage {
+  profiles: Profile[];
+  pagination: Pagination;
 }
 
-export interface Pagination {
-  limit: number;
-  offset: number;
-  total: number;
-  hasMore: boolean;
-  currentPage?: number;
-  totalPages?: number;
-}
+// Path segment of each kind of trash entry
+export type TrashType = 'profiles' | 'projects' | 'work-experience';
@@ -0,0 +1,153 @@
+import prisma from './prisma.js';
+import {
+  notDeleted,
+  usedSkillsInclude,
+  projectInclude,
+  profileInclude,
+  serializeProject,
+  serializeWorkExperience,
+  toProfileInput
+} from './profiles.js';
+import { queueWebhooks } from './webhooks.js';
+
+// Audit log. Every write and every login records an event with who did
+// it, what it touched and the state of the entity before and after, so
+// admins can answer "who changed this" long after the log files rotate.
+
+const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'login', 'login_failed'];
+
+const AUDIT_ENTITY_TYPES = ['profile', 'project', 'work_experience', 'catalog_skill', 'api_key', 'webhook', 'user'];
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS = [
+  'id', 'created_at', 'actor_id', 'actor_username', 'action', 'entity_type',
+  'entity_id', 'ip', 'request_id', 'before', 'after'
+];
+
+// The audited state of profile entities: the editable document of a
+// profile and the API format of its items. Rows in the trash have none.
+const STATE_LOADERS = {
+  profile: async (db, id) => {
+    const profile = await db.profile.findFirst({ where: { id, ...notDeleted }, include: profileInclude });
+    return profile && toProfileInput(profile);
+  },
+  project: async (db, id) => {
+    const project = await db.project.findFirst({ where: { id, ...notDeleted }, include: projectInclude });
+    return project && serializeProject(project);
+  },
+  work_experience: async (db, id) => {
+    const work = await db.workExperience.findFirst({ where: { id, ...notDeleted }, include: usedSkillsInclude });
+    return work && serializeWorkExperience(work);
+  }
+};
+
+const auditState = (db, entityType, id) => STATE_LOADERS[entityType](db, id);
+
+// Plain JSON for the before/after columns; Prisma needs undefined, not
+// null, to leave a Json column empty
+const toJson = (value) => (value == null ? undefined : JSON.parse(JSON.stringify(value)));
+
+// Record an audit event for a request. Pass the transaction that made the
+// change, so the event is only kept if the change is. The actor defaults
+// to the authenticated user. Changes to profile entities are also queued
+// for the webhook subscriptions to them.
+const recordAudit = async (db, req, { action, entityType, entityId = null, before = null, after = null, actor = req.user }) => {
+  const event = await db.auditEvent.create({
+    data: {
+      actorId: actor?.id ?? null,
+      action,
+      entityType,
+      entityId,
+      before: toJson(before),
+      after: toJson(after),
+      ip: req.ip ?? null,
+      requestId: req.id ?? null
+    }
+  });
+
+  await queueWebhooks(db, event);
+  return event;
+};
+
+// Prisma filter for the audit query parameters
+const auditWhere = ({ actor, entity_type: entityType, entity_id: entityId, action, from, to }) => ({
+  actorId: actor,
+  entityType,
+  entityId,
+  action,
+  createdAt: from || to ? { gte: from, lte: to } : undefined
+});
+
+// Transform an audit event (loaded with its actor) to the API format
+const serializeAuditEvent = (event) => ({
+  id: event.id,
+  actor: event.actor ? { id: event.actor.id, username: event.actor.username } : null,
+  action: event.action,
+  entity_type: event.entityType,
+  entity_id: event.entityId,
+  before: event.before,
+  after: event.after,
+  ip: event.ip,
+  request_id: event.requestId,
+  created_at: event.createdAt
+});
+
+const csvText = (value) => {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Quote a CSV field when it needs it (RFC 4180). Fields that a spreadsheet
+// would read as a formula are prefixed with a quote.
+const csvField = (value) => {
+  if (value == null) return '';
+  const text = csvText(value).replace(/^[=+\-@]/, '\'$&');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const auditCsvRow = (event) => {
+  const row = {
+    ...serializeAuditEvent(event),
+    actor_id: event.actor?.id,
+    actor_username: event.actor?.username
+  };
+  return CSV_COLUMNS.map(column => csvField(row[column])).join(',');
+};
+
+// One page of audit events matching the filters, newest first
+const listAuditEvents = async (filters, { limit, offset }) => {
+  const where = auditWhere(filters);
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      include: { actor: true },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      skip: offset
+    }),
+    prisma.auditEvent.count({ where })
+  ]);
+
+  return { events: events.map(serializeAuditEvent), total };
+};
+
+// Every audit event matching the filters as CSV, oldest first
+const auditCsv = async (filters) => {
+  const events = await prisma.auditEvent.findMany({
+    where: auditWhere(filters),
+    include: { actor: true },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  });
+
+  const lines = [CSV_COLUMNS.join(','), ...events.map(auditCsvRow)];
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+export {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  auditState,
+  recordAudit,
+  listAuditEvents,
+  auditCsv
+};
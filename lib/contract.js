@@ -0,0 +1,968 @@
+import { ROLES, API_KEY_SCOPES } from '../middleware/auth.js';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from './audit.js';
+import { ERROR_CODES } from './problems.js';
+import { LINK_KINDS } from './projectLinks.js';
+import { SKILL_CATEGORIES } from './skillCatalog.js';
+import { IMPORT_FORMATS } from './importers/formats.js';
+import { WEBHOOK_EVENTS, PING_EVENT, DELIVERY_STATUSES } from './webhooks.js';
+
+// The API contract: JSON schemas (OpenAPI 3.0 dialect) of everything the
+// API accepts and returns. The swagger spec uses them as its component
+// schemas, the request validators take their limits, enums, required
+// fields and formats from them and the frontend types in
+// frontend/src/types/api.ts are generated from them (npm run
+// contract:types). Change the API here first.
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+const dateTime = { type: 'string', format: 'date-time' };
+
+// A page of a list endpoint: the items under key, plus pagination
+const page = (key, itemSchema) => ({
+  type: 'object',
+  required: [key, 'pagination'],
+  properties: {
+    [key]: { type: 'array', items: ref(itemSchema) },
+    pagination: ref('Pagination')
+  }
+});
+
+// Month of a work experience date. Requests may add a day, as sent by
+// date inputs; responses never do.
+const month = (example) => ({
+  type: 'string',
+  pattern: '^\\d{4}-(0[1-9]|1[0-2])(-\\d{2})?$',
+  example,
+  nullable: true
+});
+
+const usedSkills = (example, description) => ({
+  type: 'array',
+  maxItems: 30,
+  items: { type: 'string', minLength: 1, maxLength: 50 },
+  example,
+  description
+});
+
+const schemas = {
+  // Enumerations
+
+  UserRole: { type: 'string', enum: ROLES },
+  ApiKeyScope: { type: 'string', enum: API_KEY_SCOPES },
+  ProjectLinkKind: { type: 'string', enum: LINK_KINDS },
+  SkillCategory: { type: 'string', enum: SKILL_CATEGORIES },
+  ImportFormat: { type: 'string', enum: IMPORT_FORMATS },
+  RevisionAction: { type: 'string', enum: ['create', 'import', 'update', 'restore'] },
+  AuditAction: { type: 'string', enum: AUDIT_ACTIONS },
+  AuditEntityType: { type: 'string', enum: AUDIT_ENTITY_TYPES },
+  WebhookEvent: { type: 'string', enum: WEBHOOK_EVENTS },
+  WebhookDeliveryStatus: { type: 'string', enum: DELIVERY_STATUSES },
+  ErrorCode: { type: 'string', enum: Object.keys(ERROR_CODES) },
+
+  // Profiles
+
+  Profile: {
+    type: 'object',
+    required: [
+      'id', 'name', 'email', 'education', 'github_url', 'linkedin_url', 'portfolio_url', 'owner_id',
+      'skills', 'skillsWithLevel', 'projects', 'workExperience',
+      'total_experience_months', 'total_experience_years', 'created_at', 'updated_at'
+    ],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      email: { type: 'string', format: 'email' },
+      education: { type: 'string', nullable: true },
+      github_url: { type: 'string', format: 'uri', nullable: true },
+      linkedin_url: { type: 'string', format: 'uri', nullable: true },
+      portfolio_url: { type: 'string', format: 'uri', nullable: true },
+      owner_id: { type: 'integer', nullable: true, description: 'ID of the user who owns the profile' },
+      skills: {
+        type: 'array',
+        description: 'Canonical names from the skill catalog',
+        items: { type: 'string' }
+      },
+      skillsWithLevel: {
+        type: 'array',
+        description: 'The same skills with their proficiency, in the same order',
+        items: ref('SkillWithLevel')
+      },
+      projects: {
+        type: 'array',
+        items: ref('Project')
+      },
+      workExperience: {
+        type: 'array',
+        items: ref('WorkExperience')
+      },
+      total_experience_months: {
+        type: 'integer',
+        readOnly: true,
+        description: 'Months of work experience. Overlapping jobs are counted once.'
+      },
+      total_experience_years: { type: 'number', readOnly: true, example: 3.5 },
+      created_at: dateTime,
+      updated_at: dateTime
+    }
+  },
+  ProfileInput: {
+    type: 'object',
+    required: ['name', 'email'],
+    description: 'Items that carry an id update the existing record; items without one are created and records that are left out are moved to the trash.',
+    properties: {
+      name: { type: 'string', minLength: 2, maxLength: 100 },
+      email: { type: 'string', format: 'email' },
+      education: { type: 'string', maxLength: 200, nullable: true },
+      github_url: { type: 'string', format: 'uri', nullable: true },
+      linkedin_url: { type: 'string', format: 'uri', nullable: true },
+      portfolio_url: { type: 'string', format: 'uri', nullable: true },
+      skills: {
+        type: 'array',
+        description: 'Skill names (level 1) or skills with a level',
+        items: {
+          oneOf: [
+            { type: 'string', minLength: 1, maxLength: 50 },
+            ref('SkillInput')
+          ]
+        }
+      },
+      projects: { type: 'array', items: ref('ProfileProjectInput') },
+      workExperience: { type: 'array', items: ref('ProfileWorkExperienceInput') }
+    }
+  },
+  SkillWithLevel: {
+    type: 'object',
+    required: ['id', 'skill_name', 'proficiency_level', 'catalog_entry_id'],
+    properties: {
+      id: { type: 'integer' },
+      skill_name: { type: 'string', description: 'Canonical name' },
+      proficiency_level: { type: 'integer', minimum: 1, maximum: 5 },
+      catalog_entry_id: { type: 'integer', nullable: true }
+    }
+  },
+  SkillInput: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      id: { type: 'integer', minimum: 1 },
+      name: { type: 'string', minLength: 1, maxLength: 50 },
+      level: { type: 'integer', minimum: 1, maximum: 5, default: 1 }
+    }
+  },
+  ProfileCreated: {
+    type: 'object',
+    required: ['message', 'profileId'],
+    properties: {
+      message: { type: 'string' },
+      profileId: { type: 'integer' }
+    }
+  },
+
+  // Projects
+
+  Project: {
+    type: 'object',
+    required: ['id', 'title', 'description', 'links', 'skills', 'created_at'],
+    properties: {
+      id: { type: 'integer' },
+      title: { type: 'string' },
+      description: { type: 'string', nullable: true },
+      links: {
+        type: 'array',
+        maxItems: 10,
+        items: ref('ProjectLink')
+      },
+      skills: {
+        type: 'array',
+        items: { type: 'string' },
+        example: ['Node.js', 'PostgreSQL'],
+        description: 'Skills the project used. Names are resolved through the skill catalog and returned in canonical form.'
+      },
+      created_at: dateTime
+    }
+  },
+  ProjectInput: {
+    type: 'object',
+    required: ['title'],
+    properties: {
+      title: { type: 'string', minLength: 1, maxLength: 100 },
+      description: { type: 'string', maxLength: 500, nullable: true },
+      links: {
+        type: 'array',
+        maxItems: 10,
+        items: ref('ProjectLinkInput'),
+        description: 'Leaving out links keeps the current ones'
+      },
+      skills: usedSkills(['Node.js', 'PostgreSQL'], 'Skills the project used. Leaving out skills keeps the current ones.')
+    }
+  },
+  ProfileProjectInput: {
+    allOf: [
+      ref('ProjectInput'),
+      { type: 'object', properties: { id: { type: 'integer', minimum: 1 } } }
+    ]
+  },
+  ProjectLink: {
+    allOf: [
+      ref('ProjectLinkInput'),
+      {
+        type: 'object',
+        required: ['id', 'status_code', 'redirect_url', 'check_error', 'last_checked_at', 'broken'],
+        properties: {
+          id: { type: 'integer', readOnly: true },
+          status_code: {
+            type: 'integer',
+            nullable: true,
+            readOnly: true,
+            description: 'HTTP status of the last check, after following redirects'
+          },
+          redirect_url: {
+            type: 'string',
+            nullable: true,
+            readOnly: true,
+            description: 'Where the link redirected to, when it did'
+          },
+          check_error: {
+            type: 'string',
+            nullable: true,
+            readOnly: true,
+            description: 'Why the last check got no response (timeout, DNS failure, too many redirects)'
+          },
+          last_checked_at: { ...dateTime, nullable: true, readOnly: true },
+          broken: {
+            type: 'boolean',
+            readOnly: true,
+            description: 'True when the last check failed or returned a 4xx/5xx status'
+          }
+        }
+      }
+    ]
+  },
+  ProjectLinkInput: {
+    type: 'object',
+    required: ['kind', 'name', 'url'],
+    properties: {
+      kind: ref('ProjectLinkKind'),
+      name: { type: 'string', minLength: 1, maxLength: 50 },
+      url: { type: 'string', format: 'uri', maxLength: 2000 }
+    }
+  },
+  ProjectWithProfile: {
+    allOf: [
+      ref('Project'),
+      {
+        type: 'object',
+        required: ['profile_name'],
+        properties: {
+          profile_name: { type: 'string' }
+        }
+      }
+    ]
+  },
+
+  // Work experience
+
+  WorkExperience: {
+    type: 'object',
+    required: ['id', 'company', 'position', 'start_date', 'end_date', 'is_current', 'description', 'skills', 'tenure_months'],
+    properties: {
+      id: { type: 'integer' },
+      company: { type: 'string' },
+      position: { type: 'string' },
+      start_date: { type: 'string', pattern: '^\\d{4}-\\d{2}$', example: '2022-01', nullable: true },
+      end_date: { type: 'string', pattern: '^\\d{4}-\\d{2}$', example: '2023-06', nullable: true },
+      is_current: { type: 'boolean', description: 'Still in this job. A current job has no end date.' },
+      description: { type: 'string', nullable: true },
+      skills: {
+        type: 'array',
+        items: { type: 'string' },
+        example: ['React', 'TypeScript'],
+        description: 'Skills used in the job. Names are resolved through the skill catalog and returned in canonical form.'
+      },
+      tenure_months: {
+        type: 'integer',
+        nullable: true,
+        readOnly: true,
+        description: 'Months in the job, counting the start and end month. Null when the dates are not known.'
+      }
+    }
+  },
+  WorkExperienceInput: {
+    type: 'object',
+    required: ['company', 'position'],
+    properties: {
+      company: { type: 'string', minLength: 1, maxLength: 100 },
+      position: { type: 'string', minLength: 1, maxLength: 100 },
+      start_date: month('2022-01'),
+      end_date: month('2023-06'),
+      is_current: { type: 'boolean', description: 'A current job cannot have an end date' },
+      description: { type: 'string', maxLength: 1000, nullable: true },
+      skills: usedSkills(['React', 'TypeScript'], 'Skills used in the job. Leaving out skills keeps the current ones.')
+    }
+  },
+  ProfileWorkExperienceInput: {
+    allOf: [
+      ref('WorkExperienceInput'),
+      { type: 'object', properties: { id: { type: 'integer', minimum: 1 } } }
+    ]
+  },
+
+  // Skills
+
+  Skill: {
+    type: 'object',
+    required: ['name', 'proficiency'],
+    properties: {
+      name: { type: 'string' },
+      proficiency: { type: 'integer', minimum: 1, maximum: 5 }
+    }
+  },
+  SkillsResponse: page('skills', 'Skill'),
+  TopSkill: {
+    type: 'object',
+    required: ['name', 'frequency'],
+    properties: {
+      name: { type: 'string' },
+      frequency: { type: 'integer', description: 'Number of profiles with this skill' },
+      averageProficiency: { type: 'number', example: 3.5 }
+    }
+  },
+  TopSkillsResponse: {
+    type: 'object',
+    required: ['skills'],
+    properties: {
+      skills: { type: 'array', items: ref('TopSkill') }
+    }
+  },
+  CatalogSkill: {
+    type: 'object',
+    required: ['id', 'name', 'category', 'aliases', 'profile_count', 'created_at'],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string', description: 'Canonical name', example: 'Node.js' },
+      category: ref('SkillCategory'),
+      aliases: { type: 'array', items: { type: 'string' }, example: ['Node', 'NodeJS'] },
+      profile_count: { type: 'integer', description: 'Number of profiles with this skill' },
+      created_at: dateTime
+    }
+  },
+  CatalogSkillInput: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 50 },
+      category: { allOf: [ref('SkillCategory')], default: 'other' },
+      aliases: {
+        type: 'array',
+        maxItems: 20,
+        items: { type: 'string', minLength: 1, maxLength: 50 }
+      }
+    }
+  },
+  Stats: {
+    type: 'object',
+    required: ['total_profiles', 'total_projects', 'unique_skills', 'total_work_experience', 'topSkills'],
+    properties: {
+      total_profiles: { type: 'integer' },
+      total_projects: { type: 'integer' },
+      unique_skills: { type: 'integer' },
+      total_work_experience: { type: 'integer' },
+      topSkills: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'frequency'],
+          properties: {
+            name: { type: 'string' },
+            frequency: { type: 'integer' }
+          }
+        }
+      }
+    }
+  },
+
+  // Import and revisions
+
+  ImportPreview: {
+    type: 'object',
+    required: ['dry_run', 'format', 'valid', 'errors', 'warnings', 'profile'],
+    properties: {
+      dry_run: { type: 'boolean', enum: [true] },
+      format: ref('ImportFormat'),
+      valid: { type: 'boolean', description: 'Whether importing would succeed' },
+      errors: {
+        type: 'array',
+        description: 'Validation errors that would fail the import',
+        items: ref('FieldError')
+      },
+      warnings: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Data that was skipped or shortened to fit'
+      },
+      profile: {
+        allOf: [ref('ProfileInput')],
+        description: 'The profile that would be created, in the shape POST /api/profile accepts'
+      }
+    }
+  },
+  ImportResult: {
+    type: 'object',
+    required: ['message', 'profileId', 'format', 'warnings'],
+    properties: {
+      message: { type: 'string' },
+      profileId: { type: 'integer' },
+      format: ref('ImportFormat'),
+      warnings: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  ProfileRevision: {
+    type: 'object',
+    required: ['revision', 'action', 'restored_from', 'user', 'created_at'],
+    properties: {
+      revision: { type: 'integer', example: 3 },
+      action: ref('RevisionAction'),
+      restored_from: {
+        type: 'integer',
+        nullable: true,
+        description: 'For restores, the revision that was restored'
+      },
+      user: {
+        allOf: [ref('UserRef')],
+        nullable: true,
+        description: 'Who made the change; null once the user is deleted'
+      },
+      created_at: dateTime,
+      profile: {
+        allOf: [ref('ProfileInput')],
+        description: 'The full profile after the change, in the shape PUT /api/profiles/{id} accepts. Only included when a single revision is requested.'
+      }
+    }
+  },
+  RevisionChange: {
+    type: 'object',
+    required: ['path', 'change', 'from', 'to'],
+    properties: {
+      path: {
+        type: 'string',
+        example: 'projects[12].title',
+        description: 'Changed field; collection items are addressed by ID'
+      },
+      label: {
+        type: 'string',
+        description: 'Name of the collection item the change belongs to'
+      },
+      change: { type: 'string', enum: ['added', 'removed', 'changed'] },
+      from: { description: 'Value in the `from` revision, or null' },
+      to: { description: 'Value in the `to` revision, or null' }
+    }
+  },
+  RevisionDiff: {
+    type: 'object',
+    required: ['from', 'to', 'changes'],
+    properties: {
+      from: { type: 'integer' },
+      to: { type: 'integer' },
+      changes: { type: 'array', items: ref('RevisionChange') }
+    }
+  },
+
+  // Trash
+
+  Trashed: {
+    type: 'object',
+    required: ['message', 'deleted_at', 'purge_at'],
+    properties: {
+      message: { type: 'string', example: 'Project moved to trash' },
+      deleted_at: dateTime,
+      purge_at: { ...dateTime, description: 'When the trash purge deletes it for good' }
+    }
+  },
+  TrashEntry: {
+    type: 'object',
+    required: ['type', 'id', 'profile_id', 'title', 'deleted_at', 'purge_at'],
+    properties: {
+      type: { type: 'string', enum: ['profile', 'project', 'work'] },
+      id: { type: 'integer' },
+      profile_id: { type: 'integer' },
+      title: { type: 'string', description: 'Profile name, project title or "position at company"' },
+      deleted_at: dateTime,
+      purge_at: dateTime
+    }
+  },
+  Restored: {
+    type: 'object',
+    required: ['message', 'profile_id'],
+    properties: {
+      message: { type: 'string', example: 'Project restored' },
+      profile_id: { type: 'integer' }
+    }
+  },
+
+  // Search
+
+  SearchHit: {
+    type: 'object',
+    required: ['type', 'id', 'title', 'rank', 'highlight'],
+    properties: {
+      type: { type: 'string', enum: ['profile', 'project', 'work', 'skill'] },
+      id: { type: 'integer' },
+      profile_id: { type: 'integer' },
+      title: { type: 'string' },
+      subtitle: { type: 'string', nullable: true },
+      rank: { type: 'number' },
+      created_at: dateTime,
+      highlight: {
+        type: 'array',
+        description: 'Snippet split into plain and matched segments',
+        items: ref('HighlightSegment')
+      }
+    }
+  },
+  HighlightSegment: {
+    type: 'object',
+    required: ['text', 'match'],
+    properties: {
+      text: { type: 'string' },
+      match: { type: 'boolean' }
+    }
+  },
+  FacetCount: {
+    type: 'object',
+    required: ['value', 'count'],
+    properties: {
+      value: { type: 'string' },
+      count: { type: 'integer', description: 'Number of hits with this value' }
+    }
+  },
+  LevelFacetCount: {
+    type: 'object',
+    required: ['value', 'count'],
+    properties: {
+      value: { type: 'integer', minimum: 1, maximum: 5 },
+      count: { type: 'integer', description: 'Number of hits with a skill at this level or above' }
+    }
+  },
+  SearchFacets: {
+    type: 'object',
+    required: ['skills', 'companies', 'positions', 'proficiency', 'years'],
+    properties: {
+      skills: { type: 'array', items: ref('FacetCount') },
+      companies: { type: 'array', items: ref('FacetCount') },
+      positions: { type: 'array', items: ref('FacetCount') },
+      proficiency: { type: 'array', items: ref('LevelFacetCount') },
+      years: {
+        type: 'array',
+        description: 'Hits with a job started in this year',
+        items: ref('FacetCount')
+      }
+    }
+  },
+  SearchResults: {
+    type: 'object',
+    required: ['query', 'type', 'filters', 'fuzzy', 'hits', 'facets', 'results', 'pagination'],
+    properties: {
+      query: { type: 'string' },
+      type: { type: 'string', enum: ['all', 'profiles', 'projects', 'skills', 'work'] },
+      fuzzy: { type: 'boolean', description: 'True when no exact match was found and typo-tolerant matching was used' },
+      filters: {
+        type: 'object',
+        required: ['skills', 'companies', 'positions'],
+        properties: {
+          skills: { type: 'array', items: { type: 'string' } },
+          companies: { type: 'array', items: { type: 'string' } },
+          positions: { type: 'array', items: { type: 'string' } },
+          minLevel: { type: 'integer', minimum: 1, maximum: 5 },
+          from: { type: 'string' },
+          to: { type: 'string' }
+        }
+      },
+      hits: { type: 'array', items: ref('SearchHit') },
+      facets: ref('SearchFacets'),
+      results: {
+        type: 'object',
+        description: 'The same hits grouped by type',
+        required: ['profiles', 'projects', 'skills', 'workExperience'],
+        properties: {
+          profiles: { type: 'array', items: ref('SearchHit') },
+          projects: { type: 'array', items: ref('SearchHit') },
+          skills: { type: 'array', items: ref('SearchHit') },
+          workExperience: { type: 'array', items: ref('SearchHit') }
+        }
+      },
+      pagination: ref('Pagination')
+    }
+  },
+
+  // Pages of list endpoints
+
+  Pagination: {
+    type: 'object',
+    required: ['limit', 'offset', 'total', 'hasMore', 'currentPage', 'totalPages', 'nextCursor', 'prevCursor'],
+    properties: {
+      limit: { type: 'integer' },
+      offset: { type: 'integer' },
+      total: { type: 'integer' },
+      hasMore: { type: 'boolean' },
+      currentPage: { type: 'integer' },
+      totalPages: { type: 'integer' },
+      nextCursor: { type: 'string', nullable: true },
+      prevCursor: { type: 'string', nullable: true }
+    }
+  },
+  ProjectPage: page('projects', 'Project'),
+  ProjectSearchPage: page('projects', 'ProjectWithProfile'),
+  WorkExperiencePage: page('workExperience', 'WorkExperience'),
+  RevisionPage: page('revisions', 'ProfileRevision'),
+  CatalogSkillPage: page('skills', 'CatalogSkill'),
+  ApiKeyPage: page('apiKeys', 'ApiKey'),
+  TrashPage: page('trash', 'TrashEntry'),
+  AuditEventPage: page('events', 'AuditEvent'),
+  WebhookPage: page('webhooks', 'Webhook'),
+  WebhookDeliveryPage: page('deliveries', 'WebhookDelivery'),
+
+  // Users and API keys
+
+  User: {
+    type: 'object',
+    required: ['id', 'username', 'role'],
+    properties: {
+      id: { type: 'integer' },
+      username: { type: 'string' },
+      role: ref('UserRole')
+    }
+  },
+  UserRef: {
+    type: 'object',
+    required: ['id', 'username'],
+    properties: {
+      id: { type: 'integer' },
+      username: { type: 'string' }
+    }
+  },
+  LoginRequest: {
+    type: 'object',
+    required: ['username', 'password'],
+    properties: {
+      username: { type: 'string' },
+      password: { type: 'string' }
+    }
+  },
+  LoginResponse: {
+    type: 'object',
+    required: ['message', 'token', 'refreshToken', 'expiresIn', 'user'],
+    properties: {
+      message: { type: 'string' },
+      token: { type: 'string' },
+      refreshToken: { type: 'string' },
+      expiresIn: { type: 'string', example: '15m' },
+      user: ref('User')
+    }
+  },
+  RefreshRequest: {
+    type: 'object',
+    required: ['refreshToken'],
+    properties: {
+      refreshToken: { type: 'string' }
+    }
+  },
+  ApiKey: {
+    type: 'object',
+    required: ['id', 'name', 'prefix', 'scopes', 'last_used_at', 'revoked_at', 'created_at'],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      prefix: { type: 'string', description: 'First characters of the key, to tell keys apart' },
+      scopes: { type: 'array', items: ref('ApiKeyScope') },
+      last_used_at: { ...dateTime, nullable: true },
+      revoked_at: { ...dateTime, nullable: true },
+      created_at: dateTime
+    }
+  },
+  ApiKeyInput: {
+    type: 'object',
+    required: ['name', 'scopes'],
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      scopes: { type: 'array', minItems: 1, items: ref('ApiKeyScope') }
+    }
+  },
+  AuditEvent: {
+    type: 'object',
+    required: ['id', 'actor', 'action', 'entity_type', 'entity_id', 'before', 'after', 'ip', 'request_id', 'created_at'],
+    properties: {
+      id: { type: 'integer' },
+      actor: {
+        allOf: [ref('UserRef')],
+        nullable: true,
+        description: 'Null for failed logins and for users that have since been deleted'
+      },
+      action: ref('AuditAction'),
+      entity_type: ref('AuditEntityType'),
+      entity_id: { type: 'integer', nullable: true },
+      before: {
+        type: 'object',
+        nullable: true,
+        description: 'State of the entity before the change. Profiles are recorded in the format the write endpoints accept, everything else in the format the API returns.'
+      },
+      after: { type: 'object', nullable: true, description: 'State of the entity after the change' },
+      ip: { type: 'string', nullable: true },
+      request_id: { type: 'string', nullable: true },
+      created_at: dateTime
+    }
+  },
+
+  // Webhooks
+
+  Webhook: {
+    type: 'object',
+    required: ['id', 'url', 'events', 'active', 'created_at', 'updated_at'],
+    properties: {
+      id: { type: 'integer' },
+      url: { type: 'string', example: 'https://example.com/hooks/profiles' },
+      events: { type: 'array', items: ref('WebhookEvent') },
+      active: { type: 'boolean', description: 'Paused subscriptions get no new deliveries and pending ones wait' },
+      created_at: dateTime,
+      updated_at: dateTime
+    }
+  },
+  WebhookWithSecret: {
+    allOf: [
+      ref('Webhook'),
+      {
+        type: 'object',
+        required: ['secret'],
+        properties: {
+          secret: { type: 'string', description: 'Key of the HMAC signatures. Only returned when the subscription is created.' }
+        }
+      }
+    ]
+  },
+  WebhookInput: {
+    type: 'object',
+    required: ['url', 'events'],
+    properties: {
+      url: { type: 'string', format: 'uri', minLength: 1, maxLength: 2000, example: 'https://example.com/hooks/profiles' },
+      events: { type: 'array', minItems: 1, items: ref('WebhookEvent'), example: ['profile.updated', 'project.created'] },
+      secret: { type: 'string', minLength: 16, maxLength: 200, description: 'Generated when left out' },
+      active: { type: 'boolean', default: true }
+    }
+  },
+  WebhookPatch: {
+    type: 'object',
+    description: 'Fields to change; a new secret takes effect for the next attempt of every delivery',
+    properties: {
+      url: { type: 'string', format: 'uri', minLength: 1, maxLength: 2000 },
+      events: { type: 'array', minItems: 1, items: ref('WebhookEvent') },
+      secret: { type: 'string', minLength: 16, maxLength: 200 },
+      active: { type: 'boolean' }
+    }
+  },
+  WebhookPayload: {
+    type: 'object',
+    description: 'Body of a webhook request',
+    required: ['id', 'event', 'created_at', 'data'],
+    properties: {
+      id: { type: 'string', format: 'uuid', description: 'ID of the event, the same for every subscription and replay' },
+      event: { type: 'string', enum: [...WEBHOOK_EVENTS, PING_EVENT] },
+      created_at: dateTime,
+      data: {
+        type: 'object',
+        description: 'For changes: entity_type, id, profile_id, and before and after in the format of the audit log. For pings: subscription_id and events.'
+      }
+    }
+  },
+  WebhookDelivery: {
+    type: 'object',
+    required: [
+      'id', 'subscription_id', 'event', 'event_id', 'status', 'attempt_count', 'next_attempt_at',
+      'last_attempt_at', 'response_status', 'error', 'delivered_at', 'replay_of', 'created_at'
+    ],
+    properties: {
+      id: { type: 'integer' },
+      subscription_id: { type: 'integer' },
+      event: { type: 'string', enum: [...WEBHOOK_EVENTS, PING_EVENT] },
+      event_id: { type: 'string', format: 'uuid' },
+      status: ref('WebhookDeliveryStatus'),
+      attempt_count: { type: 'integer' },
+      next_attempt_at: { ...dateTime, nullable: true, description: 'When a pending delivery is sent next' },
+      last_attempt_at: { ...dateTime, nullable: true },
+      response_status: { type: 'integer', nullable: true, description: 'Status code of the last attempt' },
+      error: { type: 'string', nullable: true, description: 'Why the last attempt failed' },
+      delivered_at: { ...dateTime, nullable: true },
+      replay_of: { type: 'integer', nullable: true, description: 'ID of the delivery this one replays' },
+      created_at: dateTime
+    }
+  },
+  WebhookDeliveryDetail: {
+    allOf: [
+      ref('WebhookDelivery'),
+      {
+        type: 'object',
+        required: ['payload', 'attempts'],
+        properties: {
+          payload: ref('WebhookPayload'),
+          attempts: { type: 'array', items: ref('WebhookAttempt') }
+        }
+      }
+    ]
+  },
+  WebhookAttempt: {
+    type: 'object',
+    required: ['id', 'response_status', 'response_body', 'error', 'duration_ms', 'created_at'],
+    properties: {
+      id: { type: 'integer' },
+      response_status: { type: 'integer', nullable: true },
+      response_body: { type: 'string', nullable: true, description: 'Start of the response body' },
+      error: { type: 'string', nullable: true },
+      duration_ms: { type: 'integer' },
+      created_at: dateTime
+    }
+  },
+
+  // GraphQL. The types of the graph itself are in the GraphQL schema
+  // (lib/graphql/schema.js), which GraphiQL and introspection describe.
+
+  GraphQLRequest: {
+    type: 'object',
+    required: ['query'],
+    properties: {
+      query: { type: 'string', example: '{ profiles(limit: 5) { name skills { name proficiency } } }' },
+      variables: { type: 'object', nullable: true, description: 'Values of the variables of the query' },
+      operationName: { type: 'string', nullable: true, description: 'Operation to run when the query has several' }
+    }
+  },
+  GraphQLResponse: {
+    type: 'object',
+    properties: {
+      data: { type: 'object', nullable: true, description: 'Result of the query, missing when the query could not run' },
+      errors: { type: 'array', items: ref('GraphQLError') }
+    }
+  },
+  GraphQLError: {
+    type: 'object',
+    required: ['message'],
+    properties: {
+      message: { type: 'string' },
+      locations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['line', 'column'],
+          properties: {
+            line: { type: 'integer' },
+            column: { type: 'integer' }
+          }
+        }
+      },
+      path: {
+        type: 'array',
+        description: 'Field names and list indexes leading to the field that failed',
+        items: { oneOf: [{ type: 'string' }, { type: 'integer' }] }
+      },
+      extensions: {
+        type: 'object',
+        description: 'Code and HTTP status the error would have in the REST API',
+        required: ['code', 'status'],
+        properties: {
+          code: ref('ErrorCode'),
+          status: { type: 'integer' }
+        }
+      }
+    }
+  },
+
+  // Service
+
+  Health: {
+    type: 'object',
+    required: ['status', 'timestamp', 'uptime', 'environment', 'version'],
+    properties: {
+      status: { type: 'string', example: 'healthy' },
+      timestamp: dateTime,
+      uptime: { type: 'number', description: 'Seconds since the server started' },
+      environment: { type: 'string', example: 'production' },
+      version: { type: 'string', example: '1.0.0' }
+    }
+  },
+
+  // Responses without a body of their own
+
+  Message: {
+    type: 'object',
+    required: ['message'],
+    properties: {
+      message: { type: 'string' }
+    }
+  },
+
+  // Errors
+
+  Error: {
+    type: 'object',
+    description: 'Problem details (RFC 7807), sent as application/problem+json',
+    required: ['type', 'title', 'status', 'detail', 'code'],
+    properties: {
+      type: { type: 'string', example: 'urn:me-api:problem:profile-not-found', description: 'URI identifying the error code' },
+      title: { type: 'string', example: 'Profile not found', description: 'Summary of the error code, the same for every occurrence' },
+      status: { type: 'integer', example: 404 },
+      detail: { type: 'string', example: 'Profile not found', description: 'Explanation of this occurrence' },
+      instance: { type: 'string', example: '/api/profiles/42', description: 'The request path' },
+      code: ref('ErrorCode'),
+      request_id: { type: 'string', description: 'ID of the request, also sent in the X-Request-Id header' },
+      errors: {
+        type: 'array',
+        description: 'The failed validations of a VALIDATION_ERROR',
+        items: ref('FieldError')
+      },
+      stack: { type: 'string', description: 'Stack trace, in development only' }
+    }
+  },
+  FieldError: {
+    type: 'object',
+    required: ['path', 'msg'],
+    properties: {
+      path: { type: 'string' },
+      msg: { type: 'string' },
+      location: { type: 'string' },
+      type: { type: 'string' },
+      value: {}
+    }
+  }
+};
+
+// Schema of a property of a contract schema, e.g. to take the limits of a
+// request validator from it
+const contractField = (schemaName, field) => {
+  const property = schemas[schemaName]?.properties?.[field];
+  if (!property) {
+    throw new Error(`The contract has no ${schemaName}.${field}`);
+  }
+  return property;
+};
+
+// The schema a $ref points to, or that an allOf of one schema (used to
+// add a default or a description) wraps
+const resolveSchema = (schema) => {
+  if (schema.$ref) return resolveSchema(schemas[schema.$ref.split('/').pop()]);
+  if (schema.allOf?.length === 1) return resolveSchema(schema.allOf[0]);
+  return schema;
+};
+
+// Allowed values of an enum property, or of the items of an array property
+const contractEnum = (schemaName, field) => {
+  const property = resolveSchema(contractField(schemaName, field));
+  const values = resolveSchema(property.type === 'array' ? property.items : property).enum;
+  if (!values) {
+    throw new Error(`The contract has no enum for ${schemaName}.${field}`);
+  }
+  return values;
+};
+
+// Whether a schema lists the property as required
+const contractRequires = (schemaName, field) => {
+  contractField(schemaName, field);
+  return (schemas[schemaName].required ?? []).includes(field);
+};
+
+export { schemas, contractField, contractEnum, contractRequires };
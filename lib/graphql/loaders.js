@@ -0,0 +1,47 @@
+import DataLoader from 'dataloader';
+import prisma from '../prisma.js';
+import { notDeleted, profileInclude } from '../profiles.js';
+import { canonicalSkillNames } from '../skillCatalog.js';
+
+// Batch loaders for the GraphQL API. Each request gets its own set, so
+// every profile, or every list of a profile's items, is fetched at most
+// once per request, and all lookups resolved in the same tick share one
+// query instead of one query per parent (N+1).
+
+// Rows of each key, in the order of keys, for loaders returning lists
+const groupBy = (keys, rows, field) => {
+  const groups = new Map(keys.map(key => [key, []]));
+  for (const row of rows) {
+    groups.get(row[field])?.push(row);
+  }
+  return keys.map(key => groups.get(key));
+};
+
+// Loader of the items of profiles, ordered and with the same relations as
+// in full profiles (see profileInclude)
+const profileItemsLoader = (delegate, relation) => new DataLoader(async (profileIds) => {
+  const rows = await delegate.findMany({
+    ...profileInclude[relation],
+    where: { profileId: { in: [...profileIds] }, ...notDeleted }
+  });
+  return groupBy(profileIds, rows, 'profileId');
+});
+
+const createLoaders = () => ({
+  profile: new DataLoader(async (ids) => {
+    const profiles = await prisma.profile.findMany({
+      where: { id: { in: [...ids] }, ...notDeleted }
+    });
+    const byId = new Map(profiles.map(profile => [profile.id, profile]));
+    return ids.map(id => byId.get(id) ?? null);
+  }),
+  skills: profileItemsLoader(prisma.skill, 'skills'),
+  projects: profileItemsLoader(prisma.project, 'projects'),
+  workExperience: profileItemsLoader(prisma.workExperience, 'workExperience'),
+  // Canonical catalog names of skill names and aliases
+  skillName: new DataLoader(names => canonicalSkillNames([...names]))
+});
+
+export {
+  createLoaders
+};
@@ -0,0 +1,406 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString
+} from 'graphql';
+import prisma from '../prisma.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { isBroken } from '../linkChecker.js';
+import { LINK_KINDS } from '../projectLinks.js';
+import { notDeleted, projectInclude, usedSkillNames } from '../profiles.js';
+import { hasFilters, searchAll } from '../search.js';
+import { canonicalSkillNames, catalogEntryWhere, skillKey } from '../skillCatalog.js';
+import { profileStats, topSkills } from '../stats.js';
+import { formatMonth, tenureMonths, totalExperienceMonths, monthsToYears } from '../workDates.js';
+
+// GraphQL schema over the public profile data: the same data the REST
+// API returns without credentials. Resolvers get Prisma rows and load
+// related rows through the request's loaders (see loaders.js).
+
+const required = (type) => new GraphQLNonNull(type);
+const list = (type) => required(new GraphQLList(required(type)));
+
+// Arguments are checked with the same limits and messages as the query
+// parameters of the REST API
+const assertRange = (value, min, max, message) => {
+  if (value !== undefined && value !== null && (value < min || value > max)) {
+    throw new AppError(message, 400, 'VALIDATION_ERROR');
+  }
+};
+
+const assertLength = (value, min, max, message) => {
+  if (value !== undefined && value !== null) {
+    assertRange(value.trim().length, min, max, message);
+  }
+};
+
+const pageArgs = (defaultLimit) => ({
+  limit: { type: required(GraphQLInt), defaultValue: defaultLimit },
+  offset: { type: required(GraphQLInt), defaultValue: 0 }
+});
+
+// Prisma take and skip for limit and offset arguments
+const page = ({ limit, offset }) => {
+  assertRange(limit, 1, 100, 'Limit must be between 1 and 100');
+  assertRange(offset, 0, Infinity, 'Offset must be a non-negative integer');
+  return { take: limit, skip: offset };
+};
+
+const MONTH_PATTERN = /^\d{4}(-(0[1-9]|1[0-2]))?$/;
+
+const DateTime = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'ISO 8601 date and time',
+  serialize: (value) => (value instanceof Date ? value.toISOString() : value)
+});
+
+const LinkKind = new GraphQLEnumType({
+  name: 'LinkKind',
+  values: Object.fromEntries(LINK_KINDS.map(kind => [kind, { value: kind }]))
+});
+
+const SearchType = new GraphQLEnumType({
+  name: 'SearchType',
+  values: Object.fromEntries(['all', 'profiles', 'projects', 'skills', 'work'].map(type => [type, { value: type }]))
+});
+
+const SearchHitType = new GraphQLEnumType({
+  name: 'SearchHitType',
+  values: Object.fromEntries(['profile', 'project', 'skill', 'work'].map(type => [type, { value: type }]))
+});
+
+// Profile a skill, project, job or search hit belongs to
+const owningProfile = (profileId, { loaders }) => (profileId ? loaders.profile.load(profileId) : null);
+
+const Skill = new GraphQLObjectType({
+  name: 'Skill',
+  fields: () => ({
+    id: { type: required(GraphQLInt) },
+    name: { type: required(GraphQLString), resolve: skill => skill.skillName },
+    proficiency: { type: required(GraphQLInt), resolve: skill => skill.proficiencyLevel },
+    profile: { type: Profile, resolve: (skill, args, context) => owningProfile(skill.profileId, context) }
+  })
+});
+
+const ProjectLink = new GraphQLObjectType({
+  name: 'ProjectLink',
+  fields: {
+    id: { type: required(GraphQLInt) },
+    kind: { type: required(LinkKind) },
+    name: { type: required(GraphQLString) },
+    url: { type: required(GraphQLString) },
+    statusCode: { type: GraphQLInt, description: 'HTTP status of the last check' },
+    redirectUrl: { type: GraphQLString },
+    checkError: { type: GraphQLString },
+    lastCheckedAt: { type: DateTime },
+    broken: { type: required(GraphQLBoolean), resolve: link => isBroken(link) }
+  }
+});
+
+const Project = new GraphQLObjectType({
+  name: 'Project',
+  fields: () => ({
+    id: { type: required(GraphQLInt) },
+    title: { type: required(GraphQLString) },
+    description: { type: GraphQLString },
+    links: { type: list(ProjectLink) },
+    skills: { type: list(GraphQLString), description: 'Skills the project used', resolve: usedSkillNames },
+    createdAt: { type: required(DateTime) },
+    profile: { type: Profile, resolve: (project, args, context) => owningProfile(project.profileId, context) }
+  })
+});
+
+const WorkExperience = new GraphQLObjectType({
+  name: 'WorkExperience',
+  fields: () => ({
+    id: { type: required(GraphQLInt) },
+    company: { type: required(GraphQLString) },
+    position: { type: required(GraphQLString) },
+    startDate: { type: GraphQLString, description: 'YYYY-MM', resolve: work => formatMonth(work.startDate) },
+    endDate: { type: GraphQLString, description: 'YYYY-MM', resolve: work => formatMonth(work.endDate) },
+    isCurrent: { type: required(GraphQLBoolean) },
+    description: { type: GraphQLString },
+    skills: { type: list(GraphQLString), description: 'Skills used in the job', resolve: usedSkillNames },
+    tenureMonths: { type: GraphQLInt, resolve: work => tenureMonths(work) },
+    profile: { type: Profile, resolve: (work, args, context) => owningProfile(work.profileId, context) }
+  })
+});
+
+const Profile = new GraphQLObjectType({
+  name: 'Profile',
+  fields: () => ({
+    id: { type: required(GraphQLInt) },
+    name: { type: required(GraphQLString) },
+    email: { type: required(GraphQLString) },
+    education: { type: GraphQLString },
+    githubUrl: { type: GraphQLString },
+    linkedinUrl: { type: GraphQLString },
+    portfolioUrl: { type: GraphQLString },
+    ownerId: { type: GraphQLInt },
+    createdAt: { type: required(DateTime) },
+    updatedAt: { type: required(DateTime) },
+    skills: {
+      type: list(Skill),
+      args: { minLevel: { type: GraphQLInt, description: 'Only skills at this level or above' } },
+      resolve: async (profile, { minLevel }, { loaders }) => {
+        assertRange(minLevel, 1, 5, 'minLevel must be between 1 and 5');
+        const skills = await loaders.skills.load(profile.id);
+        return minLevel ? skills.filter(skill => skill.proficiencyLevel >= minLevel) : skills;
+      }
+    },
+    projects: {
+      type: list(Project),
+      args: { skill: { type: GraphQLString, description: 'Only projects that used this skill (canonical name or alias)' } },
+      resolve: async (profile, { skill }, { loaders }) => {
+        const projects = await loaders.projects.load(profile.id);
+        if (!skill) {
+          return projects;
+        }
+
+        const key = skillKey(await loaders.skillName.load(skill));
+        return projects.filter(project => usedSkillNames(project).some(name => skillKey(name) === key));
+      }
+    },
+    workExperience: {
+      type: list(WorkExperience),
+      args: { current: { type: GraphQLBoolean, description: 'Only current (true) or past (false) jobs' } },
+      resolve: async (profile, { current }, { loaders }) => {
+        const jobs = await loaders.workExperience.load(profile.id);
+        return typeof current === 'boolean' ? jobs.filter(work => work.isCurrent === current) : jobs;
+      }
+    },
+    totalExperienceMonths: {
+      type: required(GraphQLInt),
+      resolve: async (profile, args, { loaders }) => totalExperienceMonths(await loaders.workExperience.load(profile.id))
+    },
+    totalExperienceYears: {
+      type: required(GraphQLFloat),
+      resolve: async (profile, args, { loaders }) =>
+        monthsToYears(totalExperienceMonths(await loaders.workExperience.load(profile.id)))
+    }
+  })
+});
+
+const TopSkill = new GraphQLObjectType({
+  name: 'TopSkill',
+  fields: {
+    name: { type: required(GraphQLString) },
+    frequency: { type: required(GraphQLInt), description: 'Number of profiles listing the skill' },
+    averageProficiency: { type: GraphQLFloat }
+  }
+});
+
+const Stats = new GraphQLObjectType({
+  name: 'Stats',
+  fields: {
+    totalProfiles: { type: required(GraphQLInt), resolve: stats => stats.total_profiles },
+    totalProjects: { type: required(GraphQLInt), resolve: stats => stats.total_projects },
+    uniqueSkills: { type: required(GraphQLInt), resolve: stats => stats.unique_skills },
+    totalWorkExperience: { type: required(GraphQLInt), resolve: stats => stats.total_work_experience },
+    topSkills: { type: list(TopSkill), description: 'The five most frequent skills' }
+  }
+});
+
+const HighlightSegment = new GraphQLObjectType({
+  name: 'HighlightSegment',
+  fields: {
+    text: { type: required(GraphQLString) },
+    match: { type: required(GraphQLBoolean) }
+  }
+});
+
+const SearchHit = new GraphQLObjectType({
+  name: 'SearchHit',
+  fields: () => ({
+    type: { type: required(SearchHitType) },
+    id: { type: required(GraphQLInt) },
+    title: { type: required(GraphQLString) },
+    subtitle: { type: GraphQLString },
+    rank: { type: required(GraphQLFloat) },
+    createdAt: { type: DateTime, resolve: hit => hit.created_at },
+    highlight: { type: list(HighlightSegment), description: 'Snippet split into plain and matched segments' },
+    profile: { type: Profile, resolve: (hit, args, context) => owningProfile(hit.profile_id, context) }
+  })
+});
+
+const FacetCount = new GraphQLObjectType({
+  name: 'FacetCount',
+  fields: {
+    value: { type: required(GraphQLString) },
+    count: { type: required(GraphQLInt) }
+  }
+});
+
+const LevelCount = new GraphQLObjectType({
+  name: 'LevelCount',
+  fields: {
+    level: { type: required(GraphQLInt), resolve: facet => facet.value },
+    count: { type: required(GraphQLInt), description: 'Hits with a skill at this level or above' }
+  }
+});
+
+const SearchFacets = new GraphQLObjectType({
+  name: 'SearchFacets',
+  fields: {
+    skills: { type: list(FacetCount) },
+    companies: { type: list(FacetCount) },
+    positions: { type: list(FacetCount) },
+    proficiency: { type: list(LevelCount) },
+    years: { type: list(FacetCount) }
+  }
+});
+
+const SearchResults = new GraphQLObjectType({
+  name: 'SearchResults',
+  fields: {
+    query: { type: required(GraphQLString) },
+    fuzzy: { type: required(GraphQLBoolean), description: 'Whether nothing matched exactly and typo-tolerant matching was used' },
+    total: { type: required(GraphQLInt) },
+    hits: { type: list(SearchHit) },
+    facets: { type: required(SearchFacets) }
+  }
+});
+
+const Query = new GraphQLObjectType({
+  name: 'Query',
+  fields: {
+    profile: {
+      type: Profile,
+      args: { id: { type: required(GraphQLInt) } },
+      resolve: (root, { id }, { loaders }) => loaders.profile.load(id)
+    },
+    profiles: {
+      type: list(Profile),
+      args: {
+        skill: { type: GraphQLString, description: 'Only profiles with this skill (canonical name or alias)' },
+        company: { type: GraphQLString, description: 'Only profiles with a job at a company containing this text' },
+        ...pageArgs(10)
+      },
+      resolve: async (root, { skill, company, ...pageOptions }, { loaders }) => {
+        assertLength(skill, 1, 50, 'Skill filter must be between 1 and 50 characters');
+        assertLength(company, 1, 100, 'Company and position filters must be between 1 and 100 characters');
+
+        // Profile skills carry the canonical name, as in the search filters
+        const skillName = skill && await loaders.skillName.load(skill);
+        const profiles = await prisma.profile.findMany({
+          where: {
+            ...notDeleted,
+            ...(skillName && { skills: { some: { ...notDeleted, skillName: { equals: skillName, mode: 'insensitive' } } } }),
+            ...(company && {
+              workExperience: { some: { ...notDeleted, company: { contains: company.trim(), mode: 'insensitive' } } }
+            })
+          },
+          orderBy: { id: 'asc' },
+          ...page(pageOptions)
+        });
+
+        // Nested fields pointing back at these profiles need no query
+        profiles.forEach(profile => loaders.profile.prime(profile.id, profile));
+        return profiles;
+      }
+    },
+    projects: {
+      type: list(Project),
+      description: 'Projects of all profiles, newest first',
+      args: {
+        skill: { type: GraphQLString, description: 'Only projects that used this skill (canonical name or alias)' },
+        ...pageArgs(10)
+      },
+      resolve: (root, { skill, ...pageOptions }) => {
+        assertLength(skill, 1, 50, 'Skill filter must be between 1 and 50 characters');
+
+        return prisma.project.findMany({
+          where: skill ? { ...notDeleted, skills: { some: { catalogEntry: catalogEntryWhere(skill) } } } : notDeleted,
+          orderBy: { createdAt: 'desc' },
+          include: projectInclude,
+          ...page(pageOptions)
+        });
+      }
+    },
+    skills: {
+      type: list(Skill),
+      description: 'Skills of all profiles, by name',
+      args: {
+        profileId: { type: GraphQLInt, description: 'Only the skills of this profile' },
+        ...pageArgs(100)
+      },
+      resolve: (root, { profileId, ...pageOptions }) =>
+        prisma.skill.findMany({
+          where: profileId ? { profileId, ...notDeleted } : notDeleted,
+          orderBy: { skillName: 'asc' },
+          ...page(pageOptions)
+        })
+    },
+    topSkills: {
+      type: list(TopSkill),
+      description: 'Skills by the number of profiles listing them',
+      args: { limit: { type: required(GraphQLInt), defaultValue: 10 } },
+      resolve: (root, { limit }) => {
+        assertRange(limit, 1, 50, 'Limit must be between 1 and 50');
+        return topSkills(limit);
+      }
+    },
+    stats: {
+      type: required(Stats),
+      resolve: () => profileStats()
+    },
+    search: {
+      type: required(SearchResults),
+      description: 'Full-text search across profiles, projects, skills and work experience, like GET /api/search',
+      args: {
+        q: { type: GraphQLString, description: 'Search query, required unless a filter is given' },
+        skills: { type: new GraphQLList(required(GraphQLString)), description: 'Required skills, all of which must match' },
+        minLevel: { type: GraphQLInt, description: 'Minimum proficiency level of the skills' },
+        companies: { type: new GraphQLList(required(GraphQLString)), description: 'Companies, any of which may match' },
+        positions: { type: new GraphQLList(required(GraphQLString)), description: 'Positions, any of which may match' },
+        from: { type: GraphQLString, description: 'Only jobs ongoing at or after this date (YYYY or YYYY-MM)' },
+        to: { type: GraphQLString, description: 'Only jobs started at or before this date (YYYY or YYYY-MM)' },
+        type: { type: required(SearchType), defaultValue: 'all' },
+        ...pageArgs(20)
+      },
+      resolve: async (root, { q, skills, minLevel, companies, positions, from, to, type, ...pageOptions }) => {
+        const { take, skip } = page(pageOptions);
+        assertLength(q || null, 1, 100, 'Search query must be between 1 and 100 characters');
+        assertRange(minLevel, 1, 5, 'minLevel must be between 1 and 5');
+        for (const value of [...(companies ?? []), ...(positions ?? [])]) {
+          assertLength(value, 1, 100, 'Company and position filters must be between 1 and 100 characters');
+        }
+        for (const value of [from, to]) {
+          if (value !== undefined && value !== null && !MONTH_PATTERN.test(value)) {
+            throw new AppError('Date filters must be formatted as YYYY or YYYY-MM', 400, 'VALIDATION_ERROR');
+          }
+        }
+
+        const filters = {
+          skills: await canonicalSkillNames(skills ?? []),
+          companies: companies ?? [],
+          positions: positions ?? [],
+          minLevel: minLevel ?? undefined,
+          from: from ?? undefined,
+          to: to ?? undefined
+        };
+        const term = (q || '').trim();
+
+        if (!term && !hasFilters(filters)) {
+          throw new AppError('Search query is required', 400, 'MISSING_QUERY');
+        }
+
+        const { hits, total, fuzzy, facets } = await searchAll(term, { type, filters, limit: take, offset: skip });
+        return { query: q || '', fuzzy, total, hits, facets };
+      }
+    }
+  }
+});
+
+const schema = new GraphQLSchema({ query: Query });
+
+export {
+  schema
+};
@@ -0,0 +1,57 @@
+// Minimal RFC 4180 CSV reader for uploaded exports
+
+// Split CSV text into rows of fields. Handles quoted fields with embedded
+// commas, quotes and line breaks, CRLF line endings and a leading BOM.
+const parseRows = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+// Parse CSV text with a header row into objects keyed by header
+const parseCsv = (text) => {
+  const [header = [], ...rows] = parseRows(text);
+  const keys = header.map(key => key.trim());
+
+  return rows.map(fields =>
+    Object.fromEntries(keys.map((key, index) => [key, (fields[index] ?? '').trim()])));
+};
+
+export { parseCsv };
@@ -0,0 +1,45 @@
+import { parseMonth, formatMonth } from '../workDates.js';
+import { inferLinkKind } from '../projectLinks.js';
+
+// Field mapping shared by the importers
+
+const PROFILE_URL_FIELDS = [
+  [/(^|\.)github\.com$/i, 'github_url'],
+  [/(^|\.)linkedin\.com$/i, 'linkedin_url']
+];
+
+const hostOf = (url) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./i, '');
+  } catch {
+    return null;
+  }
+};
+
+// Sort URLs into github_url, linkedin_url and portfolio_url by host. The
+// first URL of each kind wins; URLs that do not parse are ignored.
+const profileUrls = (urls) => {
+  const fields = {};
+
+  for (const url of urls) {
+    const host = hostOf(url);
+    if (!host) continue;
+
+    const [, field] = PROFILE_URL_FIELDS.find(([pattern]) => pattern.test(host)) || [null, 'portfolio_url'];
+    fields[field] = fields[field] || url;
+  }
+
+  return fields;
+};
+
+// Project link for a bare URL, named after its host
+const projectLink = (url) => ({
+  kind: inferLinkKind({ url }),
+  name: hostOf(url) || 'Link',
+  url
+});
+
+// Any date the work experience parser understands, as "YYYY-MM"
+const monthInput = (value) => formatMonth(parseMonth(value)) || undefined;
+
+export { profileUrls, projectLink, monthInput };
@@ -0,0 +1,6 @@
+// Formats a profile can be imported from, as accepted by the format query
+// parameter of POST /api/profiles/import. Kept apart from profileImport.js
+// so that the API contract can list them without importing the importers.
+const IMPORT_FORMATS = ['jsonresume', 'linkedin', 'vcard'];
+
+export { IMPORT_FORMATS };
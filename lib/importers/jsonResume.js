@@ -0,0 +1,87 @@
+import { PROFICIENCY_LABELS } from '../resume.js';
+import { profileUrls, projectLink, monthInput } from './fields.js';
+
+// Map a JSON Resume document (https://jsonresume.org/schema) to profile
+// input. Both the current schema and the older `company`/`website` field
+// names are read.
+
+const LEVELS = Object.fromEntries(
+  Object.entries(PROFICIENCY_LABELS).map(([level, label]) => [label.toLowerCase(), Number(level)]));
+
+// Skill levels are free text in JSON Resume. Our own labels and numbers
+// are understood; anything else counts as the lowest level.
+const levelOf = (level) => {
+  const number = Number(level);
+  if (Number.isInteger(number) && number >= 1 && number <= 5) return number;
+  return LEVELS[String(level ?? '').trim().toLowerCase()] || 1;
+};
+
+const list = (value) => (Array.isArray(value) ? value : []);
+
+const text = (value) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+// Summary followed by highlights as bullet points
+const describe = (item) => [
+  text(item.summary) || text(item.description),
+  ...list(item.highlights).filter(text).map(highlight => `• ${highlight.trim()}`)
+].filter(Boolean).join('\n') || undefined;
+
+const educationText = (entry) => {
+  const degree = [text(entry.studyType), text(entry.area)].filter(Boolean).join(' in ');
+  return [degree, text(entry.institution)].filter(Boolean).join(', ');
+};
+
+const fromJsonResume = (resume) => {
+  const warnings = [];
+  const basics = resume.basics || {};
+
+  // A skill with keywords is a group (as in our own export); the keywords
+  // are the skills. Otherwise the skill's name is the skill.
+  const skills = list(resume.skills).flatMap(skill => {
+    const names = list(skill.keywords).filter(text);
+    return (names.length > 0 ? names : [skill.name])
+      .filter(text)
+      .map(name => ({ name: name.trim(), level: levelOf(skill.level) }));
+  });
+
+  const education = list(resume.education).map(educationText).filter(Boolean);
+
+  const urls = [
+    text(basics.url) || text(basics.website),
+    ...list(basics.profiles).map(profile => text(profile.url))
+  ].filter(Boolean);
+
+  for (const profile of list(basics.profiles)) {
+    if (!text(profile.url) && text(profile.network)) {
+      warnings.push(`Skipped the ${profile.network} profile: it has no URL`);
+    }
+  }
+
+  return {
+    profile: {
+      name: text(basics.name),
+      email: text(basics.email),
+      education: education.join('; ') || undefined,
+      ...profileUrls(urls),
+      skills,
+      projects: list(resume.projects).map(project => ({
+        title: text(project.name),
+        description: describe(project),
+        links: [text(project.url)].filter(Boolean).map(projectLink),
+        skills: list(project.keywords).filter(text)
+      })),
+      workExperience: list(resume.work).map(work => ({
+        company: text(work.name) || text(work.company),
+        position: text(work.position),
+        start_date: monthInput(work.startDate),
+        end_date: monthInput(work.endDate),
+        is_current: Boolean(text(work.startDate) && !text(work.endDate)),
+        description: describe(work),
+        skills: []
+      }))
+    },
+    warnings
+  };
+};
+
+export { fromJsonResume };
@@ -0,0 +1,86 @@
+import { parseCsv } from './csv.js';
+import { profileUrls, projectLink, monthInput } from './fields.js';
+
+// Map a LinkedIn data export to profile input. The export is a ZIP of CSV
+// files; the ones read here are Profile, Email Addresses, Positions,
+// Skills, Projects and Education. Tables are recognized by their columns,
+// so a single CSV can be imported on its own as well.
+
+const TABLES = {
+  profile: columns => columns.includes('First Name') && columns.includes('Last Name'),
+  emails: columns => columns.includes('Email Address'),
+  positions: columns => columns.includes('Company Name') && columns.includes('Title'),
+  projects: columns => columns.includes('Title') && columns.includes('Url'),
+  skills: columns => columns.length === 1 && columns[0] === 'Name',
+  education: columns => columns.includes('School Name')
+};
+
+// Group the rows of each CSV under the table it holds
+const classify = (csvFiles) => {
+  const tables = {};
+
+  for (const text of csvFiles) {
+    const rows = parseCsv(text);
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const table = Object.keys(TABLES).find(name => TABLES[name](columns));
+
+    if (table) {
+      tables[table] = [...(tables[table] || []), ...rows];
+    }
+  }
+
+  return tables;
+};
+
+const URL_PATTERN = /https?:\/\/[^\s,\]]+/g;
+
+const fromLinkedIn = (csvFiles) => {
+  const warnings = [];
+  const tables = classify(csvFiles);
+
+  if (Object.keys(tables).length === 0) {
+    warnings.push('No LinkedIn Profile, Positions, Skills or Projects data was found');
+  }
+
+  const [profile = {}] = tables.profile || [];
+  const emails = tables.emails || [];
+  const email = (emails.find(row => row.Primary === 'Yes') || emails[0])?.['Email Address'];
+
+  if (tables.profile && !email) {
+    warnings.push('LinkedIn exports the email address in "Email Addresses.csv"; include it or add an email before importing');
+  }
+
+  const education = (tables.education || [])
+    .map(row => [row['Degree Name'], row['School Name']].filter(Boolean).join(', '))
+    .filter(Boolean);
+
+  return {
+    profile: {
+      name: [profile['First Name'], profile['Last Name']].filter(Boolean).join(' ') || undefined,
+      email: email || undefined,
+      education: education.join('; ') || undefined,
+      ...profileUrls(profile.Websites?.match(URL_PATTERN) || []),
+      skills: (tables.skills || [])
+        .filter(row => row.Name)
+        .map(row => ({ name: row.Name, level: 1 })),
+      projects: (tables.projects || []).map(row => ({
+        title: row.Title || undefined,
+        description: row.Description || undefined,
+        links: [row.Url].filter(Boolean).map(projectLink),
+        skills: []
+      })),
+      workExperience: (tables.positions || []).map(row => ({
+        company: row['Company Name'] || undefined,
+        position: row.Title || undefined,
+        start_date: monthInput(row['Started On']),
+        end_date: monthInput(row['Finished On']),
+        is_current: Boolean(row['Started On'] && !row['Finished On']),
+        description: row.Description || undefined,
+        skills: []
+      }))
+    },
+    warnings
+  };
+};
+
+export { fromLinkedIn };
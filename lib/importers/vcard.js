@@ -0,0 +1,68 @@
+import { profileUrls } from './fields.js';
+
+// Map a vCard (RFC 6350, and the 3.0 cards most apps still export) to
+// profile input. ORG and TITLE become the current job and CATEGORIES the
+// skills.
+
+// Join folded lines and split the card into { name, params, value }
+// properties. Group prefixes such as "item1." are dropped.
+const parseProperties = (text) =>
+  text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(line => line.match(/^(?:[\w-]+\.)?([\w-]+)((?:;[^:]*)?):(.*)$/))
+    .filter(Boolean)
+    .map(([, name, params, value]) => ({ name: name.toUpperCase(), params: params.toUpperCase(), value }));
+
+const unescape = (value) => value.replace(/\\([nN,;\\])/g, (match, char) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// Split a structured value on unescaped separators
+const components = (value, separator) =>
+  value.split(new RegExp(`(?<!\\\\)${separator}`)).map(unescape).map(part => part.trim());
+
+const fromVCard = (text) => {
+  const warnings = [];
+  const cards = text.split(/^END:VCARD\s*$/im).filter(card => /BEGIN:VCARD/i.test(card));
+
+  if (cards.length === 0) {
+    return { profile: {}, warnings: ['No vCard was found'] };
+  }
+  if (cards.length > 1) {
+    warnings.push(`The file holds ${cards.length} vCards; only the first was imported`);
+  }
+
+  const properties = parseProperties(cards[0]);
+  const all = (name) => properties.filter(property => property.name === name);
+  const first = (name) => all(name)[0];
+
+  // Prefer the email marked as preferred
+  const emails = all('EMAIL');
+  const email = emails.find(property => /PREF/.test(property.params)) || emails[0];
+
+  const [family = '', given = ''] = first('N') ? components(first('N').value, ';') : [];
+  const name = (first('FN') && unescape(first('FN').value).trim()) || [given, family].filter(Boolean).join(' ');
+
+  const urls = [...all('URL'), ...all('X-SOCIALPROFILE')].map(property => unescape(property.value).trim());
+
+  const company = first('ORG') && components(first('ORG').value, ';')[0];
+  const title = first('TITLE') && unescape(first('TITLE').value).trim();
+
+  return {
+    profile: {
+      name: name || undefined,
+      email: email ? unescape(email.value).trim() : undefined,
+      ...profileUrls(urls),
+      skills: all('CATEGORIES')
+        .flatMap(property => components(property.value, ','))
+        .filter(Boolean)
+        .map(skill => ({ name: skill, level: 1 })),
+      projects: [],
+      workExperience: company && title
+        ? [{ company, position: title, is_current: true, skills: [] }]
+        : []
+    },
+    warnings
+  };
+};
+
+export { fromVCard };
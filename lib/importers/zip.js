@@ -0,0 +1,74 @@
+import zlib from 'zlib';
+
+// Minimal ZIP reader for uploaded exports. Supports stored and deflated
+// entries, which is what data exports use.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Upper bound on the unpacked size of all entries, against zip bombs
+const MAX_UNPACKED_BYTES = 20 * 1024 * 1024;
+
+const isZip = (buffer) => buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+
+// Locate the end of central directory record, which may be followed by a
+// comment of up to 64 KB
+const findEndOfCentralDirectory = (buffer) => {
+  const stop = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP file');
+};
+
+// Read the files of a ZIP archive into a map of path to contents.
+// Directories and entries with other compression methods are skipped.
+const readZip = (buffer) => {
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  let unpacked = 0;
+  const files = new Map();
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || (method !== 0 && method !== 8)) {
+      continue;
+    }
+
+    // The local header repeats the name and may have a different extra field
+    const dataStart = localOffset + 30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    const contents = method === 0
+      ? data
+      : zlib.inflateRawSync(data, { maxOutputLength: MAX_UNPACKED_BYTES - unpacked });
+
+    unpacked += contents.length;
+    if (unpacked > MAX_UNPACKED_BYTES) {
+      throw new Error('ZIP contents are too large');
+    }
+
+    files.set(name, contents);
+  }
+
+  return files;
+};
+
+export { isZip, readZip };
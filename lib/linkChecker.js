@@ -0,0 +1,63 @@
+// HTTP checks for project links. Requests go through a fetcher so that
+// tests (or other transports) can replace the network.
+
+const MAX_REDIRECTS = 5;
+const REQUEST_TIMEOUT_MS = 10000;
+const USER_AGENT = 'me-api-playground link checker';
+
+// Default fetcher: fetch without following redirects, so that every hop
+// can be recorded. A replacement takes the same (url, { method, signal })
+// arguments and resolves to an object with `status` and `headers.get()`.
+const httpFetcher = (url, { method, signal }) =>
+  fetch(url, { method, signal, redirect: 'manual', headers: { 'User-Agent': USER_AGENT } });
+
+const isRedirect = (status) => status >= 300 && status < 400;
+
+// Send a HEAD request, falling back to GET for servers that do not allow
+// HEAD. Response bodies are never read.
+const request = async (fetcher, url, timeoutMs) => {
+  for (const method of ['HEAD', 'GET']) {
+    const response = await fetcher(url, { method, signal: AbortSignal.timeout(timeoutMs) });
+    response.body?.cancel().catch(() => {});
+
+    if (method === 'GET' || (response.status !== 405 && response.status !== 501)) {
+      return response;
+    }
+  }
+};
+
+// Check one URL, following up to MAX_REDIRECTS redirects. Resolves to the
+// final status code, the final URL when it differs from the checked one,
+// and an error message when no final response was received.
+const checkLink = async (url, { fetcher = httpFetcher, timeoutMs = REQUEST_TIMEOUT_MS } = {}) => {
+  let current = url;
+  const result = (statusCode, checkError = null) => ({
+    statusCode,
+    redirectUrl: current === url ? null : current,
+    checkError
+  });
+
+  try {
+    for (let hops = 0; hops <= MAX_REDIRECTS; hops++) {
+      const response = await request(fetcher, current, timeoutMs);
+      const location = response.headers.get('location');
+
+      if (!isRedirect(response.status) || !location) {
+        return result(response.status);
+      }
+
+      current = new URL(location, current).toString();
+    }
+
+    return result(null, `More than ${MAX_REDIRECTS} redirects`);
+  } catch (error) {
+    const message = error.name === 'TimeoutError' ? `No response within ${timeoutMs} ms` : (error.cause?.message || error.message);
+    return result(null, message);
+  }
+};
+
+// A link is broken when its last check failed or returned an error status
+const isBroken = ({ lastCheckedAt, statusCode, checkError }) =>
+  Boolean(lastCheckedAt) && (Boolean(checkError) || statusCode >= 400);
+
+export { httpFetcher, checkLink, isBroken };
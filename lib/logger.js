@@ -1,6 +1,7 @@
 import winston from 'winston';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { currentRequestId } from './requestContext.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,6 +27,19 @@ const colors = {
 // Tell winston that you want to link the colors
 winston.addColors(colors);
 
+// Tag every entry written while a request is handled with its ID
+const requestIdFormat = winston.format((info) => {
+  const requestId = currentRequestId();
+  if (requestId && !info.requestId) {
+    info.requestId = requestId;
+  }
+  return info;
+});
+
+// Access logs are written at the http level, so that is the least kept
+// outside development and tests; LOG_LEVEL overrides it
+const defaultLevel = { development: 'debug', test: 'warn' }[process.env.NODE_ENV] || 'http';
+
 // Define which transports the logger must use
 const transports = [
   // Console transport
@@ -34,7 +48,7 @@ const transports = [
       winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss:ms' }),
       winston.format.colorize({ all: true }),
       winston.format.printf(
-        (info) => `${info.timestamp} ${info.level}: ${info.message}`
+        (info) => `${info.timestamp} ${info.level}: ${info.requestId ? `[${info.requestId}] ` : ''}${info.message}`
       )
     ),
   }),
@@ -59,17 +73,32 @@ const transports = [
 
 // Create the logger
 const logger = winston.createLogger({
-  level: process.env.NODE_ENV === 'development' ? 'debug' : 'warn',
+  level: process.env.LOG_LEVEL || defaultLevel,
   levels,
+  format: requestIdFormat(),
   transports,
   exitOnError: false,
 });
 
-// Create a stream object with a 'write' function that will be used by morgan
+// Create a stream object with a 'write' function that will be used by
+// morgan. Lines are the JSON written by the accessLogFormat below.
 logger.stream = {
   write: (message) => {
-    logger.http(message.substring(0, message.lastIndexOf('\n')));
+    logger.http('Request completed', JSON.parse(message));
   },
 };
 
+// Morgan format for one structured access log entry per response
+logger.accessLogFormat = (tokens, req, res) => JSON.stringify({
+  method: req.method,
+  url: tokens.url(req, res),
+  status: res.headersSent ? res.statusCode : null,
+  responseTimeMs: Number(tokens['response-time'](req, res)) || null,
+  contentLength: Number(res.get('Content-Length')) || null,
+  ip: req.ip,
+  userAgent: req.get('User-Agent'),
+  userId: req.user?.id,
+  requestId: req.id
+});
+
 export default logger;
@@ -0,0 +1,75 @@
+import { AppError } from '../middleware/errorHandler.js';
+
+// Cursor pagination for list endpoints. A cursor is an opaque token for the
+// position of a page's first item; clients take it from `pagination` or the
+// Link header and send it back unchanged as `?cursor=`.
+
+const encodeCursor = (offset) => Buffer.from(JSON.stringify({ offset })).toString('base64url');
+
+const decodeCursor = (cursor) => {
+  let offset;
+  try {
+    ({ offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    offset = undefined;
+  }
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new AppError('Invalid pagination cursor', 400, 'INVALID_CURSOR');
+  }
+
+  return offset;
+};
+
+// Describe the page at offset of a list with total items
+const pageInfo = ({ limit, offset, total }) => {
+  const hasMore = offset + limit < total;
+
+  return {
+    limit,
+    offset,
+    total,
+    hasMore,
+    currentPage: Math.floor(offset / limit) + 1,
+    totalPages: Math.max(Math.ceil(total / limit), 1),
+    nextCursor: hasMore ? encodeCursor(offset + limit) : null,
+    prevCursor: offset > 0 ? encodeCursor(Math.max(offset - limit, 0)) : null
+  };
+};
+
+// RFC 8288 Link header with first, prev, next and last page URLs
+const linkHeader = (req, pagination) => {
+  const url = new URL(req.originalUrl, `${req.protocol}://${req.get('host')}`);
+  url.searchParams.delete('offset');
+  url.searchParams.set('limit', pagination.limit);
+
+  const link = (cursor, rel) => {
+    url.searchParams.set('cursor', cursor);
+    return `<${url.href}>; rel="${rel}"`;
+  };
+
+  return [
+    link(encodeCursor(0), 'first'),
+    pagination.prevCursor && link(pagination.prevCursor, 'prev'),
+    pagination.nextCursor && link(pagination.nextCursor, 'next'),
+    link(encodeCursor((pagination.totalPages - 1) * pagination.limit), 'last')
+  ].filter(Boolean).join(', ');
+};
+
+// Build the pagination object for req.pagination (set by the paginate
+// middleware) and send it as Link and X-Total-Count headers too
+const paginationFor = (req, res, total) => {
+  const pagination = pageInfo({ ...req.pagination, total });
+
+  res.set('Link', linkHeader(req, pagination));
+  res.set('X-Total-Count', String(total));
+
+  return pagination;
+};
+
+export {
+  encodeCursor,
+  decodeCursor,
+  pageInfo,
+  paginationFor
+};
@@ -0,0 +1,219 @@
+import { AppError } from '../middleware/errorHandler.js';
+
+// Media types that select a patch format on PATCH requests
+const MERGE_PATCH_TYPE = 'application/merge-patch+json';
+const JSON_PATCH_TYPE = 'application/json-patch+json';
+
+const isPlainObject = (value) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const clone = (value) => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// Structural equality as required by the JSON Patch "test" operation
+const deepEqual = (a, b) => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => key in b && deepEqual(a[key], b[key]));
+  }
+  return a === b;
+};
+
+// Apply a JSON Merge Patch (RFC 7396). Objects are merged recursively,
+// null removes a member and any other value (including arrays) replaces it.
+const applyMergePatch = (target, patch) => {
+  if (!isPlainObject(patch)) {
+    return clone(patch);
+  }
+
+  const result = isPlainObject(target) ? clone(target) : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+
+  return result;
+};
+
+// Split a JSON Pointer (RFC 6901) into unescaped reference tokens
+const parsePointer = (pointer) => {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw new AppError(`Invalid JSON pointer: ${pointer}`, 400, 'INVALID_PATCH');
+  }
+
+  if (pointer === '') {
+    return [];
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+// Resolve an array index token. '-' means "past the end" and is only
+// allowed when adding.
+const arrayIndex = (array, token, { allowEnd = false } = {}) => {
+  if (token === '-' && allowEnd) {
+    return array.length;
+  }
+
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new AppError(`Invalid array index: ${token}`, 400, 'INVALID_PATCH');
+  }
+
+  const index = Number(token);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (index > max) {
+    throw new AppError(`Array index out of bounds: ${token}`, 400, 'INVALID_PATCH');
+  }
+
+  return index;
+};
+
+// Walk to the parent container of the location a pointer refers to
+const resolveParent = (document, tokens, path) => {
+  let node = document;
+
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(node)) {
+      node = node[arrayIndex(node, token)];
+    } else if (isPlainObject(node) && token in node) {
+      node = node[token];
+    } else {
+      throw new AppError(`Path not found: ${path}`, 400, 'INVALID_PATCH');
+    }
+  }
+
+  if (!Array.isArray(node) && !isPlainObject(node)) {
+    throw new AppError(`Path not found: ${path}`, 400, 'INVALID_PATCH');
+  }
+
+  return node;
+};
+
+const getValue = (document, path) => {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) {
+    return document;
+  }
+
+  const parent = resolveParent(document, tokens, path);
+  const last = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, last)];
+  }
+  if (!(last in parent)) {
+    throw new AppError(`Path not found: ${path}`, 400, 'INVALID_PATCH');
+  }
+  return parent[last];
+};
+
+const addValue = (document, path, value) => {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) {
+    return clone(value);
+  }
+
+  const parent = resolveParent(document, tokens, path);
+  const last = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, last, { allowEnd: true }), 0, clone(value));
+  } else {
+    parent[last] = clone(value);
+  }
+  return document;
+};
+
+const removeValue = (document, path) => {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) {
+    throw new AppError('Cannot remove the whole document', 400, 'INVALID_PATCH');
+  }
+
+  const parent = resolveParent(document, tokens, path);
+  const last = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, last), 1);
+  } else {
+    if (!(last in parent)) {
+      throw new AppError(`Path not found: ${path}`, 400, 'INVALID_PATCH');
+    }
+    delete parent[last];
+  }
+  return document;
+};
+
+// Apply a JSON Patch (RFC 6902). Operations are applied in order to a copy
+// of the document; if any of them fails nothing is changed.
+const applyJsonPatch = (document, operations) => {
+  if (!Array.isArray(operations)) {
+    throw new AppError('JSON Patch body must be an array of operations', 400, 'INVALID_PATCH');
+  }
+
+  let result = clone(document);
+
+  operations.forEach((operation, index) => {
+    if (!isPlainObject(operation) || typeof operation.op !== 'string') {
+      throw new AppError(`Invalid patch operation at index ${index}`, 400, 'INVALID_PATCH');
+    }
+
+    const { op, path, from, value } = operation;
+    const needsValue = ['add', 'replace', 'test'].includes(op);
+    if (needsValue && !('value' in operation)) {
+      throw new AppError(`Operation "${op}" at index ${index} requires a value`, 400, 'INVALID_PATCH');
+    }
+
+    switch (op) {
+    case 'add':
+      result = addValue(result, path, value);
+      break;
+    case 'remove':
+      result = removeValue(result, path);
+      break;
+    case 'replace':
+      getValue(result, path);
+      result = parsePointer(path).length === 0
+        ? clone(value)
+        : addValue(removeValue(result, path), path, value);
+      break;
+    case 'move': {
+      if (typeof path === 'string' && path.startsWith(`${from}/`)) {
+        throw new AppError('Cannot move a value into one of its children', 400, 'INVALID_PATCH');
+      }
+      const moved = getValue(result, from);
+      result = addValue(removeValue(result, from), path, moved);
+      break;
+    }
+    case 'copy':
+      result = addValue(result, path, getValue(result, from));
+      break;
+    case 'test':
+      if (!deepEqual(getValue(result, path), value)) {
+        throw new AppError(`Test operation failed at ${path}`, 409, 'PATCH_TEST_FAILED');
+      }
+      break;
+    default:
+      throw new AppError(`Unsupported patch operation: ${op}`, 400, 'INVALID_PATCH');
+    }
+  });
+
+  return result;
+};
+
+export {
+  MERGE_PATCH_TYPE,
+  JSON_PATCH_TYPE,
+  applyMergePatch,
+  applyJsonPatch
+};
@@ -0,0 +1,102 @@
+import { STATUS_CODES } from 'http';
+
+// Error responses follow RFC 7807 (problem details). Every error has a
+// machine-readable `code` from the catalog below; `title` is the same for
+// every occurrence of a code and `detail` explains the occurrence.
+
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+// Error codes with their HTTP status and title
+const ERROR_CODES = {
+  // 400
+  VALIDATION_ERROR: { status: 400, title: 'Invalid request' },
+  MISSING_CREDENTIALS: { status: 400, title: 'Missing credentials' },
+  MISSING_REFRESH_TOKEN: { status: 400, title: 'Missing refresh token' },
+  MISSING_QUERY: { status: 400, title: 'Missing search query' },
+  INVALID_JSON: { status: 400, title: 'Malformed JSON body' },
+  INVALID_INPUT: { status: 400, title: 'Invalid input' },
+  INVALID_ID: { status: 400, title: 'Invalid ID' },
+  INVALID_PROJECT_ID: { status: 400, title: 'Invalid project ID' },
+  INVALID_WORK_ID: { status: 400, title: 'Invalid work experience ID' },
+  INVALID_CHILD_ID: { status: 400, title: 'Invalid item ID' },
+  INVALID_CURSOR: { status: 400, title: 'Invalid cursor' },
+  INVALID_IMPORT: { status: 400, title: 'Invalid import file' },
+  INVALID_MERGE: { status: 400, title: 'Invalid merge' },
+  INVALID_PATCH: { status: 400, title: 'Invalid patch document' },
+  VALUE_TOO_LONG: { status: 400, title: 'Value too long' },
+  FOREIGN_KEY_CONSTRAINT: { status: 400, title: 'Related record missing' },
+
+  // 401
+  NO_TOKEN: { status: 401, title: 'Authentication required' },
+  TOKEN_EXPIRED: { status: 401, title: 'Token expired' },
+  INVALID_API_KEY: { status: 401, title: 'Invalid API key' },
+  INVALID_CREDENTIALS: { status: 401, title: 'Invalid credentials' },
+  INVALID_REFRESH_TOKEN: { status: 401, title: 'Invalid refresh token' },
+
+  // 403
+  INVALID_TOKEN: { status: 403, title: 'Invalid token' },
+  FORBIDDEN: { status: 403, title: 'Insufficient permissions' },
+  INSUFFICIENT_SCOPE: { status: 403, title: 'API key scope missing' },
+  NOT_PROFILE_OWNER: { status: 403, title: 'Not the profile owner' },
+  SESSION_REQUIRED: { status: 403, title: 'Login session required' },
+
+  // 404
+  NOT_FOUND: { status: 404, title: 'Not found' },
+  PROFILE_NOT_FOUND: { status: 404, title: 'Profile not found' },
+  PROFILES_NOT_FOUND: { status: 404, title: 'Profiles not found' },
+  PROJECT_NOT_FOUND: { status: 404, title: 'Project not found' },
+  WORK_NOT_FOUND: { status: 404, title: 'Work experience not found' },
+  REVISION_NOT_FOUND: { status: 404, title: 'Revision not found' },
+  SKILL_NOT_FOUND: { status: 404, title: 'Catalog skill not found' },
+  API_KEY_NOT_FOUND: { status: 404, title: 'API key not found' },
+  NOT_IN_TRASH: { status: 404, title: 'Not in the trash' },
+  WEBHOOK_NOT_FOUND: { status: 404, title: 'Webhook subscription not found' },
+  DELIVERY_NOT_FOUND: { status: 404, title: 'Webhook delivery not found' },
+
+  // 409
+  DUPLICATE_ENTRY: { status: 409, title: 'Duplicate value' },
+  PROFILE_EXISTS: { status: 409, title: 'Profile already exists' },
+  SKILL_CONFLICT: { status: 409, title: 'Skill name already in use' },
+  PATCH_TEST_FAILED: { status: 409, title: 'Patch test failed' },
+
+  // 413
+  PAYLOAD_TOO_LARGE: { status: 413, title: 'Request body too large' },
+
+  // 429
+  RATE_LIMIT_EXCEEDED: { status: 429, title: 'Too many requests' },
+  WRITE_RATE_LIMIT_EXCEEDED: { status: 429, title: 'Too many write requests' },
+  AUTH_RATE_LIMIT_EXCEEDED: { status: 429, title: 'Too many login attempts' },
+  SEARCH_RATE_LIMIT_EXCEEDED: { status: 429, title: 'Too many search requests' },
+  API_KEY_RATE_LIMIT_EXCEEDED: { status: 429, title: 'Too many requests for this API key' },
+
+  // 5xx
+  INTERNAL_ERROR: { status: 500, title: 'Internal server error' },
+  DATABASE_ERROR: { status: 500, title: 'Database error' },
+  DATABASE_UNAVAILABLE: { status: 503, title: 'Database unavailable' }
+};
+
+// Problem type URI of a code, e.g. urn:me-api:problem:profile-not-found
+const problemType = (code) => `urn:me-api:problem:${code.toLowerCase().replace(/_/g, '-')}`;
+
+// The problem details document for an error (an AppError or anything with
+// statusCode, code and message) raised while handling req
+const problemDetails = (req, { statusCode, code, message, extensions = {} }) => {
+  const status = statusCode || ERROR_CODES[code]?.status || 500;
+
+  return {
+    type: problemType(code),
+    title: ERROR_CODES[code]?.title || STATUS_CODES[status],
+    status,
+    detail: message,
+    instance: req.originalUrl,
+    code,
+    request_id: req.id,
+    ...extensions
+  };
+};
+
+export {
+  PROBLEM_CONTENT_TYPE,
+  ERROR_CODES,
+  problemDetails
+};
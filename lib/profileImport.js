@@ -0,0 +1,169 @@
+import { AppError } from '../middleware/errorHandler.js';
+import { contractField } from './contract.js';
+import { isZip, readZip } from './importers/zip.js';
+import { fromJsonResume } from './importers/jsonResume.js';
+import { fromLinkedIn } from './importers/linkedin.js';
+import { fromVCard } from './importers/vcard.js';
+import { IMPORT_FORMATS } from './importers/formats.js';
+
+// Profile import from other formats. An upload is mapped to the same
+// input the profile endpoints accept, and then validated and saved like a
+// new profile.
+
+const invalidImport = (message) => new AppError(message, 400, 'INVALID_IMPORT');
+
+// Guess the format of an upload from its content type and first bytes.
+// JSON bodies arrive already parsed by express.json().
+const detectFormat = (document, contentType = '') => {
+  if (!Buffer.isBuffer(document)) return 'jsonresume';
+
+  const start = document.toString('utf8', 0, 200).replace(/^\uFEFF/, '').trimStart();
+  if (isZip(document) || /csv|zip/i.test(contentType)) return 'linkedin';
+  if (/vcard|directory/i.test(contentType) || /^BEGIN:VCARD/i.test(start)) return 'vcard';
+  if (/json/i.test(contentType) || start.startsWith('{')) return 'jsonresume';
+  if (/^[^\n]*,/.test(start)) return 'linkedin';
+
+  return null;
+};
+
+const readers = {
+  jsonresume: (document) => {
+    let resume = document;
+    if (Buffer.isBuffer(document)) {
+      try {
+        resume = JSON.parse(document.toString('utf8'));
+      } catch {
+        throw invalidImport('The document is not valid JSON');
+      }
+    }
+    if (!resume || typeof resume !== 'object' || Array.isArray(resume)) {
+      throw invalidImport('A JSON Resume document must be an object');
+    }
+    return fromJsonResume(resume);
+  },
+
+  linkedin: (document) => {
+    if (!isZip(document)) {
+      return fromLinkedIn([document.toString('utf8')]);
+    }
+
+    let files;
+    try {
+      files = readZip(document);
+    } catch (error) {
+      throw invalidImport(`The ZIP file could not be read: ${error.message}`);
+    }
+
+    const csvFiles = [...files.entries()]
+      .filter(([name]) => name.toLowerCase().endsWith('.csv'))
+      .map(([, contents]) => contents.toString('utf8'));
+    return fromLinkedIn(csvFiles);
+  },
+
+  vcard: (document) => fromVCard(document.toString('utf8'))
+};
+
+// Limits of the profile endpoints, as given by the API contract
+// (lib/contract.js)
+const maxLength = (schemaName, field) => contractField(schemaName, field).maxLength;
+
+const SKILL_NAME = maxLength('SkillInput', 'name');
+const PROFILE_NAME = maxLength('ProfileInput', 'name');
+const EDUCATION = maxLength('ProfileInput', 'education');
+const PROJECT_TITLE = maxLength('ProjectInput', 'title');
+const PROJECT_DESCRIPTION = maxLength('ProjectInput', 'description');
+const MAX_PROJECT_LINKS = contractField('ProjectInput', 'links').maxItems;
+const LINK_NAME = maxLength('ProjectLinkInput', 'name');
+const MAX_USED_SKILLS = contractField('ProjectInput', 'skills').maxItems;
+const USED_SKILL = contractField('ProjectInput', 'skills').items.maxLength;
+const COMPANY = maxLength('WorkExperienceInput', 'company');
+const POSITION = maxLength('WorkExperienceInput', 'position');
+const WORK_DESCRIPTION = maxLength('WorkExperienceInput', 'description');
+
+// Shorten a text field to the length the profile endpoints accept
+const clip = (value, max, label, warnings) => {
+  if (typeof value !== 'string' || value.length <= max) return value;
+  warnings.push(`${label} was shortened to ${max} characters`);
+  return value.slice(0, max).trimEnd();
+};
+
+// Fit mapped data to the profile validation limits, so that long LinkedIn
+// descriptions and the like do not fail the whole import. Items without
+// their required fields are dropped with a warning.
+const fitProfileInput = (profile, warnings) => {
+  const seenSkills = new Set();
+
+  const skills = (profile.skills || []).filter(skill => {
+    const key = skill.name.toLowerCase();
+    if (skill.name.length > SKILL_NAME) {
+      warnings.push(`Skipped skill "${skill.name.slice(0, SKILL_NAME)}…": names are limited to ${SKILL_NAME} characters`);
+      return false;
+    }
+    if (seenSkills.has(key)) return false;
+    seenSkills.add(key);
+    return true;
+  });
+
+  const usedSkills = (names, label) => {
+    const fitting = names.filter(name => name.length <= USED_SKILL);
+    if (fitting.length > MAX_USED_SKILLS) {
+      warnings.push(`${label}: only the first ${MAX_USED_SKILLS} skills were kept`);
+    }
+    return fitting.slice(0, MAX_USED_SKILLS);
+  };
+
+  const projects = (profile.projects || []).filter(project => {
+    if (!project.title) warnings.push('Skipped a project without a title');
+    return Boolean(project.title);
+  }).map(project => {
+    const label = `Project "${project.title}"`;
+    return {
+      ...project,
+      title: clip(project.title, PROJECT_TITLE, `${label} title`, warnings),
+      description: clip(project.description, PROJECT_DESCRIPTION, `${label} description`, warnings),
+      links: project.links.slice(0, MAX_PROJECT_LINKS).map(link => ({ ...link, name: link.name.slice(0, LINK_NAME) })),
+      skills: usedSkills(project.skills, label)
+    };
+  });
+
+  const workExperience = (profile.workExperience || []).filter(work => {
+    if (!work.company || !work.position) warnings.push('Skipped a job without a company or position');
+    return Boolean(work.company && work.position);
+  }).map(work => {
+    const label = `Job "${work.position}" at ${work.company}`;
+    return {
+      ...work,
+      company: clip(work.company, COMPANY, `${label}: company`, warnings),
+      position: clip(work.position, POSITION, `${label}: position`, warnings),
+      description: clip(work.description, WORK_DESCRIPTION, `${label}: description`, warnings),
+      skills: usedSkills(work.skills, label)
+    };
+  });
+
+  return {
+    ...profile,
+    name: clip(profile.name, PROFILE_NAME, 'Name', warnings),
+    education: clip(profile.education, EDUCATION, 'Education', warnings),
+    skills,
+    projects,
+    workExperience
+  };
+};
+
+// Map an uploaded document to profile input. format is detected when not
+// given. Resolves to { format, profile, warnings }; unreadable documents
+// fail with INVALID_IMPORT.
+const importProfile = (document, { format, contentType } = {}) => {
+  const resolved = format || detectFormat(document, contentType);
+  if (!resolved) {
+    throw invalidImport(`Could not tell the format of the upload; pass format as one of: ${IMPORT_FORMATS.join(', ')}`);
+  }
+  if (resolved !== 'jsonresume' && !Buffer.isBuffer(document)) {
+    throw invalidImport(`A ${resolved} import must be uploaded as a file, not as JSON`);
+  }
+
+  const { profile, warnings } = readers[resolved](document);
+  return { format: resolved, profile: fitProfileInput(profile, warnings), warnings };
+};
+
+export { IMPORT_FORMATS, detectFormat, importProfile };
@@ -0,0 +1,311 @@
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  parseMonth,
+  formatMonth,
+  tenureMonths,
+  totalExperienceMonths,
+  monthsToYears
+} from './workDates.js';
+import { USED_SKILL_LINKS, resolveSkills } from './skillCatalog.js';
+import { serializeLink, linkInput, setProjectLinks } from './projectLinks.js';
+
+// Shared helpers for reading and writing profiles and their related records
+
+// Rows in the trash are left out of every read (see lib/trash.js)
+const notDeleted = { deletedAt: null };
+
+// Catalog skills a project or job used. Needed by serializeProject and
+// serializeWorkExperience.
+const usedSkillsInclude = {
+  skills: {
+    include: { catalogEntry: true },
+    orderBy: { catalogEntry: { name: 'asc' } }
+  }
+};
+
+// Relations needed by serializeProject
+const projectInclude = {
+  ...usedSkillsInclude,
+  links: {
+    orderBy: [{ position: 'asc' }, { id: 'asc' }]
+  }
+};
+
+// Relations loaded whenever a full profile is returned
+const profileInclude = {
+  skills: {
+    where: notDeleted,
+    orderBy: { id: 'asc' }
+  },
+  projects: {
+    where: notDeleted,
+    orderBy: { id: 'asc' },
+    include: projectInclude
+  },
+  workExperience: {
+    where: notDeleted,
+    orderBy: [{ isCurrent: 'desc' }, { startDate: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+    include: usedSkillsInclude
+  }
+};
+
+const usedSkillNames = (row) => row.skills.map(link => link.catalogEntry.name);
+
+// Transform a project row (loaded with projectInclude) to the API format
+const serializeProject = (project) => ({
+  id: project.id,
+  title: project.title,
+  description: project.description,
+  links: project.links.map(serializeLink),
+  skills: usedSkillNames(project),
+  created_at: project.createdAt
+});
+
+// Editable fields of a work experience row, with dates as "YYYY-MM"
+const workExperienceInput = (work) => ({
+  id: work.id,
+  company: work.company,
+  position: work.position,
+  start_date: formatMonth(work.startDate),
+  end_date: formatMonth(work.endDate),
+  is_current: work.isCurrent,
+  description: work.description,
+  skills: usedSkillNames(work)
+});
+
+// Transform a work experience row (loaded with usedSkillsInclude) to the API format
+const serializeWorkExperience = (work) => ({
+  ...workExperienceInput(work),
+  tenure_months: tenureMonths(work)
+});
+
+// Experience across all jobs of a profile
+const experienceTotals = (workExperience) => {
+  const months = totalExperienceMonths(workExperience);
+  return {
+    total_experience_months: months,
+    total_experience_years: monthsToYears(months)
+  };
+};
+
+// Transform a profile (loaded with profileInclude) to the API format. Only
+// the fields of the Profile schema in lib/contract.js are sent.
+const serializeProfile = (profile) => ({
+  id: profile.id,
+  name: profile.name,
+  email: profile.email,
+  education: profile.education,
+  github_url: profile.githubUrl,
+  linkedin_url: profile.linkedinUrl,
+  portfolio_url: profile.portfolioUrl,
+  owner_id: profile.ownerId,
+  created_at: profile.createdAt,
+  updated_at: profile.updatedAt,
+  skills: profile.skills.map(s => s.skillName),
+  skillsWithLevel: profile.skills.map(s => ({
+    id: s.id,
+    skill_name: s.skillName,
+    proficiency_level: s.proficiencyLevel,
+    catalog_entry_id: s.catalogEntryId
+  })),
+  projects: profile.projects.map(serializeProject),
+  workExperience: profile.workExperience.map(serializeWorkExperience),
+  ...experienceTotals(profile.workExperience)
+});
+
+// Only admins and the owner of a profile may change it or its items.
+// Profiles without an owner can only be changed by admins.
+const assertProfileOwner = (user, profile) => {
+  if (user.role === 'admin' || (profile.ownerId !== null && profile.ownerId === user.id)) {
+    return;
+  }
+
+  throw new AppError('You can only modify your own profiles', 403, 'NOT_PROFILE_OWNER');
+};
+
+// Map request body fields to Prisma data. Fields that are not present in
+// the body are left undefined so that Prisma skips them on partial updates.
+const profileData = (body) => ({
+  name: body.name,
+  email: body.email,
+  education: body.education,
+  githubUrl: body.github_url,
+  linkedinUrl: body.linkedin_url,
+  portfolioUrl: body.portfolio_url
+});
+
+// Skills may be sent as plain names or as { name, level } objects. Resolved
+// skills (see resolveSkills) also carry their catalog entry.
+const skillData = (skill) => ({
+  skillName: typeof skill === 'string' ? skill : skill.name,
+  proficiencyLevel: typeof skill === 'string' ? 1 : (skill.level || 1),
+  catalogEntryId: skill.catalogEntryId
+});
+
+// Links and used skills are stored separately, see syncProfileCollections
+const projectData = (project) => ({
+  title: project.title,
+  description: project.description
+});
+
+// Dates that are present but empty clear the column. An end date ends a
+// current job unless is_current is given as well.
+const workExperienceData = (work) => ({
+  company: work.company,
+  position: work.position,
+  startDate: work.start_date === undefined ? undefined : parseMonth(work.start_date),
+  endDate: work.is_current ? null : (work.end_date === undefined ? undefined : parseMonth(work.end_date)),
+  isCurrent: work.is_current ?? (work.end_date ? false : undefined),
+  description: work.description
+});
+
+// Editable representation of a profile, in the same shape the write
+// endpoints accept. Patch documents are applied against this.
+const toProfileInput = (profile) => ({
+  name: profile.name,
+  email: profile.email,
+  education: profile.education,
+  github_url: profile.githubUrl,
+  linkedin_url: profile.linkedinUrl,
+  portfolio_url: profile.portfolioUrl,
+  skills: profile.skills.map(s => ({
+    id: s.id,
+    name: s.skillName,
+    level: s.proficiencyLevel
+  })),
+  projects: profile.projects.map(p => ({
+    id: p.id,
+    title: p.title,
+    description: p.description,
+    links: p.links.map(linkInput),
+    skills: usedSkillNames(p)
+  })),
+  workExperience: profile.workExperience.map(workExperienceInput)
+});
+
+// Replace the skills a project or job used. Names are resolved through the
+// skill catalog like profile skills. When names is not an array the
+// current links are kept.
+const setUsedSkills = async (tx, type, id, names) => {
+  if (!Array.isArray(names)) {
+    return;
+  }
+
+  const { model, key } = USED_SKILL_LINKS[type];
+  const skills = await resolveSkills(tx, names);
+
+  await tx[model].deleteMany({ where: { [key]: id } });
+  await tx[model].createMany({
+    data: skills.map(skill => ({ [key]: id, catalogEntryId: skill.catalogEntryId }))
+  });
+};
+
+// Only write rows whose fields actually changed so updatedAt stays meaningful
+const hasChanges = (row, data) =>
+  Object.entries(data).some(([key, value]) =>
+    value !== undefined && JSON.stringify(row[key] ?? null) !== JSON.stringify(value ?? null)
+  );
+
+// Bring one related collection in line with the submitted items: items
+// with an id update that row, items without one are inserted and rows
+// that are no longer listed are moved to the trash. `matchKey` lets items
+// without an id reuse an existing row with the same value (used for skill
+// names). Rows already in the trash are left alone. Returns the row id of
+// each item, in order.
+const syncCollection = async (delegate, profileId, items, { toData, label, matchKey }) => {
+  const existing = await delegate.findMany({ where: { profileId, ...notDeleted } });
+  const existingById = new Map(existing.map(row => [row.id, row]));
+  const keptIds = new Set();
+  const ids = [];
+
+  for (const item of items) {
+    const data = toData(item);
+    const hasId = typeof item === 'object' && item.id !== undefined && item.id !== null;
+    let id = hasId ? Number(item.id) : null;
+
+    if (id !== null && !existingById.has(id)) {
+      throw new AppError(`${label} ${id} does not belong to this profile`, 400, 'INVALID_CHILD_ID');
+    }
+
+    if (id === null && matchKey) {
+      const match = existing.find(row => !keptIds.has(row.id) && row[matchKey] === data[matchKey]);
+      id = match ? match.id : null;
+    }
+
+    if (id === null) {
+      const created = await delegate.create({ data: { profileId, ...data } });
+      keptIds.add(created.id);
+      ids.push(created.id);
+      continue;
+    }
+
+    if (keptIds.has(id)) {
+      throw new AppError(`${label} ${id} is listed more than once`, 400, 'INVALID_CHILD_ID');
+    }
+
+    keptIds.add(id);
+    ids.push(id);
+    if (hasChanges(existingById.get(id), data)) {
+      await delegate.update({ where: { id }, data });
+    }
+  }
+
+  const removedIds = existing.filter(row => !keptIds.has(row.id)).map(row => row.id);
+  if (removedIds.length > 0) {
+    await delegate.updateMany({ where: { id: { in: removedIds } }, data: { deletedAt: new Date() } });
+  }
+
+  return ids;
+};
+
+// Sync the given related collections of a profile inside a transaction.
+// Collections that are not arrays are left untouched.
+const syncProfileCollections = async (tx, profileId, { skills, projects, workExperience }) => {
+  if (Array.isArray(skills)) {
+    await syncCollection(tx.skill, profileId, await resolveSkills(tx, skills), {
+      toData: skillData,
+      label: 'Skill',
+      matchKey: 'skillName'
+    });
+  }
+
+  if (Array.isArray(projects)) {
+    const ids = await syncCollection(tx.project, profileId, projects, {
+      toData: projectData,
+      label: 'Project'
+    });
+    for (const [index, project] of projects.entries()) {
+      await setUsedSkills(tx, 'project', ids[index], project.skills);
+      await setProjectLinks(tx, ids[index], project.links);
+    }
+  }
+
+  if (Array.isArray(workExperience)) {
+    const ids = await syncCollection(tx.workExperience, profileId, workExperience, {
+      toData: workExperienceData,
+      label: 'Work experience'
+    });
+    for (const [index, work] of workExperience.entries()) {
+      await setUsedSkills(tx, 'workExperience', ids[index], work.skills);
+    }
+  }
+};
+
+export {
+  notDeleted,
+  usedSkillsInclude,
+  projectInclude,
+  profileInclude,
+  usedSkillNames,
+  serializeProfile,
+  serializeProject,
+  serializeWorkExperience,
+  assertProfileOwner,
+  profileData,
+  skillData,
+  projectData,
+  workExperienceData,
+  toProfileInput,
+  setUsedSkills,
+  syncProfileCollections
+};
@@ -0,0 +1,152 @@
+import prisma from './prisma.js';
+import logger from './logger.js';
+import { checkLink, isBroken } from './linkChecker.js';
+
+// Typed project links and their health, as recorded by the link checker
+
+const LINK_KINDS = ['repo', 'demo', 'docs', 'video'];
+
+// Links are checked again once their last check is older than this
+const LINK_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const REPO_HOSTS = /(^|\.)(github\.com|gitlab\.com|bitbucket\.org)$/i;
+const VIDEO_HOSTS = /(^|\.)(youtube\.com|youtu\.be|vimeo\.com|loom\.com)$/i;
+
+// Best guess at the kind of an untyped link, used when migrating links
+// that were stored before kinds existed
+const inferLinkKind = ({ name = '', url = '' }) => {
+  let host = '';
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    // Unparseable URLs are classified by name only
+  }
+
+  if (REPO_HOSTS.test(host) || /\b(github|gitlab|repo|source)\b/i.test(name)) return 'repo';
+  if (VIDEO_HOSTS.test(host) || /\bvideo\b/i.test(name)) return 'video';
+  if (/\bdocs?\b|documentation/i.test(name)) return 'docs';
+  return 'demo';
+};
+
+// Transform a link row to the API format
+const serializeLink = (link) => ({
+  id: link.id,
+  kind: link.kind,
+  name: link.name,
+  url: link.url,
+  status_code: link.statusCode,
+  redirect_url: link.redirectUrl,
+  check_error: link.checkError,
+  last_checked_at: link.lastCheckedAt,
+  broken: isBroken(link)
+});
+
+// Editable fields of a link
+const linkInput = (link) => ({
+  kind: link.kind,
+  name: link.name,
+  url: link.url
+});
+
+// Replace the links of a project, in the given order. Links whose URL is
+// unchanged keep their last check. When links is not an array the current
+// links are kept.
+const setProjectLinks = async (tx, projectId, links) => {
+  if (!Array.isArray(links)) {
+    return;
+  }
+
+  const existing = await tx.projectLink.findMany({ where: { projectId } });
+  const keptIds = new Set();
+
+  for (const [position, link] of links.entries()) {
+    const data = { kind: link.kind, name: link.name, position };
+    const match = existing.find(row => !keptIds.has(row.id) && row.url === link.url);
+
+    if (match) {
+      keptIds.add(match.id);
+      await tx.projectLink.update({ where: { id: match.id }, data });
+    } else {
+      await tx.projectLink.create({ data: { projectId, url: link.url, ...data } });
+    }
+  }
+
+  await tx.projectLink.deleteMany({ where: { projectId, id: { notIn: [...keptIds] } } });
+};
+
+// Check up to `limit` links that were never checked or were last checked
+// before checkedBefore, oldest first. Each URL is requested once per run.
+// Links of trashed projects are skipped.
+const checkStaleLinks = async ({
+  fetcher,
+  checkedBefore = new Date(Date.now() - LINK_MAX_AGE_MS),
+  limit = 100
+} = {}) => {
+  const links = await prisma.projectLink.findMany({
+    where: {
+      OR: [{ lastCheckedAt: null }, { lastCheckedAt: { lte: checkedBefore } }],
+      project: { deletedAt: null }
+    },
+    orderBy: [{ lastCheckedAt: { sort: 'asc', nulls: 'first' } }, { id: 'asc' }],
+    take: limit
+  });
+
+  const results = new Map();
+  let broken = 0;
+
+  for (const link of links) {
+    if (!results.has(link.url)) {
+      results.set(link.url, await checkLink(link.url, { fetcher }));
+    }
+
+    const data = { ...results.get(link.url), lastCheckedAt: new Date() };
+    if (isBroken(data)) {
+      broken++;
+    }
+
+    // The link may have been removed while it was being checked
+    await prisma.projectLink.updateMany({ where: { id: link.id }, data });
+  }
+
+  return { checked: links.length, broken };
+};
+
+// Run checkStaleLinks every intervalMs in the background. Returns a
+// function that stops it.
+const startLinkChecker = ({ intervalMs, ...options }) => {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const { checked, broken } = await checkStaleLinks(options);
+      if (checked > 0) {
+        logger.info('Project links checked', { checked, broken });
+      }
+    } catch (error) {
+      logger.error('Link check failed', { error: error.message });
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  run();
+
+  return () => clearInterval(timer);
+};
+
+export {
+  LINK_KINDS,
+  inferLinkKind,
+  serializeLink,
+  linkInput,
+  setProjectLinks,
+  checkStaleLinks,
+  startLinkChecker
+};
@@ -0,0 +1,10 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per-request state that is available anywhere down the call chain of a
+// request, so logs can be tagged without passing req around
+const requestContext = new AsyncLocalStorage();
+
+// ID of the request being handled, if any
+const currentRequestId = () => requestContext.getStore()?.requestId;
+
+export { requestContext, currentRequestId };
@@ -0,0 +1,182 @@
+import { renderHtml } from '../templates/resume/html.js';
+import { renderMarkdown } from '../templates/resume/markdown.js';
+import { renderPdf } from '../templates/resume/pdf.js';
+
+// Resume exports of a profile. Every format except JSON Resume renders the
+// same resume model (buildResume) through a template in templates/resume/.
+
+const PROFICIENCY_LABELS = {
+  5: 'Master',
+  4: 'Expert',
+  3: 'Advanced',
+  2: 'Intermediate',
+  1: 'Beginner'
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// "2022-01" to "Jan 2022"
+const monthLabel = (month) => {
+  const [year, index] = month.split('-').map(Number);
+  return `${MONTH_LABELS[index - 1]} ${year}`;
+};
+
+const periodLabel = (work) => {
+  const start = work.start_date ? monthLabel(work.start_date) : null;
+  const end = work.is_current ? 'Present' : (work.end_date ? monthLabel(work.end_date) : null);
+  return [start, end].filter(Boolean).join(' – ') || null;
+};
+
+// "1 yr 3 mos" style length of a job
+const tenureLabel = (months) => {
+  if (!months) return null;
+
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [
+    years > 0 ? `${years} yr${years > 1 ? 's' : ''}` : null,
+    rest > 0 ? `${rest} mo${rest > 1 ? 's' : ''}` : null
+  ].filter(Boolean).join(' ');
+};
+
+// Skills grouped by proficiency, strongest first. Skills keep their
+// profile order within a group.
+const skillGroups = (skillsWithLevel) =>
+  Object.keys(PROFICIENCY_LABELS)
+    .map(Number)
+    .sort((a, b) => b - a)
+    .map(level => ({
+      level,
+      label: PROFICIENCY_LABELS[level],
+      skills: skillsWithLevel
+        .filter(skill => skill.proficiency_level === level)
+        .map(skill => skill.skill_name)
+    }))
+    .filter(group => group.skills.length > 0);
+
+// Resume model shared by the templates, built from a serialized profile
+const buildResume = (profile) => ({
+  name: profile.name,
+  email: profile.email,
+  education: profile.education || null,
+  links: [
+    { label: 'GitHub', url: profile.github_url },
+    { label: 'LinkedIn', url: profile.linkedin_url },
+    { label: 'Portfolio', url: profile.portfolio_url }
+  ].filter(link => link.url),
+  experience: tenureLabel(profile.total_experience_months),
+  skillGroups: skillGroups(profile.skillsWithLevel),
+  projects: profile.projects.map(project => ({
+    title: project.title,
+    description: project.description || null,
+    skills: project.skills,
+    links: project.links.map(link => ({ name: link.name, url: link.url }))
+  })),
+  work: profile.workExperience.map(work => ({
+    company: work.company,
+    position: work.position,
+    period: periodLabel(work),
+    tenure: tenureLabel(work.tenure_months),
+    description: work.description || null,
+    skills: work.skills
+  }))
+});
+
+// Drop empty fields; the JSON Resume schema has no nullable properties
+const compact = (object) =>
+  Object.fromEntries(Object.entries(object).filter(([, value]) =>
+    value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)));
+
+// Username part of a GitHub or LinkedIn profile URL
+const usernameFrom = (url) => {
+  try {
+    return new URL(url).pathname.split('/').filter(Boolean).pop();
+  } catch {
+    return undefined;
+  }
+};
+
+// Serialized profile in the JSON Resume format (https://jsonresume.org/schema)
+const toJsonResume = (profile) => compact({
+  $schema: JSON_RESUME_SCHEMA,
+  basics: compact({
+    name: profile.name,
+    email: profile.email,
+    url: profile.portfolio_url,
+    profiles: [
+      { network: 'GitHub', url: profile.github_url },
+      { network: 'LinkedIn', url: profile.linkedin_url }
+    ]
+      .filter(link => link.url)
+      .map(link => compact({ ...link, username: usernameFrom(link.url) }))
+  }),
+  work: profile.workExperience.map(work => compact({
+    name: work.company,
+    position: work.position,
+    startDate: work.start_date,
+    endDate: work.is_current ? null : work.end_date,
+    summary: work.description,
+    highlights: work.skills.length > 0 ? [`Skills: ${work.skills.join(', ')}`] : []
+  })),
+  education: profile.education ? [{ institution: profile.education }] : [],
+  skills: skillGroups(profile.skillsWithLevel).map(group => ({
+    name: group.label,
+    level: group.label,
+    keywords: group.skills
+  })),
+  projects: profile.projects.map(project => compact({
+    name: project.title,
+    description: project.description,
+    url: project.links[0]?.url,
+    keywords: project.skills
+  })),
+  meta: {
+    version: 'v1.0.0',
+    lastModified: new Date(profile.updated_at).toISOString()
+  }
+});
+
+// Export formats by their `format` query value. render resolves to the
+// response body for a serialized profile.
+const RESUME_FORMATS = {
+  pdf: {
+    contentType: 'application/pdf',
+    extension: 'pdf',
+    render: (profile) => renderPdf(buildResume(profile))
+  },
+  md: {
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    render: async (profile) => renderMarkdown(buildResume(profile))
+  },
+  html: {
+    contentType: 'text/html; charset=utf-8',
+    extension: 'html',
+    render: async (profile) => renderHtml(buildResume(profile))
+  },
+  jsonresume: {
+    contentType: 'application/json; charset=utf-8',
+    extension: 'json',
+    render: async (profile) => JSON.stringify(toJsonResume(profile), null, 2)
+  }
+};
+
+// File name for the download, e.g. "jane-doe-resume.pdf"
+const resumeFileName = (profile, format) => {
+  const slug = profile.name
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || `profile-${profile.id}`}-resume.${RESUME_FORMATS[format].extension}`;
+};
+
+export {
+  PROFICIENCY_LABELS,
+  RESUME_FORMATS,
+  buildResume,
+  toJsonResume,
+  resumeFileName
+};
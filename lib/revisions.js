@@ -0,0 +1,153 @@
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  notDeleted,
+  profileInclude,
+  profileData,
+  toProfileInput,
+  syncProfileCollections
+} from './profiles.js';
+
+// Profile revision history. Every change to a profile or its items records
+// a numbered snapshot of the whole profile, so that any earlier state can
+// be compared with another one or restored.
+
+const PROFILE_FIELDS = ['name', 'email', 'education', 'github_url', 'linkedin_url', 'portfolio_url'];
+
+// How each collection item is named in diffs
+const COLLECTION_LABELS = {
+  skills: skill => skill.name,
+  projects: project => project.title,
+  workExperience: work => `${work.position} at ${work.company}`
+};
+
+// Record the current state of a profile as its next revision. Call at the
+// end of the transaction that changed the profile.
+const recordRevision = async (tx, profileId, { user, action, restoredFrom = null }) => {
+  const profile = await tx.profile.findUnique({ where: { id: profileId }, include: profileInclude });
+  const { _max: latest } = await tx.profileRevision.aggregate({
+    where: { profileId },
+    _max: { revision: true }
+  });
+
+  return tx.profileRevision.create({
+    data: {
+      profileId,
+      revision: (latest.revision || 0) + 1,
+      action,
+      userId: user?.id ?? null,
+      restoredFrom,
+      snapshot: toProfileInput(profile)
+    }
+  });
+};
+
+// Load a revision of a profile or fail with 404
+const findRevisionOrFail = async (prisma, profileId, revision) => {
+  const row = await prisma.profileRevision.findUnique({
+    where: { profileId_revision: { profileId, revision } },
+    include: { user: true }
+  });
+
+  if (!row) {
+    throw new AppError(`Revision ${revision} not found`, 404, 'REVISION_NOT_FOUND');
+  }
+
+  return row;
+};
+
+// Transform a revision row (loaded with its user) to the API format. The
+// snapshot is only included when asked for, as it holds the whole profile.
+const serializeRevision = (row, { withSnapshot = false } = {}) => ({
+  revision: row.revision,
+  action: row.action,
+  restored_from: row.restoredFrom,
+  user: row.user ? { id: row.user.id, username: row.user.username } : null,
+  created_at: row.createdAt,
+  ...(withSnapshot && { profile: row.snapshot })
+});
+
+const same = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const withoutId = (item) => Object.fromEntries(Object.entries(item).filter(([key]) => key !== 'id'));
+
+// Field-level changes from one snapshot to another. Collection items are
+// matched by ID, so paths look like `projects[12].title`; items that only
+// exist on one side are reported whole as added or removed.
+const diffSnapshots = (before, after) => {
+  const changes = [];
+
+  for (const field of PROFILE_FIELDS) {
+    if (!same(before[field], after[field])) {
+      changes.push({ path: field, change: 'changed', from: before[field] ?? null, to: after[field] ?? null });
+    }
+  }
+
+  for (const [collection, labelOf] of Object.entries(COLLECTION_LABELS)) {
+    const beforeItems = new Map((before[collection] || []).map(item => [item.id, item]));
+    const afterItems = new Map((after[collection] || []).map(item => [item.id, item]));
+
+    for (const [id, item] of beforeItems) {
+      if (!afterItems.has(id)) {
+        changes.push({ path: `${collection}[${id}]`, label: labelOf(item), change: 'removed', from: withoutId(item), to: null });
+      }
+    }
+
+    for (const [id, item] of afterItems) {
+      const previous = beforeItems.get(id);
+      if (!previous) {
+        changes.push({ path: `${collection}[${id}]`, label: labelOf(item), change: 'added', from: null, to: withoutId(item) });
+        continue;
+      }
+
+      const fields = new Set([...Object.keys(previous), ...Object.keys(item)]);
+      fields.delete('id');
+      for (const field of fields) {
+        if (!same(previous[field], item[field])) {
+          changes.push({
+            path: `${collection}[${id}].${field}`,
+            label: labelOf(item),
+            change: 'changed',
+            from: previous[field] ?? null,
+            to: item[field] ?? null
+          });
+        }
+      }
+    }
+  }
+
+  return changes;
+};
+
+// Bring a profile back to a snapshot, inside a transaction. Items that
+// still exist keep their IDs; items deleted (or trashed) since are created
+// again.
+const restoreSnapshot = async (tx, profileId, snapshot) => {
+  const current = await tx.profile.findUnique({
+    where: { id: profileId },
+    include: {
+      skills: { where: notDeleted, select: { id: true } },
+      projects: { where: notDeleted, select: { id: true } },
+      workExperience: { where: notDeleted, select: { id: true } }
+    }
+  });
+
+  const keepExistingIds = (items, rows) => {
+    const ids = new Set(rows.map(row => row.id));
+    return (items || []).map(item => (ids.has(item.id) ? item : withoutId(item)));
+  };
+
+  await tx.profile.update({ where: { id: profileId }, data: profileData(snapshot) });
+  await syncProfileCollections(tx, profileId, {
+    skills: keepExistingIds(snapshot.skills, current.skills),
+    projects: keepExistingIds(snapshot.projects, current.projects),
+    workExperience: keepExistingIds(snapshot.workExperience, current.workExperience)
+  });
+};
+
+export {
+  recordRevision,
+  findRevisionOrFail,
+  serializeRevision,
+  diffSnapshots,
+  restoreSnapshot
+};
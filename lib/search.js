@@ -0,0 +1,395 @@
+import pkg from '@prisma/client';
+import prisma from './prisma.js';
+import { parseMonth } from './workDates.js';
+
+const { Prisma } = pkg;
+
+// Full-text search over profiles, projects, work experience and skills.
+//
+// Each searchable table has a weighted tsvector expression. The GIN indexes
+// created by scripts/create-search-indexes.js are built from exactly the
+// same expressions, which is what lets Postgres use them for `@@` queries.
+//
+// Rows in the trash (deleted_at set) never match and are not counted.
+
+const SEARCH_CONFIG = 'english';
+
+// Punctuation is turned into spaces before parsing so that "Node.js" is
+// indexed as "node" + "js" and matches a search for "node js".
+const normalized = (column) => `regexp_replace(coalesce(${column}, ''), '[^[:alnum:]]+', ' ', 'g')`;
+
+const joined = (...columns) => `concat_ws(' · ', ${columns.join(', ')})`;
+
+const weighted = (column, weight) =>
+  `setweight(to_tsvector('${SEARCH_CONFIG}', ${normalized(column)}), '${weight}')`;
+
+// `vector` is indexed, `text` is what snippets are cut from
+const SEARCH_TARGETS = {
+  profiles: {
+    type: 'profile',
+    table: 'profiles',
+    vector: [weighted('name', 'A'), weighted('education', 'B'), weighted('email', 'C')].join(' || '),
+    text: joined('name', 'education', 'email'),
+    title: 'name',
+    subtitle: 'email',
+    profileId: 'id'
+  },
+  projects: {
+    type: 'project',
+    table: 'projects',
+    vector: [weighted('title', 'A'), weighted('description', 'B')].join(' || '),
+    text: joined('title', 'description'),
+    title: 'title',
+    subtitle: 'NULL',
+    profileId: 'profile_id'
+  },
+  work: {
+    type: 'work',
+    table: 'work_experience',
+    vector: [weighted('"position"', 'A'), weighted('company', 'A'), weighted('description', 'B')].join(' || '),
+    text: joined('"position"', 'company', 'description'),
+    title: '"position"',
+    subtitle: 'company',
+    profileId: 'profile_id'
+  },
+  skills: {
+    type: 'skill',
+    table: 'skills',
+    vector: weighted('skill_name', 'A'),
+    text: 'skill_name',
+    title: 'skill_name',
+    subtitle: 'NULL',
+    profileId: 'profile_id'
+  }
+};
+
+// Control characters mark highlighted words in ts_headline output. They
+// cannot occur in stored text, so splitting on them is safe and nothing
+// has to be rendered as HTML.
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Below this trigram word similarity a fuzzy match is ignored
+const FUZZY_THRESHOLD = 0.4;
+
+// Turn free text into a prefix tsquery: "node js" -> "node:* & js:*".
+// Only letters and digits are kept so user input can never break the
+// tsquery syntax.
+const buildPrefixQuery = (input) =>
+  input
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 10)
+    .map(token => `${token}:*`)
+    .join(' & ');
+
+// Split a headline into plain and matched segments
+const toHighlight = (snippet) => {
+  const segments = [];
+  const pattern = new RegExp(`${MATCH_START}([^${MATCH_END}]*)${MATCH_END}`, 'g');
+  let last = 0;
+
+  for (const match of (snippet || '').matchAll(pattern)) {
+    if (match.index > last) {
+      segments.push({ text: snippet.slice(last, match.index), match: false });
+    }
+    segments.push({ text: match[1], match: true });
+    last = match.index + match[0].length;
+  }
+
+  if (last < (snippet || '').length) {
+    segments.push({ text: snippet.slice(last), match: false });
+  }
+
+  return segments;
+};
+
+// Filters narrow the hits to profiles that have all of the given skills
+// (at minLevel or above) and a job matching every work filter. Work and
+// skill hits must also match those filters themselves. Several companies
+// or positions match any of them.
+const lowered = (values) => values.map(value => value.toLowerCase());
+
+// First and last month of a "YYYY" or "YYYY-MM" filter period
+const periodStart = (period) => parseMonth(period);
+const periodEnd = (period) => (period.length === 4 ? parseMonth(`${period}-12`) : parseMonth(period));
+
+const workConditions = (alias, { companies = [], positions = [], from, to }) => {
+  const column = (name) => Prisma.raw(`${alias}.${name}`);
+  const conditions = [];
+
+  if (companies.length > 0) {
+    conditions.push(Prisma.sql`lower(${column('company')}) = ANY(${lowered(companies)}::text[])`);
+  }
+  if (positions.length > 0) {
+    conditions.push(Prisma.sql`lower(${column('"position"')}) = ANY(${lowered(positions)}::text[])`);
+  }
+  // Jobs overlapping the from/to period. A job without an end date that is
+  // not current is taken to have ended in its first month.
+  if (from) {
+    conditions.push(Prisma.sql`(${column('is_current')} OR coalesce(${column('end_date')}, ${column('start_date')}) >= ${periodStart(from)}::date)`);
+  }
+  if (to) {
+    conditions.push(Prisma.sql`${column('start_date')} <= ${periodEnd(to)}::date`);
+  }
+
+  return conditions;
+};
+
+const skillConditions = (alias, { skills = [], minLevel }) => {
+  const conditions = [];
+
+  if (skills.length > 0) {
+    conditions.push(Prisma.sql`lower(${Prisma.raw(`${alias}.skill_name`)}) = ANY(${lowered(skills)}::text[])`);
+  }
+  if (minLevel) {
+    conditions.push(Prisma.sql`${Prisma.raw(`${alias}.proficiency_level`)} >= ${minLevel}`);
+  }
+
+  return conditions;
+};
+
+const profileConditions = (profileId, filters) => {
+  const { skills = [], minLevel } = filters;
+  const column = Prisma.raw(profileId);
+  const conditions = [];
+  const levelCondition = minLevel ? Prisma.sql`AND s.proficiency_level >= ${minLevel}` : Prisma.empty;
+
+  for (const skill of skills) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM skills s
+      WHERE s.profile_id = ${column} AND s.deleted_at IS NULL
+        AND lower(s.skill_name) = ${skill.toLowerCase()} ${levelCondition}
+    )`);
+  }
+  if (minLevel && skills.length === 0) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM skills s WHERE s.profile_id = ${column} AND s.deleted_at IS NULL ${levelCondition}
+    )`);
+  }
+
+  const work = workConditions('w', filters);
+  if (work.length > 0) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM work_experience w
+      WHERE w.profile_id = ${column} AND w.deleted_at IS NULL AND ${Prisma.join(work, ' AND ')}
+    )`);
+  }
+
+  return conditions;
+};
+
+const OWN_CONDITIONS = {
+  work: workConditions,
+  skill: skillConditions
+};
+
+const hasFilters = ({ skills = [], companies = [], positions = [], minLevel, from, to } = {}) =>
+  skills.length > 0 || companies.length > 0 || positions.length > 0 || Boolean(minLevel || from || to);
+
+// Full-text matches are ranked with ts_rank_cd. In fuzzy mode rows are
+// matched and ranked by trigram word similarity, which tolerates typos.
+// Without a search term every row passing the filters is a hit.
+const matchClauses = (target, { mode, tsquery, term, filters }) => {
+  const query = Prisma.sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsquery})`;
+  const vector = Prisma.raw(target.vector);
+  const text = Prisma.raw(target.text);
+  const clauses = {
+    fts: { match: Prisma.sql`${vector} @@ ${query}`, rank: Prisma.sql`ts_rank_cd(${vector}, ${query})` },
+    fuzzy: { match: Prisma.sql`word_similarity(${term}, ${text}) >= ${FUZZY_THRESHOLD}`, rank: Prisma.sql`word_similarity(${term}, ${text})` },
+    browse: { match: Prisma.sql`TRUE`, rank: Prisma.sql`0` }
+  }[mode];
+
+  const conditions = [
+    clauses.match,
+    Prisma.sql`t.deleted_at IS NULL`,
+    ...profileConditions(`t.${target.profileId}`, filters),
+    ...(OWN_CONDITIONS[target.type] ? OWN_CONDITIONS[target.type]('t', filters) : [])
+  ];
+
+  return { where: Prisma.join(conditions, ' AND '), rank: clauses.rank, query, text };
+};
+
+// One SELECT per target
+const targetQuery = (target, options) => {
+  const { where, rank, query, text } = matchClauses(target, options);
+  const snippet = options.mode === 'browse'
+    ? Prisma.sql`left(${text}, 200)`
+    : Prisma.sql`ts_headline(${SEARCH_CONFIG}::regconfig, ${text}, ${query}, ${HEADLINE_OPTIONS})`;
+
+  return Prisma.sql`
+    SELECT
+      ${target.type}::text AS type,
+      t.id,
+      t.${Prisma.raw(target.profileId)} AS profile_id,
+      ${Prisma.raw(target.title)} AS title,
+      ${Prisma.raw(target.subtitle)}::text AS subtitle,
+      ${rank}::float8 AS rank,
+      t.created_at,
+      ${snippet} AS snippet
+    FROM ${Prisma.raw(target.table)} AS t
+    WHERE ${where}
+  `;
+};
+
+// The same hits without the columns that are costly to compute
+const keyQuery = (target, options) => {
+  const { where } = matchClauses(target, options);
+
+  return Prisma.sql`
+    SELECT ${target.type}::text AS type, t.id, t.${Prisma.raw(target.profileId)} AS profile_id
+    FROM ${Prisma.raw(target.table)} AS t
+    WHERE ${where}
+  `;
+};
+
+const union = (targets, options, query) =>
+  Prisma.join(targets.map(target => query(target, options)), ' UNION ALL ');
+
+// Hit columns a search can be sorted by
+const SORT_COLUMNS = ['rank', 'title', 'type', 'created_at', 'id'];
+
+// Turn [{ rank: 'desc' }] into an ORDER BY list. Type and id always come
+// last since ids are only unique within one type.
+const orderBy = (sort) => {
+  const keys = sort
+    .flatMap(Object.entries)
+    .filter(([column, direction]) => SORT_COLUMNS.includes(column) && ['asc', 'desc'].includes(direction))
+    .map(([column, direction]) => `${column} ${direction.toUpperCase()}`);
+
+  return Prisma.raw([...keys, 'type', 'id'].join(', '));
+};
+
+const runSearch = async (targets, options, { sort, limit, offset }) => {
+  const rows = await prisma.$queryRaw`
+    SELECT *, count(*) OVER () AS total
+    FROM (${union(targets, options, targetQuery)}) AS hits
+    ORDER BY ${orderBy(sort)}
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  // An empty page past the end still needs the real total
+  let total = rows.length > 0 ? Number(rows[0].total) : 0;
+  if (rows.length === 0 && offset > 0) {
+    const [{ count }] = await prisma.$queryRaw`
+      SELECT count(*) AS count FROM (${union(targets, options, keyQuery)}) AS hits
+    `;
+    total = Number(count);
+  }
+
+  return {
+    total,
+    hits: rows.map(row => ({
+      type: row.type,
+      id: row.id,
+      profile_id: row.profile_id,
+      title: row.title,
+      subtitle: row.subtitle,
+      rank: Math.round(row.rank * 10000) / 10000,
+      created_at: row.created_at,
+      highlight: toHighlight(row.snippet)
+    }))
+  };
+};
+
+// Value lists longer than this are cut to the most frequent values
+const FACET_LIMIT = 20;
+
+// Count the hits per facet value: how many hits belong to a profile with
+// that skill, company, position, proficiency level (or above) or a job
+// started in that year. Counts are over all hits, not just one page.
+const searchFacets = async (targets, options) => {
+  const { minLevel } = options.filters;
+  const levelCondition = minLevel ? Prisma.sql`AND s.proficiency_level >= ${minLevel}` : Prisma.empty;
+
+  const rows = await prisma.$queryRaw`
+    WITH hits AS (${union(targets, options, keyQuery)})
+    SELECT 'skills' AS facet, s.skill_name AS value, count(DISTINCT (h.type, h.id)) AS count
+    FROM hits h JOIN skills s ON s.profile_id = h.profile_id AND s.deleted_at IS NULL ${levelCondition}
+    GROUP BY s.skill_name
+    UNION ALL
+    SELECT 'companies', w.company, count(DISTINCT (h.type, h.id))
+    FROM hits h JOIN work_experience w ON w.profile_id = h.profile_id AND w.deleted_at IS NULL
+    GROUP BY w.company
+    UNION ALL
+    SELECT 'positions', w."position", count(DISTINCT (h.type, h.id))
+    FROM hits h JOIN work_experience w ON w.profile_id = h.profile_id AND w.deleted_at IS NULL
+    GROUP BY w."position"
+    UNION ALL
+    SELECT 'proficiency', g.level::text, count(DISTINCT (h.type, h.id))
+    FROM hits h
+    JOIN skills s ON s.profile_id = h.profile_id AND s.deleted_at IS NULL
+    JOIN generate_series(1, 5) AS g(level) ON s.proficiency_level >= g.level
+    GROUP BY g.level
+    UNION ALL
+    SELECT 'years', to_char(w.start_date, 'YYYY'), count(DISTINCT (h.type, h.id))
+    FROM hits h JOIN work_experience w ON w.profile_id = h.profile_id AND w.deleted_at IS NULL
+    WHERE w.start_date IS NOT NULL
+    GROUP BY to_char(w.start_date, 'YYYY')
+  `;
+
+  const facets = { skills: [], companies: [], positions: [], proficiency: [], years: [] };
+  for (const row of rows) {
+    facets[row.facet].push({ value: row.value, count: Number(row.count) });
+  }
+
+  const byCount = (a, b) => b.count - a.count || a.value.localeCompare(b.value);
+  return {
+    skills: facets.skills.sort(byCount).slice(0, FACET_LIMIT),
+    companies: facets.companies.sort(byCount).slice(0, FACET_LIMIT),
+    positions: facets.positions.sort(byCount).slice(0, FACET_LIMIT),
+    proficiency: facets.proficiency
+      .map(({ value, count }) => ({ value: Number(value), count }))
+      .sort((a, b) => a.value - b.value),
+    years: facets.years.sort((a, b) => b.value.localeCompare(a.value))
+  };
+};
+
+// Search the given types ('all', 'profiles', 'projects', 'skills' or
+// 'work') and return one list of hits, by default ordered by relevance,
+// with facet counts. When the full-text search finds nothing, fall back to
+// fuzzy matching. Without a term, all hits passing the filters are returned.
+const searchAll = async (term, { type = 'all', filters = {}, sort = [{ rank: 'desc' }], limit = 20, offset = 0 } = {}) => {
+  const targets = type === 'all'
+    ? Object.values(SEARCH_TARGETS)
+    : [SEARCH_TARGETS[type]];
+  const tsquery = buildPrefixQuery(term || '');
+  const page = { sort, limit, offset };
+
+  const optionsFor = (mode) => ({ mode, tsquery, term, filters });
+
+  let options = optionsFor(term ? 'fts' : 'browse');
+  let result = term && !tsquery
+    ? { total: 0, hits: [] }
+    : await runSearch(targets, options, page);
+
+  if (term && result.total === 0) {
+    options = optionsFor('fuzzy');
+    result = await runSearch(targets, options, page);
+  }
+
+  return {
+    ...result,
+    fuzzy: options.mode === 'fuzzy',
+    facets: await searchFacets(targets, options)
+  };
+};
+
+// DDL for the indexes backing searchAll
+const searchIndexStatements = () => [
+  'CREATE EXTENSION IF NOT EXISTS pg_trgm',
+  ...Object.values(SEARCH_TARGETS).map(target =>
+    `CREATE INDEX IF NOT EXISTS idx_${target.table}_search ON ${target.table} USING GIN ((${target.vector}))`
+  )
+];
+
+export {
+  SEARCH_TARGETS,
+  hasFilters,
+  buildPrefixQuery,
+  toHighlight,
+  searchAll,
+  searchIndexStatements
+};
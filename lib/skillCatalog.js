@@ -0,0 +1,279 @@
+import prisma from './prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+// Shared skill catalog. Profile skills reference a catalog entry and carry
+// its canonical name, so spelling variants of one skill are counted once.
+
+const SKILL_CATEGORIES = ['language', 'framework', 'cloud', 'database', 'other'];
+
+// Entries created by `npm run db:skill-catalog`. Further skills are added
+// to the catalog (as "other") the first time a profile uses them.
+const DEFAULT_CATALOG = [
+  { name: 'JavaScript', category: 'language', aliases: ['JS', 'ECMAScript'] },
+  { name: 'TypeScript', category: 'language', aliases: ['TS'] },
+  { name: 'Python', category: 'language', aliases: ['Py'] },
+  { name: 'Java', category: 'language', aliases: [] },
+  { name: 'Go', category: 'language', aliases: ['Golang'] },
+  { name: 'C++', category: 'language', aliases: ['CPP'] },
+  { name: 'C#', category: 'language', aliases: ['CSharp'] },
+  { name: 'Ruby', category: 'language', aliases: [] },
+  { name: 'Rust', category: 'language', aliases: [] },
+  { name: 'SQL', category: 'language', aliases: [] },
+  { name: 'Node.js', category: 'framework', aliases: ['Node'] },
+  { name: 'React', category: 'framework', aliases: ['React.js'] },
+  { name: 'Next.js', category: 'framework', aliases: ['Next'] },
+  { name: 'Vue.js', category: 'framework', aliases: ['Vue'] },
+  { name: 'Angular', category: 'framework', aliases: ['AngularJS'] },
+  { name: 'Express', category: 'framework', aliases: ['Express.js'] },
+  { name: 'Django', category: 'framework', aliases: [] },
+  { name: 'Flask', category: 'framework', aliases: [] },
+  { name: 'Spring', category: 'framework', aliases: ['Spring Boot'] },
+  { name: 'AWS', category: 'cloud', aliases: ['Amazon Web Services'] },
+  { name: 'Azure', category: 'cloud', aliases: ['Microsoft Azure'] },
+  { name: 'Google Cloud', category: 'cloud', aliases: ['GCP', 'Google Cloud Platform'] },
+  { name: 'Docker', category: 'cloud', aliases: [] },
+  { name: 'Kubernetes', category: 'cloud', aliases: ['K8s'] },
+  { name: 'PostgreSQL', category: 'database', aliases: ['Postgres', 'psql'] },
+  { name: 'MySQL', category: 'database', aliases: [] },
+  { name: 'MongoDB', category: 'database', aliases: ['Mongo'] },
+  { name: 'Redis', category: 'database', aliases: [] },
+  { name: 'SQLite', category: 'database', aliases: [] }
+];
+
+// Join tables that link projects and jobs to the skills they used
+const USED_SKILL_LINKS = {
+  project: { model: 'projectSkill', key: 'projectId' },
+  workExperience: { model: 'workExperienceSkill', key: 'workExperienceId' }
+};
+
+// Normalized form used to match names: case, spaces and punctuation are
+// ignored except for + and #, which tell C, C++ and C# apart
+const skillKey = (name) => String(name).toLowerCase().replace(/[^a-z0-9+#]/g, '');
+
+const catalogInclude = {
+  aliases: { orderBy: { name: 'asc' } },
+  _count: { select: { skills: { where: { deletedAt: null } } } }
+};
+
+// Transform a catalog entry (loaded with catalogInclude) to the API format
+const serializeCatalogEntry = (entry) => ({
+  id: entry.id,
+  name: entry.name,
+  category: entry.category,
+  aliases: entry.aliases.map(alias => alias.name),
+  profile_count: entry._count.skills,
+  created_at: entry.createdAt
+});
+
+// Where clause for the entry whose canonical name or one of its aliases
+// matches name
+const catalogEntryWhere = (name) => {
+  const key = skillKey(name);
+  return { OR: [{ key }, { aliases: { some: { key } } }] };
+};
+
+const findCatalogEntry = (db, name) =>
+  db.skillCatalogEntry.findFirst({ where: catalogEntryWhere(name) });
+
+// Canonical names for a list of names. Unknown names are kept as given.
+const canonicalSkillNames = async (names, db = prisma) =>
+  Promise.all(names.map(async (name) => (await findCatalogEntry(db, name))?.name ?? name));
+
+// Find the entry for a name, adding it to the catalog if it is new
+const resolveCatalogEntry = async (db, name) => {
+  const existing = await findCatalogEntry(db, name);
+  if (existing) return existing;
+
+  return db.skillCatalogEntry.create({
+    data: { name: name.trim(), key: skillKey(name) }
+  });
+};
+
+// Resolve submitted profile skills (plain names or { id, name, level }) to
+// catalog entries. Variants of one skill are collapsed into the first of
+// them, keeping the highest level.
+const resolveSkills = async (db, skills) => {
+  const byEntry = new Map();
+
+  for (const skill of skills) {
+    const item = typeof skill === 'string' ? { name: skill } : skill;
+    const entry = await resolveCatalogEntry(db, item.name);
+    const level = item.level || 1;
+    const seen = byEntry.get(entry.id);
+
+    if (seen) {
+      seen.level = Math.max(seen.level, level);
+      seen.id = seen.id ?? item.id;
+      continue;
+    }
+
+    byEntry.set(entry.id, { id: item.id, name: entry.name, level, catalogEntryId: entry.id });
+  }
+
+  return [...byEntry.values()];
+};
+
+// Reject names or aliases that already identify another entry
+const assertKeysAvailable = async (db, names, exceptEntryId) => {
+  for (const name of names) {
+    const owner = await findCatalogEntry(db, name);
+    if (owner && owner.id !== exceptEntryId) {
+      throw new AppError(`"${name}" is already used by catalog skill "${owner.name}"`, 409, 'SKILL_CONFLICT');
+    }
+  }
+};
+
+// Alias rows for the given names, skipping ones that normalize to the
+// canonical name or to each other
+const aliasData = (name, aliases) => {
+  const keys = new Set([skillKey(name)]);
+  const data = [];
+
+  for (const alias of aliases) {
+    const key = skillKey(alias);
+    if (!keys.has(key)) {
+      keys.add(key);
+      data.push({ name: alias.trim(), key });
+    }
+  }
+
+  return data;
+};
+
+const createCatalogEntry = async ({ name, category = 'other', aliases = [] }) =>
+  prisma.$transaction(async (tx) => {
+    await assertKeysAvailable(tx, [name, ...aliases]);
+
+    return tx.skillCatalogEntry.create({
+      data: {
+        name: name.trim(),
+        key: skillKey(name),
+        category,
+        aliases: { create: aliasData(name, aliases) }
+      },
+      include: catalogInclude
+    });
+  });
+
+const findCatalogEntryOrFail = async (db, id) => {
+  const entry = await db.skillCatalogEntry.findUnique({ where: { id } });
+  if (!entry) {
+    throw new AppError(`Catalog skill ${id} not found`, 404, 'SKILL_NOT_FOUND');
+  }
+  return entry;
+};
+
+// Rename an entry, change its category or replace its aliases. A rename
+// is copied to every profile skill that references the entry.
+const updateCatalogEntry = async (id, { name, category, aliases }) =>
+  prisma.$transaction(async (tx) => {
+    const entry = await findCatalogEntryOrFail(tx, id);
+    const newName = name?.trim() ?? entry.name;
+
+    await assertKeysAvailable(tx, [newName, ...(aliases ?? [])], id);
+
+    if (aliases) {
+      await tx.skillAlias.deleteMany({ where: { catalogEntryId: id } });
+    } else if (skillKey(newName) !== entry.key) {
+      // Keep the old name working as an alias
+      await tx.skillAlias.deleteMany({ where: { catalogEntryId: id, key: skillKey(newName) } });
+      await tx.skillAlias.create({ data: { catalogEntryId: id, name: entry.name, key: entry.key } });
+    }
+
+    const updated = await tx.skillCatalogEntry.update({
+      where: { id },
+      data: {
+        name: newName,
+        key: skillKey(newName),
+        category,
+        aliases: aliases ? { create: aliasData(newName, aliases) } : undefined
+      },
+      include: catalogInclude
+    });
+
+    if (newName !== entry.name) {
+      await tx.skill.updateMany({ where: { catalogEntryId: id }, data: { skillName: newName } });
+    }
+
+    return updated;
+  });
+
+// Merge duplicate entries into one. The names and aliases of the merged
+// entries become aliases of the target, and their profile skills move to
+// it. A profile that had both keeps one skill at the higher level.
+// Projects and jobs that used a merged entry are linked to the target.
+const mergeCatalogEntries = async (targetId, sourceIds) =>
+  prisma.$transaction(async (tx) => {
+    if (sourceIds.includes(targetId)) {
+      throw new AppError('A skill cannot be merged into itself', 400, 'INVALID_MERGE');
+    }
+
+    const target = await findCatalogEntryOrFail(tx, targetId);
+
+    for (const sourceId of sourceIds) {
+      const source = await findCatalogEntryOrFail(tx, sourceId);
+
+      await tx.skillAlias.updateMany({
+        where: { catalogEntryId: source.id },
+        data: { catalogEntryId: target.id }
+      });
+
+      const skills = await tx.skill.findMany({ where: { catalogEntryId: source.id } });
+      for (const skill of skills) {
+        // Only merge with a skill in the same state, so trashed skills
+        // stay in the trash
+        const kept = await tx.skill.findFirst({
+          where: { profileId: skill.profileId, catalogEntryId: target.id, deletedAt: skill.deletedAt }
+        });
+
+        if (kept) {
+          await tx.skill.update({
+            where: { id: kept.id },
+            data: { proficiencyLevel: Math.max(kept.proficiencyLevel, skill.proficiencyLevel) }
+          });
+          await tx.skill.delete({ where: { id: skill.id } });
+        } else {
+          await tx.skill.update({
+            where: { id: skill.id },
+            data: { catalogEntryId: target.id, skillName: target.name }
+          });
+        }
+      }
+
+      // The source's own links are removed with it below
+      for (const { model, key } of Object.values(USED_SKILL_LINKS)) {
+        const links = await tx[model].findMany({ where: { catalogEntryId: source.id } });
+        await tx[model].createMany({
+          data: links.map(link => ({ [key]: link[key], catalogEntryId: target.id })),
+          skipDuplicates: true
+        });
+      }
+
+      await tx.skillCatalogEntry.delete({ where: { id: source.id } });
+
+      if (source.key !== target.key) {
+        await tx.skillAlias.create({
+          data: { catalogEntryId: target.id, name: source.name, key: source.key }
+        });
+      }
+    }
+
+    return tx.skillCatalogEntry.findUnique({ where: { id: target.id }, include: catalogInclude });
+  });
+
+export {
+  SKILL_CATEGORIES,
+  DEFAULT_CATALOG,
+  USED_SKILL_LINKS,
+  skillKey,
+  catalogInclude,
+  serializeCatalogEntry,
+  catalogEntryWhere,
+  findCatalogEntry,
+  canonicalSkillNames,
+  resolveCatalogEntry,
+  resolveSkills,
+  createCatalogEntry,
+  updateCatalogEntry,
+  mergeCatalogEntries
+};
@@ -0,0 +1,69 @@
+import prisma from './prisma.js';
+import { notDeleted } from './profiles.js';
+
+// Aggregates over all profiles, shared by the REST and GraphQL APIs
+
+// Skills by the number of profiles listing them, with their average level
+const topSkills = async (limit = 10) => {
+  const skills = await prisma.skill.groupBy({
+    by: ['skillName'],
+    where: notDeleted,
+    _count: {
+      skillName: true
+    },
+    _avg: {
+      proficiencyLevel: true
+    },
+    orderBy: {
+      _count: {
+        skillName: 'desc'
+      }
+    },
+    take: Math.min(limit, 50)
+  });
+
+  return skills.map(skill => ({
+    name: skill.skillName,
+    frequency: skill._count.skillName,
+    averageProficiency: Math.round((skill._avg.proficiencyLevel || 0) * 10) / 10
+  }));
+};
+
+// Counts of profiles, projects, distinct skills and jobs, with the five
+// most frequent skills
+const profileStats = async () => {
+  const [totalProfiles, totalProjects, uniqueSkills, totalWorkExperience] = await Promise.all([
+    prisma.profile.count({ where: notDeleted }),
+    prisma.project.count({ where: notDeleted }),
+    prisma.skill.groupBy({
+      by: ['skillName'],
+      where: notDeleted,
+      _count: { skillName: true }
+    }).then(result => result.length),
+    prisma.workExperience.count({ where: notDeleted })
+  ]);
+
+  const topSkills = await prisma.skill.groupBy({
+    by: ['skillName'],
+    where: notDeleted,
+    _count: { skillName: true },
+    orderBy: { _count: { skillName: 'desc' } },
+    take: 5
+  });
+
+  return {
+    total_profiles: totalProfiles,
+    total_projects: totalProjects,
+    unique_skills: uniqueSkills,
+    total_work_experience: totalWorkExperience,
+    topSkills: topSkills.map(skill => ({
+      name: skill.skillName,
+      frequency: skill._count.skillName
+    }))
+  };
+};
+
+export {
+  topSkills,
+  profileStats
+};
@@ -1,4 +1,14 @@
 import swaggerJsdoc from 'swagger-jsdoc';
+import { schemas } from './contract.js';
+
+// Query parameter for the sort whitelist of a list endpoint
+const sortParameter = (fields, defaultSort) => ({
+  in: 'query',
+  name: 'sort',
+  schema: { type: 'string', default: defaultSort },
+  example: `${fields[0]}:asc`,
+  description: `Comma-separated field:asc|desc pairs, applied in order. Sortable fields: ${fields.join(', ')}`
+});
 
 const options = {
   definition: {
@@ -29,101 +39,85 @@ const options = {
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'JWT'
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key'
         }
       },
-      schemas: {
-        Profile: {
-          type: 'object',
-          properties: {
-            id: { type: 'integer' },
-            name: { type: 'string' },
-            email: { type: 'string', format: 'email' },
-            education: { type: 'string' },
-            github_url: { type: 'string', format: 'uri' },
-            linkedin_url: { type: 'string', format: 'uri' },
-            portfolio_url: { type: 'string', format: 'uri' },
-            skills: {
-              type: 'array',
-              items: { type: 'string' }
-            },
-            projects: {
-              type: 'array',
-              items: { $ref: '#/components/schemas/Project' }
-            },
-            workExperience: {
-              type: 'array',
-              items: { $ref: '#/components/schemas/WorkExperience' }
-            },
-            created_at: { type: 'string', format: 'date-time' },
-            updated_at: { type: 'string', format: 'date-time' }
-          }
+      parameters: {
+        ProfileSort: sortParameter(['name', 'email', 'created_at', 'updated_at'], 'created_at:desc'),
+        ProjectSort: sortParameter(['title', 'created_at', 'updated_at'], 'created_at:desc'),
+        WorkExperienceSort: sortParameter(['company', 'position', 'start_date', 'end_date', 'created_at'], 'start_date:desc'),
+        SkillSort: sortParameter(['skill_name', 'proficiency_level', 'created_at'], 'skill_name:asc'),
+        ApiKeySort: sortParameter(['name', 'created_at', 'last_used_at'], 'created_at:desc'),
+        SkillCatalogSort: sortParameter(['name', 'category', 'created_at'], 'name:asc'),
+        SearchSort: sortParameter(['rank', 'title', 'type', 'created_at'], 'rank:desc'),
+        Limit: {
+          in: 'query',
+          name: 'limit',
+          schema: { type: 'integer', minimum: 1, maximum: 100 },
+          description: 'Page size'
+        },
+        Cursor: {
+          in: 'query',
+          name: 'cursor',
+          schema: { type: 'string' },
+          description: 'Opaque cursor from `pagination.nextCursor`/`prevCursor` or the Link header. Takes precedence over offset.'
         },
-        Project: {
-          type: 'object',
-          properties: {
-            id: { type: 'integer' },
-            title: { type: 'string' },
-            description: { type: 'string' },
-            links: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  name: { type: 'string' },
-                  url: { type: 'string', format: 'uri' }
-                }
-              }
-            },
-            created_at: { type: 'string', format: 'date-time' }
-          }
+        AuditActor: {
+          in: 'query',
+          name: 'actor',
+          schema: { type: 'integer' },
+          description: 'ID of the user who acted'
         },
-        WorkExperience: {
-          type: 'object',
-          properties: {
-            id: { type: 'integer' },
-            company: { type: 'string' },
-            position: { type: 'string' },
-            start_date: { type: 'string' },
-            end_date: { type: 'string' },
-            description: { type: 'string' }
-          }
+        AuditEntityType: {
+          in: 'query',
+          name: 'entity_type',
+          schema: { $ref: '#/components/schemas/AuditEntityType' }
         },
-        Error: {
-          type: 'object',
-          properties: {
-            error: { type: 'string' },
-            code: { type: 'string' },
-            details: { type: 'array', items: { type: 'string' } }
-          }
+        AuditEntityId: {
+          in: 'query',
+          name: 'entity_id',
+          schema: { type: 'integer' }
         },
-        LoginRequest: {
-          type: 'object',
-          required: ['username', 'password'],
-          properties: {
-            username: { type: 'string' },
-            password: { type: 'string' }
-          }
+        AuditAction: {
+          in: 'query',
+          name: 'action',
+          schema: { $ref: '#/components/schemas/AuditAction' }
         },
-        LoginResponse: {
-          type: 'object',
-          properties: {
-            message: { type: 'string' },
-            token: { type: 'string' },
-            user: {
-              type: 'object',
-              properties: {
-                id: { type: 'integer' },
-                username: { type: 'string' },
-                role: { type: 'string' }
-              }
-            }
-          }
+        AuditFrom: {
+          in: 'query',
+          name: 'from',
+          schema: { type: 'string', format: 'date-time' },
+          description: 'Only events at or after this time'
+        },
+        AuditTo: {
+          in: 'query',
+          name: 'to',
+          schema: { type: 'string', format: 'date-time' },
+          description: 'Only events at or before this time'
         }
-      }
+      },
+      headers: {
+        Link: {
+          schema: { type: 'string' },
+          description: 'RFC 8288 links to the first, prev, next and last pages'
+        },
+        'X-Total-Count': {
+          schema: { type: 'integer' },
+          description: 'Number of items across all pages'
+        }
+      },
+      schemas
     },
     security: [
       {
         bearerAuth: []
+      },
+      {
+        apiKeyAuth: []
       }
     ]
   },
@@ -0,0 +1,164 @@
+import prisma from './prisma.js';
+import logger from './logger.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { notDeleted, assertProfileOwner } from './profiles.js';
+
+// Soft delete. Deleting a profile, project or work experience only sets its
+// deletedAt, which hides it from every read; it can be restored until the
+// purge removes it for good after the retention period.
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows that are trashed together with their profile
+const PROFILE_CHILD_MODELS = ['skill', 'project', 'workExperience'];
+
+// Trash entries by the path segment that addresses them
+const TRASH_TYPES = {
+  profiles: { model: 'profile', entityType: 'profile', label: 'Profile' },
+  projects: { model: 'project', entityType: 'project', label: 'Project' },
+  'work-experience': { model: 'workExperience', entityType: 'work_experience', label: 'Work experience' }
+};
+
+const inTrash = { deletedAt: { not: null } };
+
+// Days a row stays in the trash before it is purged
+const retentionDays = () => Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+
+const purgeDate = (deletedAt) => new Date(deletedAt.getTime() + retentionDays() * DAY_MS);
+
+// Move a profile to the trash, inside a transaction. Its skills, projects
+// and work experience get the same deletedAt; rows already in the trash
+// keep theirs, so restoring the profile does not bring them back.
+const trashProfile = async (tx, profileId, deletedAt = new Date()) => {
+  for (const model of PROFILE_CHILD_MODELS) {
+    await tx[model].updateMany({ where: { profileId, ...notDeleted }, data: { deletedAt } });
+  }
+
+  return tx.profile.update({ where: { id: profileId }, data: { deletedAt } });
+};
+
+// Move a project or work experience to the trash
+const trashItem = (tx, model, id) =>
+  tx[model].update({ where: { id }, data: { deletedAt: new Date() } });
+
+// Take a trashed profile, project or work experience out of the trash,
+// inside a transaction. A profile brings back the rows trashed with it.
+const restoreFromTrash = async (tx, model, row) => {
+  if (model === 'profile') {
+    for (const childModel of PROFILE_CHILD_MODELS) {
+      await tx[childModel].updateMany({
+        where: { profileId: row.id, deletedAt: row.deletedAt },
+        data: { deletedAt: null }
+      });
+    }
+  }
+
+  return tx[model].update({ where: { id: row.id }, data: { deletedAt: null } });
+};
+
+// Load a trashed row (with its profile) that the user may restore, or fail
+// with 404. Items of a trashed profile come back with the profile, so they
+// cannot be restored on their own.
+const findTrashedOrFail = async (user, typeName, id) => {
+  const { model, label } = TRASH_TYPES[typeName];
+  const row = model === 'profile'
+    ? await prisma.profile.findFirst({ where: { id, ...inTrash } })
+    : await prisma[model].findFirst({
+      where: { id, ...inTrash, profile: notDeleted },
+      include: { profile: true }
+    });
+
+  if (!row) {
+    throw new AppError(`${label} not found in the trash`, 404, 'NOT_IN_TRASH');
+  }
+
+  assertProfileOwner(user, model === 'profile' ? row : row.profile);
+  return row;
+};
+
+// Transform a trashed row to the API format
+const serializeTrashEntry = (type, row) => ({
+  type,
+  id: row.id,
+  profile_id: type === 'profile' ? row.id : row.profileId,
+  title: {
+    profile: () => row.name,
+    project: () => row.title,
+    work: () => `${row.position} at ${row.company}`
+  }[type](),
+  deleted_at: row.deletedAt,
+  purge_at: purgeDate(row.deletedAt)
+});
+
+// One page of the trash, most recently deleted first. Admins see the whole
+// trash, other users the trash of their own profiles.
+const listTrash = async (user, { limit, offset }) => {
+  const owned = user.role === 'admin' ? {} : { ownerId: user.id };
+  const queries = [
+    { type: 'profile', model: 'profile', where: { ...inTrash, ...owned } },
+    { type: 'project', model: 'project', where: { ...inTrash, profile: { ...notDeleted, ...owned } } },
+    { type: 'work', model: 'workExperience', where: { ...inTrash, profile: { ...notDeleted, ...owned } } }
+  ];
+
+  // Each table can contribute at most offset + limit rows to the page
+  const results = await Promise.all(queries.map(async ({ type, model, where }) => {
+    const [rows, count] = await Promise.all([
+      prisma[model].findMany({ where, orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }], take: offset + limit }),
+      prisma[model].count({ where })
+    ]);
+    return { entries: rows.map(row => serializeTrashEntry(type, row)), count };
+  }));
+
+  const entries = results
+    .flatMap(result => result.entries)
+    .sort((a, b) => b.deleted_at - a.deleted_at || b.id - a.id)
+    .slice(offset, offset + limit);
+
+  return { entries, total: results.reduce((sum, result) => sum + result.count, 0) };
+};
+
+// Delete rows that have been in the trash for longer than the retention
+// period. Purging a profile removes everything under it.
+const purgeTrash = async ({ deletedBefore = new Date(Date.now() - retentionDays() * DAY_MS) } = {}) => {
+  const where = { deletedAt: { lte: deletedBefore } };
+  const { count: profiles } = await prisma.profile.deleteMany({ where });
+  const { count: projects } = await prisma.project.deleteMany({ where });
+  const { count: workExperience } = await prisma.workExperience.deleteMany({ where });
+  const { count: skills } = await prisma.skill.deleteMany({ where });
+
+  return { profiles, projects, workExperience, skills };
+};
+
+// Run purgeTrash every intervalMs in the background. Returns a function
+// that stops it.
+const startTrashPurge = ({ intervalMs }) => {
+  const run = async () => {
+    try {
+      const purged = await purgeTrash();
+      if (Object.values(purged).some(count => count > 0)) {
+        logger.info('Trash purged', purged);
+      }
+    } catch (error) {
+      logger.error('Trash purge failed', { error: error.message });
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  run();
+
+  return () => clearInterval(timer);
+};
+
+export {
+  TRASH_TYPES,
+  purgeDate,
+  trashProfile,
+  trashItem,
+  restoreFromTrash,
+  findTrashedOrFail,
+  listTrash,
+  purgeTrash,
+  startTrashPurge
+};
@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import prisma from './prisma.js';
+import logger from './logger.js';
+
+// Outbound webhooks. A change to a profile, project or work experience is
+// queued for every subscription to its event type, in the transaction that
+// made the change (see recordAudit), and sent by a background worker.
+// Requests are signed with the subscription's secret and retried with
+// exponential backoff until the receiver answers with a 2xx status.
+
+const WEBHOOK_ENTITY_TYPES = ['profile', 'project', 'work_experience'];
+
+// Event of each audited action, e.g. an update of a project is sent as
+// "project.updated"
+const EVENT_VERBS = { create: 'created', update: 'updated', delete: 'deleted', restore: 'restored' };
+
+const WEBHOOK_EVENTS = WEBHOOK_ENTITY_TYPES.flatMap(entityType =>
+  Object.values(EVENT_VERBS).map(verb => `${entityType}.${verb}`));
+
+// Sent on request to check a receiver, whatever events it subscribed to
+const PING_EVENT = 'ping';
+
+const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'];
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const BATCH_SIZE = 50;
+const USER_AGENT = 'me-api-playground webhooks';
+
+// How long a delivery being sent is hidden from other workers. Longer than
+// a request may take, so that it is only sent twice when a worker dies.
+const LEASE_MS = 60 * 1000;
+
+// Characters of a response body kept in the delivery log
+const MAX_RESPONSE_BODY = 1000;
+
+// Attempts before a delivery is given up as failed
+const maxAttempts = () => Number(process.env.WEBHOOK_MAX_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS;
+
+// Wait after the given number of failed attempts: 1, 2, 4, 8... minutes,
+// at most 6 hours
+const retryDelay = (attempts) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Secret for a subscription created without one
+const generateSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+// HMAC-SHA256 of "<timestamp>.<body>" with the subscription's secret, as
+// sent in X-Webhook-Signature. Signing the timestamp lets receivers reject
+// old requests that are sent to them again.
+const signPayload = (secret, timestamp, body) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Check a signature the way a receiver would, on the raw request body
+const verifySignature = (secret, timestamp, body, signature) => {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const given = Buffer.from(String(signature ?? ''));
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// Default fetcher: a POST that does not follow redirects, as a receiver
+// that moved should be updated rather than followed. A replacement takes
+// the same (url, { method, headers, body, signal }) arguments and resolves
+// to an object with `status` and `text()`.
+const httpFetcher = (url, { method, headers, body, signal }) =>
+  fetch(url, { method, headers, body, signal, redirect: 'manual' });
+
+// Profile of a changed entity, so receivers can file items under their
+// profile. Rows in the trash are found too.
+const PROFILE_IDS = {
+  profile: async (db, id) => id,
+  project: async (db, id) => (await db.project.findUnique({ where: { id }, select: { profileId: true } }))?.profileId ?? null,
+  work_experience: async (db, id) => (await db.workExperience.findUnique({ where: { id }, select: { profileId: true } }))?.profileId ?? null
+};
+
+// The body sent to receivers. The id identifies the event: every
+// subscription, and every replay, gets the same one.
+const eventPayload = (event, data, createdAt = new Date()) => ({
+  id: crypto.randomUUID(),
+  event,
+  created_at: createdAt.toISOString(),
+  data
+});
+
+// Queue deliveries of an audit event for the active subscriptions to its
+// event type. Called by recordAudit with the transaction of the change, so
+// that nothing is sent for changes that are rolled back.
+const queueWebhooks = async (db, auditEvent) => {
+  const { action, entityType, entityId } = auditEvent;
+  if (!EVENT_VERBS[action] || !WEBHOOK_ENTITY_TYPES.includes(entityType)) {
+    return;
+  }
+
+  const event = `${entityType}.${EVENT_VERBS[action]}`;
+  const subscriptions = await db.webhookSubscription.findMany({
+    where: { active: true, events: { has: event } },
+    select: { id: true }
+  });
+  if (subscriptions.length === 0) {
+    return;
+  }
+
+  const payload = eventPayload(event, {
+    entity_type: entityType,
+    id: entityId,
+    profile_id: await PROFILE_IDS[entityType](db, entityId),
+    before: auditEvent.before ?? null,
+    after: auditEvent.after ?? null
+  }, auditEvent.createdAt);
+
+  await db.webhookDelivery.createMany({
+    data: subscriptions.map(subscription => ({ subscriptionId: subscription.id, event, payload }))
+  });
+};
+
+// Queue a ping to a subscription, to check that its receiver is reachable
+// and verifies signatures
+const queuePing = (subscription) => prisma.webhookDelivery.create({
+  data: {
+    subscriptionId: subscription.id,
+    event: PING_EVENT,
+    payload: eventPayload(PING_EVENT, { subscription_id: subscription.id, events: subscription.events })
+  }
+});
+
+// Queue a delivery again, with the same event and payload, for the current
+// URL and secret of its subscription
+const replayDelivery = (delivery) => prisma.webhookDelivery.create({
+  data: {
+    subscriptionId: delivery.subscriptionId,
+    event: delivery.event,
+    payload: delivery.payload,
+    replayOfId: delivery.id
+  }
+});
+
+// Take a due delivery by moving its next attempt past the lease. Fails
+// when another worker took it first.
+const claimDelivery = async (delivery) => {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+    data: { nextAttemptAt: new Date(Date.now() + LEASE_MS) }
+  });
+  return count === 1;
+};
+
+// Send a delivery once. Resolves to the outcome of the attempt; network
+// errors and timeouts are reported in `error`.
+const sendDelivery = async (delivery, { fetcher, timeoutMs }) => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers = {
+    'Content-Type': 'application/json',
+    'User-Agent': USER_AGENT,
+    'X-Webhook-Event': delivery.event,
+    'X-Webhook-Delivery': String(delivery.id),
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': signPayload(delivery.subscription.secret, timestamp, body)
+  };
+  const startedAt = Date.now();
+  const outcome = (fields) => ({ responseStatus: null, responseBody: null, error: null, ...fields, durationMs: Date.now() - startedAt });
+
+  try {
+    const signal = AbortSignal.timeout(timeoutMs);
+    const response = await fetcher(delivery.subscription.url, { method: 'POST', headers, body, signal });
+    const responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+    const ok = response.status >= 200 && response.status < 300;
+
+    return outcome({
+      responseStatus: response.status,
+      responseBody,
+      error: ok ? null : `Receiver answered with status ${response.status}`
+    });
+  } catch (error) {
+    return outcome({
+      error: error.name === 'TimeoutError' ? `No response within ${timeoutMs} ms` : (error.cause?.message || error.message)
+    });
+  }
+};
+
+// Log an attempt and schedule the next one, or settle the delivery when
+// it succeeded or has no attempts left
+const recordAttempt = (delivery, attempt) => {
+  const attemptCount = delivery.attemptCount + 1;
+  const succeeded = attempt.error === null;
+  const retry = !succeeded && attemptCount < maxAttempts();
+  const now = new Date();
+
+  return prisma.$transaction([
+    prisma.webhookAttempt.create({ data: { deliveryId: delivery.id, ...attempt, createdAt: now } }),
+    prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: succeeded ? 'succeeded' : (retry ? 'pending' : 'failed'),
+        attemptCount,
+        nextAttemptAt: retry ? new Date(now.getTime() + retryDelay(attemptCount)) : null,
+        lastAttemptAt: now,
+        responseStatus: attempt.responseStatus,
+        error: attempt.error,
+        deliveredAt: succeeded ? now : null
+      }
+    })
+  ]);
+};
+
+// Send the deliveries that are due, oldest first. Deliveries of paused
+// subscriptions wait until they are active again. Resolves to the number
+// of deliveries attempted and of those that failed.
+const deliverDueWebhooks = async ({ fetcher = httpFetcher, timeoutMs = REQUEST_TIMEOUT_MS } = {}) => {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() }, subscription: { active: true } },
+    include: { subscription: true },
+    orderBy: [{ nextAttemptAt: 'asc' }, { id: 'asc' }],
+    take: BATCH_SIZE
+  });
+
+  let attempted = 0;
+  let failed = 0;
+  for (const delivery of due) {
+    if (!(await claimDelivery(delivery))) {
+      continue;
+    }
+
+    const attempt = await sendDelivery(delivery, { fetcher, timeoutMs });
+    await recordAttempt(delivery, attempt);
+
+    attempted++;
+    if (attempt.error) {
+      failed++;
+      logger.warn('Webhook delivery failed', {
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        event: delivery.event,
+        attempt: delivery.attemptCount + 1,
+        error: attempt.error
+      });
+    }
+  }
+
+  return { attempted, failed };
+};
+
+// Send due deliveries every intervalMs in the background of the API
+// server. Returns a function that stops it.
+const startWebhookDelivery = ({ intervalMs, ...options }) => {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const { attempted, failed } = await deliverDueWebhooks(options);
+      if (attempted > 0) {
+        logger.info('Webhooks delivered', { attempted, failed });
+      }
+    } catch (error) {
+      logger.error('Webhook delivery run failed', { error: error.message });
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  run();
+
+  return () => clearInterval(timer);
+};
+
+// Transform a subscription to the API format. The secret is only returned
+// when the subscription is created.
+const serializeSubscription = (subscription) => ({
+  id: subscription.id,
+  url: subscription.url,
+  events: subscription.events,
+  active: subscription.active,
+  created_at: subscription.createdAt,
+  updated_at: subscription.updatedAt
+});
+
+// Transform a delivery to the API format, with its payload and attempts
+// when they were loaded
+const serializeDelivery = (delivery) => ({
+  id: delivery.id,
+  subscription_id: delivery.subscriptionId,
+  event: delivery.event,
+  event_id: delivery.payload.id,
+  status: delivery.status,
+  attempt_count: delivery.attemptCount,
+  next_attempt_at: delivery.nextAttemptAt,
+  last_attempt_at: delivery.lastAttemptAt,
+  response_status: delivery.responseStatus,
+  error: delivery.error,
+  delivered_at: delivery.deliveredAt,
+  replay_of: delivery.replayOfId,
+  created_at: delivery.createdAt,
+  ...(delivery.attempts && {
+    payload: delivery.payload,
+    attempts: delivery.attempts.map(attempt => ({
+      id: attempt.id,
+      response_status: attempt.responseStatus,
+      response_body: attempt.responseBody,
+      error: attempt.error,
+      duration_ms: attempt.durationMs,
+      created_at: attempt.createdAt
+    }))
+  })
+});
+
+export {
+  WEBHOOK_EVENTS,
+  PING_EVENT,
+  DELIVERY_STATUSES,
+  generateSecret,
+  signPayload,
+  verifySignature,
+  queueWebhooks,
+  queuePing,
+  replayDelivery,
+  deliverDueWebhooks,
+  startWebhookDelivery,
+  serializeSubscription,
+  serializeDelivery
+};
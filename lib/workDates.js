@@ -0,0 +1,93 @@
+// Month-precision dates for work experience. Dates are stored as the first
+// day of their month (UTC) and exchanged with clients as "YYYY-MM".
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// End dates that mean the job is ongoing in legacy free-form data
+const PRESENT_PATTERN = /^(present|current|now|ongoing|today)$/i;
+
+const toMonth = (year, month) =>
+  (month >= 1 && month <= 12 ? new Date(Date.UTC(year, month - 1, 1)) : null);
+
+// Parse "2022-01", "2022-01-15", "01/2022", "Jan 2022", "January 2022" or
+// "2022" to the first day of that month. Returns null for anything else.
+const parseMonth = (value) => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : toMonth(value.getUTCFullYear(), value.getUTCMonth() + 1);
+  }
+
+  const text = String(value ?? '').trim();
+  let match;
+
+  if ((match = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2}(?:T[\d:.]+Z?)?)?$/))) {
+    return toMonth(Number(match[1]), Number(match[2]));
+  }
+  if ((match = text.match(/^(\d{1,2})[-/.](\d{4})$/))) {
+    return toMonth(Number(match[2]), Number(match[1]));
+  }
+  if ((match = text.match(/^([a-z]{3,})\.?,?\s+(\d{4})$/i))) {
+    const month = MONTH_NAMES.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    return month > 0 ? toMonth(Number(match[2]), month) : null;
+  }
+  if ((match = text.match(/^(\d{4})$/))) {
+    return toMonth(Number(match[1]), 1);
+  }
+
+  return null;
+};
+
+const isPresent = (value) => PRESENT_PATTERN.test(String(value ?? '').trim());
+
+// Format a stored date as "YYYY-MM"
+const formatMonth = (date) => (date ? date.toISOString().slice(0, 7) : null);
+
+const monthIndex = (date) => date.getUTCFullYear() * 12 + date.getUTCMonth();
+
+// First and last month index of a job, counting both months. A job without
+// an end date that is not marked current has no known length.
+const monthSpan = ({ startDate, endDate, isCurrent }, now) => {
+  if (!startDate || (!endDate && !isCurrent)) return null;
+
+  const start = monthIndex(startDate);
+  const end = monthIndex(isCurrent ? now : endDate);
+  return end >= start ? [start, end] : null;
+};
+
+// Months spent in one job, e.g. Jan 2022 - Mar 2022 is 3 months
+const tenureMonths = (work, now = new Date()) => {
+  const span = monthSpan(work, now);
+  return span ? span[1] - span[0] + 1 : null;
+};
+
+// Months of experience across all jobs. Overlapping jobs are only counted
+// once so that holding two roles at a time does not double the total.
+const totalExperienceMonths = (workExperience, now = new Date()) => {
+  const spans = workExperience
+    .map(work => monthSpan(work, now))
+    .filter(Boolean)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of spans) {
+    const from = Math.max(start, coveredUntil + 1);
+    if (end >= from) {
+      total += end - from + 1;
+      coveredUntil = end;
+    }
+  }
+
+  return total;
+};
+
+// Years rounded to one decimal, for display
+const monthsToYears = (months) => Math.round((months / 12) * 10) / 10;
+
+export {
+  parseMonth,
+  isPresent,
+  formatMonth,
+  tenureMonths,
+  totalExperienceMonths,
+  monthsToYears
+};
@@ -1,22 +1,107 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import prisma from '../lib/prisma.js';
 import logger from '../lib/logger.js';
-
-// Simple in-memory user store (in production, use a database)
-const users = [
-  {
-    id: 1,
-    username: 'admin',
-    password: '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', // password
-    role: 'admin'
-  }
-];
+import { recordAudit } from '../lib/audit.js';
+import { asyncHandler, AppError } from './errorHandler.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
+
+const ROLES = ['admin', 'editor', 'viewer'];
+
+// Scopes an API key can be granted. profile:write implies profile:read.
+const API_KEY_SCOPES = ['profile:read', 'profile:write'];
+
+// Refresh tokens and API keys are opaque random strings; only their hash is stored
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Create a new API key. The plain key is only ever returned to the caller
+// once; the prefix is kept so users can tell their keys apart.
+const generateApiKey = () => {
+  const key = `mk_${crypto.randomBytes(32).toString('hex')}`;
+  return { key, prefix: key.slice(0, 11), keyHash: hashToken(key) };
+};
+
+const publicUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role
+});
+
+// Sign an access token and store a new refresh token for the user
+const issueTokens = async (user) => {
+  const token = jwt.sign(publicUser(user), JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+
+  await prisma.refreshToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+    }
+  });
+
+  return { token, refreshToken, expiresIn: JWT_EXPIRES_IN };
+};
+
+// The stored key, with its owner, of a request's X-API-Key header. Looked
+// up once per request, as the rate limiters check it before authentication.
+const findApiKey = (req) => {
+  req.storedApiKey ??= prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(req.get('X-API-Key')) },
+    include: { user: true }
+  });
+  return req.storedApiKey;
+};
+
+// Authenticate with an X-API-Key header. The key acts on behalf of its
+// owner, limited to the key's scopes. Its rate limit is applied to every
+// request by apiKeyLimiter, before authentication.
+const authenticateApiKey = async (req, res, next) => {
+  try {
+    const stored = await findApiKey(req);
+
+    if (!stored || stored.revokedAt) {
+      logger.warn('Authentication failed: Invalid API key', {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        path: req.path
+      });
+      return next(new AppError('Access denied. Invalid API key.', 401, 'INVALID_API_KEY'));
+    }
+
+    await prisma.apiKey.update({
+      where: { id: stored.id },
+      data: { lastUsedAt: new Date() }
+    });
 
-// Basic authentication middleware
+    req.user = {
+      ...publicUser(stored.user),
+      apiKeyId: stored.id,
+      scopes: stored.scopes
+    };
+    logger.info('API key authenticated successfully', {
+      userId: stored.user.id,
+      apiKeyId: stored.id,
+      ip: req.ip,
+      path: req.path
+    });
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Basic authentication middleware. Accepts either a bearer token or an
+// X-API-Key header.
 const authenticateToken = (req, res, next) => {
+  if (req.get('X-API-Key')) {
+    return authenticateApiKey(req, res, next);
+  }
+
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -26,13 +111,15 @@ const authenticateToken = (req, res, next) => {
       userAgent: req.get('User-Agent'),
       path: req.path
     });
-    return res.status(401).json({ 
-      error: 'Access denied. No token provided.',
-      code: 'NO_TOKEN'
-    });
+    return next(new AppError('Access denied. No token provided.', 401, 'NO_TOKEN'));
   }
 
   jwt.verify(token, JWT_SECRET, (err, user) => {
+    // Expired tokens get a 401 so clients know to refresh and retry
+    if (err && err.name === 'TokenExpiredError') {
+      return next(new AppError('Access denied. Token expired.', 401, 'TOKEN_EXPIRED'));
+    }
+
     if (err) {
       logger.warn('Authentication failed: Invalid token', {
         ip: req.ip,
@@ -40,10 +127,7 @@ const authenticateToken = (req, res, next) => {
         path: req.path,
         error: err.message
       });
-      return res.status(403).json({ 
-        error: 'Access denied. Invalid token.',
-        code: 'INVALID_TOKEN'
-      });
+      return next(new AppError('Access denied. Invalid token.', 403, 'INVALID_TOKEN'));
     }
 
     req.user = user;
@@ -57,85 +141,116 @@ const authenticateToken = (req, res, next) => {
   });
 };
 
+// Hash, at the cost of real password hashes, that unknown usernames are
+// checked against, so that they take as long to reject as a wrong password
+// and cannot be told apart from existing users by the response time
+const DUMMY_PASSWORD_HASH = '$2a$10$IHB9if3GC937wULJ.uqp0OPgt3H8hKqN2kQkCXf.1gPjmy3tY7bXu';
+
 // Login endpoint
-const login = async (req, res) => {
-  try {
-    const { username, password } = req.body;
+const login = asyncHandler(async (req, res) => {
+  const { username, password } = req.body;
 
-    if (!username || !password) {
-      return res.status(400).json({
-        error: 'Username and password are required',
-        code: 'MISSING_CREDENTIALS'
-      });
-    }
+  const user = await prisma.user.findUnique({ where: { username } });
+  const isValidPassword = await bcrypt.compare(password, user ? user.passwordHash : DUMMY_PASSWORD_HASH);
 
-    // Find user (in production, query database)
-    const user = users.find(u => u.username === username);
-    if (!user) {
-      logger.warn('Login attempt with invalid username', {
-        username,
-        ip: req.ip,
-        userAgent: req.get('User-Agent')
-      });
-      return res.status(401).json({
-        error: 'Invalid credentials',
-        code: 'INVALID_CREDENTIALS'
-      });
-    }
-
-    // Verify password (in production, use bcrypt.compare)
-    const isValidPassword = await bcrypt.compare(password, user.password);
-    
-    if (!isValidPassword) {
-      logger.warn('Login attempt with invalid password', {
-        username,
-        ip: req.ip,
-        userAgent: req.get('User-Agent')
-      });
-      return res.status(401).json({
-        error: 'Invalid credentials',
-        code: 'INVALID_CREDENTIALS'
-      });
-    }
+  if (!user) {
+    await recordAudit(prisma, req, { action: 'login_failed', entityType: 'user', actor: null });
+    logger.warn('Login attempt with invalid username', {
+      username,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+    throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
+  }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        id: user.id, 
-        username: user.username, 
-        role: user.role 
-      },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN }
-    );
-
-    logger.info('User logged in successfully', {
-      userId: user.id,
-      username: user.username,
-      ip: req.ip
+  if (!isValidPassword) {
+    await recordAudit(prisma, req, { action: 'login_failed', entityType: 'user', entityId: user.id, actor: null });
+    logger.warn('Login attempt with invalid password', {
+      username,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
     });
+    throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
+  }
+
+  const tokens = await issueTokens(user);
+  await recordAudit(prisma, req, { action: 'login', entityType: 'user', entityId: user.id, actor: user });
+
+  logger.info('User logged in successfully', {
+    userId: user.id,
+    username: user.username,
+    ip: req.ip
+  });
+
+  res.json({
+    message: 'Login successful',
+    ...tokens,
+    user: publicUser(user)
+  });
+});
+
+// Exchange a refresh token for a new token pair. The presented refresh
+// token is revoked (rotation); presenting an already revoked token revokes
+// every token of that user, since it means the token has leaked.
+const refresh = asyncHandler(async (req, res) => {
+  const { refreshToken } = req.body;
 
-    res.json({
-      message: 'Login successful',
-      token,
-      user: {
-        id: user.id,
-        username: user.username,
-        role: user.role
-      }
+  if (!refreshToken) {
+    throw new AppError('Refresh token is required', 400, 'MISSING_REFRESH_TOKEN');
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: true }
+  });
+
+  if (stored && stored.revokedAt) {
+    await prisma.refreshToken.updateMany({
+      where: { userId: stored.userId, revokedAt: null },
+      data: { revokedAt: new Date() }
     });
-  } catch (error) {
-    logger.error('Login error', {
-      error: error.message,
-      stack: error.stack,
+    logger.warn('Revoked refresh token reused', {
+      userId: stored.userId,
       ip: req.ip
     });
-    res.status(500).json({
-      error: 'Internal server error',
-      code: 'LOGIN_ERROR'
+  }
+
+  if (!stored || stored.revokedAt || stored.expiresAt < new Date()) {
+    throw new AppError('Invalid refresh token', 401, 'INVALID_REFRESH_TOKEN');
+  }
+
+  await prisma.refreshToken.update({
+    where: { id: stored.id },
+    data: { revokedAt: new Date() }
+  });
+
+  const tokens = await issueTokens(stored.user);
+
+  logger.info('Access token refreshed', {
+    userId: stored.user.id,
+    ip: req.ip
+  });
+
+  res.json({
+    message: 'Token refreshed',
+    ...tokens,
+    user: publicUser(stored.user)
+  });
+});
+
+// Revoke a refresh token. Access tokens stay valid until they expire.
+const logout = asyncHandler(async (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (refreshToken) {
+    await prisma.refreshToken.updateMany({
+      where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() }
     });
   }
-};
+
+  res.json({ message: 'Logout successful' });
+});
 
 // Middleware to require authentication for write operations
 const requireAuth = (req, res, next) => {
@@ -148,8 +263,67 @@ const requireAuth = (req, res, next) => {
   return authenticateToken(req, res, next);
 };
 
+// Middleware to restrict write operations to the given roles. Must run
+// after requireAuth or authenticateToken.
+const requireRole = (...roles) => (req, res, next) => {
+  if (req.method === 'GET') {
+    return next();
+  }
+
+  if (!req.user || !roles.includes(req.user.role)) {
+    logger.warn('Authorization failed: Insufficient role', {
+      userId: req.user?.id,
+      role: req.user?.role,
+      path: req.path,
+      method: req.method
+    });
+    return next(new AppError('Access denied. Insufficient permissions.', 403, 'FORBIDDEN'));
+  }
+
+  next();
+};
+
+// Middleware to require a scope when the request is authenticated with an
+// API key. Bearer tokens carry every scope their user's role allows.
+const requireScope = (scope) => (req, res, next) => {
+  if (!req.user?.apiKeyId) {
+    return next();
+  }
+
+  const scopes = req.user.scopes || [];
+  const granted = scopes.includes(scope) ||
+    (scope === 'profile:read' && scopes.includes('profile:write'));
+
+  if (!granted) {
+    logger.warn('Authorization failed: API key lacks scope', {
+      apiKeyId: req.user.apiKeyId,
+      scope,
+      path: req.path,
+      method: req.method
+    });
+    return next(new AppError(`Access denied. API key is missing the ${scope} scope.`, 403, 'INSUFFICIENT_SCOPE'));
+  }
+
+  next();
+};
+
+// Viewers may read but not change data
+const requireEditor = requireRole('admin', 'editor');
+
+const requireAdmin = requireRole('admin');
+
 export {
+  ROLES,
+  API_KEY_SCOPES,
+  generateApiKey,
+  findApiKey,
   authenticateToken,
   login,
-  requireAuth
+  refresh,
+  logout,
+  requireAuth,
+  requireRole,
+  requireScope,
+  requireEditor,
+  requireAdmin
 };
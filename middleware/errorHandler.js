@@ -1,81 +1,102 @@
+import pkg from '@prisma/client';
 import logger from '../lib/logger.js';
+import { PROBLEM_CONTENT_TYPE, problemDetails } from '../lib/problems.js';
 
-// Custom error class
+const { Prisma } = pkg;
+
+// Custom error class. `code` must be one of ERROR_CODES; extensions are
+// extra members of the problem details, e.g. the failed validations.
 class AppError extends Error {
-  constructor(message, statusCode, code = null) {
+  constructor(message, statusCode, code = null, extensions = {}) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
+    this.extensions = extensions;
     this.isOperational = true;
 
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
-// Error handler middleware
-const errorHandler = (err, req, res, next) => {
-  let error = { ...err };
-  error.message = err.message;
+// Prisma request errors by their error code
+const PRISMA_ERRORS = {
+  P2000: () => new AppError('A value is too long for its field', 400, 'VALUE_TOO_LONG'),
+  P2002: (err) => new AppError(`A record with this ${[].concat(err.meta?.target ?? 'value').join(', ')} already exists`, 409, 'DUPLICATE_ENTRY'),
+  P2003: () => new AppError('A related record does not exist', 400, 'FOREIGN_KEY_CONSTRAINT'),
+  P2025: () => new AppError('Record not found', 404, 'NOT_FOUND')
+};
 
-  // Log error
-  logger.error('Error occurred', {
-    error: err.message,
-    stack: err.stack,
-    ip: req.ip,
-    userAgent: req.get('User-Agent'),
-    path: req.path,
-    method: req.method,
-    body: req.body,
-    query: req.query,
-    params: req.params
-  });
+// Turn any error into an AppError. Only errors we know are safe to show
+// keep their message; everything else becomes a generic 500.
+const toAppError = (err) => {
+  if (err.isOperational) {
+    return err;
+  }
+
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    return PRISMA_ERRORS[err.code]?.(err) ?? new AppError('Database error', 500, 'DATABASE_ERROR');
+  }
+  if (err instanceof Prisma.PrismaClientValidationError) {
+    return new AppError('The request contains invalid values', 400, 'INVALID_INPUT');
+  }
+  if (err instanceof Prisma.PrismaClientInitializationError) {
+    return new AppError('The database is unavailable', 503, 'DATABASE_UNAVAILABLE');
+  }
+  if (err instanceof Prisma.PrismaClientUnknownRequestError || err instanceof Prisma.PrismaClientRustPanicError) {
+    return new AppError('Database error', 500, 'DATABASE_ERROR');
+  }
 
-  // Prisma errors
-  if (err.code) {
-    switch (err.code) {
-      case 'P2002':
-        error = new AppError('Duplicate field value', 400, 'DUPLICATE_ENTRY');
-        break;
-      case 'P2025':
-        error = new AppError('Record not found', 404, 'NOT_FOUND');
-        break;
-      case 'P2003':
-        error = new AppError('Foreign key constraint failed', 400, 'FOREIGN_KEY_CONSTRAINT');
-        break;
-      default:
-        error = new AppError('Database error', 500, 'DATABASE_ERROR');
-    }
+  // Body parser errors
+  if (err.type === 'entity.parse.failed') {
+    return new AppError('The request body is not valid JSON', 400, 'INVALID_JSON');
+  }
+  if (err.type === 'entity.too.large') {
+    return new AppError('The request body is too large', 413, 'PAYLOAD_TOO_LARGE');
   }
 
   // JWT errors
   if (err.name === 'JsonWebTokenError') {
-    error = new AppError('Invalid token', 401, 'INVALID_TOKEN');
+    return new AppError('Invalid token', 403, 'INVALID_TOKEN');
   }
   if (err.name === 'TokenExpiredError') {
-    error = new AppError('Token expired', 401, 'TOKEN_EXPIRED');
+    return new AppError('Token expired', 401, 'TOKEN_EXPIRED');
   }
 
-  // Validation errors
-  if (err.name === 'ValidationError') {
-    const message = Object.values(err.errors).map(val => val.message).join(', ');
-    error = new AppError(message, 400, 'VALIDATION_ERROR');
-  }
+  return new AppError('Something went wrong', 500, 'INTERNAL_ERROR');
+};
 
-  // Cast errors
-  if (err.name === 'CastError') {
-    error = new AppError('Invalid ID format', 400, 'INVALID_ID');
-  }
+// Error handler middleware. Every error response is a problem details
+// document (RFC 7807). Express tells error handlers by their four
+// arguments, so _next stays although it is not called.
+const errorHandler = (err, req, res, _next) => {
+  const error = toAppError(err);
+  const status = error.statusCode || 500;
 
-  // Default error
-  if (!error.isOperational) {
-    error = new AppError('Something went wrong', 500, 'INTERNAL_ERROR');
+  // Client errors are expected; only server errors are logged with the stack
+  const logDetails = {
+    error: err.message,
+    code: error.code,
+    status,
+    ip: req.ip,
+    userAgent: req.get('User-Agent'),
+    path: req.path,
+    method: req.method,
+    query: req.query,
+    params: req.params
+  };
+  if (status >= 500) {
+    logger.error('Error occurred', { ...logDetails, stack: err.stack, body: req.body });
+  } else {
+    logger.warn('Request failed', logDetails);
   }
 
-  res.status(error.statusCode || 500).json({
-    error: error.message,
-    code: error.code || 'INTERNAL_ERROR',
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
-  });
+  res
+    .status(status)
+    .type(PROBLEM_CONTENT_TYPE)
+    .json({
+      ...problemDetails(req, error),
+      ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+    });
 };
 
 // 404 handler
@@ -91,6 +112,7 @@ const asyncHandler = (fn) => (req, res, next) => {
 
 export {
   AppError,
+  toAppError,
   errorHandler,
   notFound,
   asyncHandler
@@ -1,96 +1,132 @@
 import rateLimit from 'express-rate-limit';
 import logger from '../lib/logger.js';
+import { findApiKey } from './auth.js';
+import { AppError } from './errorHandler.js';
+
+// Requests allowed per window: the environment variable when it is set,
+// otherwise the default. Read on every request, so that tests can lower
+// or raise a limit while the app runs.
+const limitFrom = (variable, fallback) => () => parseInt(process.env[variable]) || fallback;
+
+// Requests with an active API key are counted per key by apiKeyLimiter
+// rather than per IP, so that the IP limits do not cap a key below its
+// own. Requests with an unknown or revoked key are counted per IP.
+const hasActiveApiKey = async (req) => {
+  if (!req.get('X-API-Key')) {
+    return false;
+  }
+
+  const stored = await findApiKey(req);
+  return Boolean(stored && !stored.revokedAt);
+};
 
 // General rate limiter
 const generalLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
+  max: limitFrom('RATE_LIMIT', 100), // limit each IP to 100 requests per windowMs
+  skip: hasActiveApiKey,
   message: {
     error: 'Too many requests from this IP, please try again later.',
     code: 'RATE_LIMIT_EXCEEDED'
   },
   standardHeaders: true,
   legacyHeaders: false,
-  handler: (req, res) => {
+  handler: (req, res, next, options) => {
     logger.warn('Rate limit exceeded', {
       ip: req.ip,
       userAgent: req.get('User-Agent'),
       path: req.path
     });
-    res.status(429).json({
-      error: 'Too many requests from this IP, please try again later.',
-      code: 'RATE_LIMIT_EXCEEDED'
-    });
+    next(new AppError(options.message.error, 429, options.message.code));
   }
 });
 
 // Strict rate limiter for write operations
 const writeLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 20, // limit each IP to 20 write requests per windowMs
+  max: limitFrom('WRITE_RATE_LIMIT', 20), // limit each IP to 20 write requests per windowMs
+  skip: hasActiveApiKey,
   message: {
     error: 'Too many write requests from this IP, please try again later.',
     code: 'WRITE_RATE_LIMIT_EXCEEDED'
   },
   standardHeaders: true,
   legacyHeaders: false,
-  handler: (req, res) => {
+  handler: (req, res, next, options) => {
     logger.warn('Write rate limit exceeded', {
       ip: req.ip,
       userAgent: req.get('User-Agent'),
       path: req.path,
       method: req.method
     });
-    res.status(429).json({
-      error: 'Too many write requests from this IP, please try again later.',
-      code: 'WRITE_RATE_LIMIT_EXCEEDED'
-    });
+    next(new AppError(options.message.error, 429, options.message.code));
   }
 });
 
 // Auth rate limiter
 const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // limit each IP to 5 login attempts per windowMs
+  max: limitFrom('AUTH_RATE_LIMIT', 5), // limit each IP to 5 failed login attempts per windowMs
+  skipSuccessfulRequests: true,
   message: {
     error: 'Too many login attempts from this IP, please try again later.',
     code: 'AUTH_RATE_LIMIT_EXCEEDED'
   },
   standardHeaders: true,
   legacyHeaders: false,
-  handler: (req, res) => {
+  handler: (req, res, next, options) => {
     logger.warn('Auth rate limit exceeded', {
       ip: req.ip,
       userAgent: req.get('User-Agent'),
       path: req.path
     });
-    res.status(429).json({
-      error: 'Too many login attempts from this IP, please try again later.',
-      code: 'AUTH_RATE_LIMIT_EXCEEDED'
-    });
+    next(new AppError(options.message.error, 429, options.message.code));
   }
 });
 
 // Search rate limiter
 const searchLimiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
-  max: 30, // limit each IP to 30 search requests per minute
+  max: limitFrom('SEARCH_RATE_LIMIT', 30), // limit each IP to 30 search requests per minute
   message: {
     error: 'Too many search requests from this IP, please try again later.',
     code: 'SEARCH_RATE_LIMIT_EXCEEDED'
   },
   standardHeaders: true,
   legacyHeaders: false,
-  handler: (req, res) => {
+  handler: (req, res, next, options) => {
     logger.warn('Search rate limit exceeded', {
       ip: req.ip,
       userAgent: req.get('User-Agent'),
       path: req.path
     });
-    res.status(429).json({
-      error: 'Too many search requests from this IP, please try again later.',
-      code: 'SEARCH_RATE_LIMIT_EXCEEDED'
+    next(new AppError(options.message.error, 429, options.message.code));
+  }
+});
+
+// Per API key rate limiter. Counts requests by key rather than by IP so
+// that scripts sharing a CI runner do not throttle each other. Runs for
+// every request next to generalLimiter, reads included, as the key is
+// resolved here rather than by authentication, which reads skip.
+const apiKeyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: limitFrom('API_KEY_RATE_LIMIT', 300), // limit each key to 300 requests per windowMs
+  keyGenerator: async (req) => `api-key:${(await findApiKey(req)).id}`,
+  skip: async (req) => !(await hasActiveApiKey(req)),
+  message: {
+    error: 'Too many requests for this API key, please try again later.',
+    code: 'API_KEY_RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: async (req, res, next, options) => {
+    const stored = await findApiKey(req);
+    logger.warn('API key rate limit exceeded', {
+      apiKeyId: stored.id,
+      ip: req.ip,
+      path: req.path
     });
+    next(new AppError(options.message.error, 429, options.message.code));
   }
 });
 
@@ -98,5 +134,6 @@ export {
   generalLimiter,
   writeLimiter,
   authLimiter,
-  searchLimiter
+  searchLimiter,
+  apiKeyLimiter
 };
@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+import { requestContext } from '../lib/requestContext.js';
+
+// IDs passed in by clients and proxies are kept if they look sane
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Give every request an ID: the incoming X-Request-Id header or a new
+// UUID. It is echoed back in the response, set as req.id, and tags every
+// log line written while the request is handled.
+const requestId = (req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  req.id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.set('X-Request-Id', req.id);
+
+  requestContext.run({ requestId: req.id }, next);
+};
+
+export { requestId };
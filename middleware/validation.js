@@ -1,5 +1,11 @@
 import { body, query, param, validationResult } from 'express-validator';
 import logger from '../lib/logger.js';
+import { AppError } from './errorHandler.js';
+import { decodeCursor } from '../lib/pagination.js';
+import { parseMonth } from '../lib/workDates.js';
+import { RESUME_FORMATS } from '../lib/resume.js';
+import { TRASH_TYPES } from '../lib/trash.js';
+import { contractField, contractEnum, contractRequires } from '../lib/contract.js';
 
 // Validation error handler
 const handleValidationErrors = (req, res, next) => {
@@ -12,46 +18,167 @@ const handleValidationErrors = (req, res, next) => {
       method: req.method
     });
     
-    return res.status(400).json({
-      error: 'Validation failed',
-      code: 'VALIDATION_ERROR',
-      details: errors.array()
-    });
+    return next(new AppError('Validation failed', 400, 'VALIDATION_ERROR', { errors: errors.array() }));
   }
   next();
 };
 
-// Profile validation rules
-const validateProfile = [
-  body('name')
+// Length limits of a string field, and of the items of an array field,
+// as given by the API contract (lib/contract.js)
+const lengthOf = (schemaName, field) => {
+  const { minLength = 0, maxLength } = contractField(schemaName, field);
+  return { min: minLength, max: maxLength };
+};
+
+const itemLengthOf = (schemaName, field) => {
+  const { minLength = 0, maxLength } = contractField(schemaName, field).items;
+  return { min: minLength, max: maxLength };
+};
+
+const PROFILE_NAME = lengthOf('ProfileInput', 'name');
+const EDUCATION = lengthOf('ProfileInput', 'education');
+const SKILL_NAME = lengthOf('SkillInput', 'name');
+const PROJECT_TITLE = lengthOf('ProjectInput', 'title');
+const PROJECT_DESCRIPTION = lengthOf('ProjectInput', 'description');
+const MAX_PROJECT_LINKS = contractField('ProjectInput', 'links').maxItems;
+const LINK_NAME = lengthOf('ProjectLinkInput', 'name');
+const LINK_URL = lengthOf('ProjectLinkInput', 'url');
+const MAX_USED_SKILLS = contractField('ProjectInput', 'skills').maxItems;
+const USED_SKILL = itemLengthOf('ProjectInput', 'skills');
+const COMPANY = lengthOf('WorkExperienceInput', 'company');
+const POSITION = lengthOf('WorkExperienceInput', 'position');
+const WORK_DESCRIPTION = lengthOf('WorkExperienceInput', 'description');
+const CATALOG_NAME = lengthOf('CatalogSkillInput', 'name');
+const MAX_ALIASES = contractField('CatalogSkillInput', 'aliases').maxItems;
+const ALIAS = itemLengthOf('CatalogSkillInput', 'aliases');
+const API_KEY_NAME = lengthOf('ApiKeyInput', 'name');
+const WEBHOOK_URL = lengthOf('WebhookInput', 'url');
+const WEBHOOK_SECRET = lengthOf('WebhookInput', 'secret');
+
+// Allowed values of the enum fields and query parameters
+const LINK_KINDS = contractEnum('ProjectLinkInput', 'kind');
+const SKILL_CATEGORIES = contractEnum('CatalogSkillInput', 'category');
+const API_KEY_SCOPES = contractEnum('ApiKeyInput', 'scopes');
+const WEBHOOK_EVENTS = contractEnum('WebhookInput', 'events');
+const DELIVERY_EVENTS = contractEnum('WebhookDelivery', 'event');
+const DELIVERY_STATUSES = contractEnum('WebhookDelivery', 'status');
+const SEARCH_TYPES = contractEnum('SearchResults', 'type');
+const IMPORT_FORMATS = contractEnum('ImportPreview', 'format');
+const AUDIT_ACTIONS = contractEnum('AuditEvent', 'action');
+const AUDIT_ENTITY_TYPES = contractEnum('AuditEvent', 'entity_type');
+
+// A body field of an input schema, optional unless the contract requires
+// it. When partial, every field is optional.
+const bodyField = (schemaName, field, { prefix = '', partial = false } = {}) => {
+  const chain = body(`${prefix}${field}`);
+  return partial || !contractRequires(schemaName, field) ? chain.optional() : chain;
+};
+
+// Check a string field against its format or pattern in the contract.
+// URIs are http or https URLs; options refine the check per field.
+const withFormat = (chain, schemaName, field, options = {}) => {
+  const { format, pattern } = contractField(schemaName, field);
+  if (pattern) return chain.matches(new RegExp(pattern));
+  if (format === 'email') return chain.isEmail();
+  if (format === 'uri') return chain.isURL({ protocols: ['http', 'https'], ...options });
+  throw new Error(`The contract has no format for ${schemaName}.${field}`);
+};
+
+// Date rules for a work experience body, or for each item of a profile's
+// workExperience when prefix is 'workExperience.*.'
+const workDateRules = (prefix = '') => [
+  withFormat(body(`${prefix}start_date`).optional({ values: 'falsy' }), 'WorkExperienceInput', 'start_date')
+    .withMessage('Start date must be formatted as YYYY-MM'),
+
+  withFormat(body(`${prefix}end_date`).optional({ values: 'falsy' }), 'WorkExperienceInput', 'end_date')
+    .withMessage('End date must be formatted as YYYY-MM'),
+
+  body(`${prefix}is_current`)
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('is_current must be a boolean'),
+
+  (prefix ? body(prefix.replace(/\.$/, '')) : body())
+    .custom((work) => {
+      if (!work || typeof work !== 'object') return true;
+
+      if (work.is_current === true && work.end_date) {
+        throw new Error('A current job cannot have an end date');
+      }
+      const start = parseMonth(work.start_date);
+      const end = parseMonth(work.end_date);
+      if (start && end && end < start) {
+        throw new Error('End date must not be before the start date');
+      }
+      return true;
+    })
+];
+
+// Names of the skills a project or job used, for the body itself or for
+// each item of a profile's projects or workExperience
+const usedSkillRules = (prefix = '') => [
+  body(`${prefix}skills`)
+    .optional()
+    .isArray({ max: MAX_USED_SKILLS })
+    .withMessage(`Skills must be an array of at most ${MAX_USED_SKILLS} names`),
+
+  body(`${prefix}skills.*`)
+    .isString()
+    .trim()
+    .isLength(USED_SKILL)
+    .withMessage(`Each skill must be between ${USED_SKILL.min} and ${USED_SKILL.max} characters`)
+];
+
+// Project links for the body itself, or for each item of a profile's
+// projects when prefix is 'projects.*.'
+const projectLinkRules = (prefix = '') => [
+  body(`${prefix}links`)
+    .optional()
+    .isArray({ max: MAX_PROJECT_LINKS })
+    .withMessage(`Links must be an array of at most ${MAX_PROJECT_LINKS} links`),
+
+  bodyField('ProjectLinkInput', 'kind', { prefix: `${prefix}links.*.` })
+    .isIn(LINK_KINDS)
+    .withMessage(`Link kind must be one of: ${LINK_KINDS.join(', ')}`),
+
+  bodyField('ProjectLinkInput', 'name', { prefix: `${prefix}links.*.` })
+    .isString()
+    .trim()
+    .isLength(LINK_NAME)
+    .withMessage(`Link name must be between ${LINK_NAME.min} and ${LINK_NAME.max} characters`),
+
+  withFormat(
+    bodyField('ProjectLinkInput', 'url', { prefix: `${prefix}links.*.` }).isString().isLength(LINK_URL),
+    'ProjectLinkInput', 'url', { require_protocol: true }
+  )
+    .withMessage('Link URL must be a valid http or https URL')
+];
+
+// Profile field rules. When partial, name and email may be omitted so
+// that only the fields present in the body are validated.
+const profileRules = ({ partial = false } = {}) => [
+  bodyField('ProfileInput', 'name', { partial })
     .trim()
-    .isLength({ min: 2, max: 100 })
-    .withMessage('Name must be between 2 and 100 characters'),
+    .isLength(PROFILE_NAME)
+    .withMessage(`Name must be between ${PROFILE_NAME.min} and ${PROFILE_NAME.max} characters`),
   
-  body('email')
-    .isEmail()
+  withFormat(bodyField('ProfileInput', 'email', { partial }), 'ProfileInput', 'email')
     .normalizeEmail()
     .withMessage('Must be a valid email address'),
   
   body('education')
     .optional()
     .trim()
-    .isLength({ max: 200 })
-    .withMessage('Education must be less than 200 characters'),
+    .isLength(EDUCATION)
+    .withMessage(`Education must be less than ${EDUCATION.max} characters`),
   
-  body('github_url')
-    .optional()
-    .isURL({ protocols: ['http', 'https'] })
+  withFormat(body('github_url').optional({ values: 'falsy' }), 'ProfileInput', 'github_url')
     .withMessage('GitHub URL must be a valid URL'),
   
-  body('linkedin_url')
-    .optional()
-    .isURL({ protocols: ['http', 'https'] })
+  withFormat(body('linkedin_url').optional({ values: 'falsy' }), 'ProfileInput', 'linkedin_url')
     .withMessage('LinkedIn URL must be a valid URL'),
   
-  body('portfolio_url')
-    .optional()
-    .isURL({ protocols: ['http', 'https'] })
+  withFormat(body('portfolio_url').optional({ values: 'falsy' }), 'ProfileInput', 'portfolio_url')
     .withMessage('Portfolio URL must be a valid URL'),
   
   body('skills')
@@ -59,56 +186,157 @@ const validateProfile = [
     .isArray()
     .withMessage('Skills must be an array'),
   
+  body('skills.*.id')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Skill ID must be a positive integer')
+    .toInt(),
+
   body('skills.*')
     .optional()
     .custom((value) => {
-      if (typeof value === 'string') {
-        return value.length >= 1 && value.length <= 50;
-      }
-      if (typeof value === 'object' && value.name) {
-        return value.name.length >= 1 && value.name.length <= 50;
-      }
-      return false;
+      const name = typeof value === 'string' ? value : value?.name;
+      return typeof name === 'string' && name.length >= SKILL_NAME.min && name.length <= SKILL_NAME.max;
     })
-    .withMessage('Each skill must be a string or object with name property (1-50 characters)'),
+    .withMessage(`Each skill must be a string or object with name property (${SKILL_NAME.min}-${SKILL_NAME.max} characters)`),
   
   body('projects')
     .optional()
     .isArray()
     .withMessage('Projects must be an array'),
+
+  body('projects.*.id')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Project ID must be a positive integer')
+    .toInt(),
   
   body('projects.*.title')
     .optional()
     .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('Project title must be between 1 and 100 characters'),
+    .isLength(PROJECT_TITLE)
+    .withMessage(`Project title must be between ${PROJECT_TITLE.min} and ${PROJECT_TITLE.max} characters`),
   
   body('projects.*.description')
     .optional()
     .trim()
-    .isLength({ max: 500 })
-    .withMessage('Project description must be less than 500 characters'),
+    .isLength(PROJECT_DESCRIPTION)
+    .withMessage(`Project description must be less than ${PROJECT_DESCRIPTION.max} characters`),
+
+  ...projectLinkRules('projects.*.'),
+  ...usedSkillRules('projects.*.'),
   
   body('workExperience')
     .optional()
     .isArray()
     .withMessage('Work experience must be an array'),
+
+  body('workExperience.*.id')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Work experience ID must be a positive integer')
+    .toInt(),
   
   body('workExperience.*.company')
     .optional()
     .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('Company name must be between 1 and 100 characters'),
+    .isLength(COMPANY)
+    .withMessage(`Company name must be between ${COMPANY.min} and ${COMPANY.max} characters`),
   
   body('workExperience.*.position')
     .optional()
     .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('Position must be between 1 and 100 characters'),
-  
+    .isLength(POSITION)
+    .withMessage(`Position must be between ${POSITION.min} and ${POSITION.max} characters`),
+
+  ...workDateRules('workExperience.*.'),
+  ...usedSkillRules('workExperience.*.')
+];
+
+// Profile validation rules
+const validateProfile = [
+  ...profileRules(),
+  handleValidationErrors
+];
+
+// Partial profile update (PATCH) validation rules
+const validateProfilePatch = [
+  ...profileRules({ partial: true }),
+  handleValidationErrors
+];
+
+// Project field rules
+const projectRules = ({ partial = false } = {}) => [
+  bodyField('ProjectInput', 'title', { partial })
+    .trim()
+    .isLength(PROJECT_TITLE)
+    .withMessage(`Project title must be between ${PROJECT_TITLE.min} and ${PROJECT_TITLE.max} characters`),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength(PROJECT_DESCRIPTION)
+    .withMessage(`Project description must be less than ${PROJECT_DESCRIPTION.max} characters`),
+
+  ...projectLinkRules(),
+  ...usedSkillRules()
+];
+
+// Work experience field rules
+const workExperienceRules = ({ partial = false } = {}) => [
+  bodyField('WorkExperienceInput', 'company', { partial })
+    .trim()
+    .isLength(COMPANY)
+    .withMessage(`Company name must be between ${COMPANY.min} and ${COMPANY.max} characters`),
+
+  bodyField('WorkExperienceInput', 'position', { partial })
+    .trim()
+    .isLength(POSITION)
+    .withMessage(`Position must be between ${POSITION.min} and ${POSITION.max} characters`),
+
+  ...workDateRules(),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength(WORK_DESCRIPTION)
+    .withMessage(`Description must be less than ${WORK_DESCRIPTION.max} characters`),
+
+  ...usedSkillRules()
+];
+
+const validateProject = [
+  ...projectRules(),
+  handleValidationErrors
+];
+
+const validateProjectPatch = [
+  ...projectRules({ partial: true }),
+  handleValidationErrors
+];
+
+const validateWorkExperience = [
+  ...workExperienceRules(),
+  handleValidationErrors
+];
+
+const validateWorkExperiencePatch = [
+  ...workExperienceRules({ partial: true }),
+  handleValidationErrors
+];
+
+// Numeric route parameters such as :id or :projectId
+const validateIdParams = (...names) => [
+  ...names.map(name => param(name)
+    .isInt({ min: 1 })
+    .withMessage(`${name} must be a positive integer`)
+    .toInt()),
+
   handleValidationErrors
 ];
 
+const validateIdParam = validateIdParams('id');
+
 // Query validation rules
 const validateQuery = [
   query('limit')
@@ -121,57 +349,420 @@ const validateQuery = [
     .isInt({ min: 0 })
     .withMessage('Offset must be a non-negative integer'),
   
+  // An empty q is left to the route, which reports it as missing
   query('q')
-    .optional()
+    .optional({ values: 'falsy' })
     .trim()
     .isLength({ min: 1, max: 100 })
     .withMessage('Search query must be between 1 and 100 characters'),
   
   query('type')
     .optional()
-    .isIn(['all', 'profiles', 'projects', 'skills', 'work'])
-    .withMessage('Type must be one of: all, profiles, projects, skills, work'),
+    .isIn(SEARCH_TYPES)
+    .withMessage(`Type must be one of: ${SEARCH_TYPES.join(', ')}`),
   
   query('skill')
     .optional()
     .trim()
     .isLength({ min: 1, max: 50 })
     .withMessage('Skill filter must be between 1 and 50 characters'),
+
+  query('profile_id')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Profile ID must be a positive integer')
+    .toInt(),
+
+  // Search facet filters. skill, company and position may be repeated.
+  query('minLevel')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('minLevel must be between 1 and 5')
+    .toInt(),
+
+  query(['company', 'position'])
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Company and position filters must be between 1 and 100 characters'),
+
+  query(['from', 'to'])
+    .optional()
+    .matches(/^\d{4}(-(0[1-9]|1[0-2]))?$/)
+    .withMessage('Date filters must be formatted as YYYY or YYYY-MM'),
   
   handleValidationErrors
 ];
 
-// Login validation
+// Login validation. Keeps the MISSING_CREDENTIALS error code that clients
+// of the login endpoint already rely on.
 const validateLogin = [
   body('username')
+    .isString()
     .trim()
     .notEmpty()
     .withMessage('Username is required'),
-  
+
   body('password')
+    .isString()
     .notEmpty()
     .withMessage('Password is required'),
-  
+
+  (req, res, next) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError('Username and password are required', 400, 'MISSING_CREDENTIALS', { errors: errors.array() }));
+    }
+    next();
+  }
+];
+
+// API key creation validation
+const validateApiKey = [
+  bodyField('ApiKeyInput', 'name')
+    .isString()
+    .trim()
+    .isLength(API_KEY_NAME)
+    .withMessage(`Name must be between ${API_KEY_NAME.min} and ${API_KEY_NAME.max} characters`),
+
+  bodyField('ApiKeyInput', 'scopes')
+    .isArray({ min: 1 })
+    .withMessage('Scopes must be a non-empty array'),
+
+  body('scopes.*')
+    .isIn(API_KEY_SCOPES)
+    .withMessage(`Each scope must be one of: ${API_KEY_SCOPES.join(', ')}`),
+
   handleValidationErrors
 ];
 
-// Pagination helper
-const paginate = (req, res, next) => {
-  const limit = parseInt(req.query.limit) || 10;
-  const offset = parseInt(req.query.offset) || 0;
-  
-  req.pagination = {
-    limit: Math.min(limit, 100), // Cap at 100
-    offset: Math.max(offset, 0)  // Ensure non-negative
-  };
-  
-  next();
+// Skill catalog entry rules. When partial, every field may be omitted.
+const catalogSkillRules = ({ partial = false } = {}) => [
+  bodyField('CatalogSkillInput', 'name', { partial })
+    .isString()
+    .trim()
+    .isLength(CATALOG_NAME)
+    .withMessage(`Name must be between ${CATALOG_NAME.min} and ${CATALOG_NAME.max} characters`),
+
+  body('category')
+    .optional()
+    .isIn(SKILL_CATEGORIES)
+    .withMessage(`Category must be one of: ${SKILL_CATEGORIES.join(', ')}`),
+
+  body('aliases')
+    .optional()
+    .isArray({ max: MAX_ALIASES })
+    .withMessage(`Aliases must be an array of at most ${MAX_ALIASES} names`),
+
+  body('aliases.*')
+    .isString()
+    .trim()
+    .isLength(ALIAS)
+    .withMessage(`Each alias must be between ${ALIAS.min} and ${ALIAS.max} characters`)
+];
+
+const validateCatalogSkill = [
+  ...catalogSkillRules(),
+  handleValidationErrors
+];
+
+const validateCatalogSkillPatch = [
+  ...catalogSkillRules({ partial: true }),
+  handleValidationErrors
+];
+
+const validateSkillMerge = [
+  body('sourceIds')
+    .isArray({ min: 1 })
+    .withMessage('sourceIds must be a non-empty array'),
+
+  body('sourceIds.*')
+    .isInt({ min: 1 })
+    .withMessage('Each source ID must be a positive integer')
+    .toInt(),
+
+  handleValidationErrors
+];
+
+const validateCatalogQuery = [
+  query('q')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Search query must be at most 50 characters'),
+
+  query('category')
+    .optional()
+    .isIn(SKILL_CATEGORIES)
+    .withMessage(`Category must be one of: ${SKILL_CATEGORIES.join(', ')}`),
+
+  handleValidationErrors
+];
+
+const validateResumeExport = [
+  query('format')
+    .optional()
+    .isIn(Object.keys(RESUME_FORMATS))
+    .withMessage(`Format must be one of: ${Object.keys(RESUME_FORMATS).join(', ')}`),
+
+  handleValidationErrors
+];
+
+const validateRevisionDiff = [
+  query(['from', 'to'])
+    .isInt({ min: 1 })
+    .withMessage('from and to must be revision numbers')
+    .toInt(),
+
+  handleValidationErrors
+];
+
+const validateTrashEntry = [
+  param('type')
+    .isIn(Object.keys(TRASH_TYPES))
+    .withMessage(`Type must be one of: ${Object.keys(TRASH_TYPES).join(', ')}`),
+
+  ...validateIdParam
+];
+
+const validateAuditQuery = [
+  query(['actor', 'entity_id'])
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('actor and entity_id must be positive integers')
+    .toInt(),
+
+  query('entity_type')
+    .optional()
+    .isIn(AUDIT_ENTITY_TYPES)
+    .withMessage(`Entity type must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}`),
+
+  query('action')
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage(`Action must be one of: ${AUDIT_ACTIONS.join(', ')}`),
+
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('from and to must be ISO 8601 dates or timestamps')
+    .toDate(),
+
+  handleValidationErrors
+];
+
+// Webhook subscription rules. When partial, every field may be omitted.
+// Receivers on hosts without a TLD, e.g. localhost, are allowed.
+const webhookRules = ({ partial = false } = {}) => [
+  withFormat(
+    bodyField('WebhookInput', 'url', { partial }).isString().trim().isLength(WEBHOOK_URL),
+    'WebhookInput', 'url', { require_protocol: true, require_tld: false }
+  )
+    .withMessage(`URL must be a valid http or https URL of at most ${WEBHOOK_URL.max} characters`),
+
+  bodyField('WebhookInput', 'events', { partial })
+    .isArray({ min: 1 })
+    .withMessage('Events must be a non-empty array'),
+
+  body('events.*')
+    .isIn(WEBHOOK_EVENTS)
+    .withMessage(`Each event must be one of: ${WEBHOOK_EVENTS.join(', ')}`),
+
+  body('secret')
+    .optional()
+    .isString()
+    .isLength(WEBHOOK_SECRET)
+    .withMessage(`Secret must be between ${WEBHOOK_SECRET.min} and ${WEBHOOK_SECRET.max} characters`),
+
+  body('active')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('active must be a boolean')
+];
+
+const validateWebhook = [
+  ...webhookRules(),
+  handleValidationErrors
+];
+
+const validateWebhookPatch = [
+  ...webhookRules({ partial: true }),
+  handleValidationErrors
+];
+
+const validateDeliveryQuery = [
+  query('subscription')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('subscription must be a positive integer')
+    .toInt(),
+
+  query('status')
+    .optional()
+    .isIn(DELIVERY_STATUSES)
+    .withMessage(`Status must be one of: ${DELIVERY_STATUSES.join(', ')}`),
+
+  query('event')
+    .optional()
+    .isIn(DELIVERY_EVENTS)
+    .withMessage(`Event must be one of: ${DELIVERY_EVENTS.join(', ')}`),
+
+  handleValidationErrors
+];
+
+const validateImportQuery = [
+  query('format')
+    .optional()
+    .isIn(IMPORT_FORMATS)
+    .withMessage(`Format must be one of: ${IMPORT_FORMATS.join(', ')}`),
+
+  query('dry_run')
+    .optional()
+    .isBoolean()
+    .withMessage('dry_run must be true or false')
+    .toBoolean(),
+
+  handleValidationErrors
+];
+
+// Imported profiles are checked with the profile rules. A dry run keeps
+// the errors in req.importErrors to show them with the preview instead of
+// failing.
+const validateImportedProfile = [
+  ...profileRules(),
+
+  (req, res, next) => {
+    if (!req.query.dry_run) {
+      return handleValidationErrors(req, res, next);
+    }
+
+    req.importErrors = validationResult(req).array();
+    next();
+  }
+];
+
+// Sortable fields per list, mapped from their API names to the field or
+// column they sort on
+const SORT_FIELDS = {
+  profiles: { name: 'name', email: 'email', created_at: 'createdAt', updated_at: 'updatedAt' },
+  projects: { title: 'title', created_at: 'createdAt', updated_at: 'updatedAt' },
+  workExperience: {
+    company: 'company',
+    position: 'position',
+    start_date: 'startDate',
+    end_date: 'endDate',
+    created_at: 'createdAt'
+  },
+  skills: { skill_name: 'skillName', proficiency_level: 'proficiencyLevel', created_at: 'createdAt' },
+  skillCatalog: { name: 'name', category: 'category', created_at: 'createdAt' },
+  apiKeys: { name: 'name', created_at: 'createdAt', last_used_at: 'lastUsedAt' },
+  search: { rank: 'rank', title: 'title', type: 'type', created_at: 'created_at' }
 };
 
+// Parse "name:asc,created_at:desc" (or repeated sort params) into
+// [{ name: 'asc' }, { createdAt: 'desc' }]. The direction defaults to asc.
+const parseSort = (value, fields) =>
+  [].concat(value)
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => {
+      const [name, direction = 'asc', ...rest] = item.split(':');
+      if (!Object.hasOwn(fields, name) || !['asc', 'desc'].includes(direction) || rest.length > 0) {
+        throw new Error(`Sort must be a list of field:asc|desc with fields: ${Object.keys(fields).join(', ')}`);
+      }
+      return { [fields[name]]: direction };
+    });
+
+// Validate the sort query parameter against the resource's whitelist and
+// store the resulting order in req.sort, falling back to defaultSort. The
+// id comes last so that rows with equal keys keep a stable order.
+const validateSort = (resource, defaultSort) => {
+  const fields = SORT_FIELDS[resource];
+
+  return [
+    // parseSort throws with the list of allowed fields
+    query('sort')
+      .optional()
+      .custom(value => {
+        if (parseSort(value, fields).length === 0) {
+          throw new Error('Sort must name at least one field');
+        }
+        return true;
+      }),
+
+    handleValidationErrors,
+
+    (req, res, next) => {
+      req.sort = [...parseSort(req.query.sort || defaultSort, fields), { id: 'asc' }];
+      next();
+    }
+  ];
+};
+
+// Pagination helper. Validates limit, offset and cursor and stores the
+// page in req.pagination; a cursor takes precedence over offset.
+const paginate = ({ defaultLimit = 10 } = {}) => [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('offset')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Offset must be a non-negative integer'),
+
+  query('cursor')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Cursor must be a cursor returned by a previous page'),
+
+  handleValidationErrors,
+
+  (req, res, next) => {
+    const limit = parseInt(req.query.limit) || defaultLimit;
+    const offset = req.query.cursor
+      ? decodeCursor(req.query.cursor)
+      : parseInt(req.query.offset) || 0;
+
+    req.pagination = {
+      limit: Math.min(limit, 100), // Cap at 100
+      offset: Math.max(offset, 0)  // Ensure non-negative
+    };
+
+    next();
+  }
+];
+
 export {
   validateProfile,
+  validateProfilePatch,
+  validateProject,
+  validateProjectPatch,
+  validateWorkExperience,
+  validateWorkExperiencePatch,
+  validateIdParam,
+  validateIdParams,
   validateQuery,
   validateLogin,
+  validateApiKey,
+  validateCatalogSkill,
+  validateCatalogSkillPatch,
+  validateSkillMerge,
+  validateCatalogQuery,
+  validateResumeExport,
+  validateImportQuery,
+  validateImportedProfile,
+  validateRevisionDiff,
+  validateTrashEntry,
+  validateAuditQuery,
+  validateWebhook,
+  validateWebhookPatch,
+  validateDeliveryQuery,
+  validateSort,
   handleValidationErrors,
   paginate
 };
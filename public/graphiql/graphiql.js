@@ -0,0 +1,31 @@
+/* eslint-env browser */
+/* global React, ReactDOM, GraphiQL */
+
+// GraphiQL against the GraphQL API of this server (routes/graphql.js)
+
+const defaultQuery = `# Profiles with their skills and current jobs, in one request
+{
+  profiles(limit: 5) {
+    name
+    totalExperienceYears
+    skills(minLevel: 3) {
+      name
+      proficiency
+    }
+    workExperience(current: true) {
+      company
+      position
+    }
+  }
+  topSkills(limit: 5) {
+    name
+    frequency
+  }
+}
+`;
+
+const fetcher = GraphiQL.createFetcher({ url: '/graphql' });
+
+ReactDOM.createRoot(document.getElementById('graphiql')).render(
+  React.createElement(GraphiQL, { fetcher, defaultQuery })
+);
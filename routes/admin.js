@@ -0,0 +1,124 @@
+import express from 'express';
+import { validateAuditQuery, paginate } from '../middleware/validation.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { authenticateToken, requireScope } from '../middleware/auth.js';
+import { paginationFor } from '../lib/pagination.js';
+import { listAuditEvents, auditCsv } from '../lib/audit.js';
+import webhookRoutes from './webhooks.js';
+
+const router = express.Router();
+
+// requireAdmin only guards writes; the admin API is closed to everyone
+// else for reads too
+const requireAdminUser = (req, res, next) => {
+  if (req.user.role !== 'admin') {
+    throw new AppError('Access denied. Insufficient permissions.', 403, 'FORBIDDEN');
+  }
+  next();
+};
+
+router.use(authenticateToken, requireScope('profile:read'), requireAdminUser);
+
+router.use('/webhooks', webhookRoutes);
+
+/**
+ * @swagger
+ * /api/admin/audit:
+ *   get:
+ *     summary: List audit events
+ *     description: Every write and login, newest first. Admins only.
+ *     tags: [Admin]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuditActor'
+ *       - $ref: '#/components/parameters/AuditEntityType'
+ *       - $ref: '#/components/parameters/AuditEntityId'
+ *       - $ref: '#/components/parameters/AuditAction'
+ *       - $ref: '#/components/parameters/AuditFrom'
+ *       - $ref: '#/components/parameters/AuditTo'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Audit events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuditEventPage'
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/audit', validateAuditQuery, paginate({ defaultLimit: 50 }), asyncHandler(async (req, res) => {
+  const { events, total } = await listAuditEvents(req.query, req.pagination);
+
+  res.json({
+    events,
+    pagination: paginationFor(req, res, total)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/admin/audit/export:
+ *   get:
+ *     summary: Export audit events as CSV
+ *     description: Every event matching the filters, oldest first. The before and after columns hold JSON. Admins only.
+ *     tags: [Admin]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuditActor'
+ *       - $ref: '#/components/parameters/AuditEntityType'
+ *       - $ref: '#/components/parameters/AuditEntityId'
+ *       - $ref: '#/components/parameters/AuditAction'
+ *       - $ref: '#/components/parameters/AuditFrom'
+ *       - $ref: '#/components/parameters/AuditTo'
+ *     responses:
+ *       200:
+ *         description: CSV file, sent as an attachment
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/audit/export', validateAuditQuery, asyncHandler(async (req, res) => {
+  const csv = await auditCsv(req.query);
+
+  res
+    .attachment('audit-log.csv')
+    .type('text/csv')
+    .send(csv);
+}));
+
+export default router;
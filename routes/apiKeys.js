@@ -0,0 +1,226 @@
+import express from 'express';
+import prisma from '../lib/prisma.js';
+import logger from '../lib/logger.js';
+import { validateApiKey, validateIdParam, validateSort, paginate } from '../middleware/validation.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { writeLimiter } from '../middleware/rateLimiter.js';
+import { authenticateToken, generateApiKey } from '../middleware/auth.js';
+import { paginationFor } from '../lib/pagination.js';
+import { recordAudit } from '../lib/audit.js';
+
+const router = express.Router();
+
+// Transform an API key row to the API format. The key hash is never returned.
+const serializeApiKey = (apiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  last_used_at: apiKey.lastUsedAt,
+  revoked_at: apiKey.revokedAt,
+  created_at: apiKey.createdAt
+});
+
+// Keys are managed with a logged-in session only, so a leaked key cannot
+// be used to mint further keys
+const requireSession = (req, res, next) => {
+  if (req.user.apiKeyId) {
+    throw new AppError('API keys cannot be managed with an API key', 403, 'SESSION_REQUIRED');
+  }
+  next();
+};
+
+router.use(authenticateToken, requireSession);
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     summary: List the current user's API keys
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ApiKeySort'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: API keys, newest first unless sorted otherwise
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKeyPage'
+ *       400:
+ *         description: Invalid sort or pagination parameters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', validateSort('apiKeys', 'created_at:desc'), paginate({ defaultLimit: 100 }), asyncHandler(async (req, res) => {
+  const { limit, offset } = req.pagination;
+  const where = { userId: req.user.id };
+
+  const [apiKeys, totalCount] = await Promise.all([
+    prisma.apiKey.findMany({
+      where,
+      orderBy: req.sort,
+      take: limit,
+      skip: offset
+    }),
+    prisma.apiKey.count({ where })
+  ]);
+
+  res.json({
+    apiKeys: apiKeys.map(serializeApiKey),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The plain key is only returned in this response. Send it in the X-API-Key header.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApiKeyInput'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiKey'
+ *                 - type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', writeLimiter, validateApiKey, asyncHandler(async (req, res) => {
+  const { name, scopes } = req.body;
+  const { key, prefix, keyHash } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId: req.user.id,
+      name,
+      prefix,
+      keyHash,
+      scopes: [...new Set(scopes)]
+    }
+  });
+
+  await recordAudit(prisma, req, {
+    action: 'create',
+    entityType: 'api_key',
+    entityId: apiKey.id,
+    after: serializeApiKey(apiKey)
+  });
+
+  logger.info('API key created', { userId: req.user.id, apiKeyId: apiKey.id, scopes: apiKey.scopes });
+
+  res.status(201).json({ ...serializeApiKey(apiKey), key });
+}));
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Message'
+ *       400:
+ *         description: Invalid API key ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', writeLimiter, validateIdParam, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  const apiKey = await prisma.apiKey.findFirst({
+    where: { id, userId: req.user.id }
+  });
+
+  if (!apiKey) {
+    throw new AppError('API key not found', 404, 'API_KEY_NOT_FOUND');
+  }
+
+  if (!apiKey.revokedAt) {
+    await prisma.$transaction(async (tx) => {
+      const revoked = await tx.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() }
+      });
+      await recordAudit(tx, req, {
+        action: 'delete',
+        entityType: 'api_key',
+        entityId: id,
+        before: serializeApiKey(apiKey),
+        after: serializeApiKey(revoked)
+      });
+    });
+  }
+
+  logger.info('API key revoked', { userId: req.user.id, apiKeyId: id });
+
+  res.json({ message: 'API key revoked successfully' });
+}));
+
+export default router;
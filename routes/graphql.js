@@ -0,0 +1,247 @@
+import express from 'express';
+import { GraphQLError, Kind, execute, getOperationAST, parse, validate } from 'graphql';
+import logger from '../lib/logger.js';
+import { createLoaders } from '../lib/graphql/loaders.js';
+import { schema } from '../lib/graphql/schema.js';
+import { AppError, asyncHandler, toAppError } from '../middleware/errorHandler.js';
+import { searchLimiter } from '../middleware/rateLimiter.js';
+
+const router = express.Router();
+
+// Deepest nesting of fields a query may select. Profiles link to their
+// projects and projects back to their profile, so without a limit a small
+// query could ask for the same rows over and over.
+const MAX_DEPTH = 8;
+
+// Root fields counted by the search rate limiter, as GET /api/search is
+const SEARCH_FIELDS = ['search'];
+
+// Fields of a selection set, with fragments spread in
+const selectedFields = (selectionSet, fragments) => selectionSet.selections.flatMap(selection => {
+  if (selection.kind === Kind.FIELD) {
+    return [selection];
+  }
+  const fragment = selection.kind === Kind.FRAGMENT_SPREAD ? fragments[selection.name.value] : selection;
+  return fragment ? selectedFields(fragment.selectionSet, fragments) : [];
+});
+
+// Only called on validated documents, which have no fragment cycles
+const depth = (selectionSet, fragments) => Math.max(0, ...selectedFields(selectionSet, fragments)
+  .map(field => 1 + (field.selectionSet ? depth(field.selectionSet, fragments) : 0)));
+
+// Query, variables and operation name, from the query string of a GET or
+// the JSON body of a POST
+const graphqlParams = (req) => {
+  const { query, variables, operationName } = (req.method === 'GET' ? req.query : req.body) ?? {};
+
+  if (typeof query !== 'string' || !query.trim()) {
+    throw new AppError('A GraphQL query is required', 400, 'VALIDATION_ERROR');
+  }
+
+  let variableValues = variables ?? null;
+  if (typeof variableValues === 'string') {
+    try {
+      variableValues = JSON.parse(variableValues);
+    } catch (error) {
+      throw new AppError('Variables must be a JSON object', 400, 'VALIDATION_ERROR');
+    }
+  }
+  if (variableValues !== null && (typeof variableValues !== 'object' || Array.isArray(variableValues))) {
+    throw new AppError('Variables must be a JSON object', 400, 'VALIDATION_ERROR');
+  }
+
+  return { query, variableValues, operationName: operationName || null };
+};
+
+// Documents that cannot run are answered with their errors only
+const sendErrors = (res, errors) => res.status(400).json({ errors: errors.map(error => error.toJSON()) });
+
+// Errors of resolvers keep their message when they are AppErrors (or known
+// Prisma errors) and carry the code and status the REST API would send.
+// Anything else is reported without details, as in errorHandler. Errors
+// raised by GraphQL itself, e.g. for invalid variables, are kept as they are.
+const formatError = (error) => {
+  if (!error.originalError || error.originalError instanceof GraphQLError) {
+    return error.toJSON();
+  }
+
+  const appError = toAppError(error.originalError);
+  const status = appError.statusCode || 500;
+  if (status >= 500) {
+    logger.error('GraphQL field failed', {
+      error: error.originalError.message,
+      code: appError.code,
+      path: error.path,
+      stack: error.originalError.stack
+    });
+  }
+
+  return {
+    ...error.toJSON(),
+    message: appError.message,
+    extensions: { code: appError.code, status }
+  };
+};
+
+// Parse and validate the request; the document is kept for the next steps
+const parseRequest = (req, res, next) => {
+  const { query, variableValues, operationName } = graphqlParams(req);
+
+  let document;
+  try {
+    document = parse(query);
+  } catch (error) {
+    return sendErrors(res, [error]);
+  }
+
+  const errors = validate(schema, document);
+  if (errors.length > 0) {
+    return sendErrors(res, errors);
+  }
+
+  const operation = getOperationAST(document, operationName);
+  if (!operation) {
+    return sendErrors(res, [new GraphQLError(operationName
+      ? `Unknown operation named "${operationName}"`
+      : 'An operation name is required when the query has several operations')]);
+  }
+
+  // The schema has no mutations or subscriptions
+  if (operation.operation !== 'query') {
+    return sendErrors(res, [new GraphQLError(`Only queries are supported, not ${operation.operation}s`, { nodes: operation })]);
+  }
+
+  const fragments = Object.fromEntries(document.definitions
+    .filter(definition => definition.kind === Kind.FRAGMENT_DEFINITION)
+    .map(definition => [definition.name.value, definition]));
+
+  if (depth(operation.selectionSet, fragments) > MAX_DEPTH) {
+    return sendErrors(res, [new GraphQLError(`Queries may not be nested more than ${MAX_DEPTH} levels deep`)]);
+  }
+
+  req.graphql = { document, operation, fragments, variableValues, operationName };
+  next();
+};
+
+// Searches are rate limited like GET /api/search
+const limitSearches = (req, res, next) => {
+  const { operation, fragments } = req.graphql;
+  const searches = selectedFields(operation.selectionSet, fragments)
+    .some(field => SEARCH_FIELDS.includes(field.name.value));
+
+  return searches ? searchLimiter(req, res, next) : next();
+};
+
+const executeRequest = asyncHandler(async (req, res) => {
+  const { document, variableValues, operationName } = req.graphql;
+
+  logger.info('Running GraphQL query', { operationName, ip: req.ip });
+
+  const result = await execute({
+    schema,
+    document,
+    variableValues,
+    operationName,
+    contextValue: { req, loaders: createLoaders() }
+  });
+
+  // Without data the query did not run, e.g. because of invalid variables
+  res.status('data' in result ? 200 : 400).json({
+    ...result,
+    ...(result.errors && { errors: result.errors.map(formatError) })
+  });
+});
+
+/**
+ * @swagger
+ * /graphql:
+ *   get:
+ *     summary: Run a GraphQL query given in the query string
+ *     description: |
+ *       The GraphQL API over profiles, skills, projects and work experience,
+ *       with the same search, top skills and stats queries as the REST API.
+ *       It only serves the data the REST API returns without credentials, so
+ *       it needs none. Searches count against the search rate limit.
+ *
+ *       The schema can be explored in GraphiQL at /graphiql. Errors of
+ *       single fields come back in `errors` next to the rest of the data,
+ *       with the code and status the REST API would use.
+ *     tags: [GraphQL]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The GraphQL document
+ *       - in: query
+ *         name: variables
+ *         schema:
+ *           type: string
+ *         description: Variables as a JSON object
+ *       - in: query
+ *         name: operationName
+ *         schema:
+ *           type: string
+ *         description: Operation to run when the document has several
+ *     responses:
+ *       200:
+ *         description: Query result, with the errors of fields that failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GraphQLResponse'
+ *       400:
+ *         description: Missing query, or a document or variables that do not match the schema
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GraphQLResponse'
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many searches
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     summary: Run a GraphQL query
+ *     description: The same as GET /graphql, with the query in a JSON body.
+ *     tags: [GraphQL]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GraphQLRequest'
+ *     responses:
+ *       200:
+ *         description: Query result, with the errors of fields that failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GraphQLResponse'
+ *       400:
+ *         description: Missing query, or a document or variables that do not match the schema
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GraphQLResponse'
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many searches
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', parseRequest, limitSearches, executeRequest);
+router.post('/', parseRequest, limitSearches, executeRequest);
+
+export default router;
@@ -1,9 +1,22 @@
 import express from 'express';
 import prisma from '../lib/prisma.js';
 import logger from '../lib/logger.js';
-import { validateProfile, paginate } from '../middleware/validation.js';
+import { validateProfile, validateSort, paginate } from '../middleware/validation.js';
 import { asyncHandler, AppError } from '../middleware/errorHandler.js';
 import { writeLimiter } from '../middleware/rateLimiter.js';
+import { requireAuth, requireScope, requireEditor, requireAdmin } from '../middleware/auth.js';
+import {
+  notDeleted,
+  profileInclude,
+  serializeProfile,
+  assertProfileOwner,
+  profileData,
+  syncProfileCollections
+} from '../lib/profiles.js';
+import { paginationFor } from '../lib/pagination.js';
+import { recordRevision } from '../lib/revisions.js';
+import { auditState, recordAudit } from '../lib/audit.js';
+import { trashProfile, trashItem, purgeDate } from '../lib/trash.js';
 
 const router = express.Router();
 
@@ -13,75 +26,72 @@ const router = express.Router();
  *   get:
  *     summary: Get profile information
  *     tags: [Profile]
+ *     description: Returns an array of profiles. Pages are described by the Link and X-Total-Count headers.
+ *     security: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ProfileSort'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
  *     responses:
  *       200:
- *         description: Profile retrieved successfully
+ *         description: Profiles retrieved successfully
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Profile'
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Profile'
+ *       400:
+ *         description: Invalid sort or pagination parameters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Profile not found
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', asyncHandler(async (req, res) => {
-  logger.info('Fetching profiles', { ip: req.ip, userAgent: req.get('User-Agent') });
-
-  const profiles = await prisma.profile.findMany({
-    orderBy: { createdAt: 'desc' },
-    include: {
-      skills: true,
-      projects: true,
-      workExperience: {
-        orderBy: { startDate: 'desc' }
-      }
-    }
-  });
-
-  if (profiles.length === 0) {
+router.get('/', validateSort('profiles', 'created_at:desc'), paginate({ defaultLimit: 100 }), asyncHandler(async (req, res) => {
+  const { limit, offset } = req.pagination;
+
+  logger.info('Fetching profiles', { sort: req.query.sort, limit, offset, ip: req.ip, userAgent: req.get('User-Agent') });
+
+  const [profiles, totalCount] = await Promise.all([
+    prisma.profile.findMany({
+      where: notDeleted,
+      orderBy: req.sort,
+      take: limit,
+      skip: offset,
+      include: profileInclude
+    }),
+    prisma.profile.count({ where: notDeleted })
+  ]);
+
+  if (totalCount === 0) {
     throw new AppError('No profiles found', 404, 'PROFILES_NOT_FOUND');
   }
 
   // Transform the data to match the expected format
-  const transformedProfiles = profiles.map(profile => ({
-    ...profile,
-    github_url: profile.githubUrl,
-    linkedin_url: profile.linkedinUrl,
-    portfolio_url: profile.portfolioUrl,
-    created_at: profile.createdAt,
-    updated_at: profile.updatedAt,
-    skills: profile.skills.map(s => s.skillName),
-    skillsWithLevel: profile.skills.map(s => ({
-      skill_name: s.skillName,
-      proficiency_level: s.proficiencyLevel
-    })),
-    projects: profile.projects.map(p => ({
-      id: p.id,
-      title: p.title,
-      description: p.description,
-      links: p.links || [],
-      created_at: p.createdAt
-    })),
-    workExperience: profile.workExperience.map(w => ({
-      id: w.id,
-      company: w.company,
-      position: w.position,
-      start_date: w.startDate,
-      end_date: w.endDate,
-      description: w.description
-    }))
-  }));
-
-  logger.info('Profiles fetched successfully', { count: profiles.length });
+  const transformedProfiles = profiles.map(serializeProfile);
+
+  // The body stays a plain array; pages are described by the headers
+  paginationFor(req, res, totalCount);
+
+  logger.info('Profiles fetched successfully', { count: profiles.length, totalCount });
   res.json(transformedProfiles);
 }));
 
@@ -98,40 +108,41 @@ router.get('/', asyncHandler(async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/Profile'
+ *             $ref: '#/components/schemas/ProfileInput'
  *     responses:
  *       201:
  *         description: Profile created successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- *                 profileId:
- *                   type: integer
+ *               $ref: '#/components/schemas/ProfileCreated'
  *       400:
  *         description: Validation error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Unauthorized
  *         content:
- *           application/json:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', writeLimiter, validateProfile, asyncHandler(async (req, res) => {
-  const { name, email, education, skills, projects, workExperience, github_url, linkedin_url, portfolio_url } = req.body;
+router.post('/', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateProfile, asyncHandler(async (req, res) => {
+  const { name, email, skills, projects, workExperience } = req.body;
 
   logger.info('Creating new profile', { 
     name, 
@@ -143,42 +154,29 @@ router.post('/', writeLimiter, validateProfile, asyncHandler(async (req, res) =>
   const existingProfile = await prisma.profile.findFirst({
     where: { email }
   });
+  if (existingProfile?.deletedAt) {
+    throw new AppError('A profile in the trash uses this email; restore it or wait until it is purged', 409, 'PROFILE_EXISTS');
+  }
+
   if (existingProfile) {
     throw new AppError('Profile with this email already exists. Use PUT to update.', 409, 'PROFILE_EXISTS');
   }
 
   // Create profile with related data in a transaction
-  const profile = await prisma.profile.create({
-    data: {
-      name,
-      email,
-      education,
-      githubUrl: github_url,
-      linkedinUrl: linkedin_url,
-      portfolioUrl: portfolio_url,
-      skills: skills && Array.isArray(skills) ? {
-        create: skills.map(skill => ({
-          skillName: typeof skill === 'string' ? skill : skill.name,
-          proficiencyLevel: typeof skill === 'string' ? 1 : (skill.level || 1)
-        }))
-      } : undefined,
-      projects: projects && Array.isArray(projects) ? {
-        create: projects.map(project => ({
-          title: project.title,
-          description: project.description,
-          links: project.links || []
-        }))
-      } : undefined,
-      workExperience: workExperience && Array.isArray(workExperience) ? {
-        create: workExperience.map(work => ({
-          company: work.company,
-          position: work.position,
-          startDate: work.start_date,
-          endDate: work.end_date,
-          description: work.description
-        }))
-      } : undefined
-    }
+  const profile = await prisma.$transaction(async (tx) => {
+    const created = await tx.profile.create({
+      data: { ...profileData(req.body), ownerId: req.user.id }
+    });
+
+    await syncProfileCollections(tx, created.id, { skills, projects, workExperience });
+    await recordRevision(tx, created.id, { user: req.user, action: 'create' });
+    await recordAudit(tx, req, {
+      action: 'create',
+      entityType: 'profile',
+      entityId: created.id,
+      after: await auditState(tx, 'profile', created.id)
+    });
+    return created;
   });
 
   logger.info('Profile created successfully', { 
@@ -204,38 +202,47 @@ router.post('/', writeLimiter, validateProfile, asyncHandler(async (req, res) =>
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/Profile'
+ *             $ref: '#/components/schemas/ProfileInput'
  *     responses:
  *       200:
  *         description: Profile updated successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
+ *               $ref: '#/components/schemas/Message'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Profile not found
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Unauthorized
  *         content:
- *           application/json:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/', writeLimiter, validateProfile, asyncHandler(async (req, res) => {
-  const { name, email, education, skills, projects, workExperience, github_url, linkedin_url, portfolio_url } = req.body;
+router.put('/', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateProfile, asyncHandler(async (req, res) => {
+  const { skills, projects, workExperience } = req.body;
 
   logger.info('Updating profile', { 
     ip: req.ip
@@ -243,6 +250,7 @@ router.put('/', writeLimiter, validateProfile, asyncHandler(async (req, res) =>
 
   // Get existing profile
   const existingProfile = await prisma.profile.findFirst({
+    where: notDeleted,
     orderBy: { createdAt: 'desc' }
   });
 
@@ -250,66 +258,29 @@ router.put('/', writeLimiter, validateProfile, asyncHandler(async (req, res) =>
     throw new AppError('Profile not found', 404, 'PROFILE_NOT_FOUND');
   }
 
+  assertProfileOwner(req.user, existingProfile);
+
   // Update profile with related data in a transaction
   await prisma.$transaction(async (tx) => {
-    // Update profile
+    const before = await auditState(tx, 'profile', existingProfile.id);
     await tx.profile.update({
       where: { id: existingProfile.id },
-      data: {
-        name,
-        email,
-        education,
-        githubUrl: github_url,
-        linkedinUrl: linkedin_url,
-        portfolioUrl: portfolio_url
-      }
+      data: profileData(req.body)
     });
 
-    // Delete existing related data
-    await tx.skill.deleteMany({
-      where: { profileId: existingProfile.id }
-    });
-    await tx.project.deleteMany({
-      where: { profileId: existingProfile.id }
+    await syncProfileCollections(tx, existingProfile.id, {
+      skills: skills || [],
+      projects: projects || [],
+      workExperience: workExperience || []
     });
-    await tx.workExperience.deleteMany({
-      where: { profileId: existingProfile.id }
+    await recordRevision(tx, existingProfile.id, { user: req.user, action: 'update' });
+    await recordAudit(tx, req, {
+      action: 'update',
+      entityType: 'profile',
+      entityId: existingProfile.id,
+      before,
+      after: await auditState(tx, 'profile', existingProfile.id)
     });
-
-    // Insert updated data
-    if (skills && Array.isArray(skills)) {
-      await tx.skill.createMany({
-        data: skills.map(skill => ({
-          profileId: existingProfile.id,
-          skillName: typeof skill === 'string' ? skill : skill.name,
-          proficiencyLevel: typeof skill === 'string' ? 1 : (skill.level || 1)
-        }))
-      });
-    }
-
-    if (projects && Array.isArray(projects)) {
-      await tx.project.createMany({
-        data: projects.map(project => ({
-          profileId: existingProfile.id,
-          title: project.title,
-          description: project.description,
-          links: project.links || []
-        }))
-      });
-    }
-
-    if (workExperience && Array.isArray(workExperience)) {
-      await tx.workExperience.createMany({
-        data: workExperience.map(work => ({
-          profileId: existingProfile.id,
-          company: work.company,
-          position: work.position,
-          startDate: work.start_date,
-          endDate: work.end_date,
-          description: work.description
-        }))
-      });
-    }
   });
 
   logger.info('Profile updated successfully', { 
@@ -323,62 +294,79 @@ router.put('/', writeLimiter, validateProfile, asyncHandler(async (req, res) =>
  * @swagger
  * /api/profile:
  *   delete:
- *     summary: Delete profile
+ *     summary: Move all profiles to the trash
  *     tags: [Profile]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Profile deleted successfully
+ *         description: Profiles moved to trash
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
+ *               $ref: '#/components/schemas/Trashed'
  *       404:
  *         description: Profile not found
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Unauthorized
  *         content:
- *           application/json:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/', writeLimiter, asyncHandler(async (req, res) => {
+router.delete('/', writeLimiter, requireAuth, requireScope('profile:write'), requireAdmin, asyncHandler(async (req, res) => {
   logger.info('Deleting profile', { 
     ip: req.ip
   });
 
-  const result = await prisma.profile.deleteMany({});
+  const profiles = await prisma.profile.findMany({ where: notDeleted, select: { id: true } });
   
-  if (result.count === 0) {
+  if (profiles.length === 0) {
     throw new AppError('Profile not found', 404, 'PROFILE_NOT_FOUND');
   }
 
-  logger.info('Profile deleted successfully', { 
-    deletedCount: result.count
+  // One deletedAt for all of them, like a single trashed profile
+  const deletedAt = new Date();
+  await prisma.$transaction(async (tx) => {
+    for (const { id } of profiles) {
+      const before = await auditState(tx, 'profile', id);
+      await trashProfile(tx, id, deletedAt);
+      await recordAudit(tx, req, { action: 'delete', entityType: 'profile', entityId: id, before });
+    }
+  });
+
+  logger.info('Profile moved to trash', { 
+    deletedCount: profiles.length
   });
 
-  res.json({ message: 'Profile deleted successfully' });
+  res.json({
+    message: 'Profile moved to trash',
+    deleted_at: deletedAt,
+    purge_at: purgeDate(deletedAt)
+  });
 }));
 
 /**
  * @swagger
  * /api/profile/projects/{id}:
  *   delete:
- *     summary: Delete a specific project
+ *     summary: Move a specific project to the trash
  *     tags: [Profile]
  *     parameters:
  *       - in: path
@@ -389,28 +377,43 @@ router.delete('/', writeLimiter, asyncHandler(async (req, res) => {
  *         description: Project ID
  *     responses:
  *       200:
- *         description: Project deleted successfully
+ *         description: Project moved to trash
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
+ *               $ref: '#/components/schemas/Trashed'
+ *       400:
+ *         description: Invalid project ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Project not found
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/projects/:id', writeLimiter, asyncHandler(async (req, res) => {
+router.delete('/projects/:id', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, asyncHandler(async (req, res) => {
   const { id } = req.params;
   const projectId = parseInt(id);
 
@@ -420,27 +423,38 @@ router.delete('/projects/:id', writeLimiter, asyncHandler(async (req, res) => {
 
   logger.info('Deleting project', { projectId, ip: req.ip });
 
-  const project = await prisma.project.findUnique({
-    where: { id: projectId }
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, ...notDeleted, profile: notDeleted },
+    include: { profile: true }
   });
 
   if (!project) {
     throw new AppError('Project not found', 404, 'PROJECT_NOT_FOUND');
   }
 
-  await prisma.project.delete({
-    where: { id: projectId }
+  assertProfileOwner(req.user, project.profile);
+
+  const { deletedAt } = await prisma.$transaction(async (tx) => {
+    const before = await auditState(tx, 'project', projectId);
+    const trashed = await trashItem(tx, 'project', projectId);
+    await recordRevision(tx, project.profileId, { user: req.user, action: 'update' });
+    await recordAudit(tx, req, { action: 'delete', entityType: 'project', entityId: projectId, before });
+    return trashed;
   });
 
-  logger.info('Project deleted successfully', { projectId });
-  res.json({ message: 'Project deleted successfully' });
+  logger.info('Project moved to trash', { projectId });
+  res.json({
+    message: 'Project moved to trash',
+    deleted_at: deletedAt,
+    purge_at: purgeDate(deletedAt)
+  });
 }));
 
 /**
  * @swagger
  * /api/profile/work-experience/{id}:
  *   delete:
- *     summary: Delete a specific work experience
+ *     summary: Move a specific work experience to the trash
  *     tags: [Profile]
  *     parameters:
  *       - in: path
@@ -451,28 +465,43 @@ router.delete('/projects/:id', writeLimiter, asyncHandler(async (req, res) => {
  *         description: Work experience ID
  *     responses:
  *       200:
- *         description: Work experience deleted successfully
+ *         description: Work experience moved to trash
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
+ *               $ref: '#/components/schemas/Trashed'
+ *       400:
+ *         description: Invalid work experience ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Work experience not found
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/work-experience/:id', writeLimiter, asyncHandler(async (req, res) => {
+router.delete('/work-experience/:id', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, asyncHandler(async (req, res) => {
   const { id } = req.params;
   const workId = parseInt(id);
 
@@ -482,20 +511,31 @@ router.delete('/work-experience/:id', writeLimiter, asyncHandler(async (req, res
 
   logger.info('Deleting work experience', { workId, ip: req.ip });
 
-  const work = await prisma.workExperience.findUnique({
-    where: { id: workId }
+  const work = await prisma.workExperience.findFirst({
+    where: { id: workId, ...notDeleted, profile: notDeleted },
+    include: { profile: true }
   });
 
   if (!work) {
     throw new AppError('Work experience not found', 404, 'WORK_NOT_FOUND');
   }
 
-  await prisma.workExperience.delete({
-    where: { id: workId }
+  assertProfileOwner(req.user, work.profile);
+
+  const { deletedAt } = await prisma.$transaction(async (tx) => {
+    const before = await auditState(tx, 'work_experience', workId);
+    const trashed = await trashItem(tx, 'workExperience', workId);
+    await recordRevision(tx, work.profileId, { user: req.user, action: 'update' });
+    await recordAudit(tx, req, { action: 'delete', entityType: 'work_experience', entityId: workId, before });
+    return trashed;
   });
 
-  logger.info('Work experience deleted successfully', { workId });
-  res.json({ message: 'Work experience deleted successfully' });
+  logger.info('Work experience moved to trash', { workId });
+  res.json({
+    message: 'Work experience moved to trash',
+    deleted_at: deletedAt,
+    purge_at: purgeDate(deletedAt)
+  });
 }));
 
 export default router;
@@ -0,0 +1,1655 @@
+import express from 'express';
+import prisma from '../lib/prisma.js';
+import logger from '../lib/logger.js';
+import {
+  validateProfile,
+  validateProfilePatch,
+  validateProject,
+  validateProjectPatch,
+  validateWorkExperience,
+  validateWorkExperiencePatch,
+  validateIdParam,
+  validateIdParams,
+  validateSort,
+  validateResumeExport,
+  validateImportQuery,
+  validateImportedProfile,
+  validateRevisionDiff,
+  paginate
+} from '../middleware/validation.js';
+import { paginationFor } from '../lib/pagination.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { writeLimiter } from '../middleware/rateLimiter.js';
+import { authenticateToken, requireAuth, requireScope, requireEditor } from '../middleware/auth.js';
+import {
+  notDeleted,
+  usedSkillsInclude,
+  projectInclude,
+  profileInclude,
+  serializeProfile,
+  assertProfileOwner,
+  serializeProject,
+  serializeWorkExperience,
+  profileData,
+  projectData,
+  workExperienceData,
+  toProfileInput,
+  setUsedSkills,
+  syncProfileCollections
+} from '../lib/profiles.js';
+import { setProjectLinks } from '../lib/projectLinks.js';
+import { RESUME_FORMATS, resumeFileName } from '../lib/resume.js';
+import { importProfile } from '../lib/profileImport.js';
+import { trashProfile, purgeDate } from '../lib/trash.js';
+import { auditState, recordAudit } from '../lib/audit.js';
+import {
+  recordRevision,
+  findRevisionOrFail,
+  serializeRevision,
+  diffSnapshots,
+  restoreSnapshot
+} from '../lib/revisions.js';
+import {
+  MERGE_PATCH_TYPE,
+  JSON_PATCH_TYPE,
+  applyMergePatch,
+  applyJsonPatch
+} from '../lib/patch.js';
+
+const router = express.Router();
+
+// Load a profile by ID or fail with 404
+const findProfileOrFail = async (id) => {
+  const profile = await prisma.profile.findFirst({ where: { id, ...notDeleted } });
+
+  if (!profile) {
+    throw new AppError('Profile not found', 404, 'PROFILE_NOT_FOUND');
+  }
+
+  return profile;
+};
+
+// Load a project that belongs to the given profile or fail with 404
+const findProjectOrFail = async (profileId, projectId) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, profileId, ...notDeleted },
+    include: projectInclude
+  });
+
+  if (!project) {
+    throw new AppError('Project not found', 404, 'PROJECT_NOT_FOUND');
+  }
+
+  return project;
+};
+
+// Load a work experience that belongs to the given profile or fail with 404
+const findWorkExperienceOrFail = async (profileId, workId) => {
+  const work = await prisma.workExperience.findFirst({
+    where: { id: workId, profileId, ...notDeleted },
+    include: usedSkillsInclude
+  });
+
+  if (!work) {
+    throw new AppError('Work experience not found', 404, 'WORK_NOT_FOUND');
+  }
+
+  return work;
+};
+
+// Load the profile addressed by :id and make sure the current user may
+// change it. Runs before validation so non-owners always get a 403.
+const requireProfileOwner = asyncHandler(async (req, res, next) => {
+  const profile = await findProfileOrFail(req.params.id);
+  assertProfileOwner(req.user, profile);
+  next();
+});
+
+// Make sure no other profile already uses the requested email
+const ensureEmailAvailable = async (email, profileId) => {
+  if (!email) {
+    return;
+  }
+
+  const conflict = await prisma.profile.findFirst({
+    where: { email, NOT: { id: profileId } }
+  });
+
+  if (conflict?.deletedAt) {
+    throw new AppError('A profile in the trash uses this email; restore it or wait until it is purged', 409, 'PROFILE_EXISTS');
+  }
+
+  if (conflict) {
+    throw new AppError('Another profile already uses this email', 409, 'PROFILE_EXISTS');
+  }
+};
+
+// Members a patch document removes are cleared instead of left unchanged
+const clearedProfileInput = {
+  name: null,
+  email: null,
+  education: null,
+  github_url: null,
+  linkedin_url: null,
+  portfolio_url: null,
+  skills: [],
+  projects: [],
+  workExperience: []
+};
+
+// For merge-patch and JSON Patch requests, apply the patch to the current
+// profile document and hand the full result on to validation and sync.
+// Plain JSON bodies pass through unchanged.
+const resolvePatchDocument = asyncHandler(async (req, res, next) => {
+  const isMergePatch = Boolean(req.is(MERGE_PATCH_TYPE));
+  const isJsonPatch = Boolean(req.is(JSON_PATCH_TYPE));
+
+  if (!isMergePatch && !isJsonPatch) {
+    return next();
+  }
+
+  const profile = await prisma.profile.findFirst({
+    where: { id: req.params.id, ...notDeleted },
+    include: profileInclude
+  });
+
+  if (!profile) {
+    throw new AppError('Profile not found', 404, 'PROFILE_NOT_FOUND');
+  }
+
+  const current = toProfileInput(profile);
+  const patched = isJsonPatch
+    ? applyJsonPatch(current, req.body)
+    : applyMergePatch(current, req.body);
+
+  if (patched === null || typeof patched !== 'object' || Array.isArray(patched)) {
+    throw new AppError('Patched document must be an object', 400, 'INVALID_PATCH');
+  }
+
+  req.body = { ...clearedProfileInput, ...patched };
+  next();
+});
+
+// Map the uploaded document to profile input, replacing req.body. The
+// upload arrives as a Buffer, read by the import parser of server.js.
+const readImport = asyncHandler(async (req, res, next) => {
+  const { format, profile, warnings } = importProfile(req.body, {
+    format: req.query.format,
+    contentType: req.get('Content-Type')
+  });
+
+  req.body = profile;
+  req.importResult = { format, warnings };
+  next();
+});
+
+/**
+ * @swagger
+ * /api/profiles/import:
+ *   post:
+ *     summary: Import a profile from JSON Resume, a LinkedIn export or a vCard
+ *     description: |
+ *       The document is sent as the request body: a JSON Resume document, a LinkedIn data-export ZIP or one of its CSV files (Profile, Email Addresses, Positions, Skills, Projects, Education), or a vCard. The format is detected from the content type and contents unless `format` is given.
+ *
+ *       Uploads are limited to 5 MB in every format.
+ *
+ *       With `dry_run=true` nothing is saved; the response previews the profile that would be created, with any validation errors.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [jsonresume, linkedin, vcard]
+ *       - in: query
+ *         name: dry_run
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: JSON Resume document
+ *         application/zip:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *         text/vcard:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Dry run preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportPreview'
+ *       201:
+ *         description: Profile imported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportResult'
+ *       400:
+ *         description: Unreadable document or validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: A profile with this email already exists
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/import', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateImportQuery, readImport, validateImportedProfile, asyncHandler(async (req, res) => {
+  const { format, warnings } = req.importResult;
+  const { email, skills, projects, workExperience } = req.body;
+
+  const existingProfile = email ? await prisma.profile.findFirst({ where: { email } }) : null;
+
+  if (req.query.dry_run) {
+    const errors = [...req.importErrors];
+    if (existingProfile) {
+      errors.push({ type: 'field', path: 'email', location: 'body', value: email, msg: 'A profile with this email already exists' });
+    }
+
+    return res.json({
+      dry_run: true,
+      format,
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      profile: req.body
+    });
+  }
+
+  if (existingProfile) {
+    throw new AppError('Profile with this email already exists. Use PUT to update.', 409, 'PROFILE_EXISTS');
+  }
+
+  logger.info('Importing profile', { format, email, ip: req.ip });
+
+  const profile = await prisma.$transaction(async (tx) => {
+    const created = await tx.profile.create({
+      data: { ...profileData(req.body), ownerId: req.user.id }
+    });
+
+    await syncProfileCollections(tx, created.id, { skills, projects, workExperience });
+    await recordRevision(tx, created.id, { user: req.user, action: 'import' });
+    await recordAudit(tx, req, {
+      action: 'create',
+      entityType: 'profile',
+      entityId: created.id,
+      after: await auditState(tx, 'profile', created.id)
+    });
+    return created;
+  });
+
+  logger.info('Profile imported successfully', { profileId: profile.id, format });
+
+  res.status(201).json({
+    message: 'Profile imported successfully',
+    profileId: profile.id,
+    format,
+    warnings
+  });
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}:
+ *   get:
+ *     summary: Get a profile by ID
+ *     tags: [Profiles]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *     responses:
+ *       200:
+ *         description: Profile retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Profile'
+ *       400:
+ *         description: Invalid profile ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', validateIdParam, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  logger.info('Fetching profile', { profileId: id, ip: req.ip });
+
+  const profile = await prisma.profile.findFirst({
+    where: { id, ...notDeleted },
+    include: profileInclude
+  });
+
+  if (!profile) {
+    throw new AppError('Profile not found', 404, 'PROFILE_NOT_FOUND');
+  }
+
+  res.json(serializeProfile(profile));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}:
+ *   put:
+ *     summary: Replace a profile and all of its related data
+ *     description: Collection items that carry an `id` are updated in place, items without one are created and items that are no longer listed are moved to the trash.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProfileInput'
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Profile'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Email already used by another profile
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:id', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParam, requireProfileOwner, validateProfile, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { skills, projects, workExperience } = req.body;
+
+  logger.info('Replacing profile', { profileId: id, ip: req.ip });
+
+  await ensureEmailAvailable(req.body.email, id);
+
+  const profile = await prisma.$transaction(async (tx) => {
+    const before = await auditState(tx, 'profile', id);
+    await tx.profile.update({
+      where: { id },
+      data: profileData(req.body)
+    });
+
+    // PUT replaces the whole document, so missing collections are emptied.
+    // Listed items keep their IDs when they are sent back with them.
+    await syncProfileCollections(tx, id, {
+      skills: skills || [],
+      projects: projects || [],
+      workExperience: workExperience || []
+    });
+    await recordRevision(tx, id, { user: req.user, action: 'update' });
+    await recordAudit(tx, req, {
+      action: 'update',
+      entityType: 'profile',
+      entityId: id,
+      before,
+      after: await auditState(tx, 'profile', id)
+    });
+
+    return tx.profile.findUnique({ where: { id }, include: profileInclude });
+  });
+
+  logger.info('Profile replaced successfully', { profileId: id });
+  res.json(serializeProfile(profile));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}:
+ *   patch:
+ *     summary: Partially update a profile
+ *     description: |
+ *       Supports three body formats, selected by Content-Type:
+ *       - `application/json`: only the fields present are changed
+ *       - `application/merge-patch+json`: a JSON Merge Patch (RFC 7396)
+ *       - `application/json-patch+json`: a JSON Patch (RFC 6902) operation list
+ *
+ *       Patches apply to the editable document (name, email, education, URLs, skills, projects, workExperience).
+ *       Collection items that carry an `id` are updated in place, items without one are created
+ *       and items that are no longer listed are moved to the trash.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProfileInput'
+ *         application/merge-patch+json:
+ *           schema:
+ *             type: object
+ *         application/json-patch+json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               type: object
+ *               required: [op, path]
+ *               properties:
+ *                 op:
+ *                   type: string
+ *                   enum: [add, remove, replace, move, copy, test]
+ *                 path:
+ *                   type: string
+ *                 from:
+ *                   type: string
+ *                 value: {}
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Profile'
+ *       400:
+ *         description: Validation error or invalid patch
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Email already used by another profile, or a JSON Patch test operation failed
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/:id', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParam, requireProfileOwner, resolvePatchDocument, validateProfilePatch, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  logger.info('Patching profile', { profileId: id, fields: Object.keys(req.body), ip: req.ip });
+
+  await ensureEmailAvailable(req.body.email, id);
+
+  const profile = await prisma.$transaction(async (tx) => {
+    const before = await auditState(tx, 'profile', id);
+    await tx.profile.update({
+      where: { id },
+      data: profileData(req.body)
+    });
+
+    await syncProfileCollections(tx, id, req.body);
+    await recordRevision(tx, id, { user: req.user, action: 'update' });
+    await recordAudit(tx, req, {
+      action: 'update',
+      entityType: 'profile',
+      entityId: id,
+      before,
+      after: await auditState(tx, 'profile', id)
+    });
+
+    return tx.profile.findUnique({ where: { id }, include: profileInclude });
+  });
+
+  logger.info('Profile patched successfully', { profileId: id });
+  res.json(serializeProfile(profile));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}:
+ *   delete:
+ *     summary: Move a profile and all of its related data to the trash
+ *     description: The profile can be restored with POST /api/trash/profiles/{id}/restore until it is purged.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *     responses:
+ *       200:
+ *         description: Profile moved to trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Trashed'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParam, requireProfileOwner, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  logger.info('Deleting profile', { profileId: id, ip: req.ip });
+
+  const profile = await prisma.$transaction(async (tx) => {
+    const before = await auditState(tx, 'profile', id);
+    const trashed = await trashProfile(tx, id);
+    await recordAudit(tx, req, { action: 'delete', entityType: 'profile', entityId: id, before });
+    return trashed;
+  });
+
+  logger.info('Profile moved to trash', { profileId: id });
+  res.json({
+    message: 'Profile moved to trash',
+    deleted_at: profile.deletedAt,
+    purge_at: purgeDate(profile.deletedAt)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/export:
+ *   get:
+ *     summary: Export a profile as a resume
+ *     description: Renders the profile, its skills grouped by proficiency, projects and work experience. `jsonresume` follows the JSON Resume schema (https://jsonresume.org/schema).
+ *     tags: [Profiles]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, md, html, jsonresume]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: Resume file, sent as an attachment
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/markdown:
+ *             schema:
+ *               type: string
+ *           text/html:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Invalid profile ID or format
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/export', validateIdParam, validateResumeExport, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const format = req.query.format || 'pdf';
+
+  logger.info('Exporting profile', { profileId: id, format, ip: req.ip });
+
+  const profile = await prisma.profile.findFirst({
+    where: { id, ...notDeleted },
+    include: profileInclude
+  });
+
+  if (!profile) {
+    throw new AppError('Profile not found', 404, 'PROFILE_NOT_FOUND');
+  }
+
+  const { contentType, render } = RESUME_FORMATS[format];
+  const document = await render(serializeProfile(profile));
+
+  res
+    .attachment(resumeFileName(profile, format))
+    .type(contentType)
+    .send(document);
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/revisions:
+ *   get:
+ *     summary: List the revisions of a profile, newest first
+ *     description: Every change to a profile or its items records a revision holding the full profile. Only the owner (or an admin) can read the history.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Revisions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RevisionPage'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/revisions', authenticateToken, requireScope('profile:read'), validateIdParam, requireProfileOwner, paginate({ defaultLimit: 20 }), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { limit, offset } = req.pagination;
+
+  const [revisions, totalCount] = await Promise.all([
+    prisma.profileRevision.findMany({
+      where: { profileId: id },
+      orderBy: { revision: 'desc' },
+      take: limit,
+      skip: offset,
+      include: { user: true }
+    }),
+    prisma.profileRevision.count({ where: { profileId: id } })
+  ]);
+
+  res.json({
+    revisions: revisions.map(revision => serializeRevision(revision)),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/revisions/diff:
+ *   get:
+ *     summary: Compare two revisions of a profile
+ *     description: Lists the field-level changes needed to get from revision `from` to revision `to`. Either may be the older one.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Changes between the revisions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RevisionDiff'
+ *       400:
+ *         description: Invalid revision numbers
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile or revision not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/revisions/diff', authenticateToken, requireScope('profile:read'), validateIdParam, requireProfileOwner, validateRevisionDiff, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { from, to } = req.query;
+
+  const [before, after] = await Promise.all([
+    findRevisionOrFail(prisma, id, from),
+    findRevisionOrFail(prisma, id, to)
+  ]);
+
+  res.json({
+    from,
+    to,
+    changes: diffSnapshots(before.snapshot, after.snapshot)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/revisions/{rev}:
+ *   get:
+ *     summary: Get one revision of a profile, with the full profile as it was
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: rev
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Revision number
+ *     responses:
+ *       200:
+ *         description: Revision retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProfileRevision'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile or revision not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/revisions/:rev', authenticateToken, requireScope('profile:read'), validateIdParams('id', 'rev'), requireProfileOwner, asyncHandler(async (req, res) => {
+  const revision = await findRevisionOrFail(prisma, req.params.id, req.params.rev);
+  res.json(serializeRevision(revision, { withSnapshot: true }));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/revisions/{rev}/restore:
+ *   post:
+ *     summary: Restore a profile to an earlier revision
+ *     description: Replaces the profile with the revision's snapshot and records the result as a new revision, so a restore can itself be undone. Items deleted since the revision are created again with new IDs.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: rev
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Revision to restore
+ *     responses:
+ *       200:
+ *         description: Profile restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Profile'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile or revision not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Another profile now uses the revision's email
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/revisions/:rev/restore', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParams('id', 'rev'), requireProfileOwner, asyncHandler(async (req, res) => {
+  const { id, rev } = req.params;
+  const { snapshot } = await findRevisionOrFail(prisma, id, rev);
+
+  logger.info('Restoring profile revision', { profileId: id, revision: rev, ip: req.ip });
+
+  await ensureEmailAvailable(snapshot.email, id);
+
+  const profile = await prisma.$transaction(async (tx) => {
+    const before = await auditState(tx, 'profile', id);
+    await restoreSnapshot(tx, id, snapshot);
+    await recordRevision(tx, id, { user: req.user, action: 'restore', restoredFrom: rev });
+    await recordAudit(tx, req, {
+      action: 'update',
+      entityType: 'profile',
+      entityId: id,
+      before,
+      after: await auditState(tx, 'profile', id)
+    });
+
+    return tx.profile.findUnique({ where: { id }, include: profileInclude });
+  });
+
+  logger.info('Profile revision restored successfully', { profileId: id, revision: rev });
+  res.json(serializeProfile(profile));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/projects:
+ *   get:
+ *     summary: List the projects of a profile
+ *     tags: [Profiles]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - $ref: '#/components/parameters/ProjectSort'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Projects retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectPage'
+ *       400:
+ *         description: Invalid sort or pagination parameters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/projects', validateIdParam, validateSort('projects', 'created_at:desc'), paginate({ defaultLimit: 100 }), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { limit, offset } = req.pagination;
+
+  await findProfileOrFail(id);
+
+  const [projects, totalCount] = await Promise.all([
+    prisma.project.findMany({
+      where: { profileId: id, ...notDeleted },
+      orderBy: req.sort,
+      take: limit,
+      skip: offset,
+      include: projectInclude
+    }),
+    prisma.project.count({ where: { profileId: id, ...notDeleted } })
+  ]);
+
+  res.json({
+    projects: projects.map(serializeProject),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/projects:
+ *   post:
+ *     summary: Add a project to a profile
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectInput'
+ *     responses:
+ *       201:
+ *         description: Project created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/projects', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParam, requireProfileOwner, validateProject, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  logger.info('Creating project', { profileId: id, ip: req.ip });
+
+  const project = await prisma.$transaction(async (tx) => {
+    const created = await tx.project.create({
+      data: { profileId: id, ...projectData(req.body) }
+    });
+
+    await setUsedSkills(tx, 'project', created.id, req.body.skills);
+    await setProjectLinks(tx, created.id, req.body.links);
+    await recordRevision(tx, id, { user: req.user, action: 'update' });
+
+    const loaded = await tx.project.findUnique({ where: { id: created.id }, include: projectInclude });
+    await recordAudit(tx, req, { action: 'create', entityType: 'project', entityId: created.id, after: serializeProject(loaded) });
+    return loaded;
+  });
+
+  logger.info('Project created successfully', { profileId: id, projectId: project.id });
+  res.status(201).json(serializeProject(project));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/projects/{projectId}:
+ *   get:
+ *     summary: Get a single project of a profile
+ *     tags: [Profiles]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Project ID
+ *     responses:
+ *       200:
+ *         description: Project retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Invalid profile or project ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Project not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/projects/:projectId', validateIdParams('id', 'projectId'), asyncHandler(async (req, res) => {
+  const { id, projectId } = req.params;
+
+  const project = await findProjectOrFail(id, projectId);
+
+  res.json(serializeProject(project));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/projects/{projectId}:
+ *   put:
+ *     summary: Update a project of a profile
+ *     description: PUT requires a title; PATCH accepts any subset of fields.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectInput'
+ *     responses:
+ *       200:
+ *         description: Project updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Project not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   patch:
+ *     summary: Partially update a project of a profile
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Project ID
+ *     requestBody:
+ *       required: true
+ *       description: Only the fields to change; the others keep their values
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProjectInput'
+ *     responses:
+ *       200:
+ *         description: Project updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Project not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+const updateProject = asyncHandler(async (req, res) => {
+  const { id, projectId } = req.params;
+
+  logger.info('Updating project', { profileId: id, projectId, ip: req.ip });
+
+  const existing = await findProjectOrFail(id, projectId);
+
+  const project = await prisma.$transaction(async (tx) => {
+    await setUsedSkills(tx, 'project', projectId, req.body.skills);
+    await setProjectLinks(tx, projectId, req.body.links);
+    const updated = await tx.project.update({
+      where: { id: projectId },
+      data: projectData(req.body),
+      include: projectInclude
+    });
+
+    await recordRevision(tx, id, { user: req.user, action: 'update' });
+    await recordAudit(tx, req, {
+      action: 'update',
+      entityType: 'project',
+      entityId: projectId,
+      before: serializeProject(existing),
+      after: serializeProject(updated)
+    });
+    return updated;
+  });
+
+  logger.info('Project updated successfully', { profileId: id, projectId });
+  res.json(serializeProject(project));
+});
+
+router.put('/:id/projects/:projectId', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParams('id', 'projectId'), requireProfileOwner, validateProject, updateProject);
+router.patch('/:id/projects/:projectId', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParams('id', 'projectId'), requireProfileOwner, validateProjectPatch, updateProject);
+
+/**
+ * @swagger
+ * /api/profiles/{id}/work-experience:
+ *   get:
+ *     summary: List the work experience of a profile
+ *     tags: [Profiles]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - $ref: '#/components/parameters/WorkExperienceSort'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Work experience retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WorkExperiencePage'
+ *       400:
+ *         description: Invalid sort or pagination parameters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/work-experience', validateIdParam, validateSort('workExperience', 'start_date:desc'), paginate({ defaultLimit: 100 }), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { limit, offset } = req.pagination;
+
+  await findProfileOrFail(id);
+
+  const [workExperience, totalCount] = await Promise.all([
+    prisma.workExperience.findMany({
+      where: { profileId: id, ...notDeleted },
+      orderBy: req.sort,
+      take: limit,
+      skip: offset,
+      include: usedSkillsInclude
+    }),
+    prisma.workExperience.count({ where: { profileId: id, ...notDeleted } })
+  ]);
+
+  res.json({
+    workExperience: workExperience.map(serializeWorkExperience),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/work-experience:
+ *   post:
+ *     summary: Add work experience to a profile
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WorkExperienceInput'
+ *     responses:
+ *       201:
+ *         description: Work experience created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WorkExperience'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Profile not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/work-experience', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParam, requireProfileOwner, validateWorkExperience, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  logger.info('Creating work experience', { profileId: id, ip: req.ip });
+
+  const work = await prisma.$transaction(async (tx) => {
+    const created = await tx.workExperience.create({
+      data: { profileId: id, ...workExperienceData(req.body) }
+    });
+
+    await setUsedSkills(tx, 'workExperience', created.id, req.body.skills);
+    await recordRevision(tx, id, { user: req.user, action: 'update' });
+
+    const loaded = await tx.workExperience.findUnique({ where: { id: created.id }, include: usedSkillsInclude });
+    await recordAudit(tx, req, { action: 'create', entityType: 'work_experience', entityId: created.id, after: serializeWorkExperience(loaded) });
+    return loaded;
+  });
+
+  logger.info('Work experience created successfully', { profileId: id, workId: work.id });
+  res.status(201).json(serializeWorkExperience(work));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/work-experience/{workId}:
+ *   get:
+ *     summary: Get a single work experience of a profile
+ *     tags: [Profiles]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: workId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Work experience ID
+ *     responses:
+ *       200:
+ *         description: Work experience retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WorkExperience'
+ *       400:
+ *         description: Invalid profile or work experience ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Work experience not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/work-experience/:workId', validateIdParams('id', 'workId'), asyncHandler(async (req, res) => {
+  const { id, workId } = req.params;
+
+  const work = await findWorkExperienceOrFail(id, workId);
+
+  res.json(serializeWorkExperience(work));
+}));
+
+/**
+ * @swagger
+ * /api/profiles/{id}/work-experience/{workId}:
+ *   put:
+ *     summary: Update a work experience of a profile
+ *     description: PUT requires company and position; PATCH accepts any subset of fields.
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: workId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Work experience ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WorkExperienceInput'
+ *     responses:
+ *       200:
+ *         description: Work experience updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WorkExperience'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Work experience not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   patch:
+ *     summary: Partially update a work experience of a profile
+ *     tags: [Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Profile ID
+ *       - in: path
+ *         name: workId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Work experience ID
+ *     requestBody:
+ *       required: true
+ *       description: Only the fields to change; the others keep their values
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WorkExperienceInput'
+ *     responses:
+ *       200:
+ *         description: Work experience updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WorkExperience'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Work experience not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+const updateWorkExperience = asyncHandler(async (req, res) => {
+  const { id, workId } = req.params;
+
+  logger.info('Updating work experience', { profileId: id, workId, ip: req.ip });
+
+  const existing = await findWorkExperienceOrFail(id, workId);
+
+  const work = await prisma.$transaction(async (tx) => {
+    await setUsedSkills(tx, 'workExperience', workId, req.body.skills);
+    const updated = await tx.workExperience.update({
+      where: { id: workId },
+      data: workExperienceData(req.body),
+      include: usedSkillsInclude
+    });
+
+    await recordRevision(tx, id, { user: req.user, action: 'update' });
+    await recordAudit(tx, req, {
+      action: 'update',
+      entityType: 'work_experience',
+      entityId: workId,
+      before: serializeWorkExperience(existing),
+      after: serializeWorkExperience(updated)
+    });
+    return updated;
+  });
+
+  logger.info('Work experience updated successfully', { profileId: id, workId });
+  res.json(serializeWorkExperience(work));
+});
+
+router.put('/:id/work-experience/:workId', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParams('id', 'workId'), requireProfileOwner, validateWorkExperience, updateWorkExperience);
+router.patch('/:id/work-experience/:workId', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateIdParams('id', 'workId'), requireProfileOwner, validateWorkExperiencePatch, updateWorkExperience);
+
+export default router;
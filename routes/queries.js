@@ -1,9 +1,14 @@
 import express from 'express';
 import prisma from '../lib/prisma.js';
 import logger from '../lib/logger.js';
-import { validateQuery, paginate } from '../middleware/validation.js';
+import { validateQuery, validateSort, paginate } from '../middleware/validation.js';
 import { asyncHandler, AppError } from '../middleware/errorHandler.js';
 import { searchLimiter } from '../middleware/rateLimiter.js';
+import { paginationFor } from '../lib/pagination.js';
+import { hasFilters, searchAll } from '../lib/search.js';
+import { canonicalSkillNames, catalogEntryWhere } from '../lib/skillCatalog.js';
+import { notDeleted, projectInclude, serializeProject } from '../lib/profiles.js';
+import { profileStats, topSkills } from '../lib/stats.js';
 
 const router = express.Router();
 
@@ -13,26 +18,14 @@ const router = express.Router();
  *   get:
  *     summary: Health check endpoint
  *     tags: [Health]
+ *     security: []
  *     responses:
  *       200:
  *         description: Service is healthy
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: string
- *                   example: healthy
- *                 timestamp:
- *                   type: string
- *                   format: date-time
- *                 uptime:
- *                   type: number
- *                 environment:
- *                   type: string
- *                 version:
- *                   type: string
+ *               $ref: '#/components/schemas/Health'
  */
 router.get('/health', (req, res) => {
   res.status(200).json({
@@ -50,12 +43,13 @@ router.get('/health', (req, res) => {
  *   get:
  *     summary: Get projects filtered by skill
  *     tags: [Projects]
+ *     security: []
  *     parameters:
  *       - in: query
  *         name: skill
  *         schema:
  *           type: string
- *         description: Filter projects by skill name
+ *         description: Only projects that used this skill (canonical name or alias)
  *       - in: query
  *         name: limit
  *         schema:
@@ -71,41 +65,34 @@ router.get('/health', (req, res) => {
  *           minimum: 0
  *           default: 0
  *         description: Number of projects to skip
+ *       - $ref: '#/components/parameters/Cursor'
+ *       - $ref: '#/components/parameters/ProjectSort'
  *     responses:
  *       200:
  *         description: Projects retrieved successfully
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 projects:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Project'
- *                 pagination:
- *                   type: object
- *                   properties:
- *                     limit:
- *                       type: integer
- *                     offset:
- *                       type: integer
- *                     total:
- *                       type: integer
+ *               $ref: '#/components/schemas/ProjectSearchPage'
  *       400:
  *         description: Validation error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/projects', validateQuery, paginate, asyncHandler(async (req, res) => {
+router.get('/projects', validateQuery, validateSort('projects', 'created_at:desc'), paginate(), asyncHandler(async (req, res) => {
   const { skill } = req.query;
   const { limit, offset } = req.pagination;
 
@@ -116,26 +103,25 @@ router.get('/projects', validateQuery, paginate, asyncHandler(async (req, res) =
     ip: req.ip 
   });
 
+  // Projects match the skills they used, so aliases such as "nodejs" find
+  // projects tagged with the catalog's "Node.js"
   const whereClause = skill ? {
-    profile: {
-      skills: {
-        some: {
-          skillName: {
-            contains: skill,
-            mode: 'insensitive'
-          }
-        }
+    ...notDeleted,
+    skills: {
+      some: {
+        catalogEntry: catalogEntryWhere(skill)
       }
     }
-  } : {};
+  } : notDeleted;
 
   const [projects, totalCount] = await Promise.all([
     prisma.project.findMany({
       where: whereClause,
-      orderBy: { createdAt: 'desc' },
+      orderBy: req.sort,
       take: limit,
       skip: offset,
       include: {
+        ...projectInclude,
         profile: {
           select: {
             name: true
@@ -148,11 +134,7 @@ router.get('/projects', validateQuery, paginate, asyncHandler(async (req, res) =
 
   // Transform the data
   const transformedProjects = projects.map(project => ({
-    id: project.id,
-    title: project.title,
-    description: project.description,
-    links: project.links || [],
-    created_at: project.createdAt,
+    ...serializeProject(project),
     profile_name: project.profile.name
   }));
 
@@ -164,12 +146,7 @@ router.get('/projects', validateQuery, paginate, asyncHandler(async (req, res) =
 
   res.json({
     projects: transformedProjects,
-    pagination: {
-      limit,
-      offset,
-      total: totalCount,
-      hasMore: offset + limit < totalCount
-    }
+    pagination: paginationFor(req, res, totalCount)
   });
 }));
 
@@ -179,6 +156,7 @@ router.get('/projects', validateQuery, paginate, asyncHandler(async (req, res) =
  *   get:
  *     summary: Get top skills by frequency
  *     tags: [Skills]
+ *     security: []
  *     parameters:
  *       - in: query
  *         name: limit
@@ -194,29 +172,17 @@ router.get('/projects', validateQuery, paginate, asyncHandler(async (req, res) =
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 skills:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       name:
- *                         type: string
- *                       frequency:
- *                         type: integer
- *                       averageProficiency:
- *                         type: number
+ *               $ref: '#/components/schemas/TopSkillsResponse'
  *       400:
  *         description: Validation error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
@@ -228,27 +194,7 @@ router.get('/skills/top', validateQuery, asyncHandler(async (req, res) => {
     ip: req.ip 
   });
 
-  const skills = await prisma.skill.groupBy({
-    by: ['skillName'],
-    _count: {
-      skillName: true
-    },
-    _avg: {
-      proficiencyLevel: true
-    },
-    orderBy: {
-      _count: {
-        skillName: 'desc'
-      }
-    },
-    take: Math.min(parseInt(limit), 50)
-  });
-
-  const transformedSkills = skills.map(skill => ({
-    name: skill.skillName,
-    frequency: skill._count.skillName,
-    averageProficiency: Math.round((skill._avg.proficiencyLevel || 0) * 10) / 10
-  }));
+  const transformedSkills = await topSkills(parseInt(limit));
 
   logger.info('Top skills fetched successfully', { 
     count: transformedSkills.length 
@@ -259,191 +205,249 @@ router.get('/skills/top', validateQuery, asyncHandler(async (req, res) => {
   });
 }));
 
-// GET /api/search?q=... - General search across profile data
-router.get('/search', async (req, res) => {
-  try {
-    const { q, type = 'all', limit = 20, offset = 0 } = req.query;
-
-    if (!q || q.trim().length === 0) {
-      return res.status(400).json({ error: 'Search query is required' });
-    }
-
-    const searchTerm = q.trim();
-    const results = {
-      profiles: [],
-      projects: [],
-      skills: [],
-      workExperience: []
-    };
-
-    if (type === 'all' || type === 'profiles') {
-      const profiles = await prisma.profile.findMany({
-        where: {
-          OR: [
-            { name: { contains: searchTerm, mode: 'insensitive' } },
-            { email: { contains: searchTerm, mode: 'insensitive' } },
-            { education: { contains: searchTerm, mode: 'insensitive' } }
-          ]
-        },
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          education: true,
-          githubUrl: true,
-          linkedinUrl: true,
-          portfolioUrl: true
-        },
-        take: parseInt(limit),
-        skip: parseInt(offset)
-      });
-
-      results.profiles = profiles.map(profile => ({
-        id: profile.id,
-        name: profile.name,
-        email: profile.email,
-        education: profile.education,
-        github_url: profile.githubUrl,
-        linkedin_url: profile.linkedinUrl,
-        portfolio_url: profile.portfolioUrl
-      }));
-    }
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     summary: Full-text search across profiles, projects, skills and work experience
+ *     description: |
+ *       Every word of the query is matched as a prefix ("node js" finds "Node.js").
+ *       Hits from all types come back in one list ordered by relevance, each with
+ *       a highlighted snippet. When nothing matches, a typo-tolerant fuzzy search
+ *       is used instead and `fuzzy` is true.
+ *
+ *       Filters narrow the hits to profiles having every given skill (at
+ *       `minLevel` or above) and a job matching the work filters. Facet counts
+ *       for the narrowed hits are returned in `facets`. The query may be
+ *       omitted when at least one filter is given.
+ *     tags: [Search]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Search query, required unless a filter is given
+ *       - in: query
+ *         name: skill
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *         description: Required skills, all of which must match
+ *       - in: query
+ *         name: minLevel
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Minimum proficiency level of the skills
+ *       - in: query
+ *         name: company
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *         description: Companies, any of which may match
+ *       - in: query
+ *         name: position
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *         description: Positions, any of which may match
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: '2020'
+ *         description: Only jobs ongoing at or after this date (YYYY or YYYY-MM)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: 2023-06
+ *         description: Only jobs started at or before this date (YYYY or YYYY-MM)
+ *       - $ref: '#/components/parameters/SearchSort'
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [all, profiles, projects, skills, work]
+ *           default: all
+ *         description: Restrict the search to one type
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Search results
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SearchResults'
+ *       400:
+ *         description: Missing or invalid query
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/search', searchLimiter, validateQuery, validateSort('search', 'rank:desc'), paginate({ defaultLimit: 20 }), asyncHandler(async (req, res) => {
+  const { q, type = 'all', minLevel, from, to } = req.query;
+  const { limit, offset } = req.pagination;
+  const list = (value) => (value === undefined ? [] : [].concat(value));
+  const filters = {
+    skills: await canonicalSkillNames(list(req.query.skill)),
+    companies: list(req.query.company),
+    positions: list(req.query.position),
+    minLevel,
+    from,
+    to
+  };
+  const term = (q || '').trim();
+
+  if (!term && !hasFilters(filters)) {
+    throw new AppError('Search query is required', 400, 'MISSING_QUERY');
+  }
 
-    if (type === 'all' || type === 'projects') {
-      const projects = await prisma.project.findMany({
-        where: {
-          OR: [
-            { title: { contains: searchTerm, mode: 'insensitive' } },
-            { description: { contains: searchTerm, mode: 'insensitive' } }
-          ]
-        },
-        orderBy: { createdAt: 'desc' },
-        take: parseInt(limit),
-        skip: parseInt(offset)
-      });
-      
-      results.projects = projects.map(project => ({
-        id: project.id,
-        title: project.title,
-        description: project.description,
-        links: project.links || [],
-        created_at: project.createdAt
-      }));
-    }
+  logger.info('Searching', { q, type, filters, limit, offset, ip: req.ip });
 
-    if (type === 'all' || type === 'skills') {
-      const skills = await prisma.skill.findMany({
-        where: {
-          skillName: { contains: searchTerm, mode: 'insensitive' }
-        },
-        orderBy: { proficiencyLevel: 'desc' },
-        take: parseInt(limit),
-        skip: parseInt(offset)
-      });
-      
-      results.skills = skills.map(skill => ({
-        skill_name: skill.skillName,
-        proficiency_level: skill.proficiencyLevel
-      }));
-    }
+  const { hits, total, fuzzy, facets } = await searchAll(term, { type, filters, sort: req.sort, limit, offset });
+  const ofType = (hitType) => hits.filter(hit => hit.type === hitType);
 
-    if (type === 'all' || type === 'work') {
-      const workExperience = await prisma.workExperience.findMany({
-        where: {
-          OR: [
-            { company: { contains: searchTerm, mode: 'insensitive' } },
-            { position: { contains: searchTerm, mode: 'insensitive' } },
-            { description: { contains: searchTerm, mode: 'insensitive' } }
-          ]
-        },
-        orderBy: { startDate: 'desc' },
-        take: parseInt(limit),
-        skip: parseInt(offset)
-      });
-      
-      results.workExperience = workExperience.map(work => ({
-        id: work.id,
-        company: work.company,
-        position: work.position,
-        start_date: work.startDate,
-        end_date: work.endDate,
-        description: work.description
-      }));
-    }
+  logger.info('Search completed', { q, total, fuzzy });
 
-    res.json({
-      query: q,
-      type: type,
-      results: results,
-      pagination: {
-        limit: parseInt(limit),
-        offset: parseInt(offset)
-      }
-    });
-  } catch (error) {
-    console.error('Error performing search:', error);
-    res.status(500).json({ error: 'Failed to perform search' });
-  }
-});
+  res.json({
+    query: q || '',
+    type,
+    filters,
+    fuzzy,
+    hits,
+    facets,
+    // The same hits grouped by type
+    results: {
+      profiles: ofType('profile'),
+      projects: ofType('project'),
+      skills: ofType('skill'),
+      workExperience: ofType('work')
+    },
+    pagination: paginationFor(req, res, total)
+  });
+}));
 
-// GET /api/skills - Get all skills
-router.get('/skills', async (req, res) => {
-  try {
-    const { profile_id } = req.query;
+/**
+ * @swagger
+ * /api/skills:
+ *   get:
+ *     summary: Get the skills of all profiles
+ *     tags: [Skills]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: profile_id
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Only the skills of this profile
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *       - $ref: '#/components/parameters/SkillSort'
+ *     responses:
+ *       200:
+ *         description: Skills retrieved successfully
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SkillsResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/skills', validateQuery, validateSort('skills', 'skill_name:asc'), paginate({ defaultLimit: 100 }), asyncHandler(async (req, res) => {
+  const { profile_id } = req.query;
+  const { limit, offset } = req.pagination;
 
-    const whereClause = profile_id ? { profileId: parseInt(profile_id) } : {};
+  const whereClause = profile_id ? { profileId: profile_id, ...notDeleted } : notDeleted;
 
-    const skills = await prisma.skill.findMany({
+  const [skills, totalCount] = await Promise.all([
+    prisma.skill.findMany({
       where: whereClause,
-      orderBy: { skillName: 'asc' }
-    });
-
-    res.json({
-      skills: skills.map(skill => ({
-        name: skill.skillName,
-        proficiency: skill.proficiencyLevel
-      }))
-    });
-  } catch (error) {
-    console.error('Error fetching skills:', error);
-    res.status(500).json({ error: 'Failed to fetch skills' });
-  }
-});
-
-// GET /api/stats - Get profile statistics
-router.get('/stats', async (req, res) => {
-  try {
-    const [totalProfiles, totalProjects, uniqueSkills, totalWorkExperience] = await Promise.all([
-      prisma.profile.count(),
-      prisma.project.count(),
-      prisma.skill.groupBy({
-        by: ['skillName'],
-        _count: { skillName: true }
-      }).then(result => result.length),
-      prisma.workExperience.count()
-    ]);
+      orderBy: req.sort,
+      take: limit,
+      skip: offset
+    }),
+    prisma.skill.count({ where: whereClause })
+  ]);
 
-    const topSkills = await prisma.skill.groupBy({
-      by: ['skillName'],
-      _count: { skillName: true },
-      orderBy: { _count: { skillName: 'desc' } },
-      take: 5
-    });
+  res.json({
+    skills: skills.map(skill => ({
+      name: skill.skillName,
+      proficiency: skill.proficiencyLevel
+    })),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
 
-    res.json({
-      total_profiles: totalProfiles,
-      total_projects: totalProjects,
-      unique_skills: uniqueSkills,
-      total_work_experience: totalWorkExperience,
-      topSkills: topSkills.map(skill => ({
-        name: skill.skillName,
-        frequency: skill._count.skillName
-      }))
-    });
-  } catch (error) {
-    console.error('Error fetching stats:', error);
-    res.status(500).json({ error: 'Failed to fetch statistics' });
-  }
-});
+/**
+ * @swagger
+ * /api/stats:
+ *   get:
+ *     summary: Get profile statistics
+ *     tags: [Skills]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Stats'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/stats', asyncHandler(async (req, res) => {
+  res.json(await profileStats());
+}));
 
 export default router;
@@ -0,0 +1,329 @@
+import express from 'express';
+import prisma from '../lib/prisma.js';
+import logger from '../lib/logger.js';
+import {
+  validateCatalogSkill,
+  validateCatalogSkillPatch,
+  validateSkillMerge,
+  validateCatalogQuery,
+  validateIdParam,
+  validateSort,
+  paginate
+} from '../middleware/validation.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { writeLimiter } from '../middleware/rateLimiter.js';
+import { requireAuth, requireScope, requireAdmin } from '../middleware/auth.js';
+import { paginationFor } from '../lib/pagination.js';
+import {
+  skillKey,
+  catalogInclude,
+  serializeCatalogEntry,
+  createCatalogEntry,
+  updateCatalogEntry,
+  mergeCatalogEntries
+} from '../lib/skillCatalog.js';
+import { recordAudit } from '../lib/audit.js';
+
+const router = express.Router();
+
+// Audited state of a catalog entry, or null when there is none
+const catalogState = async (id) => {
+  const entry = await prisma.skillCatalogEntry.findUnique({ where: { id }, include: catalogInclude });
+  return entry && serializeCatalogEntry(entry);
+};
+
+/**
+ * @swagger
+ * /api/skill-catalog:
+ *   get:
+ *     summary: List or autocomplete catalog skills
+ *     description: |
+ *       `q` matches the start of a canonical name or alias, ignoring case,
+ *       spaces and punctuation, so "nodej" finds Node.js.
+ *     tags: [Skill Catalog]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Name or alias prefix
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [language, framework, cloud, database, other]
+ *       - $ref: '#/components/parameters/SkillCatalogSort'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Catalog skills
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CatalogSkillPage'
+ *       400:
+ *         description: Invalid query, sort or pagination parameters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', validateCatalogQuery, validateSort('skillCatalog', 'name:asc'), paginate({ defaultLimit: 100 }), asyncHandler(async (req, res) => {
+  const { q, category } = req.query;
+  const { limit, offset } = req.pagination;
+  const prefix = { startsWith: q, mode: 'insensitive' };
+
+  const where = {
+    category,
+    OR: q ? [
+      { name: prefix },
+      { key: { startsWith: skillKey(q) } },
+      { aliases: { some: { OR: [{ name: prefix }, { key: { startsWith: skillKey(q) } }] } } }
+    ] : undefined
+  };
+
+  const [entries, totalCount] = await Promise.all([
+    prisma.skillCatalogEntry.findMany({
+      where,
+      include: catalogInclude,
+      orderBy: req.sort,
+      take: limit,
+      skip: offset
+    }),
+    prisma.skillCatalogEntry.count({ where })
+  ]);
+
+  res.json({
+    skills: entries.map(serializeCatalogEntry),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/skill-catalog:
+ *   post:
+ *     summary: Add a skill to the catalog
+ *     tags: [Skill Catalog]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CatalogSkillInput'
+ *     responses:
+ *       201:
+ *         description: Catalog skill created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CatalogSkill'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Only admins can change the catalog
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The name or an alias already belongs to another catalog skill
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', writeLimiter, requireAuth, requireScope('profile:write'), requireAdmin, validateCatalogSkill, asyncHandler(async (req, res) => {
+  const entry = await createCatalogEntry(req.body);
+  await recordAudit(prisma, req, {
+    action: 'create',
+    entityType: 'catalog_skill',
+    entityId: entry.id,
+    after: serializeCatalogEntry(entry)
+  });
+
+  logger.info('Catalog skill created', { catalogEntryId: entry.id, name: entry.name, userId: req.user.id });
+  res.status(201).json(serializeCatalogEntry(entry));
+}));
+
+/**
+ * @swagger
+ * /api/skill-catalog/{id}:
+ *   patch:
+ *     summary: Rename a catalog skill, change its category or replace its aliases
+ *     description: A rename is applied to every profile skill that uses the entry, and the old name stays an alias unless aliases are replaced.
+ *     tags: [Skill Catalog]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CatalogSkillInput'
+ *     responses:
+ *       200:
+ *         description: Catalog skill updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CatalogSkill'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Only admins can change the catalog
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Catalog skill not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The name or an alias already belongs to another catalog skill
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/:id', writeLimiter, requireAuth, requireScope('profile:write'), requireAdmin, validateIdParam, validateCatalogSkillPatch, asyncHandler(async (req, res) => {
+  const before = await catalogState(req.params.id);
+  const entry = await updateCatalogEntry(req.params.id, req.body);
+  await recordAudit(prisma, req, {
+    action: 'update',
+    entityType: 'catalog_skill',
+    entityId: entry.id,
+    before,
+    after: serializeCatalogEntry(entry)
+  });
+
+  logger.info('Catalog skill updated', { catalogEntryId: entry.id, name: entry.name, userId: req.user.id });
+  res.json(serializeCatalogEntry(entry));
+}));
+
+/**
+ * @swagger
+ * /api/skill-catalog/{id}/merge:
+ *   post:
+ *     summary: Merge duplicate catalog skills into this one
+ *     description: |
+ *       The merged skills are deleted and their names and aliases become
+ *       aliases of this one. Profile skills move over; a profile that had
+ *       several of them keeps one skill at the highest level.
+ *     tags: [Skill Catalog]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the skill to keep
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sourceIds]
+ *             properties:
+ *               sourceIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       200:
+ *         description: Skills merged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CatalogSkill'
+ *       400:
+ *         description: Validation error, or the skill is listed as its own source
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Only admins can change the catalog
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: A catalog skill was not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/merge', writeLimiter, requireAuth, requireScope('profile:write'), requireAdmin, validateIdParam, validateSkillMerge, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const sourceIds = [...new Set(req.body.sourceIds)];
+
+  const before = await catalogState(id);
+  const sources = await Promise.all(sourceIds.map(catalogState));
+
+  const entry = await mergeCatalogEntries(id, sourceIds);
+
+  // The merged entries are gone; the target gained their names and skills
+  for (const [index, sourceId] of sourceIds.entries()) {
+    await recordAudit(prisma, req, {
+      action: 'delete',
+      entityType: 'catalog_skill',
+      entityId: sourceId,
+      before: sources[index]
+    });
+  }
+  await recordAudit(prisma, req, {
+    action: 'update',
+    entityType: 'catalog_skill',
+    entityId: id,
+    before,
+    after: serializeCatalogEntry(entry)
+  });
+
+  logger.info('Catalog skills merged', { catalogEntryId: id, sourceIds, userId: req.user.id });
+  res.json(serializeCatalogEntry(entry));
+}));
+
+export default router;
@@ -0,0 +1,130 @@
+import express from 'express';
+import prisma from '../lib/prisma.js';
+import logger from '../lib/logger.js';
+import { validateTrashEntry, paginate } from '../middleware/validation.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { writeLimiter } from '../middleware/rateLimiter.js';
+import { authenticateToken, requireAuth, requireScope, requireEditor } from '../middleware/auth.js';
+import { paginationFor } from '../lib/pagination.js';
+import { recordRevision } from '../lib/revisions.js';
+import { auditState, recordAudit } from '../lib/audit.js';
+import { TRASH_TYPES, findTrashedOrFail, restoreFromTrash, listTrash } from '../lib/trash.js';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/trash:
+ *   get:
+ *     summary: List deleted profiles, projects and work experience
+ *     description: Admins see the whole trash, other users the trash of their own profiles. Projects and work experience of a deleted profile are listed with the profile, not on their own.
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Trash entries, most recently deleted first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TrashPage'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', authenticateToken, requireScope('profile:read'), paginate({ defaultLimit: 50 }), asyncHandler(async (req, res) => {
+  const { entries, total } = await listTrash(req.user, req.pagination);
+
+  res.json({
+    trash: entries,
+    pagination: paginationFor(req, res, total)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/trash/{type}/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted profile, project or work experience
+ *     description: Restoring a profile also restores the skills, projects and work experience that were deleted with it.
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [profiles, projects, work-experience]
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Restored'
+ *       400:
+ *         description: Invalid type or ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Not in the trash
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:type/:id/restore', writeLimiter, requireAuth, requireScope('profile:write'), requireEditor, validateTrashEntry, asyncHandler(async (req, res) => {
+  const { type, id } = req.params;
+  const { model, entityType, label } = TRASH_TYPES[type];
+  const row = await findTrashedOrFail(req.user, type, id);
+  const profileId = model === 'profile' ? row.id : row.profileId;
+
+  logger.info('Restoring from trash', { type, id, ip: req.ip });
+
+  await prisma.$transaction(async (tx) => {
+    await restoreFromTrash(tx, model, row);
+
+    // A restored item changes its profile; a restored profile is unchanged
+    if (model !== 'profile') {
+      await recordRevision(tx, profileId, { user: req.user, action: 'update' });
+    }
+    await recordAudit(tx, req, {
+      action: 'restore',
+      entityType,
+      entityId: row.id,
+      after: await auditState(tx, entityType, row.id)
+    });
+  });
+
+  logger.info('Restored from trash', { type, id });
+  res.json({ message: `${label} restored`, profile_id: profileId });
+}));
+
+export default router;
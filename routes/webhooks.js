@@ -0,0 +1,598 @@
+import express from 'express';
+import prisma from '../lib/prisma.js';
+import logger from '../lib/logger.js';
+import {
+  validateWebhook,
+  validateWebhookPatch,
+  validateDeliveryQuery,
+  validateIdParam,
+  paginate
+} from '../middleware/validation.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { writeLimiter } from '../middleware/rateLimiter.js';
+import { requireScope } from '../middleware/auth.js';
+import { paginationFor } from '../lib/pagination.js';
+import { recordAudit } from '../lib/audit.js';
+import {
+  generateSecret,
+  queuePing,
+  replayDelivery,
+  serializeSubscription,
+  serializeDelivery
+} from '../lib/webhooks.js';
+
+// Mounted by the admin router at /api/admin/webhooks, behind its admin check
+const router = express.Router();
+
+const findSubscriptionOrFail = async (id) => {
+  const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+  if (!subscription) {
+    throw new AppError('Webhook subscription not found', 404, 'WEBHOOK_NOT_FOUND');
+  }
+  return subscription;
+};
+
+const findDeliveryOrFail = async (id) => {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id },
+    include: { attempts: { orderBy: { id: 'asc' } } }
+  });
+  if (!delivery) {
+    throw new AppError('Webhook delivery not found', 404, 'DELIVERY_NOT_FOUND');
+  }
+  return delivery;
+};
+
+/**
+ * @swagger
+ * /api/admin/webhooks:
+ *   get:
+ *     summary: List webhook subscriptions
+ *     description: Newest first. Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Webhook subscriptions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookPage'
+ *       400:
+ *         description: Invalid pagination parameters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', paginate({ defaultLimit: 100 }), asyncHandler(async (req, res) => {
+  const { limit, offset } = req.pagination;
+
+  const [subscriptions, totalCount] = await Promise.all([
+    prisma.webhookSubscription.findMany({
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      skip: offset
+    }),
+    prisma.webhookSubscription.count()
+  ]);
+
+  res.json({
+    webhooks: subscriptions.map(serializeSubscription),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks:
+ *   post:
+ *     summary: Subscribe a receiver to profile change events
+ *     description: |
+ *       Every change of the given event types is POSTed to the URL as a
+ *       WebhookPayload, signed with the secret (see the README). The secret
+ *       is only returned in this response. Admins only.
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WebhookInput'
+ *     responses:
+ *       201:
+ *         description: Subscription created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookWithSecret'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin, or an API key without the profile:write scope
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', writeLimiter, requireScope('profile:write'), validateWebhook, asyncHandler(async (req, res) => {
+  const { url, events, secret = generateSecret(), active = true } = req.body;
+
+  const subscription = await prisma.$transaction(async (tx) => {
+    const created = await tx.webhookSubscription.create({
+      data: { url, events: [...new Set(events)], secret, active }
+    });
+    await recordAudit(tx, req, {
+      action: 'create',
+      entityType: 'webhook',
+      entityId: created.id,
+      after: serializeSubscription(created)
+    });
+    return created;
+  });
+
+  logger.info('Webhook subscription created', { userId: req.user.id, webhookId: subscription.id, events: subscription.events });
+
+  res.status(201).json({ ...serializeSubscription(subscription), secret });
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks/deliveries:
+ *   get:
+ *     summary: List webhook deliveries
+ *     description: The delivery log, newest first, with the outcome of the last attempt of each delivery. Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: query
+ *         name: subscription
+ *         schema:
+ *           type: integer
+ *         description: Only deliveries to this subscription
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           $ref: '#/components/schemas/WebhookDeliveryStatus'
+ *       - in: query
+ *         name: event
+ *         schema:
+ *           type: string
+ *         description: Only deliveries of this event type, e.g. project.created or ping
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Webhook deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDeliveryPage'
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/deliveries', validateDeliveryQuery, paginate({ defaultLimit: 50 }), asyncHandler(async (req, res) => {
+  const { limit, offset } = req.pagination;
+  const where = {
+    subscriptionId: req.query.subscription,
+    status: req.query.status,
+    event: req.query.event
+  };
+
+  const [deliveries, totalCount] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      skip: offset
+    }),
+    prisma.webhookDelivery.count({ where })
+  ]);
+
+  res.json({
+    deliveries: deliveries.map(serializeDelivery),
+    pagination: paginationFor(req, res, totalCount)
+  });
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks/deliveries/{id}:
+ *   get:
+ *     summary: Get a webhook delivery
+ *     description: The delivery with its payload and every attempt to send it. Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Delivery ID
+ *     responses:
+ *       200:
+ *         description: Webhook delivery
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDeliveryDetail'
+ *       400:
+ *         description: Invalid delivery ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Delivery not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/deliveries/:id', validateIdParam, asyncHandler(async (req, res) => {
+  const delivery = await findDeliveryOrFail(req.params.id);
+
+  res.json(serializeDelivery(delivery));
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks/deliveries/{id}/replay:
+ *   post:
+ *     summary: Replay a webhook delivery
+ *     description: |
+ *       Queues a new delivery of the same event and payload, sent to the
+ *       current URL and with the current secret of the subscription. The
+ *       payload keeps its ID, so receivers can tell a replay from a new
+ *       event. Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the delivery to replay
+ *     responses:
+ *       202:
+ *         description: Replay queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       400:
+ *         description: Invalid delivery ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin, or an API key without the profile:write scope
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Delivery not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/deliveries/:id/replay', writeLimiter, requireScope('profile:write'), validateIdParam, asyncHandler(async (req, res) => {
+  const delivery = await findDeliveryOrFail(req.params.id);
+  const replay = await replayDelivery(delivery);
+
+  logger.info('Webhook delivery replayed', { userId: req.user.id, deliveryId: delivery.id, replayId: replay.id });
+
+  res.status(202).json(serializeDelivery(replay));
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook subscription
+ *     description: Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Subscription ID
+ *     responses:
+ *       200:
+ *         description: Webhook subscription
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Invalid subscription ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subscription not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', validateIdParam, asyncHandler(async (req, res) => {
+  const subscription = await findSubscriptionOrFail(req.params.id);
+
+  res.json(serializeSubscription(subscription));
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{id}:
+ *   patch:
+ *     summary: Update a webhook subscription
+ *     description: Change the URL, events or secret, or pause it with `active`. Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Subscription ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WebhookPatch'
+ *     responses:
+ *       200:
+ *         description: Subscription updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin, or an API key without the profile:write scope
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subscription not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/:id', writeLimiter, requireScope('profile:write'), validateIdParam, validateWebhookPatch, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { url, events, secret, active } = req.body;
+  const before = await findSubscriptionOrFail(id);
+
+  const subscription = await prisma.$transaction(async (tx) => {
+    const updated = await tx.webhookSubscription.update({
+      where: { id },
+      data: { url, events: events && [...new Set(events)], secret, active }
+    });
+    await recordAudit(tx, req, {
+      action: 'update',
+      entityType: 'webhook',
+      entityId: id,
+      before: serializeSubscription(before),
+      after: serializeSubscription(updated)
+    });
+    return updated;
+  });
+
+  logger.info('Webhook subscription updated', { userId: req.user.id, webhookId: id, secretChanged: secret !== undefined });
+
+  res.json(serializeSubscription(subscription));
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook subscription
+ *     description: Deletes the subscription with its delivery log; pending deliveries are dropped. Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Subscription ID
+ *     responses:
+ *       200:
+ *         description: Subscription deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Message'
+ *       400:
+ *         description: Invalid subscription ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin, or an API key without the profile:write scope
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subscription not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', writeLimiter, requireScope('profile:write'), validateIdParam, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const subscription = await findSubscriptionOrFail(id);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.webhookSubscription.delete({ where: { id } });
+    await recordAudit(tx, req, {
+      action: 'delete',
+      entityType: 'webhook',
+      entityId: id,
+      before: serializeSubscription(subscription)
+    });
+  });
+
+  logger.info('Webhook subscription deleted', { userId: req.user.id, webhookId: id });
+
+  res.json({ message: 'Webhook subscription deleted successfully' });
+}));
+
+/**
+ * @swagger
+ * /api/admin/webhooks/{id}/ping:
+ *   post:
+ *     summary: Send a ping to a webhook subscription
+ *     description: |
+ *       Queues a `ping` event, whatever events the subscription wants, to
+ *       check that the receiver is reachable and verifies signatures. Its
+ *       outcome shows up in the delivery log. Admins only.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Subscription ID
+ *     responses:
+ *       202:
+ *         description: Ping queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       400:
+ *         description: Invalid subscription ID
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin, or an API key without the profile:write scope
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subscription not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/ping', writeLimiter, requireScope('profile:write'), validateIdParam, asyncHandler(async (req, res) => {
+  const subscription = await findSubscriptionOrFail(req.params.id);
+  const delivery = await queuePing(subscription);
+
+  res.status(202).json(serializeDelivery(delivery));
+}));
+
+export default router;
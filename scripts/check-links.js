@@ -0,0 +1,33 @@
+import prisma from '../lib/prisma.js';
+import { checkStaleLinks } from '../lib/projectLinks.js';
+
+// Check project links once, e.g. from cron. By default only links that were
+// not checked in the last day are requested; --all checks every link.
+async function checkLinks({ all = false } = {}) {
+  const options = all ? { checkedBefore: new Date() } : {};
+  const total = { checked: 0, broken: 0 };
+
+  // Checked links drop out of the stale set, so repeat until it is empty
+  for (;;) {
+    const { checked, broken } = await checkStaleLinks(options);
+    if (checked === 0) {
+      return total;
+    }
+
+    total.checked += checked;
+    total.broken += broken;
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  checkLinks({ all: process.argv.includes('--all') })
+    .then(({ checked, broken }) => console.log(`Project links checked: ${checked}, broken: ${broken}`))
+    .catch(error => {
+      console.error('Error checking project links:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
+
+export { checkLinks };
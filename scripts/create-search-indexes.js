@@ -0,0 +1,23 @@
+import prisma from '../lib/prisma.js';
+import { searchIndexStatements } from '../lib/search.js';
+
+// Create the pg_trgm extension and the GIN indexes used by /api/search.
+// `prisma db push` cannot express expression indexes, so this runs after it.
+async function createSearchIndexes() {
+  for (const statement of searchIndexStatements()) {
+    await prisma.$executeRawUnsafe(statement);
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  createSearchIndexes()
+    .then(() => console.log('Search indexes created'))
+    .catch(error => {
+      console.error('Error creating search indexes:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
+
+export { createSearchIndexes };
@@ -0,0 +1,38 @@
+import bcrypt from 'bcryptjs';
+import prisma from '../lib/prisma.js';
+import { ROLES } from '../middleware/auth.js';
+
+// Create a user or reset an existing user's password and role.
+// Usage: npm run user:create -- <username> <password> [admin|editor|viewer]
+async function createUser(username, password, role = 'viewer') {
+  if (!username || !password) {
+    throw new Error('Usage: npm run user:create -- <username> <password> [role]');
+  }
+
+  if (!ROLES.includes(role)) {
+    throw new Error(`Role must be one of: ${ROLES.join(', ')}`);
+  }
+
+  const passwordHash = await bcrypt.hash(password, 10);
+
+  return prisma.user.upsert({
+    where: { username },
+    update: { passwordHash, role },
+    create: { username, passwordHash, role }
+  });
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [username, password, role] = process.argv.slice(2);
+
+  createUser(username, password, role)
+    .then(user => console.log(`User "${user.username}" saved with role ${user.role}`))
+    .catch(error => {
+      console.error('Error creating user:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
+
+export { createUser };
@@ -0,0 +1,30 @@
+import prisma from '../lib/prisma.js';
+import { deliverDueWebhooks } from '../lib/webhooks.js';
+
+// Send the webhook deliveries that are due, e.g. from cron when the API
+// server runs with WEBHOOK_DELIVERY_INTERVAL_SECONDS=0
+async function deliverWebhooks() {
+  const total = { attempted: 0, failed: 0 };
+
+  // Failed deliveries are rescheduled for later, so repeat until none are due
+  for (;;) {
+    const { attempted, failed } = await deliverDueWebhooks();
+    if (attempted === 0) {
+      return total;
+    }
+
+    total.attempted += attempted;
+    total.failed += failed;
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  deliverWebhooks()
+    .then(({ attempted, failed }) => console.log(`Webhooks delivered: ${attempted} attempted, ${failed} failed`))
+    .catch(error => {
+      console.error('Error delivering webhooks:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { schemas } from '../lib/contract.js';
+
+// Generate the TypeScript types of the frontend from the API contract.
+// With --check nothing is written; the run fails when the generated file
+// is out of date, so CI catches a contract change without regenerated types.
+
+const OUTPUT = path.join(path.dirname(fileURLToPath(import.meta.url)), '../frontend/src/types/api.ts');
+
+const HEADER = `// Generated from lib/contract.js by \`npm run contract:types\`. Do not edit;
+// change the contract and regenerate.
+`;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const refName = (ref) => ref.split('/').pop();
+
+const literal = (value) => (typeof value === 'string' ? `'${value.replace(/'/g, '\\\'')}'` : String(value));
+
+const comment = (schema, indent) => (schema.description ? `${indent}/** ${schema.description} */\n` : '');
+
+// Wrap unions so they can be used as array items
+const asItem = (type) => (type.includes(' | ') || type.includes(' & ') ? `(${type})` : type);
+
+const objectLiteral = (schema, indent) => {
+  const required = new Set(schema.required ?? []);
+  const inner = `${indent}  `;
+  const members = Object.entries(schema.properties).map(([name, property]) => {
+    const key = IDENTIFIER.test(name) ? name : literal(name);
+    const optional = required.has(name) ? '' : '?';
+    return `${comment(property, inner)}${inner}${key}${optional}: ${tsType(property, inner)};\n`;
+  });
+
+  return `{\n${members.join('')}${indent}}`;
+};
+
+const baseType = (schema, indent) => {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  if (schema.allOf) {
+    const parts = schema.allOf.map(part => tsType(part, indent));
+    if (schema.properties) parts.push(objectLiteral(schema, indent));
+    return parts.join(' & ');
+  }
+  if (schema.oneOf) {
+    return schema.oneOf.map(part => tsType(part, indent)).join(' | ');
+  }
+  if (schema.enum) {
+    return schema.enum.map(literal).join(' | ');
+  }
+
+  switch (schema.type) {
+  case 'string':
+    return 'string';
+  case 'integer':
+  case 'number':
+    return 'number';
+  case 'boolean':
+    return 'boolean';
+  case 'array':
+    return `${asItem(tsType(schema.items, indent))}[]`;
+  case 'object':
+    return schema.properties ? objectLiteral(schema, indent) : 'Record<string, unknown>';
+  default:
+    return 'unknown';
+  }
+};
+
+const tsType = (schema, indent = '') => {
+  const type = baseType(schema, indent);
+  return schema.nullable ? `${type} | null` : type;
+};
+
+// Long enumerations get one member per line
+const MAX_LINE = 100;
+
+const typeAlias = (name, schema) => {
+  const alias = `export type ${name} = ${tsType(schema)};`;
+  if (alias.length <= MAX_LINE || !schema.enum) {
+    return alias;
+  }
+  return `export type ${name} =\n${schema.enum.map(value => `  | ${literal(value)}`).join('\n')};`;
+};
+
+const declaration = (name, schema) => {
+  const isInterface = schema.type === 'object' && schema.properties && !schema.nullable;
+  const body = isInterface
+    ? `export interface ${name} ${objectLiteral(schema, '')}`
+    : typeAlias(name, schema);
+
+  return `${comment(schema, '')}${body}\n`;
+};
+
+const generateApiTypes = () =>
+  [HEADER, ...Object.entries(schemas).map(([name, schema]) => declaration(name, schema))].join('\n');
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const types = generateApiTypes();
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf8') : '';
+    if (current !== types) {
+      console.error('frontend/src/types/api.ts does not match lib/contract.js. Run npm run contract:types.');
+      process.exitCode = 1;
+    } else {
+      console.log('API types are up to date');
+    }
+  } else {
+    fs.writeFileSync(OUTPUT, types);
+    console.log(`API types written to ${path.relative(process.cwd(), OUTPUT)}`);
+  }
+}
+
+export { generateApiTypes };
@@ -0,0 +1,101 @@
+import prisma from '../lib/prisma.js';
+import { LINK_KINDS, inferLinkKind } from '../lib/projectLinks.js';
+
+// Move the untyped projects.links JSON into the project_links table, giving
+// each link a kind. Runs before `prisma db push`, which would otherwise drop
+// the JSON column; the push then adds the table's indexes. Entries without
+// a URL are skipped and reported, as are URLs that do not parse (those are
+// kept and will show up as broken once checked).
+async function migrateProjectLinks() {
+  const [column] = await prisma.$queryRaw`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'links'
+  `;
+
+  // Fresh database, or already migrated
+  if (!column) {
+    return { migrated: 0, skipped: [], invalid: [] };
+  }
+
+  const skipped = [];
+  const invalid = [];
+
+  const migrated = await prisma.$transaction(async (tx) => {
+    const rows = await tx.$queryRaw`SELECT id, links FROM projects WHERE links IS NOT NULL`;
+    let count = 0;
+
+    // Same definitions `prisma db push` creates
+    await tx.$executeRawUnsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "LinkKind" AS ENUM (${LINK_KINDS.map(kind => `'${kind}'`).join(', ')});
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    await tx.$executeRaw`
+      CREATE TABLE IF NOT EXISTS project_links (
+        id SERIAL PRIMARY KEY,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE ON UPDATE CASCADE,
+        kind "LinkKind" NOT NULL,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        status_code INTEGER,
+        redirect_url TEXT,
+        check_error TEXT,
+        last_checked_at TIMESTAMP(3)
+      )
+    `;
+
+    for (const row of rows) {
+      const links = Array.isArray(row.links) ? row.links : [];
+
+      for (const [position, link] of links.entries()) {
+        if (typeof link?.url !== 'string' || !link.url.trim()) {
+          skipped.push({ projectId: row.id, link });
+          continue;
+        }
+
+        const url = link.url.trim();
+        if (/\s/.test(url) || !URL.canParse(url)) {
+          invalid.push({ projectId: row.id, url });
+        }
+
+        const kind = LINK_KINDS.includes(link.kind) ? link.kind : inferLinkKind(link);
+        const name = String(link.name || '').trim() || kind;
+
+        await tx.$executeRaw`
+          INSERT INTO project_links (project_id, kind, name, url, position)
+          VALUES (${row.id}, ${kind}::"LinkKind", ${name}, ${url}, ${position})
+        `;
+        count++;
+      }
+    }
+
+    await tx.$executeRaw`ALTER TABLE projects DROP COLUMN links`;
+
+    return count;
+  }, { timeout: 60000 });
+
+  return { migrated, skipped, invalid };
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateProjectLinks()
+    .then(({ migrated, skipped, invalid }) => {
+      console.log(`Project links migrated: ${migrated} links`);
+      for (const { projectId, link } of skipped) {
+        console.warn(`Skipped link ${JSON.stringify(link)} of project ${projectId}: it has no URL`);
+      }
+      for (const { projectId, url } of invalid) {
+        console.warn(`Link "${url}" of project ${projectId} is not a valid URL; please fix it`);
+      }
+    })
+    .catch(error => {
+      console.error('Error migrating project links:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
+
+export { migrateProjectLinks };
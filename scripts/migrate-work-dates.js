@@ -0,0 +1,77 @@
+import prisma from '../lib/prisma.js';
+import { parseMonth, isPresent } from '../lib/workDates.js';
+
+// Convert the free-form work_experience.start_date/end_date text columns to
+// month-precision date columns and fill in is_current. Runs before
+// `prisma db push`, which would otherwise drop the text values. Rows whose
+// dates cannot be parsed keep a NULL date and are reported.
+async function migrateWorkDates() {
+  const [column] = await prisma.$queryRaw`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_name = 'work_experience' AND column_name = 'start_date'
+  `;
+
+  // Fresh database, or already migrated
+  if (!column || column.data_type !== 'text') {
+    return { migrated: 0, unparsed: [] };
+  }
+
+  const unparsed = [];
+
+  const migrated = await prisma.$transaction(async (tx) => {
+    const rows = await tx.$queryRaw`SELECT id, start_date, end_date FROM work_experience`;
+
+    await tx.$executeRaw`
+      ALTER TABLE work_experience
+        ADD COLUMN start_month date,
+        ADD COLUMN end_month date,
+        ADD COLUMN IF NOT EXISTS is_current boolean NOT NULL DEFAULT false
+    `;
+
+    for (const row of rows) {
+      const startDate = parseMonth(row.start_date);
+      // A missing end date used to be shown as "Present"
+      const isCurrent = !row.end_date?.trim() || isPresent(row.end_date);
+      const endDate = isCurrent ? null : parseMonth(row.end_date);
+
+      if (row.start_date?.trim() && !startDate) {
+        unparsed.push({ id: row.id, field: 'start_date', value: row.start_date });
+      }
+      if (!isCurrent && !endDate) {
+        unparsed.push({ id: row.id, field: 'end_date', value: row.end_date });
+      }
+
+      await tx.$executeRaw`
+        UPDATE work_experience
+        SET start_month = ${startDate}::date, end_month = ${endDate}::date, is_current = ${isCurrent}
+        WHERE id = ${row.id}
+      `;
+    }
+
+    await tx.$executeRaw`ALTER TABLE work_experience DROP COLUMN start_date, DROP COLUMN end_date`;
+    await tx.$executeRaw`ALTER TABLE work_experience RENAME COLUMN start_month TO start_date`;
+    await tx.$executeRaw`ALTER TABLE work_experience RENAME COLUMN end_month TO end_date`;
+
+    return rows.length;
+  });
+
+  return { migrated, unparsed };
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateWorkDates()
+    .then(({ migrated, unparsed }) => {
+      console.log(`Work experience dates migrated: ${migrated} rows`);
+      for (const { id, field, value } of unparsed) {
+        console.warn(`Could not parse ${field} "${value}" of work experience ${id}; it was cleared`);
+      }
+    })
+    .catch(error => {
+      console.error('Error migrating work experience dates:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
+
+export { migrateWorkDates };
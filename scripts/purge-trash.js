@@ -0,0 +1,16 @@
+import prisma from '../lib/prisma.js';
+import { purgeTrash } from '../lib/trash.js';
+
+// Delete everything that has been in the trash for longer than
+// TRASH_RETENTION_DAYS (30 by default), e.g. from cron
+if (import.meta.url === `file://${process.argv[1]}`) {
+  purgeTrash()
+    .then(({ profiles, projects, workExperience, skills }) => console.log(
+      `Trash purged: ${profiles} profiles, ${projects} projects, ${workExperience} work experience entries, ${skills} skills`
+    ))
+    .catch(error => {
+      console.error('Error purging trash:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
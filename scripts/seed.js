@@ -1,4 +1,7 @@
+import bcrypt from 'bcryptjs';
 import prisma from '../lib/prisma.js';
+import { syncProfileCollections } from '../lib/profiles.js';
+import { syncSkillCatalog } from './sync-skill-catalog.js';
 
 const profileData = {
   name: "Varun Sandesh",
@@ -28,33 +31,37 @@ const profileData = {
       title: "Coaching Center Website",
       description: "Developed a responsive coaching center website featuring course listings, faculty profiles, student testimonials, online registration, and a contact page with integrated Google Maps for location assistance.",
       links: [
-        { name: "GitHub", url: "https://github.com/varunsande/CodeT utorials.git" },
-        { name: "Live Demo", url: "https://varunsande.github.io/Code_Tutorials/" }
-      ]
+        { kind: "repo", name: "GitHub", url: "https://github.com/varunsande/Code_Tutorials.git" },
+        { kind: "demo", name: "Live Demo", url: "https://varunsande.github.io/Code_Tutorials/" }
+      ],
+      skills: ["HTML", "CSS", "JavaScript"]
     },
     {
       title: "Loan Prediction using Python",
       description: "Developed a machine learning-based loan prediction system in Google Colab to predict loan approval based on features like income, credit history, education, and loan amount. Involved data preprocessing, feature engineering, and model evaluation using popular ML libraries.",
       links: [
-        { name: "GitHub", url: "https://github.com/varunsande/loan.git" },
-        { name: "Live Demo", url: "https://colab.research.google.com/drive/1qS-c3EfWt0i_O3fR4r_F_CkN8j6G9X1Q?usp=sharing" }
-      ]
+        { kind: "repo", name: "GitHub", url: "https://github.com/varunsande/loan.git" },
+        { kind: "demo", name: "Live Demo", url: "https://colab.research.google.com/drive/1qS-c3EfWt0i_O3fR4r_F_CkN8j6G9X1Q?usp=sharing" }
+      ],
+      skills: ["Python", "Pandas", "scikit-learn"]
     },
     {
       title: "Resume Generator Website",
       description: "Developed a Resume Generator Website that allows users to create and download professional resumes by inputting personal, educational, and work details. The site offers customizable templates and formats (chronological, functional, combination) with PDF download options, focusing on both front-end and back-end development for a seamless user experience.",
       links: [
-        { name: "GitHub", url: "https://github.com/varunsande/Resume_Generator.git" },
-        { name: "Live Demo", url: "https://varunsande.github.io/Resume_Generator/" }
-      ]
+        { kind: "repo", name: "GitHub", url: "https://github.com/varunsande/Resume_Generator.git" },
+        { kind: "demo", name: "Live Demo", url: "https://varunsande.github.io/Resume_Generator/" }
+      ],
+      skills: ["JavaScript", "Node.js", "Express.js"]
     },
     {
       title: "Me-API Playground",
       description: "Personal API playground for managing candidate profile data with CRUD operations, search functionality, and query endpoints.",
       links: [
-        { name: "GitHub", url: "https://github.com/anshumohanacharya/me-api-playground" },
-        { name: "API Endpoint", url: "https://me-api.anshumohanacharya.dev" }
-      ]
+        { kind: "repo", name: "GitHub", url: "https://github.com/anshumohanacharya/me-api-playground" },
+        { kind: "demo", name: "API Endpoint", url: "https://me-api.anshumohanacharya.dev" }
+      ],
+      skills: ["Node.js", "Express.js", "PostgreSQL", "Next.js", "TypeScript"]
     }
   ],
   workExperience: [
@@ -63,25 +70,34 @@ const profileData = {
       position: "Full Stack Developer",
       start_date: "2023-01",
       end_date: "2024-01",
-      description: "Developed and maintained web applications using React, Node.js, and PostgreSQL. Implemented RESTful APIs and worked with cloud services including AWS."
+      description: "Developed and maintained web applications using React, Node.js, and PostgreSQL. Implemented RESTful APIs and worked with cloud services including AWS.",
+      skills: ["React", "Node.js", "PostgreSQL", "AWS"]
     },
     {
       company: "StartupXYZ",
       position: "Frontend Developer",
       start_date: "2022-06",
       end_date: "2022-12",
-      description: "Built responsive user interfaces using React and TypeScript. Collaborated with design team to implement pixel-perfect UI components and optimized application performance."
+      description: "Built responsive user interfaces using React and TypeScript. Collaborated with design team to implement pixel-perfect UI components and optimized application performance.",
+      skills: ["React", "TypeScript"]
     },
     {
       company: "Freelance",
       position: "Web Developer",
       start_date: "2021-01",
       end_date: "2022-05",
-      description: "Provided web development services to various clients. Built custom websites, e-commerce platforms, and web applications using modern JavaScript frameworks."
+      description: "Provided web development services to various clients. Built custom websites, e-commerce platforms, and web applications using modern JavaScript frameworks.",
+      skills: ["JavaScript", "HTML", "CSS"]
     }
   ]
 };
 
+// Initial admin account. Override the defaults outside local development.
+const adminUser = {
+  username: process.env.ADMIN_USERNAME || 'admin',
+  password: process.env.ADMIN_PASSWORD || 'password'
+};
+
 async function seedDatabase() {
   try {
     console.log('Starting database seeding...');
@@ -92,41 +108,33 @@ async function seedDatabase() {
     await prisma.skill.deleteMany();
     await prisma.profile.deleteMany();
 
+    const passwordHash = await bcrypt.hash(adminUser.password, 10);
+    const admin = await prisma.user.upsert({
+      where: { username: adminUser.username },
+      update: { passwordHash, role: 'admin' },
+      create: { username: adminUser.username, passwordHash, role: 'admin' }
+    });
+
+    // Skills, including those of projects and jobs, reference the default
+    // catalog entries
+    await syncSkillCatalog();
+
     // Create profile with all related data
     const profile = await prisma.profile.create({
       data: {
+        ownerId: admin.id,
         name: profileData.name,
         email: profileData.email,
         education: profileData.education,
         githubUrl: profileData.github_url,
         linkedinUrl: profileData.linkedin_url,
-        portfolioUrl: profileData.portfolio_url,
-        skills: {
-          create: profileData.skills.map(skill => ({
-            skillName: skill.name,
-            proficiencyLevel: skill.level
-          }))
-        },
-        projects: {
-          create: profileData.projects.map(project => ({
-            title: project.title,
-            description: project.description,
-            links: project.links
-          }))
-        },
-        workExperience: {
-          create: profileData.workExperience.map(work => ({
-            company: work.company,
-            position: work.position,
-            startDate: work.start_date,
-            endDate: work.end_date,
-            description: work.description
-          }))
-        }
+        portfolioUrl: profileData.portfolio_url
       }
     });
+    await syncProfileCollections(prisma, profile.id, profileData);
 
     console.log(`Profile created with ID: ${profile.id}`);
+    console.log(`Admin user "${adminUser.username}" ready`);
     console.log(`Inserted ${profileData.skills.length} skills`);
     console.log(`Inserted ${profileData.projects.length} projects`);
     console.log(`Inserted ${profileData.workExperience.length} work experiences`);
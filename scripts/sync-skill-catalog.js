@@ -0,0 +1,63 @@
+import prisma from '../lib/prisma.js';
+import { DEFAULT_CATALOG, skillKey, findCatalogEntry, resolveCatalogEntry } from '../lib/skillCatalog.js';
+
+// Add the default catalog entries and link profile skills that do not
+// reference the catalog yet (rows written before it existed). Variants of
+// one skill on the same profile are merged, keeping the higher level.
+// Safe to run repeatedly.
+async function syncSkillCatalog() {
+  let created = 0;
+
+  for (const { name, category, aliases } of DEFAULT_CATALOG) {
+    let entry = await findCatalogEntry(prisma, name);
+    if (!entry) {
+      entry = await prisma.skillCatalogEntry.create({ data: { name, key: skillKey(name), category } });
+      created += 1;
+    }
+
+    for (const alias of aliases) {
+      if (!(await findCatalogEntry(prisma, alias))) {
+        await prisma.skillAlias.create({ data: { catalogEntryId: entry.id, name: alias, key: skillKey(alias) } });
+      }
+    }
+  }
+
+  const unlinked = await prisma.skill.findMany({ where: { catalogEntryId: null }, orderBy: { id: 'asc' } });
+
+  await prisma.$transaction(async (tx) => {
+    for (const skill of unlinked) {
+      const entry = await resolveCatalogEntry(tx, skill.skillName);
+      const kept = await tx.skill.findFirst({
+        where: { profileId: skill.profileId, catalogEntryId: entry.id, deletedAt: skill.deletedAt }
+      });
+
+      if (kept) {
+        await tx.skill.update({
+          where: { id: kept.id },
+          data: { proficiencyLevel: Math.max(kept.proficiencyLevel, skill.proficiencyLevel) }
+        });
+        await tx.skill.delete({ where: { id: skill.id } });
+      } else {
+        await tx.skill.update({
+          where: { id: skill.id },
+          data: { catalogEntryId: entry.id, skillName: entry.name }
+        });
+      }
+    }
+  }, { timeout: 60000 });
+
+  return { created, linked: unlinked.length };
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  syncSkillCatalog()
+    .then(({ created, linked }) => console.log(`Skill catalog synced: ${created} entries added, ${linked} profile skills linked`))
+    .catch(error => {
+      console.error('Error syncing skill catalog:', error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
+
+export { syncSkillCatalog };
@@ -9,12 +9,24 @@ import swaggerUi from 'swagger-ui-express';
 import { fileURLToPath } from 'url';
 
 import logger from './lib/logger.js';
+import { MERGE_PATCH_TYPE, JSON_PATCH_TYPE } from './lib/patch.js';
+import { startLinkChecker } from './lib/projectLinks.js';
+import { startTrashPurge } from './lib/trash.js';
+import { startWebhookDelivery } from './lib/webhooks.js';
 import swaggerSpecs from './lib/swagger.js';
 import { errorHandler, notFound } from './middleware/errorHandler.js';
-import { generalLimiter } from './middleware/rateLimiter.js';
+import { generalLimiter, apiKeyLimiter } from './middleware/rateLimiter.js';
+import { requestId } from './middleware/requestId.js';
 
+import adminRoutes from './routes/admin.js';
+import apiKeyRoutes from './routes/apiKeys.js';
+import authRoutes from './routes/auth.js';
+import graphqlRoutes from './routes/graphql.js';
 import profileRoutes from './routes/profile.js';
+import profilesRoutes from './routes/profiles.js';
 import queryRoutes from './routes/queries.js';
+import skillCatalogRoutes from './routes/skillCatalog.js';
+import trashRoutes from './routes/trash.js';
 
 dotenv.config();
 
@@ -27,6 +39,9 @@ const PORT = process.env.PORT || 3000;
 // Trust proxy for accurate IP addresses
 app.set('trust proxy', 1);
 
+// Request IDs, first so every later log line carries one
+app.use(requestId);
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -43,10 +58,11 @@ app.use(helmet({
 app.use(compression());
 
 // Logging middleware
-app.use(morgan('combined', { stream: logger.stream }));
+app.use(morgan(logger.accessLogFormat, { stream: logger.stream }));
 
-// Rate limiting
+// Rate limiting: per IP, or per key for requests with an API key
 app.use(generalLimiter);
+app.use(apiKeyLimiter);
 
 // CORS configuration
 app.use(cors({
@@ -56,14 +72,29 @@ app.use(cors({
     'http://localhost:3001'
   ],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
+  exposedHeaders: ['Link', 'X-Total-Count', 'X-Request-Id']
 }));
 
-// Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Body parsing middleware. Profile imports are read whole, whatever their
+// format, with a smaller limit; that parser comes first so that JSON
+// Resume uploads do not get the 10 MB JSON limit instead.
+app.use('/api/profiles/import', express.raw({ type: () => true, limit: '5mb' }));
+app.use(express.json({ limit: '10mb', type: ['application/json', MERGE_PATCH_TYPE, JSON_PATCH_TYPE] }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// GraphiQL (public/graphiql) loads React and GraphiQL itself from unpkg
+app.use('/graphiql', helmet.contentSecurityPolicy({
+  directives: {
+    defaultSrc: ["'self'"],
+    styleSrc: ["'self'", "'unsafe-inline'", 'https://unpkg.com'],
+    scriptSrc: ["'self'", 'https://unpkg.com'],
+    fontSrc: ["'self'", 'data:', 'https://unpkg.com'],
+    imgSrc: ["'self'", 'data:', 'https:']
+  }
+}));
+
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, 'public')));
 
@@ -73,13 +104,32 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpecs, {
   customSiteTitle: 'Me-API Playground Documentation'
 }));
 
-// Auth routes removed
-
 // API Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
 app.use('/api/profile', profileRoutes);
+app.use('/api/profiles', profilesRoutes);
+app.use('/api/skill-catalog', skillCatalogRoutes);
+app.use('/api/trash', trashRoutes);
 app.use('/api', queryRoutes);
-
-// Health check endpoint
+app.use('/graphql', graphqlRoutes);
+
+/**
+ * @swagger
+ * /health:
+ *   get:
+ *     summary: Health check endpoint, also served at /api/health
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Service is healthy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Health'
+ */
 app.get('/health', (req, res) => {
   res.status(200).json({
     status: 'healthy',
@@ -90,7 +140,21 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Root endpoint
+/**
+ * @swagger
+ * /:
+ *   get:
+ *     summary: The web interface
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: The HTML page of the frontend
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ */
 app.get('/', (req, res) => {
   res.sendFile(path.join(__dirname, 'public', 'index.html'));
 });
@@ -108,8 +172,27 @@ app.listen(PORT, () => {
     environment: process.env.NODE_ENV || 'development',
     healthCheck: `http://localhost:${PORT}/health`,
     apiBaseUrl: `http://localhost:${PORT}/api`,
-    apiDocs: `http://localhost:${PORT}/api-docs`
+    apiDocs: `http://localhost:${PORT}/api-docs`,
+    graphiql: `http://localhost:${PORT}/graphiql`
   });
+
+  // Background link health checks; off unless an interval is configured
+  const linkCheckMinutes = Number(process.env.LINK_CHECK_INTERVAL_MINUTES) || 0;
+  if (linkCheckMinutes > 0) {
+    startLinkChecker({ intervalMs: linkCheckMinutes * 60 * 1000 });
+  }
+
+  // Background purge of old trash; off unless an interval is configured
+  const trashPurgeMinutes = Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 0;
+  if (trashPurgeMinutes > 0) {
+    startTrashPurge({ intervalMs: trashPurgeMinutes * 60 * 1000 });
+  }
+
+  // Background webhook delivery; on by default, 0 turns it off
+  const webhookSeconds = Number(process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS ?? 10) || 0;
+  if (webhookSeconds > 0) {
+    startWebhookDelivery({ intervalMs: webhookSeconds * 1000 });
+  }
 });
 
 // Graceful shutdown
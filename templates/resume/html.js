@@ -0,0 +1,58 @@
+// HTML resume template. Takes the model built by buildResume
+// (lib/resume.js) and renders a standalone, printable page.
+
+const ESCAPES = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' };
+
+const escape = (text) => String(text).replace(/[&<>"']/g, char => ESCAPES[char]);
+
+const link = ({ label, name, url }) => `<a href="${escape(url)}">${escape(label || name)}</a>`;
+
+const skills = (names) =>
+  (names.length > 0 ? `<p class="skills">Skills: ${names.map(escape).join(', ')}</p>` : '');
+
+const section = (title, body) => (body ? `<section>\n<h2>${title}</h2>\n${body}\n</section>` : '');
+
+const STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #1f2937; max-width: 800px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { margin-bottom: 4px; }
+  h2 { border-bottom: 1px solid #d1d5db; padding-bottom: 4px; margin-top: 32px; }
+  h3 { margin-bottom: 0; }
+  a { color: #2563eb; }
+  .contact, .meta, .skills { color: #4b5563; }
+  .meta { margin-top: 0; font-style: italic; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+`;
+
+const renderHtml = (resume) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escape(resume.name)} – Resume</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escape(resume.name)}</h1>
+<p class="contact">${[escape(resume.email), ...resume.links.map(link)].join(' · ')}</p>
+${resume.experience ? `<p>${escape(resume.experience)} of experience</p>` : ''}
+</header>
+${section('Education', resume.education ? `<p>${escape(resume.education)}</p>` : '')}
+${section('Skills', resume.skillGroups.length > 0 ? `<dl>\n${resume.skillGroups.map(group =>
+    `<dt>${group.label}</dt><dd>${group.skills.map(escape).join(', ')}</dd>`).join('\n')}\n</dl>` : '')}
+${section('Work Experience', resume.work.map(work => `<article>
+<h3>${escape(work.position)} — ${escape(work.company)}</h3>
+${work.period ? `<p class="meta">${escape([work.period, work.tenure].filter(Boolean).join(' · '))}</p>` : ''}
+${work.description ? `<p>${escape(work.description)}</p>` : ''}
+${skills(work.skills)}
+</article>`).join('\n'))}
+${section('Projects', resume.projects.map(project => `<article>
+<h3>${escape(project.title)}</h3>
+${project.description ? `<p>${escape(project.description)}</p>` : ''}
+${skills(project.skills)}
+${project.links.length > 0 ? `<p>${project.links.map(link).join(' · ')}</p>` : ''}
+</article>`).join('\n'))}
+</body>
+</html>
+`.replace(/\n{2,}/g, '\n');
+
+export { renderHtml };
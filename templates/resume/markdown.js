@@ -0,0 +1,36 @@
+// Markdown resume template. Takes the model built by buildResume
+// (lib/resume.js).
+
+// Escape characters that would otherwise be read as Markdown
+const escape = (text) => String(text).replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+const link = ({ label, name, url }) => `[${escape(label || name)}](<${url}>)`;
+
+const section = (title, lines) => (lines.length > 0 ? [`## ${title}`, '', ...lines, ''] : []);
+
+const renderMarkdown = (resume) => `${[
+  `# ${escape(resume.name)}`,
+  '',
+  [escape(resume.email), ...resume.links.map(link)].join(' · '),
+  '',
+  ...(resume.experience ? [`${escape(resume.experience)} of experience`, ''] : []),
+  ...section('Education', resume.education ? [escape(resume.education)] : []),
+  ...section('Skills', resume.skillGroups.map(group =>
+    `- **${group.label}:** ${group.skills.map(escape).join(', ')}`)),
+  ...section('Work Experience', resume.work.flatMap(work => [
+    `### ${escape(work.position)} — ${escape(work.company)}`,
+    '',
+    ...(work.period ? [`*${[work.period, work.tenure].filter(Boolean).join(' · ')}*`, ''] : []),
+    ...(work.description ? [escape(work.description), ''] : []),
+    ...(work.skills.length > 0 ? [`Skills: ${work.skills.map(escape).join(', ')}`, ''] : [])
+  ])),
+  ...section('Projects', resume.projects.flatMap(project => [
+    `### ${escape(project.title)}`,
+    '',
+    ...(project.description ? [escape(project.description), ''] : []),
+    ...(project.skills.length > 0 ? [`Skills: ${project.skills.map(escape).join(', ')}`, ''] : []),
+    ...(project.links.length > 0 ? [project.links.map(link).join(' · '), ''] : [])
+  ]))
+].join('\n').replace(/\n{3,}/g, '\n\n').trimEnd()}\n`;
+
+export { renderMarkdown };
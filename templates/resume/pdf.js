@@ -0,0 +1,101 @@
+import PDFDocument from 'pdfkit';
+
+// PDF resume template. Takes the model built by buildResume (lib/resume.js)
+// and resolves to the finished document.
+
+const COLORS = { text: '#1f2937', muted: '#4b5563', link: '#2563eb', rule: '#d1d5db' };
+
+const heading = (doc, title) => {
+  doc.moveDown(1).font('Helvetica-Bold').fontSize(14).fillColor(COLORS.text).text(title);
+  const y = doc.y + 2;
+  doc.moveTo(doc.page.margins.left, y)
+    .lineTo(doc.page.width - doc.page.margins.right, y)
+    .strokeColor(COLORS.rule)
+    .stroke();
+  doc.moveDown(0.5);
+};
+
+const body = (doc, text, { color = COLORS.text, font = 'Helvetica' } = {}) => {
+  doc.font(font).fontSize(10).fillColor(color).text(text);
+};
+
+const skills = (doc, names) => {
+  if (names.length > 0) {
+    body(doc, `Skills: ${names.join(', ')}`, { color: COLORS.muted });
+  }
+};
+
+const links = (doc, items) => {
+  for (const [index, item] of items.entries()) {
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.link)
+      .text(item.label || item.name, { link: item.url, underline: true, continued: index < items.length - 1 });
+    if (index < items.length - 1) {
+      doc.fillColor(COLORS.muted).text('  ·  ', { link: null, underline: false, continued: true });
+    }
+  }
+};
+
+const renderPdf = (resume) => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 50,
+    info: { Title: `${resume.name} – Resume`, Author: resume.name }
+  });
+  const chunks = [];
+
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  doc.font('Helvetica-Bold').fontSize(22).fillColor(COLORS.text).text(resume.name);
+  body(doc, resume.email, { color: COLORS.muted });
+  links(doc, resume.links);
+  if (resume.experience) {
+    body(doc, `${resume.experience} of experience`, { color: COLORS.muted });
+  }
+
+  if (resume.education) {
+    heading(doc, 'Education');
+    body(doc, resume.education);
+  }
+
+  if (resume.skillGroups.length > 0) {
+    heading(doc, 'Skills');
+    for (const group of resume.skillGroups) {
+      doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text(`${group.label}: `, { continued: true });
+      body(doc, group.skills.join(', '));
+    }
+  }
+
+  if (resume.work.length > 0) {
+    heading(doc, 'Work Experience');
+    for (const work of resume.work) {
+      body(doc, `${work.position} — ${work.company}`, { font: 'Helvetica-Bold' });
+      if (work.period) {
+        body(doc, [work.period, work.tenure].filter(Boolean).join(' · '), { color: COLORS.muted, font: 'Helvetica-Oblique' });
+      }
+      if (work.description) {
+        body(doc, work.description);
+      }
+      skills(doc, work.skills);
+      doc.moveDown(0.5);
+    }
+  }
+
+  if (resume.projects.length > 0) {
+    heading(doc, 'Projects');
+    for (const project of resume.projects) {
+      body(doc, project.title, { font: 'Helvetica-Bold' });
+      if (project.description) {
+        body(doc, project.description);
+      }
+      skills(doc, project.skills);
+      links(doc, project.links);
+      doc.moveDown(0.5);
+    }
+  }
+
+  doc.end();
+});
+
+export { renderPdf };
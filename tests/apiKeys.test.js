@@ -0,0 +1,167 @@
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+
+describe('API keys', () => {
+  let authToken;
+  let profile;
+
+  const createKey = (scopes) => request(app)
+    .post('/api/api-keys')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ name: 'CI', scopes })
+    .expect(201);
+
+  beforeAll(async () => {
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({
+        username: 'admin',
+        password: 'password'
+      });
+
+    authToken = loginResponse.body.token;
+  });
+
+  beforeEach(async () => {
+    await prisma.apiKey.deleteMany();
+    profile = await prisma.profile.create({
+      data: { name: 'Keyed User', email: 'keyed@example.com' }
+    });
+  });
+
+  describe('POST /api/api-keys', () => {
+    it('should return the key once and store only its hash', async () => {
+      const response = await createKey(['profile:write']);
+
+      expect(response.body.key).toMatch(/^mk_/);
+      expect(response.body.scopes).toEqual(['profile:write']);
+      expect(response.body.key.startsWith(response.body.prefix)).toBe(true);
+
+      const stored = await prisma.apiKey.findUnique({ where: { id: response.body.id } });
+      expect(stored.keyHash).not.toBe(response.body.key);
+    });
+
+    it('should return 400 for an unknown scope', async () => {
+      const response = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'CI', scopes: ['admin:everything'] })
+        .expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should not let an API key create more keys', async () => {
+      const { body } = await createKey(['profile:write']);
+
+      const response = await request(app)
+        .post('/api/api-keys')
+        .set('X-API-Key', body.key)
+        .send({ name: 'Escalate', scopes: ['profile:write'] })
+        .expect(403);
+
+      expect(response.body.code).toBe('SESSION_REQUIRED');
+    });
+  });
+
+  describe('X-API-Key authentication', () => {
+    it('should allow writes with the profile:write scope', async () => {
+      const { body } = await createKey(['profile:write']);
+
+      await request(app)
+        .patch(`/api/profiles/${profile.id}`)
+        .set('X-API-Key', body.key)
+        .send({ education: 'Updated from CI' })
+        .expect(200);
+
+      const list = await request(app)
+        .get('/api/api-keys')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(list.body.apiKeys[0].last_used_at).not.toBeNull();
+      expect(list.body.apiKeys[0].key).toBeUndefined();
+    });
+
+    it('should return 403 for writes with a read-only key', async () => {
+      const { body } = await createKey(['profile:read']);
+
+      const response = await request(app)
+        .patch(`/api/profiles/${profile.id}`)
+        .set('X-API-Key', body.key)
+        .send({ education: 'Nope' })
+        .expect(403);
+
+      expect(response.body.code).toBe('INSUFFICIENT_SCOPE');
+    });
+
+    it('should return 401 for a revoked key', async () => {
+      const { body } = await createKey(['profile:write']);
+
+      await request(app)
+        .delete(`/api/api-keys/${body.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .patch(`/api/profiles/${profile.id}`)
+        .set('X-API-Key', body.key)
+        .send({ education: 'Nope' })
+        .expect(401);
+
+      expect(response.body.code).toBe('INVALID_API_KEY');
+    });
+  });
+
+  describe('Rate limits', () => {
+    it('should count writes with a key against the key rather than the IP', async () => {
+      const writeRateLimit = process.env.WRITE_RATE_LIMIT;
+      process.env.WRITE_RATE_LIMIT = '20';
+      process.env.API_KEY_RATE_LIMIT = '25';
+      try {
+        const { body } = await createKey(['profile:write']);
+        const write = (credentials) => request(app)
+          .patch(`/api/profiles/${profile.id}`)
+          .set('X-Forwarded-For', '10.0.0.6')
+          .set(credentials)
+          .send({ education: 'Updated from CI' });
+
+        for (let i = 0; i < 25; i++) {
+          await write({ 'X-API-Key': body.key }).expect(200);
+        }
+
+        const limited = await write({ 'X-API-Key': body.key }).expect(429);
+        expect(limited.body.code).toBe('API_KEY_RATE_LIMIT_EXCEEDED');
+
+        // None of the key's writes counted against the IP
+        for (let i = 0; i < 20; i++) {
+          await write({ Authorization: `Bearer ${authToken}` }).expect(200);
+        }
+
+        const throttled = await write({ Authorization: `Bearer ${authToken}` }).expect(429);
+        expect(throttled.body.code).toBe('WRITE_RATE_LIMIT_EXCEEDED');
+      } finally {
+        process.env.WRITE_RATE_LIMIT = writeRateLimit;
+        delete process.env.API_KEY_RATE_LIMIT;
+      }
+    });
+
+    it('should limit reads with a key as well', async () => {
+      process.env.API_KEY_RATE_LIMIT = '3';
+      try {
+        const { body } = await createKey(['profile:read']);
+        const read = () => request(app).get(`/api/profiles/${profile.id}`).set('X-API-Key', body.key);
+
+        for (let i = 0; i < 3; i++) {
+          await read().expect(200);
+        }
+
+        const limited = await read().expect(429);
+        expect(limited.body.code).toBe('API_KEY_RATE_LIMIT_EXCEEDED');
+      } finally {
+        delete process.env.API_KEY_RATE_LIMIT;
+      }
+    });
+  });
+});
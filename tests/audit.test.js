@@ -0,0 +1,151 @@
+import request from 'supertest';
+import app from '../server.js';
+
+describe('Audit API', () => {
+  let adminToken;
+  let editorToken;
+
+  const login = async (username) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'password' });
+    return response.body.token;
+  };
+
+  const auditEvents = async (query = {}) => {
+    const response = await request(app)
+      .get('/api/admin/audit')
+      .query(query)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    return response.body.events;
+  };
+
+  beforeEach(async () => {
+    adminToken = await login('admin');
+    editorToken = await login('editor');
+  });
+
+  describe('Recording', () => {
+    it('should record logins, including failed ones', async () => {
+      await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'editor', password: 'wrong' })
+        .expect(401);
+
+      const events = await auditEvents({ entity_type: 'user' });
+
+      expect(events.map(event => [event.action, event.actor?.username ?? null])).toEqual([
+        ['login_failed', null],
+        ['login', 'editor'],
+        ['login', 'admin']
+      ]);
+    });
+
+    it('should record the state before and after a change', async () => {
+      const created = await request(app)
+        .post('/api/profile')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .set('X-Request-Id', 'req-123')
+        .send({ name: 'Jane Doe', email: 'jane@example.com' })
+        .expect(201);
+
+      const { profileId } = created.body;
+
+      await request(app)
+        .patch(`/api/profiles/${profileId}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ name: 'Jane Smith' })
+        .expect(200);
+
+      const [update, create] = await auditEvents({ entity_type: 'profile', entity_id: profileId });
+
+      expect(create).toMatchObject({
+        action: 'create',
+        actor: { username: 'editor' },
+        entity_id: profileId,
+        before: null,
+        after: { name: 'Jane Doe' },
+        request_id: 'req-123'
+      });
+      expect(update).toMatchObject({
+        action: 'update',
+        before: { name: 'Jane Doe' },
+        after: { name: 'Jane Smith' }
+      });
+    });
+
+    it('should record deletes with an empty after state', async () => {
+      const created = await request(app)
+        .post('/api/profile')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ name: 'Jane Doe', email: 'jane@example.com' })
+        .expect(201);
+
+      await request(app)
+        .delete(`/api/profiles/${created.body.profileId}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(200);
+
+      const [deleted] = await auditEvents({ action: 'delete' });
+
+      expect(deleted).toMatchObject({
+        entity_type: 'profile',
+        entity_id: created.body.profileId,
+        before: { email: 'jane@example.com' },
+        after: null
+      });
+    });
+  });
+
+  describe('GET /api/admin/audit', () => {
+    it('should filter by actor and time range', async () => {
+      const editor = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${editorToken}`);
+
+      const byEditor = await auditEvents({ actor: editor.body.user.id });
+      expect(byEditor.map(event => event.action)).toEqual(['login']);
+
+      const future = await auditEvents({ from: new Date(Date.now() + 60000).toISOString() });
+      expect(future).toEqual([]);
+    });
+
+    it('should reject invalid filters', async () => {
+      const response = await request(app)
+        .get('/api/admin/audit?entity_type=invoice')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should be closed to non-admins', async () => {
+      await request(app).get('/api/admin/audit').expect(401);
+
+      const response = await request(app)
+        .get('/api/admin/audit')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+
+      expect(response.body.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('GET /api/admin/audit/export', () => {
+    it('should export matching events as CSV', async () => {
+      const response = await request(app)
+        .get('/api/admin/audit/export?action=login')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect('Content-Type', /text\/csv/)
+        .expect(200);
+
+      const [header, ...rows] = response.text.trim().split('\r\n');
+
+      expect(header).toBe('id,created_at,actor_id,actor_username,action,entity_type,entity_id,ip,request_id,before,after');
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toContain(',admin,login,user,');
+      expect(response.headers['content-disposition']).toContain('audit-log.csv');
+    });
+  });
+});
@@ -27,7 +27,7 @@ describe('Authentication', () => {
         })
         .expect(401);
 
-      expect(response.body.error).toBe('Invalid credentials');
+      expect(response.body.detail).toBe('Invalid credentials');
       expect(response.body.code).toBe('INVALID_CREDENTIALS');
     });
 
@@ -39,7 +39,7 @@ describe('Authentication', () => {
         })
         .expect(400);
 
-      expect(response.body.error).toBe('Username and password are required');
+      expect(response.body.detail).toBe('Username and password are required');
       expect(response.body.code).toBe('MISSING_CREDENTIALS');
     });
 
@@ -52,7 +52,7 @@ describe('Authentication', () => {
         })
         .expect(401);
 
-      expect(response.body.error).toBe('Invalid credentials');
+      expect(response.body.detail).toBe('Invalid credentials');
     });
   });
 
@@ -72,7 +72,7 @@ describe('Authentication', () => {
         })
         .expect(401);
 
-      expect(response.body.error).toContain('Access denied');
+      expect(response.body.detail).toContain('Access denied');
     });
 
     it('should require authentication for PUT requests', async () => {
@@ -84,7 +84,7 @@ describe('Authentication', () => {
         })
         .expect(401);
 
-      expect(response.body.error).toContain('Access denied');
+      expect(response.body.detail).toContain('Access denied');
     });
 
     it('should require authentication for DELETE requests', async () => {
@@ -92,7 +92,128 @@ describe('Authentication', () => {
         .delete('/api/profile')
         .expect(401);
 
-      expect(response.body.error).toContain('Access denied');
+      expect(response.body.detail).toContain('Access denied');
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    let refreshToken;
+
+    beforeEach(async () => {
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'admin', password: 'password' });
+
+      refreshToken = loginResponse.body.refreshToken;
+    });
+
+    it('should issue a new token pair', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body.token).toBeDefined();
+      expect(response.body.refreshToken).toBeDefined();
+      expect(response.body.refreshToken).not.toBe(refreshToken);
+      expect(response.body.user.role).toBe('admin');
+    });
+
+    it('should reject a refresh token that was already used', async () => {
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(response.body.code).toBe('INVALID_REFRESH_TOKEN');
+    });
+
+    it('should reject a refresh token after logout', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+
+    it('should return 400 without a refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({})
+        .expect(400);
+
+      expect(response.body.code).toBe('MISSING_REFRESH_TOKEN');
+    });
+  });
+
+  describe('GET /api/auth/me', () => {
+    it('should return the authenticated user', async () => {
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'editor', password: 'password' });
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${loginResponse.body.token}`)
+        .expect(200);
+
+      expect(response.body.user.username).toBe('editor');
+      expect(response.body.user.role).toBe('editor');
+    });
+  });
+
+  describe('Roles', () => {
+    const tokenFor = async (username) => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username, password: 'password' });
+      return response.body.token;
+    };
+
+    it('should not let viewers write', async () => {
+      const token = await tokenFor('viewer');
+
+      const response = await request(app)
+        .post('/api/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          name: 'Test User',
+          email: 'test@example.com'
+        })
+        .expect(403);
+
+      expect(response.body.code).toBe('FORBIDDEN');
+    });
+
+    it('should let editors create profiles', async () => {
+      const token = await tokenFor('editor');
+
+      await request(app)
+        .post('/api/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          name: 'Test User',
+          email: 'test@example.com'
+        })
+        .expect(201);
+    });
+
+    it('should only let admins delete all profiles', async () => {
+      const token = await tokenFor('editor');
+
+      await request(app)
+        .delete('/api/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
     });
   });
 });
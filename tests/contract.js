@@ -0,0 +1,182 @@
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { schemas } from '../lib/contract.js';
+
+// Checks response bodies against the API contract (lib/contract.js) and
+// the OpenAPI document built from it. Every object schema is closed first,
+// so a field the contract does not list fails the check just like a
+// missing or mistyped one. allOf compositions are merged for that, since
+// additionalProperties does not look across them.
+
+const COMPONENT_REF = '#/components/schemas/';
+
+const resolve = (schema) => (schema.$ref ? schemas[schema.$ref.slice(COMPONENT_REF.length)] : schema);
+
+const closed = (schema) => {
+  if (Array.isArray(schema)) return schema.map(closed);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  if (schema.allOf) {
+    const { allOf, ...rest } = schema;
+    const merged = [...allOf.map(part => closed(resolve(part))), closed(rest)].reduce((result, part) => {
+      const combined = { ...result, ...part };
+      if (result.properties || part.properties) {
+        combined.properties = { ...result.properties, ...part.properties };
+        combined.required = [...new Set([...(result.required ?? []), ...(part.required ?? [])])];
+      }
+      return combined;
+    }, {});
+    return merged.properties ? { ...merged, additionalProperties: false } : merged;
+  }
+
+  const result = Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === 'properties'
+      ? Object.fromEntries(Object.entries(value).map(([name, property]) => [name, closed(property)]))
+      : closed(value)
+  ]));
+
+  if (result.type === 'object' && result.properties && result.additionalProperties === undefined) {
+    result.additionalProperties = false;
+  }
+  return result;
+};
+
+// Point the references of a schema from the OpenAPI document at the contract
+const contractRefs = (schema) => {
+  if (Array.isArray(schema)) return schema.map(contractRefs);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === '$ref' && value.startsWith(COMPONENT_REF) ? `contract${value}` : contractRefs(value)
+  ]));
+};
+
+// Not strict: the contract also carries OpenAPI keywords such as example
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+
+ajv.addSchema({
+  $id: 'contract',
+  components: {
+    schemas: Object.fromEntries(Object.entries(schemas).map(([name, schema]) => [name, closed(schema)]))
+  }
+});
+
+const validators = new WeakMap();
+
+// Where and why body does not match a schema of the contract or of the
+// OpenAPI document
+const schemaErrors = (body, schema) => {
+  if (!validators.has(schema)) {
+    validators.set(schema, ajv.compile(contractRefs(closed(schema))));
+  }
+
+  const validate = validators.get(schema);
+  return validate(body)
+    ? []
+    : validate.errors.map(error => `${error.instancePath || '/'} ${error.message} ${JSON.stringify(error.params)}`);
+};
+
+const contractErrors = (body, schemaName) => {
+  if (!schemas[schemaName]) {
+    throw new Error(`The contract has no ${schemaName} schema`);
+  }
+
+  return schemaErrors(body, schemas[schemaName]);
+};
+
+const expectContract = (body, schemaName) => {
+  expect(contractErrors(body, schemaName)).toEqual([]);
+};
+
+// Operations of an OpenAPI document, as "GET /api/profiles/{id}"
+const documentedOperations = (spec) =>
+  Object.entries(spec.paths).flatMap(([path, item]) =>
+    Object.keys(item)
+      .filter(method => ['get', 'put', 'post', 'patch', 'delete'].includes(method))
+      .map(method => `${method.toUpperCase()} ${path}`)
+  );
+
+const findOperation = (spec, operation) => {
+  const [method, path] = operation.split(' ');
+  return spec.paths[path]?.[method.toLowerCase()];
+};
+
+// Whether the document asks for credentials, on the operation itself or
+// through the document-wide security
+const requiresAuth = (spec, operation) =>
+  (findOperation(spec, operation).security ?? spec.security ?? [])
+    .some(requirement => Object.keys(requirement).length > 0);
+
+// Path a router is mounted at, from the pattern Express builds for it
+const mountPath = (layer) => layer.regexp.source
+  .replace(/^\^/, '')
+  .replace('\\/?(?=\\/|$)', '')
+  .replace(/\\\//g, '/');
+
+// Routes an Express app serves, in the same form as documentedOperations
+const appRoutes = (app) => {
+  const routes = [];
+  const walk = (stack, prefix) => {
+    for (const layer of stack) {
+      if (layer.route) {
+        const path = (prefix && layer.route.path === '/' ? prefix : `${prefix}${layer.route.path}`)
+          .replace(/:(\w+)/g, '{$1}');
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push(`${method.toUpperCase()} ${path}`);
+        }
+      } else if (layer.name === 'router') {
+        walk(layer.handle.stack, prefix + mountPath(layer));
+      }
+    }
+  };
+
+  walk(app._router.stack, '');
+  return routes;
+};
+
+// Where a response differs from what the document says the operation
+// sends: an undocumented status or content type, or a body that does not
+// match the schema
+const responseErrors = (spec, operation, response) => {
+  const documented = findOperation(spec, operation);
+  if (!documented) {
+    return [`${operation} is not documented`];
+  }
+
+  const { status } = response;
+  const documentedResponse = documented.responses[status] ?? documented.responses.default;
+  if (!documentedResponse) {
+    return [`${operation} does not document status ${status}`];
+  }
+
+  const content = documentedResponse.content ?? {};
+  const contentType = response.headers['content-type']?.split(';')[0];
+  if (!contentType) {
+    return Object.keys(content).length > 0 ? [`${operation} ${status} sent no body`] : [];
+  }
+
+  if (!content[contentType]) {
+    return [`${operation} ${status} does not document ${contentType}`];
+  }
+
+  const { schema } = content[contentType];
+  if (!schema || !/[/+]json$/.test(contentType)) {
+    return [];
+  }
+  return schemaErrors(response.body, schema).map(error => `${operation} ${status}: ${error}`);
+};
+
+export {
+  ajv,
+  closed,
+  schemaErrors,
+  contractErrors,
+  expectContract,
+  documentedOperations,
+  requiresAuth,
+  appRoutes,
+  responseErrors
+};
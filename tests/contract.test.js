@@ -0,0 +1,102 @@
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+import { usedSkills } from './fixtures.js';
+import { contractErrors, expectContract } from './contract.js';
+
+describe('API contract', () => {
+  let profileId;
+
+  beforeEach(async () => {
+    const profile = await prisma.profile.create({
+      data: {
+        name: 'Contract User',
+        email: 'contract@example.com',
+        education: 'Computer Science',
+        githubUrl: 'https://github.com/contract-user',
+        skills: {
+          create: [
+            { skillName: 'JavaScript', proficiencyLevel: 5 },
+            { skillName: 'Python', proficiencyLevel: 3 }
+          ]
+        },
+        projects: {
+          create: [{
+            title: 'Contract Project',
+            description: 'A project built with JavaScript',
+            links: { create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/contract-project' }] },
+            skills: usedSkills('JavaScript')
+          }]
+        },
+        workExperience: {
+          create: [{
+            company: 'Tech Corp',
+            position: 'Developer',
+            startDate: new Date('2023-01-01'),
+            isCurrent: true,
+            description: 'Worked on web applications',
+            skills: usedSkills('Python')
+          }]
+        }
+      }
+    });
+    profileId = profile.id;
+  });
+
+  it('should reject fields the contract does not list', () => {
+    expect(contractErrors({ name: 'JavaScript', proficiency: 5, extra: true }, 'Skill')).not.toEqual([]);
+    expect(contractErrors({ skill_name: 'JavaScript', proficiency_level: 5 }, 'Skill')).not.toEqual([]);
+  });
+
+  it('should match the contract for profiles', async () => {
+    const single = await request(app).get(`/api/profiles/${profileId}`).expect(200);
+    expectContract(single.body, 'Profile');
+
+    const list = await request(app).get('/api/profile').expect(200);
+    expect(list.body).toHaveLength(1);
+    list.body.forEach(profile => expectContract(profile, 'Profile'));
+  });
+
+  it('should match the contract for the projects and jobs of a profile', async () => {
+    const projects = await request(app).get(`/api/profiles/${profileId}/projects`).expect(200);
+    expectContract(projects.body, 'ProjectPage');
+
+    const work = await request(app).get(`/api/profiles/${profileId}/work-experience`).expect(200);
+    expectContract(work.body, 'WorkExperiencePage');
+  });
+
+  it('should match the contract for skills and stats', async () => {
+    const skills = await request(app).get('/api/skills').expect(200);
+    expect(skills.body.skills).toHaveLength(2);
+    expectContract(skills.body, 'SkillsResponse');
+
+    const top = await request(app).get('/api/skills/top').expect(200);
+    expectContract(top.body, 'TopSkillsResponse');
+
+    const stats = await request(app).get('/api/stats').expect(200);
+    expectContract(stats.body, 'Stats');
+  });
+
+  it('should match the contract for project search and full-text search', async () => {
+    const projects = await request(app).get('/api/projects?skill=JavaScript').expect(200);
+    expect(projects.body.projects).toHaveLength(1);
+    expectContract(projects.body, 'ProjectSearchPage');
+
+    const search = await request(app).get('/api/search?q=javascript').expect(200);
+    expectContract(search.body, 'SearchResults');
+  });
+
+  it('should match the contract for logins', async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'admin', password: 'password' })
+      .expect(200);
+
+    expectContract(response.body, 'LoginResponse');
+  });
+
+  it('should match the contract for errors', async () => {
+    const response = await request(app).get('/api/profiles/999999').expect(404);
+    expectContract(response.body, 'Error');
+  });
+});
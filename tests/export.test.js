@@ -0,0 +1,114 @@
+import request from 'supertest';
+import resumeSchema from '@jsonresume/schema';
+import app from '../server.js';
+import { prisma } from './setup.js';
+
+describe('Resume export API', () => {
+  let profile;
+
+  // Collect binary bodies, which supertest does not buffer by default
+  const binary = (res, callback) => {
+    const chunks = [];
+    res.on('data', chunk => chunks.push(chunk));
+    res.on('end', () => callback(null, Buffer.concat(chunks)));
+  };
+
+  const exportAs = (format) => request(app).get(`/api/profiles/${profile.id}/export?format=${format}`);
+
+  beforeEach(async () => {
+    profile = await prisma.profile.create({
+      data: {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        education: 'B.Sc. Computer Science',
+        githubUrl: 'https://github.com/janedoe',
+        skills: {
+          create: [
+            { skillName: 'JavaScript', proficiencyLevel: 5 },
+            { skillName: 'Python', proficiencyLevel: 2 },
+            { skillName: 'TypeScript', proficiencyLevel: 5 }
+          ]
+        },
+        projects: {
+          create: [{
+            title: 'Resume <Builder>',
+            description: 'Turns profiles into CVs',
+            links: { create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/janedoe/builder' }] }
+          }]
+        },
+        workExperience: {
+          create: [{
+            company: 'Acme',
+            position: 'Engineer',
+            startDate: new Date('2021-03-01'),
+            isCurrent: true,
+            description: 'Built the billing API'
+          }]
+        }
+      }
+    });
+  });
+
+  it('should render Markdown with skills grouped by proficiency', async () => {
+    const response = await exportAs('md').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/markdown/);
+    expect(response.headers['content-disposition']).toBe('attachment; filename="jane-doe-resume.md"');
+    expect(response.text).toContain('# Jane Doe');
+    expect(response.text).toContain('- **Master:** JavaScript, TypeScript\n- **Intermediate:** Python');
+    expect(response.text).toContain('### Engineer — Acme');
+    expect(response.text).toContain('*Mar 2021 – Present');
+    expect(response.text).toContain('[GitHub](<https://github.com/janedoe/builder>)');
+  });
+
+  it('should escape profile data in HTML', async () => {
+    const response = await exportAs('html').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/html/);
+    expect(response.text).toContain('<h3>Resume &lt;Builder&gt;</h3>');
+    expect(response.text).toContain('<dt>Master</dt><dd>JavaScript, TypeScript</dd>');
+  });
+
+  it('should render a PDF', async () => {
+    const response = await exportAs('pdf').buffer(true).parse(binary).expect(200);
+
+    expect(response.headers['content-type']).toBe('application/pdf');
+    expect(response.body.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should export JSON Resume that validates against the schema', async () => {
+    const response = await exportAs('jsonresume').expect(200);
+
+    const errors = await new Promise(resolve => resumeSchema.validate(response.body, resolve));
+    expect(errors).toBeFalsy();
+
+    expect(response.body.basics).toMatchObject({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      profiles: [{ network: 'GitHub', username: 'janedoe', url: 'https://github.com/janedoe' }]
+    });
+    expect(response.body.work).toEqual([
+      { name: 'Acme', position: 'Engineer', startDate: '2021-03', summary: 'Built the billing API' }
+    ]);
+    expect(response.body.skills[0]).toEqual({ name: 'Master', level: 'Master', keywords: ['JavaScript', 'TypeScript'] });
+  });
+
+  it('should default to PDF', async () => {
+    const response = await request(app)
+      .get(`/api/profiles/${profile.id}/export`)
+      .buffer(true)
+      .parse(binary)
+      .expect(200);
+
+    expect(response.headers['content-disposition']).toBe('attachment; filename="jane-doe-resume.pdf"');
+  });
+
+  it('should reject unknown formats', async () => {
+    const response = await exportAs('docx').expect(400);
+    expect(response.body.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 404 for a missing profile', async () => {
+    await request(app).get('/api/profiles/999999/export?format=md').expect(404);
+  });
+});
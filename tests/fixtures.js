@@ -0,0 +1,14 @@
+import { skillKey } from '../lib/skillCatalog.js';
+
+// Fixture builders shared by the test suites
+
+// Nested create linking a project or job to catalog skills
+const usedSkills = (...names) => ({
+  create: names.map(name => ({
+    catalogEntry: {
+      connectOrCreate: { where: { key: skillKey(name) }, create: { name, key: skillKey(name) } }
+    }
+  }))
+});
+
+export { usedSkills };
@@ -0,0 +1,248 @@
+import request from 'supertest';
+import app from '../server.js';
+import appPrisma from '../lib/prisma.js';
+import { prisma } from './setup.js';
+import { usedSkills } from './fixtures.js';
+
+// Queries the app sends to the database, as "Model.action", while recording
+let queries = null;
+appPrisma.$use(async (params, next) => {
+  queries?.push(`${params.model}.${params.action}`);
+  return next(params);
+});
+
+const graphql = (query, variables) => request(app).post('/graphql').send({ query, variables });
+
+describe('GraphQL API', () => {
+  let profileId;
+
+  beforeEach(async () => {
+    const profile = await prisma.profile.create({
+      data: {
+        name: 'Graph User',
+        email: 'graph@example.com',
+        skills: {
+          create: [
+            { skillName: 'JavaScript', proficiencyLevel: 5 },
+            { skillName: 'Python', proficiencyLevel: 3 }
+          ]
+        },
+        projects: {
+          create: [
+            {
+              title: 'Node Project',
+              description: 'A project built with Node.js',
+              links: { create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/node-project' }] },
+              skills: usedSkills('Node.js')
+            },
+            { title: 'Python Project', skills: usedSkills('Python') }
+          ]
+        },
+        workExperience: {
+          create: [
+            { company: 'Tech Corp', position: 'Developer', startDate: new Date('2023-01-01'), isCurrent: true },
+            { company: 'Old Corp', position: 'Intern', startDate: new Date('2021-01-01'), endDate: new Date('2021-06-01') }
+          ]
+        }
+      }
+    });
+    profileId = profile.id;
+
+    await prisma.profile.create({
+      data: {
+        name: 'Second User',
+        email: 'second@example.com',
+        skills: { create: [{ skillName: 'Go', proficiencyLevel: 4 }] },
+        projects: { create: [{ title: 'Go Project', skills: usedSkills('Go') }] },
+        workExperience: { create: [{ company: 'Go Corp', position: 'Engineer', startDate: new Date('2022-01-01'), isCurrent: true }] }
+      }
+    });
+  });
+
+  afterEach(() => {
+    queries = null;
+  });
+
+  it('should return a profile with its nested items', async () => {
+    const response = await graphql(`
+      query Profile($id: Int!) {
+        profile(id: $id) {
+          name
+          totalExperienceMonths
+          skills { name proficiency }
+          projects { title skills links { kind url broken } }
+          workExperience { company startDate endDate isCurrent }
+        }
+      }
+    `, { id: profileId }).expect(200);
+
+    expect(response.body.errors).toBeUndefined();
+    const { profile } = response.body.data;
+    expect(profile.name).toBe('Graph User');
+    expect(profile.skills).toEqual([
+      { name: 'JavaScript', proficiency: 5 },
+      { name: 'Python', proficiency: 3 }
+    ]);
+    expect(profile.projects[0]).toEqual({
+      title: 'Node Project',
+      skills: ['Node.js'],
+      links: [{ kind: 'repo', url: 'https://github.com/node-project', broken: false }]
+    });
+    expect(profile.workExperience[0]).toEqual({ company: 'Tech Corp', startDate: '2023-01', endDate: null, isCurrent: true });
+    expect(profile.totalExperienceMonths).toBeGreaterThan(6);
+  });
+
+  it('should return null for a missing profile', async () => {
+    const response = await graphql('{ profile(id: 999999) { name } }').expect(200);
+
+    expect(response.body).toEqual({ data: { profile: null } });
+  });
+
+  it('should load the items of all profiles with one query per relation', async () => {
+    queries = [];
+    const response = await graphql(`{
+      profiles {
+        skills { name profile { name } }
+        projects { title profile { name } }
+        workExperience { company }
+        totalExperienceYears
+      }
+    }`).expect(200);
+
+    expect(response.body.data.profiles).toHaveLength(2);
+    expect(queries.sort()).toEqual([
+      'Profile.findMany',
+      'Project.findMany',
+      'Skill.findMany',
+      'WorkExperience.findMany'
+    ]);
+  });
+
+  it('should filter nested lists', async () => {
+    const response = await graphql(`
+      query Profile($id: Int!) {
+        profile(id: $id) {
+          skills(minLevel: 4) { name }
+          projects(skill: "node js") { title }
+          workExperience(current: false) { company }
+        }
+      }
+    `, { id: profileId }).expect(200);
+
+    expect(response.body.data.profile).toEqual({
+      skills: [{ name: 'JavaScript' }],
+      projects: [{ title: 'Node Project' }],
+      workExperience: [{ company: 'Old Corp' }]
+    });
+  });
+
+  it('should filter profiles and projects', async () => {
+    const response = await graphql(`{
+      bySkill: profiles(skill: "GO") { name }
+      byCompany: profiles(company: "tech") { name }
+      projects(skill: "Python") { title profile { name } }
+    }`).expect(200);
+
+    expect(response.body.data.bySkill).toEqual([{ name: 'Second User' }]);
+    expect(response.body.data.byCompany).toEqual([{ name: 'Graph User' }]);
+    expect(response.body.data.projects).toEqual([{ title: 'Python Project', profile: { name: 'Graph User' } }]);
+  });
+
+  it('should return the same top skills and stats as the REST API', async () => {
+    const response = await graphql(`{
+      topSkills(limit: 5) { name frequency averageProficiency }
+      stats { totalProfiles totalProjects uniqueSkills totalWorkExperience topSkills { name frequency } }
+    }`).expect(200);
+
+    const topSkills = await request(app).get('/api/skills/top?limit=5').expect(200);
+    const stats = await request(app).get('/api/stats').expect(200);
+
+    expect(response.body.data.topSkills).toEqual(topSkills.body.skills);
+    expect(response.body.data.stats).toEqual({
+      totalProfiles: stats.body.total_profiles,
+      totalProjects: stats.body.total_projects,
+      uniqueSkills: stats.body.unique_skills,
+      totalWorkExperience: stats.body.total_work_experience,
+      topSkills: stats.body.topSkills
+    });
+  });
+
+  it('should search like the REST API', async () => {
+    const response = await graphql(`{
+      search(q: "node", type: projects) { query fuzzy total hits { type title profile { name } } }
+    }`).expect(200);
+
+    const rest = await request(app).get('/api/search?q=node&type=projects').expect(200);
+
+    const { search } = response.body.data;
+    expect(search.total).toBe(rest.body.pagination.total);
+    expect(search.hits.map(hit => hit.title)).toEqual(rest.body.hits.map(hit => hit.title));
+    expect(search.hits[0]).toEqual({ type: 'project', title: 'Node Project', profile: { name: 'Graph User' } });
+  });
+
+  it('should report invalid arguments with the codes of the REST API', async () => {
+    const limit = await graphql('{ profiles(limit: 1000) { name } }').expect(200);
+    expect(limit.body.errors[0]).toMatchObject({
+      message: 'Limit must be between 1 and 100',
+      path: ['profiles'],
+      extensions: { code: 'VALIDATION_ERROR', status: 400 }
+    });
+
+    const search = await graphql('{ search { total } }').expect(200);
+    expect(search.body.errors[0].extensions).toEqual({ code: 'MISSING_QUERY', status: 400 });
+  });
+
+  it('should reject documents that cannot run', async () => {
+    const syntax = await graphql('{ profiles { name }').expect(400);
+    expect(syntax.body.errors[0].message).toMatch(/Syntax Error/);
+
+    const unknownField = await graphql('{ profiles { salary } }').expect(400);
+    expect(unknownField.body.errors[0].message).toMatch(/Cannot query field "salary"/);
+
+    const mutation = await graphql('mutation { deleteProfile(id: 1) }').expect(400);
+    expect(mutation.body.errors).toHaveLength(1);
+
+    const variables = await graphql('query Profile($id: Int!) { profile(id: $id) { name } }', { id: 'one' }).expect(400);
+    expect(variables.body.data).toBeUndefined();
+
+    await request(app).post('/graphql').send({}).expect(400);
+  });
+
+  it('should reject queries nested too deeply', async () => {
+    const response = await graphql(`{
+      profiles { projects { profile { projects { profile { projects { profile { projects { profile { name } } } } } } } } }
+    }`).expect(400);
+
+    expect(response.body.errors[0].message).toMatch(/nested more than/);
+  });
+
+  it('should run queries given in the query string', async () => {
+    const response = await request(app)
+      .get('/graphql')
+      .query({ query: 'query Profile($id: Int!) { profile(id: $id) { name } }', variables: JSON.stringify({ id: profileId }) })
+      .expect(200);
+
+    expect(response.body.data.profile.name).toBe('Graph User');
+  });
+
+  it('should count searches against the search rate limit', async () => {
+    const send = (query) => request(app).post('/graphql').set('X-Forwarded-For', '10.20.30.40').send({ query });
+
+    for (let i = 0; i < 30; i++) {
+      await send('{ search(q: "node") { total } }').expect(200);
+    }
+
+    const limited = await send('{ search(q: "node") { total } }').expect(429);
+    expect(limited.body.code).toBe('SEARCH_RATE_LIMIT_EXCEEDED');
+
+    // Other queries are only subject to the general limit
+    await send('{ stats { totalProfiles } }').expect(200);
+  });
+
+  it('should serve GraphiQL', async () => {
+    const response = await request(app).get('/graphiql/').expect(200);
+
+    expect(response.text).toContain('graphiql');
+    expect(response.headers['content-security-policy']).toContain('https://unpkg.com');
+  });
+});
@@ -0,0 +1,213 @@
+import zlib from 'zlib';
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+
+describe('Profile import API', () => {
+  let authToken;
+
+  const importDocument = (document, { contentType, query = '' } = {}) => {
+    const req = request(app)
+      .post(`/api/profiles/import${query}`)
+      .set('Authorization', `Bearer ${authToken}`);
+    return contentType ? req.set('Content-Type', contentType).send(document) : req.send(document);
+  };
+
+  // Build a ZIP archive of deflated entries, as LinkedIn exports are
+  const zipOf = (files) => {
+    const local = [];
+    const central = [];
+    let offset = 0;
+
+    for (const [name, text] of Object.entries(files)) {
+      const fileName = Buffer.from(name);
+      const data = zlib.deflateRawSync(Buffer.from(text));
+
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(8, 8);
+      header.writeUInt32LE(data.length, 18);
+      header.writeUInt32LE(Buffer.byteLength(text), 22);
+      header.writeUInt16LE(fileName.length, 26);
+
+      const entry = Buffer.alloc(46);
+      entry.writeUInt32LE(0x02014b50, 0);
+      entry.writeUInt16LE(8, 10);
+      entry.writeUInt32LE(data.length, 20);
+      entry.writeUInt32LE(Buffer.byteLength(text), 24);
+      entry.writeUInt16LE(fileName.length, 28);
+      entry.writeUInt32LE(offset, 42);
+
+      local.push(header, fileName, data);
+      central.push(entry, fileName);
+      offset += header.length + fileName.length + data.length;
+    }
+
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(central.length / 2, 8);
+    end.writeUInt16LE(central.length / 2, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...local, directory, end]);
+  };
+
+  const loadProfile = (email) => prisma.profile.findUnique({
+    where: { email },
+    include: { skills: true, projects: { include: { links: true } }, workExperience: true }
+  });
+
+  const jsonResume = {
+    basics: {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      url: 'https://jane.dev',
+      profiles: [{ network: 'GitHub', username: 'janedoe', url: 'https://github.com/janedoe' }]
+    },
+    work: [{ name: 'Acme', position: 'Engineer', startDate: '2021-03-01', summary: 'Built APIs', highlights: ['Cut costs'] }],
+    skills: [{ name: 'Backend', level: 'Expert', keywords: ['Node.js', 'PostgreSQL'] }],
+    projects: [{ name: 'Resume Builder', url: 'https://github.com/janedoe/builder', keywords: ['Node.js'] }],
+    education: [{ institution: 'MIT', studyType: 'B.Sc.', area: 'Computer Science' }]
+  };
+
+  beforeAll(async () => {
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'admin', password: 'password' });
+    authToken = loginResponse.body.token;
+  });
+
+  describe('JSON Resume', () => {
+    it('should preview the profile without saving it on a dry run', async () => {
+      const response = await importDocument(jsonResume, { query: '?dry_run=true' }).expect(200);
+
+      expect(response.body).toMatchObject({ dry_run: true, format: 'jsonresume', valid: true, errors: [] });
+      expect(response.body.profile).toMatchObject({
+        name: 'Jane Doe',
+        github_url: 'https://github.com/janedoe',
+        portfolio_url: 'https://jane.dev',
+        education: 'B.Sc. in Computer Science, MIT',
+        skills: [{ name: 'Node.js', level: 4 }, { name: 'PostgreSQL', level: 4 }]
+      });
+      expect(await prisma.profile.count()).toBe(0);
+    });
+
+    it('should create the profile with its skills, projects and jobs', async () => {
+      const response = await importDocument(jsonResume).expect(201);
+      expect(response.body.format).toBe('jsonresume');
+
+      const profile = await loadProfile('jane@example.com');
+      expect(profile.id).toBe(response.body.profileId);
+      expect(profile.skills.map(skill => skill.skillName)).toEqual(['Node.js', 'PostgreSQL']);
+      expect(profile.projects[0].links).toEqual([
+        expect.objectContaining({ kind: 'repo', url: 'https://github.com/janedoe/builder' })
+      ]);
+      expect(profile.workExperience[0]).toMatchObject({
+        company: 'Acme',
+        isCurrent: true,
+        description: 'Built APIs\n• Cut costs'
+      });
+    });
+
+    it('should read its own export back', async () => {
+      await importDocument(jsonResume).expect(201);
+      const profile = await loadProfile('jane@example.com');
+      const exported = await request(app).get(`/api/profiles/${profile.id}/export?format=jsonresume`).expect(200);
+
+      const response = await importDocument(
+        { ...exported.body, basics: { ...exported.body.basics, email: 'copy@example.com' } },
+        { query: '?dry_run=true' }
+      ).expect(200);
+
+      expect(response.body.valid).toBe(true);
+      expect(response.body.profile.skills).toEqual([{ name: 'Node.js', level: 4 }, { name: 'PostgreSQL', level: 4 }]);
+      expect(response.body.profile.workExperience[0]).toMatchObject({ company: 'Acme', start_date: '2021-03' });
+    });
+  });
+
+  describe('LinkedIn', () => {
+    it('should import a data export ZIP', async () => {
+      const zip = zipOf({
+        'Profile.csv': 'First Name,Last Name,Headline,Websites\nSam,Lee,"Engineer, ""Platform""",[PORTFOLIO:https://sam.dev]\n',
+        'Email Addresses.csv': 'Email Address,Confirmed,Primary,Updated On\nold@example.com,Yes,No,\nsam@example.com,Yes,Yes,\n',
+        'Positions.csv': 'Company Name,Title,Description,Location,Started On,Finished On\nAcme,Engineer,"Line one\nLine two",Remote,Jan 2020,\nInitech,Intern,,,Jun 2018,Aug 2018\n',
+        'Skills.csv': 'Name\nGo\nKubernetes\n'
+      });
+
+      const response = await importDocument(zip, { contentType: 'application/zip' }).expect(201);
+      expect(response.body.format).toBe('linkedin');
+
+      const profile = await loadProfile('sam@example.com');
+      expect(profile).toMatchObject({ name: 'Sam Lee', portfolioUrl: 'https://sam.dev' });
+      expect(profile.skills.map(skill => skill.skillName)).toEqual(['Go', 'Kubernetes']);
+      expect(profile.workExperience.map(work => [work.company, work.isCurrent])).toEqual(
+        expect.arrayContaining([['Acme', true], ['Initech', false]]));
+    });
+
+    it('should report what is missing from a single CSV', async () => {
+      const csv = 'Company Name,Title,Description,Location,Started On,Finished On\nAcme,Engineer,,,Jan 2020,\n';
+
+      const response = await importDocument(csv, { contentType: 'text/csv', query: '?dry_run=true' }).expect(200);
+
+      expect(response.body.valid).toBe(false);
+      expect(response.body.errors.map(error => error.path)).toEqual(expect.arrayContaining(['name', 'email']));
+      expect(response.body.profile.workExperience).toHaveLength(1);
+    });
+  });
+
+  describe('vCard', () => {
+    it('should import the contact and current job', async () => {
+      const vcard = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'N:Kim;Alex;;;',
+        'FN:Alex Kim',
+        'EMAIL;TYPE=INTERNET,PREF:alex@example.com',
+        'ORG:Globex\\, Inc.',
+        'TITLE:Staff Engineer',
+        'URL:https://www.linkedin.com/in/alexkim',
+        'CATEGORIES:Rust,Go',
+        'END:VCARD'
+      ].join('\r\n');
+
+      await importDocument(vcard, { contentType: 'text/vcard' }).expect(201);
+
+      const profile = await loadProfile('alex@example.com');
+      expect(profile).toMatchObject({ name: 'Alex Kim', linkedinUrl: 'https://www.linkedin.com/in/alexkim' });
+      expect(profile.workExperience).toEqual([
+        expect.objectContaining({ company: 'Globex, Inc.', position: 'Staff Engineer', isCurrent: true })
+      ]);
+    });
+  });
+
+  describe('errors', () => {
+    it('should not overwrite an existing profile', async () => {
+      await prisma.profile.create({ data: { name: 'Jane Doe', email: 'jane@example.com' } });
+
+      const preview = await importDocument(jsonResume, { query: '?dry_run=true' }).expect(200);
+      expect(preview.body.valid).toBe(false);
+      expect(preview.body.errors).toEqual([expect.objectContaining({ path: 'email' })]);
+
+      const response = await importDocument(jsonResume).expect(409);
+      expect(response.body.code).toBe('PROFILE_EXISTS');
+    });
+
+    it('should reject documents that cannot be read', async () => {
+      const response = await importDocument('{"basics":', { contentType: 'text/plain', query: '?format=jsonresume' }).expect(400);
+      expect(response.body.code).toBe('INVALID_IMPORT');
+    });
+
+    it('should limit JSON uploads like files', async () => {
+      const oversized = { ...jsonResume, basics: { ...jsonResume.basics, summary: 'a'.repeat(5.5 * 1024 * 1024) } };
+
+      const response = await importDocument(oversized).expect(413);
+      expect(response.body.code).toBe('PAYLOAD_TOO_LARGE');
+    });
+
+    it('should require authentication', async () => {
+      await request(app).post('/api/profiles/import').send(jsonResume).expect(401);
+    });
+  });
+});
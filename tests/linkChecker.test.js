@@ -0,0 +1,99 @@
+import http from 'http';
+import { prisma } from './setup.js';
+import { checkLink } from '../lib/linkChecker.js';
+import { checkStaleLinks } from '../lib/projectLinks.js';
+
+describe('Link checker', () => {
+  let server;
+  let baseUrl;
+
+  // Local stub of the sites links point to
+  const routes = {
+    '/ok': (req, res) => res.writeHead(200).end('ok'),
+    '/moved': (req, res) => res.writeHead(301, { Location: '/ok' }).end(),
+    '/loop': (req, res) => res.writeHead(302, { Location: '/loop' }).end(),
+    '/missing': (req, res) => res.writeHead(404).end(),
+    '/no-head': (req, res) => res.writeHead(req.method === 'HEAD' ? 405 : 200).end(),
+    '/slow': () => {}
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => (routes[req.url] || routes['/missing'])(req, res));
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('checkLink', () => {
+    it('should report the status code', async () => {
+      expect(await checkLink(`${baseUrl}/ok`)).toEqual({ statusCode: 200, redirectUrl: null, checkError: null });
+      expect(await checkLink(`${baseUrl}/missing`)).toMatchObject({ statusCode: 404 });
+    });
+
+    it('should follow redirects and report the target', async () => {
+      expect(await checkLink(`${baseUrl}/moved`)).toEqual({
+        statusCode: 200,
+        redirectUrl: `${baseUrl}/ok`,
+        checkError: null
+      });
+
+      const loop = await checkLink(`${baseUrl}/loop`);
+      expect(loop.statusCode).toBeNull();
+      expect(loop.checkError).toMatch(/redirects/);
+    });
+
+    it('should fall back to GET when HEAD is not allowed', async () => {
+      expect(await checkLink(`${baseUrl}/no-head`)).toMatchObject({ statusCode: 200 });
+    });
+
+    it('should report timeouts and unreachable hosts', async () => {
+      const slow = await checkLink(`${baseUrl}/slow`, { timeoutMs: 100 });
+      expect(slow).toMatchObject({ statusCode: null, checkError: 'No response within 100 ms' });
+
+      const invalid = await checkLink('https://github.com/test/Code Tutorials.git', {
+        fetcher: () => Promise.reject(new TypeError('Failed to parse URL'))
+      });
+      expect(invalid).toMatchObject({ statusCode: null, checkError: 'Failed to parse URL' });
+    });
+  });
+
+  describe('checkStaleLinks', () => {
+    it('should record the result of each link', async () => {
+      const profile = await prisma.profile.create({
+        data: {
+          name: 'Link User',
+          email: 'links@example.com',
+          projects: {
+            create: [{
+              title: 'Linked',
+              links: {
+                create: [
+                  { kind: 'repo', name: 'GitHub', url: `${baseUrl}/moved`, position: 0 },
+                  { kind: 'demo', name: 'Demo', url: `${baseUrl}/missing`, position: 1 },
+                  { kind: 'docs', name: 'Docs', url: `${baseUrl}/ok`, position: 2, lastCheckedAt: new Date() }
+                ]
+              }
+            }]
+          }
+        },
+        include: { projects: true }
+      });
+
+      // Recently checked links are skipped
+      expect(await checkStaleLinks()).toEqual({ checked: 2, broken: 1 });
+      expect(await checkStaleLinks()).toEqual({ checked: 0, broken: 0 });
+
+      const links = await prisma.projectLink.findMany({
+        where: { projectId: profile.projects[0].id },
+        orderBy: { position: 'asc' }
+      });
+      expect(links[0]).toMatchObject({ statusCode: 200, redirectUrl: `${baseUrl}/ok`, checkError: null });
+      expect(links[1]).toMatchObject({ statusCode: 404, redirectUrl: null });
+      expect(links[1].lastCheckedAt).toBeInstanceOf(Date);
+    });
+  });
+});
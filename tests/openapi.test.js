@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import app from '../server.js';
+import spec from '../lib/swagger.js';
+import { prisma } from './setup.js';
+import { generateApiKey } from '../middleware/auth.js';
+import { recordRevision } from '../lib/revisions.js';
+import { skillKey } from '../lib/skillCatalog.js';
+import { usedSkills } from './fixtures.js';
+import { appRoutes, documentedOperations, requiresAuth, responseErrors } from './contract.js';
+
+// Every route of the app against the OpenAPI document of lib/swagger.js:
+// each documented operation is called and its status, content type and
+// body have to be what the document says.
+
+const documented = documentedOperations(spec);
+
+const send = (method, url) => request(app)[method.toLowerCase()](url);
+
+const login = async (username) => {
+  const response = await send('POST', '/api/auth/login').send({ username, password: 'password' });
+  return response.body;
+};
+
+// One or more calls per documented operation. `as` logs in as that user,
+// `url` and `body` may be functions of the seeded records.
+const cases = [
+  { operation: 'GET /', status: 200 },
+  { operation: 'GET /health', status: 200 },
+  { operation: 'GET /api/health', status: 200 },
+
+  { operation: 'POST /api/auth/login', status: 200, body: { username: 'editor', password: 'password' } },
+  { operation: 'POST /api/auth/login', status: 401, body: { username: 'editor', password: 'wrong' } },
+  { operation: 'POST /api/auth/login', status: 400, body: {} },
+  { operation: 'POST /api/auth/refresh', status: 200, body: async () => ({ refreshToken: (await login('editor')).refreshToken }) },
+  { operation: 'POST /api/auth/logout', status: 200, body: async () => ({ refreshToken: (await login('editor')).refreshToken }) },
+  { operation: 'GET /api/auth/me', status: 200, as: 'editor' },
+
+  { operation: 'GET /api/admin/audit', status: 200, as: 'admin' },
+  { operation: 'GET /api/admin/audit', status: 403, as: 'editor' },
+  { operation: 'GET /api/admin/audit/export', status: 200, as: 'admin' },
+
+  { operation: 'GET /api/admin/webhooks', status: 200, as: 'admin' },
+  { operation: 'GET /api/admin/webhooks', status: 403, as: 'editor' },
+  { operation: 'POST /api/admin/webhooks', status: 201, as: 'admin', body: { url: 'http://localhost:4000/hooks', events: ['profile.updated'] } },
+  { operation: 'POST /api/admin/webhooks', status: 400, as: 'admin', body: { url: 'ftp://example.com', events: ['profile.renamed'] } },
+  { operation: 'GET /api/admin/webhooks/{id}', status: 200, as: 'admin', url: f => `/api/admin/webhooks/${f.webhook.id}` },
+  { operation: 'GET /api/admin/webhooks/{id}', status: 404, as: 'admin', url: '/api/admin/webhooks/999999' },
+  { operation: 'PATCH /api/admin/webhooks/{id}', status: 200, as: 'admin', url: f => `/api/admin/webhooks/${f.webhook.id}`, body: { active: false } },
+  { operation: 'DELETE /api/admin/webhooks/{id}', status: 200, as: 'admin', url: f => `/api/admin/webhooks/${f.webhook.id}` },
+  { operation: 'POST /api/admin/webhooks/{id}/ping', status: 202, as: 'admin', url: f => `/api/admin/webhooks/${f.webhook.id}/ping` },
+  { operation: 'GET /api/admin/webhooks/deliveries', status: 200, as: 'admin', url: '/api/admin/webhooks/deliveries?status=failed' },
+  { operation: 'GET /api/admin/webhooks/deliveries/{id}', status: 200, as: 'admin', url: f => `/api/admin/webhooks/deliveries/${f.delivery.id}` },
+  { operation: 'POST /api/admin/webhooks/deliveries/{id}/replay', status: 202, as: 'admin', url: f => `/api/admin/webhooks/deliveries/${f.delivery.id}/replay` },
+
+  { operation: 'GET /api/api-keys', status: 200, as: 'editor' },
+  { operation: 'POST /api/api-keys', status: 201, as: 'editor', body: { name: 'CI deploy', scopes: ['profile:read'] } },
+  { operation: 'POST /api/api-keys', status: 400, as: 'editor', body: { name: '', scopes: ['everything'] } },
+  { operation: 'DELETE /api/api-keys/{id}', status: 200, as: 'editor', url: f => `/api/api-keys/${f.apiKey.id}` },
+
+  { operation: 'GET /api/profile', status: 200 },
+  { operation: 'POST /api/profile', status: 201, as: 'editor', body: { name: 'Jane Doe', email: 'jane@example.com', skills: [{ name: 'Go', level: 3 }] } },
+  { operation: 'POST /api/profile', status: 400, as: 'editor', body: { name: 'J', email: 'not-an-email' } },
+  { operation: 'PUT /api/profile', status: 200, as: 'editor', body: { name: 'Contract User', email: 'contract@example.com' } },
+  { operation: 'DELETE /api/profile', status: 200, as: 'admin' },
+  { operation: 'DELETE /api/profile', status: 403, as: 'editor' },
+  { operation: 'DELETE /api/profile/projects/{id}', status: 200, as: 'editor', url: f => `/api/profile/projects/${f.project.id}` },
+  { operation: 'DELETE /api/profile/work-experience/{id}', status: 200, as: 'editor', url: f => `/api/profile/work-experience/${f.work.id}` },
+
+  {
+    operation: 'POST /api/profiles/import',
+    status: 201,
+    as: 'editor',
+    url: '/api/profiles/import?format=jsonresume',
+    body: { basics: { name: 'Jane Doe', email: 'jane@example.com' }, skills: [{ name: 'Backend', keywords: ['Node.js'] }] }
+  },
+  {
+    operation: 'POST /api/profiles/import',
+    status: 200,
+    as: 'editor',
+    url: '/api/profiles/import?format=jsonresume&dry_run=true',
+    body: { basics: { name: 'Jane Doe', email: 'jane@example.com' } }
+  },
+  { operation: 'GET /api/profiles/{id}', status: 200, url: f => `/api/profiles/${f.profile.id}` },
+  { operation: 'GET /api/profiles/{id}', status: 404, url: '/api/profiles/999999' },
+  { operation: 'GET /api/profiles/{id}', status: 400, url: '/api/profiles/abc' },
+  { operation: 'PUT /api/profiles/{id}', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}`, body: { name: 'Contract User', email: 'contract@example.com' } },
+  {
+    operation: 'PATCH /api/profiles/{id}',
+    status: 200,
+    as: 'editor',
+    url: f => `/api/profiles/${f.profile.id}`,
+    type: 'application/merge-patch+json',
+    body: { education: 'Physics' }
+  },
+  { operation: 'PATCH /api/profiles/{id}', status: 403, as: 'viewer', url: f => `/api/profiles/${f.profile.id}`, body: { education: 'Physics' } },
+  { operation: 'DELETE /api/profiles/{id}', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}` },
+  { operation: 'GET /api/profiles/{id}/export', status: 200, url: f => `/api/profiles/${f.profile.id}/export?format=md` },
+  { operation: 'GET /api/profiles/{id}/export', status: 200, url: f => `/api/profiles/${f.profile.id}/export?format=jsonresume` },
+  { operation: 'GET /api/profiles/{id}/revisions', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/revisions` },
+  { operation: 'GET /api/profiles/{id}/revisions', status: 403, as: 'viewer', url: f => `/api/profiles/${f.profile.id}/revisions` },
+  { operation: 'GET /api/profiles/{id}/revisions/diff', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/revisions/diff?from=1&to=2` },
+  { operation: 'GET /api/profiles/{id}/revisions/{rev}', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/revisions/1` },
+  { operation: 'GET /api/profiles/{id}/revisions/{rev}', status: 404, as: 'editor', url: f => `/api/profiles/${f.profile.id}/revisions/99` },
+  { operation: 'POST /api/profiles/{id}/revisions/{rev}/restore', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/revisions/1/restore` },
+
+  { operation: 'GET /api/profiles/{id}/projects', status: 200, url: f => `/api/profiles/${f.profile.id}/projects` },
+  {
+    operation: 'POST /api/profiles/{id}/projects',
+    status: 201,
+    as: 'editor',
+    url: f => `/api/profiles/${f.profile.id}/projects`,
+    body: { title: 'CLI', skills: ['Go'], links: [{ kind: 'demo', name: 'Demo', url: 'https://example.com/cli' }] }
+  },
+  { operation: 'POST /api/profiles/{id}/projects', status: 400, as: 'editor', url: f => `/api/profiles/${f.profile.id}/projects`, body: {} },
+  { operation: 'GET /api/profiles/{id}/projects/{projectId}', status: 200, url: f => `/api/profiles/${f.profile.id}/projects/${f.project.id}` },
+  { operation: 'PUT /api/profiles/{id}/projects/{projectId}', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/projects/${f.project.id}`, body: { title: 'Renamed' } },
+  { operation: 'PATCH /api/profiles/{id}/projects/{projectId}', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/projects/${f.project.id}`, body: { description: 'Updated' } },
+  { operation: 'PATCH /api/profiles/{id}/projects/{projectId}', status: 404, as: 'editor', url: f => `/api/profiles/${f.profile.id}/projects/999999`, body: { description: 'Updated' } },
+
+  { operation: 'GET /api/profiles/{id}/work-experience', status: 200, url: f => `/api/profiles/${f.profile.id}/work-experience` },
+  {
+    operation: 'POST /api/profiles/{id}/work-experience',
+    status: 201,
+    as: 'editor',
+    url: f => `/api/profiles/${f.profile.id}/work-experience`,
+    body: { company: 'Acme', position: 'Engineer', start_date: '2020-01', end_date: '2021-06', skills: ['Go'] }
+  },
+  { operation: 'GET /api/profiles/{id}/work-experience/{workId}', status: 200, url: f => `/api/profiles/${f.profile.id}/work-experience/${f.work.id}` },
+  { operation: 'PUT /api/profiles/{id}/work-experience/{workId}', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/work-experience/${f.work.id}`, body: { company: 'Tech Corp', position: 'Lead' } },
+  { operation: 'PATCH /api/profiles/{id}/work-experience/{workId}', status: 200, as: 'editor', url: f => `/api/profiles/${f.profile.id}/work-experience/${f.work.id}`, body: { position: 'Lead' } },
+
+  { operation: 'GET /api/projects', status: 200, url: '/api/projects?skill=JavaScript' },
+  { operation: 'GET /api/projects', status: 400, url: '/api/projects?limit=1000' },
+  { operation: 'GET /api/skills/top', status: 200 },
+  { operation: 'GET /api/search', status: 200, url: '/api/search?q=javascript' },
+  { operation: 'GET /api/search', status: 400 },
+  { operation: 'GET /api/skills', status: 200 },
+  { operation: 'GET /api/stats', status: 200 },
+
+  { operation: 'GET /graphql', status: 200, url: '/graphql?query=%7B%20stats%20%7B%20totalProfiles%20%7D%20%7D' },
+  { operation: 'GET /graphql', status: 400 },
+  { operation: 'POST /graphql', status: 200, body: f => ({ query: `{ profile(id: ${f.profile.id}) { name projects { title } } }` }) },
+  { operation: 'POST /graphql', status: 200, body: { query: '{ profiles(limit: 1000) { name } }' } },
+  { operation: 'POST /graphql', status: 400, body: { query: '{ profiles { nope } }' } },
+
+  { operation: 'GET /api/skill-catalog', status: 200 },
+  { operation: 'POST /api/skill-catalog', status: 201, as: 'admin', body: { name: 'Rust', category: 'language', aliases: ['rust-lang'] } },
+  { operation: 'POST /api/skill-catalog', status: 403, as: 'editor', body: { name: 'Rust' } },
+  { operation: 'POST /api/skill-catalog', status: 409, as: 'admin', body: { name: 'JavaScript' } },
+  { operation: 'PATCH /api/skill-catalog/{id}', status: 200, as: 'admin', url: f => `/api/skill-catalog/${f.javascript.id}`, body: { aliases: ['JS'] } },
+  { operation: 'POST /api/skill-catalog/{id}/merge', status: 200, as: 'admin', url: f => `/api/skill-catalog/${f.javascript.id}/merge`, body: f => ({ sourceIds: [f.ecmascript.id] }) },
+
+  { operation: 'GET /api/trash', status: 200, as: 'editor' },
+  { operation: 'POST /api/trash/{type}/{id}/restore', status: 200, as: 'editor', url: f => `/api/trash/projects/${f.trashedProject.id}/restore` },
+  { operation: 'POST /api/trash/{type}/{id}/restore', status: 400, as: 'editor', url: f => `/api/trash/users/${f.trashedProject.id}/restore` }
+];
+
+describe('OpenAPI document', () => {
+  let tokens;
+  let fixture;
+
+  const call = async ({ operation, as, url, type, body }) => {
+    const [method, path] = operation.split(' ');
+    const req = send(method, typeof url === 'function' ? url(fixture) : (url ?? path));
+
+    if (as) req.set('Authorization', `Bearer ${tokens[as]}`);
+    if (type) req.set('Content-Type', type);
+
+    const payload = typeof body === 'function' ? await body(fixture) : body;
+    return payload === undefined ? req : req.send(payload);
+  };
+
+  beforeAll(async () => {
+    tokens = {};
+    for (const username of ['admin', 'editor', 'viewer']) {
+      tokens[username] = (await login(username)).token;
+    }
+  });
+
+  // A profile of the editor with a project, a job, a project in the trash
+  // and two revisions, plus an API key, an audit event, a catalog skill to
+  // merge and a webhook subscription with a failed delivery
+  beforeEach(async () => {
+    const editor = await prisma.user.findUnique({ where: { username: 'editor' } });
+
+    const profile = await prisma.profile.create({
+      data: {
+        name: 'Contract User',
+        email: 'contract@example.com',
+        education: 'Computer Science',
+        githubUrl: 'https://github.com/contract-user',
+        ownerId: editor.id,
+        skills: {
+          create: [
+            { skillName: 'JavaScript', proficiencyLevel: 5 },
+            { skillName: 'Python', proficiencyLevel: 3 }
+          ]
+        },
+        projects: {
+          create: [{
+            title: 'Contract Project',
+            description: 'A project built with JavaScript',
+            links: { create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/contract-project' }] },
+            skills: usedSkills('JavaScript')
+          }]
+        },
+        workExperience: {
+          create: [{
+            company: 'Tech Corp',
+            position: 'Developer',
+            startDate: new Date('2023-01-01'),
+            isCurrent: true,
+            description: 'Worked on web applications',
+            skills: usedSkills('Python')
+          }]
+        }
+      },
+      include: { projects: true, workExperience: true }
+    });
+
+    await prisma.$transaction(tx => recordRevision(tx, profile.id, { user: editor, action: 'create' }));
+    await prisma.profile.update({ where: { id: profile.id }, data: { education: 'Mathematics' } });
+    await prisma.$transaction(tx => recordRevision(tx, profile.id, { user: editor, action: 'update' }));
+
+    const { prefix, keyHash } = generateApiKey();
+    await prisma.auditEvent.create({
+      data: { actorId: editor.id, action: 'create', entityType: 'profile', entityId: profile.id, after: { name: profile.name } }
+    });
+
+    const webhook = await prisma.webhookSubscription.create({
+      data: { url: 'http://localhost:4000/hooks', events: ['profile.updated', 'project.created'], secret: 'contract-test-secret' }
+    });
+
+    fixture = {
+      profile,
+      project: profile.projects[0],
+      work: profile.workExperience[0],
+      trashedProject: await prisma.project.create({
+        data: { profileId: profile.id, title: 'Old project', deletedAt: new Date() }
+      }),
+      apiKey: await prisma.apiKey.create({
+        data: { userId: editor.id, name: 'Deploy', prefix, keyHash, scopes: ['profile:read'] }
+      }),
+      javascript: await prisma.skillCatalogEntry.findUnique({ where: { key: skillKey('JavaScript') } }),
+      ecmascript: await prisma.skillCatalogEntry.create({
+        data: { name: 'ECMAScript', key: skillKey('ECMAScript'), category: 'language' }
+      }),
+      webhook,
+      delivery: await prisma.webhookDelivery.create({
+        data: {
+          subscriptionId: webhook.id,
+          event: 'profile.updated',
+          payload: { id: randomUUID(), event: 'profile.updated', created_at: new Date().toISOString(), data: { entity_type: 'profile', id: profile.id } },
+          status: 'failed',
+          attemptCount: 1,
+          nextAttemptAt: null,
+          lastAttemptAt: new Date(),
+          responseStatus: 500,
+          error: 'Receiver answered with status 500',
+          attempts: { create: [{ responseStatus: 500, responseBody: 'Internal error', error: 'Receiver answered with status 500', durationMs: 12 }] }
+        }
+      })
+    };
+  });
+
+  it('should document every route the app serves', () => {
+    expect(appRoutes(app).filter(route => !documented.includes(route))).toEqual([]);
+  });
+
+  it('should only document routes the app serves', () => {
+    const routes = appRoutes(app);
+    expect(documented.filter(operation => !routes.includes(operation))).toEqual([]);
+  });
+
+  it('should call every documented operation successfully', () => {
+    const called = new Set(cases.filter(c => c.status < 300).map(c => c.operation));
+    expect(documented.filter(operation => !called.has(operation))).toEqual([]);
+  });
+
+  it('should ask for credentials exactly where they are needed', () => {
+    const mismatched = cases
+      .filter(c => c.status < 300 && Boolean(c.as) !== requiresAuth(spec, c.operation))
+      .map(c => c.operation);
+    expect(mismatched).toEqual([]);
+  });
+
+  describe('responses', () => {
+    for (const c of cases) {
+      it(`${c.operation} should answer ${c.status} as documented`, async () => {
+        const response = await call(c);
+
+        expect(response.status).toBe(c.status);
+        expect(responseErrors(spec, c.operation, response)).toEqual([]);
+      });
+    }
+  });
+
+  describe('without credentials', () => {
+    for (const operation of documented.filter(operation => requiresAuth(spec, operation))) {
+      it(`${operation} should answer 401 as documented`, async () => {
+        const [method, path] = operation.split(' ');
+        const response = await send(method, path.replace('{type}', 'projects').replace(/\{\w+\}/g, '1'));
+
+        expect(response.status).toBe(401);
+        expect(responseErrors(spec, operation, response)).toEqual([]);
+      });
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { encodeCursor, decodeCursor, pageInfo } from '../lib/pagination.js';
+
+describe('Pagination helpers', () => {
+  it('should round-trip cursors', () => {
+    const cursor = encodeCursor(40);
+
+    expect(cursor).not.toContain('40');
+    expect(decodeCursor(cursor)).toBe(40);
+  });
+
+  it('should reject malformed cursors', () => {
+    for (const cursor of ['not-a-cursor', encodeCursor(-1), Buffer.from('{"offset":"1"}').toString('base64url')]) {
+      expect(() => decodeCursor(cursor)).toThrow('Invalid pagination cursor');
+    }
+  });
+
+  it('should describe a middle page', () => {
+    const pagination = pageInfo({ limit: 10, offset: 10, total: 25 });
+
+    expect(pagination).toMatchObject({
+      limit: 10,
+      offset: 10,
+      total: 25,
+      hasMore: true,
+      currentPage: 2,
+      totalPages: 3
+    });
+    expect(decodeCursor(pagination.nextCursor)).toBe(20);
+    expect(decodeCursor(pagination.prevCursor)).toBe(0);
+  });
+
+  it('should have no cursors beyond the ends', () => {
+    expect(pageInfo({ limit: 10, offset: 0, total: 5 })).toMatchObject({
+      hasMore: false,
+      currentPage: 1,
+      totalPages: 1,
+      nextCursor: null,
+      prevCursor: null
+    });
+    expect(pageInfo({ limit: 10, offset: 0, total: 0 }).totalPages).toBe(1);
+  });
+});
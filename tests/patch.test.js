@@ -0,0 +1,75 @@
+import { applyMergePatch, applyJsonPatch } from '../lib/patch.js';
+
+describe('JSON patch helpers', () => {
+  const document = {
+    name: 'Test User',
+    education: 'BSc',
+    projects: [
+      { id: 1, title: 'First' },
+      { id: 2, title: 'Second' }
+    ]
+  };
+
+  describe('applyMergePatch', () => {
+    it('should merge members and remove nulls', () => {
+      const result = applyMergePatch(document, { education: null, name: 'Renamed' });
+
+      expect(result.name).toBe('Renamed');
+      expect(result).not.toHaveProperty('education');
+      expect(result.projects).toHaveLength(2);
+    });
+
+    it('should replace arrays as a whole', () => {
+      const result = applyMergePatch(document, { projects: [{ id: 2, title: 'Only' }] });
+
+      expect(result.projects).toEqual([{ id: 2, title: 'Only' }]);
+    });
+
+    it('should not modify the original document', () => {
+      applyMergePatch(document, { name: 'Changed' });
+
+      expect(document.name).toBe('Test User');
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    it('should apply operations in order', () => {
+      const result = applyJsonPatch(document, [
+        { op: 'replace', path: '/projects/1/title', value: 'Renamed' },
+        { op: 'add', path: '/projects/-', value: { title: 'Third' } },
+        { op: 'remove', path: '/projects/0' },
+        { op: 'copy', from: '/name', path: '/education' }
+      ]);
+
+      expect(result.projects).toEqual([
+        { id: 2, title: 'Renamed' },
+        { title: 'Third' }
+      ]);
+      expect(result.education).toBe('Test User');
+    });
+
+    it('should unescape JSON pointer tokens', () => {
+      const result = applyJsonPatch({ 'a/b': { 'c~d': 1 } }, [
+        { op: 'replace', path: '/a~1b/c~0d', value: 2 }
+      ]);
+
+      expect(result).toEqual({ 'a/b': { 'c~d': 2 } });
+    });
+
+    it('should fail with 409 when a test operation does not match', () => {
+      expect(() => applyJsonPatch(document, [
+        { op: 'test', path: '/name', value: 'Someone Else' }
+      ])).toThrow(expect.objectContaining({ statusCode: 409, code: 'PATCH_TEST_FAILED' }));
+    });
+
+    it('should fail with 400 for unknown paths and operations', () => {
+      expect(() => applyJsonPatch(document, [
+        { op: 'replace', path: '/missing', value: 1 }
+      ])).toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_PATCH' }));
+
+      expect(() => applyJsonPatch(document, [
+        { op: 'rename', path: '/name' }
+      ])).toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_PATCH' }));
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import request from 'supertest';
+import app from '../server.js';
+
+describe('Error responses', () => {
+  it('should send problem details', async () => {
+    const response = await request(app)
+      .get('/api/profiles/999999')
+      .expect('Content-Type', /application\/problem\+json/)
+      .expect(404);
+
+    expect(response.body).toEqual({
+      type: 'urn:me-api:problem:profile-not-found',
+      title: 'Profile not found',
+      status: 404,
+      detail: 'Profile not found',
+      instance: '/api/profiles/999999',
+      code: 'PROFILE_NOT_FOUND',
+      request_id: response.headers['x-request-id']
+    });
+  });
+
+  it('should list the failed validations', async () => {
+    const response = await request(app)
+      .get('/api/projects?limit=1000')
+      .expect('Content-Type', /application\/problem\+json/)
+      .expect(400);
+
+    expect(response.body).toMatchObject({ status: 400, code: 'VALIDATION_ERROR' });
+    expect(response.body.errors[0]).toMatchObject({ path: 'limit', msg: 'Limit must be between 1 and 100' });
+  });
+
+  it('should report malformed JSON as a client error', async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .set('Content-Type', 'application/json')
+      .send('{"username": ')
+      .expect(400);
+
+    expect(response.body).toMatchObject({ code: 'INVALID_JSON', title: 'Malformed JSON body' });
+  });
+
+  it('should use the same format for authentication errors', async () => {
+    const response = await request(app)
+      .post('/api/profile')
+      .send({ name: 'Jane Doe', email: 'jane@example.com' })
+      .expect('Content-Type', /application\/problem\+json/)
+      .expect(401);
+
+    expect(response.body).toMatchObject({ status: 401, code: 'NO_TOKEN', instance: '/api/profile' });
+  });
+
+  it('should use the same format for unknown routes', async () => {
+    const response = await request(app)
+      .get('/api/nope')
+      .expect('Content-Type', /application\/problem\+json/)
+      .expect(404);
+
+    expect(response.body).toMatchObject({ status: 404, code: 'NOT_FOUND', detail: 'Not found - /api/nope' });
+  });
+});
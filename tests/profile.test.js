@@ -23,7 +23,7 @@ describe('Profile API', () => {
         .get('/api/profile')
         .expect(404);
 
-      expect(response.body.error).toBe('Profile not found');
+      expect(response.body.detail).toBe('Profile not found');
       expect(response.body.code).toBe('PROFILE_NOT_FOUND');
     });
 
@@ -45,7 +45,7 @@ describe('Profile API', () => {
               {
                 title: 'Test Project',
                 description: 'Test Description',
-                links: [{ name: 'GitHub', url: 'https://github.com/test' }]
+                links: { create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/test' }] }
               }
             ]
           }
@@ -61,6 +61,53 @@ describe('Profile API', () => {
       expect(response.body.skills).toHaveLength(2);
       expect(response.body.projects).toHaveLength(1);
     });
+
+    it('should sort profiles by the given keys', async () => {
+      await prisma.profile.createMany({
+        data: [
+          { name: 'Bea', email: 'b@example.com' },
+          { name: 'Al', email: 'z@example.com' },
+          { name: 'Al', email: 'a@example.com' }
+        ]
+      });
+
+      const response = await request(app)
+        .get('/api/profile?sort=name:asc,email:desc')
+        .expect(200);
+
+      expect(response.body.map(profile => profile.email)).toEqual([
+        'z@example.com',
+        'a@example.com',
+        'b@example.com'
+      ]);
+    });
+
+    it('should page profiles with Link headers', async () => {
+      await prisma.profile.createMany({
+        data: [
+          { name: 'First', email: 'first@example.com' },
+          { name: 'Second', email: 'second@example.com' }
+        ]
+      });
+
+      const response = await request(app)
+        .get('/api/profile?limit=1&sort=name:asc')
+        .expect(200);
+
+      expect(response.body.map(profile => profile.name)).toEqual(['First']);
+      expect(response.headers['x-total-count']).toBe('2');
+      expect(response.headers.link).toMatch(/<[^>]*cursor=[^>]*>; rel="next"/);
+      expect(response.headers.link).toContain('rel="last"');
+    });
+
+    it('should return 400 for a field that cannot be sorted on', async () => {
+      const response = await request(app)
+        .get('/api/profile?sort=password:asc')
+        .expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+      expect(response.body.errors[0].msg).toContain('name, email, created_at, updated_at');
+    });
   });
 
   describe('POST /api/profile', () => {
@@ -74,7 +121,7 @@ describe('Profile API', () => {
           {
             title: 'New Project',
             description: 'New Description',
-            links: [{ name: 'GitHub', url: 'https://github.com/new' }]
+            links: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/new' }]
           }
         ]
       };
@@ -95,7 +142,7 @@ describe('Profile API', () => {
         .send({ name: 'Test', email: 'test@example.com' })
         .expect(401);
 
-      expect(response.body.error).toContain('Access denied');
+      expect(response.body.detail).toContain('Access denied');
     });
 
     it('should return 400 with invalid data', async () => {
@@ -147,7 +194,7 @@ describe('Profile API', () => {
         .send({ name: 'Test', email: 'test@example.com' })
         .expect(404);
 
-      expect(response.body.error).toBe('Profile not found');
+      expect(response.body.detail).toBe('Profile not found');
     });
   });
 
@@ -168,7 +215,7 @@ describe('Profile API', () => {
         .set('Authorization', `Bearer ${authToken}`)
         .expect(200);
 
-      expect(response.body.message).toBe('Profile deleted successfully');
+      expect(response.body.message).toBe('Profile moved to trash');
     });
 
     it('should return 404 when no profile exists', async () => {
@@ -180,7 +227,7 @@ describe('Profile API', () => {
         .set('Authorization', `Bearer ${authToken}`)
         .expect(404);
 
-      expect(response.body.error).toBe('Profile not found');
+      expect(response.body.detail).toBe('Profile not found');
     });
   });
 });
@@ -0,0 +1,498 @@
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+
+describe('Profiles by ID API', () => {
+  let authToken;
+  let first;
+  let second;
+
+  beforeAll(async () => {
+    // Login to get auth token
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({
+        username: 'admin',
+        password: 'password'
+      });
+
+    authToken = loginResponse.body.token;
+  });
+
+  beforeEach(async () => {
+    first = await prisma.profile.create({
+      data: {
+        name: 'First User',
+        email: 'first@example.com',
+        skills: {
+          create: [{ skillName: 'JavaScript', proficiencyLevel: 5 }]
+        }
+      }
+    });
+
+    second = await prisma.profile.create({
+      data: {
+        name: 'Second User',
+        email: 'second@example.com',
+        skills: {
+          create: [{ skillName: 'Python', proficiencyLevel: 3 }]
+        }
+      }
+    });
+  });
+
+  describe('GET /api/profiles/:id', () => {
+    it('should return the requested profile', async () => {
+      const response = await request(app)
+        .get(`/api/profiles/${first.id}`)
+        .expect(200);
+
+      expect(response.body.id).toBe(first.id);
+      expect(response.body.name).toBe('First User');
+      expect(response.body.skills).toEqual(['JavaScript']);
+    });
+
+    it('should return 404 for an unknown profile', async () => {
+      const response = await request(app)
+        .get('/api/profiles/999999')
+        .expect(404);
+
+      expect(response.body.code).toBe('PROFILE_NOT_FOUND');
+    });
+
+    it('should return 400 for a non-numeric ID', async () => {
+      const response = await request(app)
+        .get('/api/profiles/abc')
+        .expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('PUT /api/profiles/:id', () => {
+    it('should replace only the addressed profile', async () => {
+      const response = await request(app)
+        .put(`/api/profiles/${second.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Second Updated',
+          email: 'second@example.com',
+          skills: [{ name: 'Go', level: 4 }]
+        })
+        .expect(200);
+
+      expect(response.body.name).toBe('Second Updated');
+      expect(response.body.skills).toEqual(['Go']);
+
+      const untouched = await prisma.profile.findUnique({ where: { id: first.id } });
+      expect(untouched.name).toBe('First User');
+    });
+
+    it('should return 409 when the email belongs to another profile', async () => {
+      const response = await request(app)
+        .put(`/api/profiles/${second.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Second User', email: 'first@example.com' })
+        .expect(409);
+
+      expect(response.body.code).toBe('PROFILE_EXISTS');
+    });
+  });
+
+  describe('PATCH /api/profiles/:id', () => {
+    it('should update only the given fields', async () => {
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ education: 'MSc Computer Science' })
+        .expect(200);
+
+      expect(response.body.name).toBe('First User');
+      expect(response.body.education).toBe('MSc Computer Science');
+      expect(response.body.skills).toEqual(['JavaScript']);
+    });
+  });
+
+  describe('Incremental collection updates', () => {
+    it('should keep IDs of items sent back with their id', async () => {
+      const project = await prisma.project.create({
+        data: { profileId: first.id, title: 'Keep', description: 'Original' }
+      });
+      const dropped = await prisma.project.create({
+        data: { profileId: first.id, title: 'Drop' }
+      });
+
+      const response = await request(app)
+        .put(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'First User',
+          email: 'first@example.com',
+          skills: ['JavaScript'],
+          projects: [
+            { id: project.id, title: 'Keep', description: 'Edited' },
+            { title: 'Brand New' }
+          ]
+        })
+        .expect(200);
+
+      const ids = response.body.projects.map(p => p.id);
+      expect(ids).toContain(project.id);
+      expect(ids).not.toContain(dropped.id);
+      expect(response.body.projects).toHaveLength(2);
+
+      const kept = await prisma.project.findUnique({ where: { id: project.id } });
+      expect(kept.description).toBe('Edited');
+      expect(kept.createdAt).toEqual(project.createdAt);
+    });
+
+    it('should reject IDs that belong to another profile', async () => {
+      const foreign = await prisma.project.create({
+        data: { profileId: second.id, title: 'Foreign' }
+      });
+
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ projects: [{ id: foreign.id, title: 'Hijack' }] })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_CHILD_ID');
+    });
+
+    it('should apply a JSON Merge Patch', async () => {
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Content-Type', 'application/merge-patch+json')
+        .send(JSON.stringify({ education: 'PhD', github_url: null }))
+        .expect(200);
+
+      expect(response.body.education).toBe('PhD');
+      expect(response.body.github_url).toBeNull();
+      expect(response.body.skills).toEqual(['JavaScript']);
+    });
+
+    it('should apply a JSON Patch to a single project', async () => {
+      const project = await prisma.project.create({
+        data: { profileId: first.id, title: 'Before', description: 'Same' }
+      });
+
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(JSON.stringify([
+          { op: 'test', path: '/projects/0/id', value: project.id },
+          { op: 'replace', path: '/projects/0/title', value: 'After' }
+        ]))
+        .expect(200);
+
+      expect(response.body.projects).toHaveLength(1);
+      expect(response.body.projects[0].id).toBe(project.id);
+      expect(response.body.projects[0].title).toBe('After');
+      expect(response.body.projects[0].description).toBe('Same');
+    });
+
+    it('should return 409 when a JSON Patch test fails', async () => {
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(JSON.stringify([{ op: 'test', path: '/name', value: 'Someone Else' }]))
+        .expect(409);
+
+      expect(response.body.code).toBe('PATCH_TEST_FAILED');
+    });
+  });
+
+  describe('DELETE /api/profiles/:id', () => {
+    it('should delete only the addressed profile', async () => {
+      await request(app)
+        .delete(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const remaining = await prisma.profile.findMany({ where: { deletedAt: null } });
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].id).toBe(second.id);
+    });
+
+    it('should return 404 for an unknown profile', async () => {
+      const response = await request(app)
+        .delete('/api/profiles/999999')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+
+      expect(response.body.detail).toBe('Profile not found');
+    });
+  });
+
+  describe('Projects under /api/profiles/:id', () => {
+    it('should create a project for the profile', async () => {
+      const response = await request(app)
+        .post(`/api/profiles/${first.id}/projects`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          title: 'API Client',
+          description: 'Typed client for the API',
+          links: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/test/client' }]
+        })
+        .expect(201);
+
+      expect(response.body.id).toBeDefined();
+      expect(response.body.title).toBe('API Client');
+
+      const list = await request(app)
+        .get(`/api/profiles/${first.id}/projects`)
+        .expect(200);
+
+      expect(list.body.projects).toHaveLength(1);
+    });
+
+    it('should return 400 without a title', async () => {
+      const response = await request(app)
+        .post(`/api/profiles/${first.id}/projects`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ description: 'Missing title' })
+        .expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should patch a project and keep the other fields', async () => {
+      const project = await prisma.project.create({
+        data: {
+          profileId: first.id,
+          title: 'Old Title',
+          description: 'Keep me',
+          links: { create: [{ kind: 'demo', name: 'Demo', url: 'https://example.com' }] }
+        }
+      });
+
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}/projects/${project.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'New Title' })
+        .expect(200);
+
+      expect(response.body.title).toBe('New Title');
+      expect(response.body.description).toBe('Keep me');
+      expect(response.body.links).toHaveLength(1);
+    });
+
+    it('should reject links without a known kind or a valid URL', async () => {
+      for (const link of [
+        { kind: 'blog', name: 'Blog', url: 'https://example.com' },
+        { kind: 'repo', name: 'GitHub', url: 'https://github.com/test/Code Tutorials.git' },
+        { kind: 'demo', name: 'Demo', url: 'example.com' }
+      ]) {
+        const response = await request(app)
+          .post(`/api/profiles/${first.id}/projects`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ title: 'Links', links: [link] })
+          .expect(400);
+
+        expect(response.body.code).toBe('VALIDATION_ERROR');
+      }
+    });
+
+    it('should keep the last check of links whose URL did not change', async () => {
+      const project = await prisma.project.create({
+        data: {
+          profileId: first.id,
+          title: 'Checked',
+          links: {
+            create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/test/checked', statusCode: 404, lastCheckedAt: new Date() }]
+          }
+        }
+      });
+
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}/projects/${project.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          links: [
+            { kind: 'demo', name: 'Demo', url: 'https://example.com/demo' },
+            { kind: 'repo', name: 'Source', url: 'https://github.com/test/checked' }
+          ]
+        })
+        .expect(200);
+
+      expect(response.body.links).toEqual([
+        expect.objectContaining({ name: 'Demo', status_code: null, broken: false }),
+        expect.objectContaining({ name: 'Source', status_code: 404, broken: true })
+      ]);
+    });
+
+    it('should return 404 for a project of another profile', async () => {
+      const project = await prisma.project.create({
+        data: { profileId: second.id, title: 'Not yours' }
+      });
+
+      await request(app)
+        .get(`/api/profiles/${first.id}/projects/${project.id}`)
+        .expect(404);
+    });
+  });
+
+  describe('Work experience under /api/profiles/:id', () => {
+    it('should create and update work experience', async () => {
+      const created = await request(app)
+        .post(`/api/profiles/${first.id}/work-experience`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          company: 'Acme',
+          position: 'Engineer',
+          start_date: '2022-01',
+          description: 'Built things'
+        })
+        .expect(201);
+
+      expect(created.body.company).toBe('Acme');
+
+      const updated = await request(app)
+        .put(`/api/profiles/${first.id}/work-experience/${created.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ company: 'Acme', position: 'Senior Engineer' })
+        .expect(200);
+
+      expect(updated.body.position).toBe('Senior Engineer');
+      expect(updated.body.start_date).toBe('2022-01');
+    });
+
+    it('should return 400 without a company', async () => {
+      const response = await request(app)
+        .post(`/api/profiles/${first.id}/work-experience`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ position: 'Engineer' })
+        .expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should store month dates and report tenure', async () => {
+      const created = await request(app)
+        .post(`/api/profiles/${first.id}/work-experience`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ company: 'Acme', position: 'Engineer', start_date: '2021-03-15', end_date: '2022-02' })
+        .expect(201);
+
+      expect(created.body).toMatchObject({
+        start_date: '2021-03',
+        end_date: '2022-02',
+        is_current: false,
+        tenure_months: 12
+      });
+
+      const current = await request(app)
+        .post(`/api/profiles/${first.id}/work-experience`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ company: 'Initech', position: 'Lead', start_date: '2022-01', is_current: true })
+        .expect(201);
+
+      expect(current.body.end_date).toBeNull();
+      expect(current.body.tenure_months).toBeGreaterThan(12);
+
+      // The two jobs overlap in January and February 2022
+      const profile = await request(app)
+        .get(`/api/profiles/${first.id}`)
+        .expect(200);
+
+      expect(profile.body.workExperience.map(work => work.company)).toEqual(['Initech', 'Acme']);
+      expect(profile.body.total_experience_months).toBe(current.body.tenure_months + 10);
+    });
+
+    it('should reject inconsistent dates', async () => {
+      const reversed = await request(app)
+        .post(`/api/profiles/${first.id}/work-experience`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ company: 'Acme', position: 'Engineer', start_date: '2022-05', end_date: '2022-01' })
+        .expect(400);
+
+      expect(reversed.body.errors[0].msg).toBe('End date must not be before the start date');
+
+      await request(app)
+        .post(`/api/profiles/${first.id}/work-experience`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ company: 'Acme', position: 'Engineer', start_date: '2022-01', end_date: '2022-06', is_current: true })
+        .expect(400);
+
+      await request(app)
+        .post(`/api/profiles/${first.id}/work-experience`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ company: 'Acme', position: 'Engineer', start_date: 'Jan 2022' })
+        .expect(400);
+    });
+  });
+
+  describe('Ownership', () => {
+    let editorToken;
+    let owned;
+
+    beforeAll(async () => {
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'editor', password: 'password' });
+
+      editorToken = loginResponse.body.token;
+    });
+
+    beforeEach(async () => {
+      const editor = await prisma.user.findUnique({ where: { username: 'editor' } });
+      owned = await prisma.profile.create({
+        data: { name: 'Editor Owned', email: 'owned@example.com', ownerId: editor.id }
+      });
+    });
+
+    it('should let editors change their own profile', async () => {
+      const response = await request(app)
+        .patch(`/api/profiles/${owned.id}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ education: 'BSc' })
+        .expect(200);
+
+      expect(response.body.owner_id).toBe(owned.ownerId);
+    });
+
+    it('should return 403 when an editor changes someone else\'s profile', async () => {
+      const response = await request(app)
+        .patch(`/api/profiles/${first.id}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ education: 'BSc' })
+        .expect(403);
+
+      expect(response.body.code).toBe('NOT_PROFILE_OWNER');
+    });
+
+    it('should return 403 when an editor adds a project to someone else\'s profile', async () => {
+      await request(app)
+        .post(`/api/profiles/${first.id}/projects`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ title: 'Sneaky' })
+        .expect(403);
+    });
+
+    it('should not let editors delete projects of other profiles by ID', async () => {
+      const project = await prisma.project.create({
+        data: { profileId: first.id, title: 'Protected' }
+      });
+
+      await request(app)
+        .delete(`/api/profile/projects/${project.id}`)
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(403);
+
+      const stillThere = await prisma.project.findUnique({ where: { id: project.id } });
+      expect(stillThere).not.toBeNull();
+    });
+
+    it('should let admins change any profile', async () => {
+      await request(app)
+        .patch(`/api/profiles/${owned.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ education: 'MSc' })
+        .expect(200);
+    });
+  });
+});
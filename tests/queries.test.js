@@ -1,6 +1,7 @@
 import request from 'supertest';
 import app from '../server.js';
 import { prisma } from './setup.js';
+import { usedSkills } from './fixtures.js';
 
 describe('Query API', () => {
   beforeEach(async () => {
@@ -22,12 +23,14 @@ describe('Query API', () => {
             {
               title: 'JavaScript Project',
               description: 'A project built with JavaScript',
-              links: [{ name: 'GitHub', url: 'https://github.com/js-project' }]
+              links: { create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/js-project' }] },
+              skills: usedSkills('JavaScript', 'Node.js')
             },
             {
               title: 'Python Project',
               description: 'A project built with Python',
-              links: [{ name: 'GitHub', url: 'https://github.com/python-project' }]
+              links: { create: [{ kind: 'repo', name: 'GitHub', url: 'https://github.com/python-project' }] },
+              skills: usedSkills('Python')
             }
           ]
         },
@@ -36,8 +39,8 @@ describe('Query API', () => {
             {
               company: 'Tech Corp',
               position: 'Developer',
-              startDate: '2023-01',
-              endDate: '2024-01',
+              startDate: new Date('2023-01-01'),
+              endDate: new Date('2024-01-01'),
               description: 'Worked on web applications'
             }
           ]
@@ -63,6 +66,15 @@ describe('Query API', () => {
 
       expect(response.body.projects).toHaveLength(1);
       expect(response.body.projects[0].title).toBe('JavaScript Project');
+      expect(response.body.projects[0].skills).toEqual(['JavaScript', 'Node.js']);
+    });
+
+    it('should ignore skills of the profile the project did not use', async () => {
+      const response = await request(app)
+        .get('/api/projects?skill=nodejs')
+        .expect(200);
+
+      expect(response.body.projects.map(project => project.title)).toEqual(['JavaScript Project']);
     });
 
     it('should handle pagination', async () => {
@@ -115,12 +127,236 @@ describe('Query API', () => {
       expect(response.body.results.profiles).toHaveLength(0);
     });
 
+    it('should return one list of hits ordered by rank', async () => {
+      const response = await request(app)
+        .get('/api/search?q=JavaScript')
+        .expect(200);
+
+      const { hits } = response.body;
+      expect(response.body.fuzzy).toBe(false);
+      expect(hits.map(hit => hit.type)).toEqual(expect.arrayContaining(['project', 'skill']));
+      expect(hits.find(hit => hit.title === 'Python Project')).toBeUndefined();
+
+      const ranks = hits.map(hit => hit.rank);
+      expect(ranks).toEqual([...ranks].sort((a, b) => b - a));
+      expect(response.body.pagination.total).toBe(hits.length);
+    });
+
+    it('should highlight matched words', async () => {
+      const response = await request(app)
+        .get('/api/search?q=javascript&type=projects')
+        .expect(200);
+
+      const [hit] = response.body.hits;
+      expect(hit.highlight).toContainEqual({ text: 'JavaScript', match: true });
+      expect(hit.highlight.map(segment => segment.text).join('')).toContain('A project built with');
+    });
+
+    it('should match word prefixes', async () => {
+      const response = await request(app)
+        .get('/api/search?q=Java&type=skills')
+        .expect(200);
+
+      expect(response.body.hits.map(hit => hit.title)).toEqual(['JavaScript']);
+    });
+
+    it('should match "node js" against Node.js', async () => {
+      const response = await request(app)
+        .get('/api/search?q=node%20js&type=skills')
+        .expect(200);
+
+      expect(response.body.hits.map(hit => hit.title)).toEqual(['Node.js']);
+    });
+
+    it('should fall back to fuzzy matching for typos', async () => {
+      const response = await request(app)
+        .get('/api/search?q=Pythn&type=skills')
+        .expect(200);
+
+      expect(response.body.fuzzy).toBe(true);
+      expect(response.body.hits.map(hit => hit.title)).toEqual(['Python']);
+    });
+
     it('should return 400 for empty query', async () => {
       const response = await request(app)
         .get('/api/search?q=')
         .expect(400);
 
-      expect(response.body.error).toContain('Search query is required');
+      expect(response.body.detail).toContain('Search query is required');
+    });
+  });
+
+  describe('GET /api/search facets', () => {
+    let other;
+
+    beforeEach(async () => {
+      other = await prisma.profile.create({
+        data: {
+          name: 'Other Dev',
+          email: 'other@example.com',
+          skills: {
+            create: [
+              { skillName: 'React', proficiencyLevel: 3 },
+              { skillName: 'Node.js', proficiencyLevel: 2 }
+            ]
+          },
+          projects: {
+            create: [{ title: 'React Dashboard', description: 'A dashboard project' }]
+          },
+          workExperience: {
+            create: [{ company: 'Acme', position: 'Engineer', startDate: new Date('2020-03-01'), endDate: new Date('2022-01-01') }]
+          }
+        }
+      });
+    });
+
+    it('should return facet counts for all hits', async () => {
+      const response = await request(app)
+        .get('/api/search?q=project&type=projects&limit=1')
+        .expect(200);
+
+      const { facets } = response.body;
+      expect(response.body.pagination.total).toBe(3);
+      expect(facets.skills).toContainEqual({ value: 'Node.js', count: 3 });
+      expect(facets.skills).toContainEqual({ value: 'JavaScript', count: 2 });
+      expect(facets.companies).toEqual([
+        { value: 'Tech Corp', count: 2 },
+        { value: 'Acme', count: 1 }
+      ]);
+      expect(facets.proficiency).toContainEqual({ value: 3, count: 3 });
+      expect(facets.proficiency).toContainEqual({ value: 5, count: 2 });
+      expect(facets.years).toEqual([
+        { value: '2023', count: 2 },
+        { value: '2020', count: 1 }
+      ]);
+    });
+
+    it('should require every skill at the minimum level', async () => {
+      const response = await request(app)
+        .get('/api/search?skill=Node.js&minLevel=3&type=projects')
+        .expect(200);
+
+      expect(response.body.hits.map(hit => hit.title).sort()).toEqual(['JavaScript Project', 'Python Project']);
+      expect(response.body.facets.skills.map(facet => facet.value)).not.toContain('React');
+    });
+
+    it('should browse everything matching the filters without a query', async () => {
+      const response = await request(app)
+        .get('/api/search?skill=React&skill=Node.js')
+        .expect(200);
+
+      const { hits } = response.body;
+      expect(hits.every(hit => hit.profile_id === other.id)).toBe(true);
+      expect(hits.filter(hit => hit.type === 'skill').map(hit => hit.title).sort()).toEqual(['Node.js', 'React']);
+      expect(hits.map(hit => hit.type).sort()).toEqual(['profile', 'project', 'skill', 'skill', 'work']);
+    });
+
+    it('should combine a query with work filters', async () => {
+      const response = await request(app)
+        .get('/api/search?q=project&company=acme&company=Globex')
+        .expect(200);
+
+      expect(response.body.hits.map(hit => hit.title)).toEqual(['React Dashboard']);
+    });
+
+    it('should filter work by date range', async () => {
+      const response = await request(app)
+        .get('/api/search?from=2022-06&to=2024&type=work')
+        .expect(200);
+
+      expect(response.body.hits.map(hit => hit.subtitle)).toEqual(['Tech Corp']);
+    });
+
+    it('should reject invalid filters', async () => {
+      await request(app)
+        .get('/api/search?q=project&minLevel=9')
+        .expect(400);
+
+      await request(app)
+        .get('/api/search?q=project&from=last-year')
+        .expect(400);
+    });
+  });
+
+  describe('sorting', () => {
+    it('should sort projects', async () => {
+      const response = await request(app)
+        .get('/api/projects?sort=title:desc')
+        .expect(200);
+
+      expect(response.body.projects.map(project => project.title)).toEqual(['Python Project', 'JavaScript Project']);
+    });
+
+    it('should sort skills by several keys', async () => {
+      const response = await request(app)
+        .get('/api/skills?sort=proficiency_level:desc&sort=skill_name:asc')
+        .expect(200);
+
+      expect(response.body.skills.map(skill => skill.name)).toEqual(['JavaScript', 'Node.js', 'Python']);
+    });
+
+    it('should sort search hits', async () => {
+      const response = await request(app)
+        .get('/api/search?q=project&type=projects&sort=title:asc')
+        .expect(200);
+
+      expect(response.body.hits.map(hit => hit.title)).toEqual(['JavaScript Project', 'Python Project']);
+    });
+
+    it('should reject unknown sort fields and directions', async () => {
+      await request(app)
+        .get('/api/projects?sort=description:asc')
+        .expect(400);
+
+      await request(app)
+        .get('/api/search?q=project&sort=rank:sideways')
+        .expect(400);
+    });
+  });
+
+  describe('pagination', () => {
+    it('should page through projects with cursors', async () => {
+      const first = await request(app)
+        .get('/api/projects?limit=1&sort=title:asc')
+        .expect(200);
+
+      expect(first.body.projects.map(project => project.title)).toEqual(['JavaScript Project']);
+      expect(first.body.pagination).toMatchObject({ total: 2, hasMore: true, currentPage: 1, totalPages: 2, prevCursor: null });
+      expect(first.headers['x-total-count']).toBe('2');
+      expect(first.headers.link).toContain('rel="next"');
+
+      const second = await request(app)
+        .get(`/api/projects?limit=1&sort=title:asc&cursor=${first.body.pagination.nextCursor}`)
+        .expect(200);
+
+      expect(second.body.projects.map(project => project.title)).toEqual(['Python Project']);
+      expect(second.body.pagination).toMatchObject({ hasMore: false, currentPage: 2, nextCursor: null });
+      expect(second.headers.link).toContain('rel="prev"');
+      expect(second.headers.link).not.toContain('rel="next"');
+    });
+
+    it('should paginate skills and search', async () => {
+      const skills = await request(app)
+        .get('/api/skills?limit=2')
+        .expect(200);
+
+      expect(skills.body.skills).toHaveLength(2);
+      expect(skills.body.pagination).toMatchObject({ total: 3, totalPages: 2 });
+
+      const search = await request(app)
+        .get('/api/search?q=project&type=projects&limit=1')
+        .expect(200);
+
+      expect(search.body.hits).toHaveLength(1);
+      expect(search.body.pagination).toMatchObject({ total: 2, hasMore: true, totalPages: 2 });
+    });
+
+    it('should return 400 for an invalid cursor', async () => {
+      const response = await request(app)
+        .get('/api/projects?cursor=not-a-cursor')
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_CURSOR');
     });
   });
 
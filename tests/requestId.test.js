@@ -0,0 +1,39 @@
+import request from 'supertest';
+import app from '../server.js';
+
+describe('Request IDs', () => {
+  it('should give every response a request ID', async () => {
+    const first = await request(app).get('/health').expect(200);
+    const second = await request(app).get('/health').expect(200);
+
+    expect(first.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second.headers['x-request-id']).not.toBe(first.headers['x-request-id']);
+  });
+
+  it('should keep an incoming request ID', async () => {
+    const response = await request(app)
+      .get('/health')
+      .set('X-Request-Id', 'edge-1234:abc')
+      .expect(200);
+
+    expect(response.headers['x-request-id']).toBe('edge-1234:abc');
+  });
+
+  it('should replace request IDs that are not sane', async () => {
+    const response = await request(app)
+      .get('/health')
+      .set('X-Request-Id', 'a'.repeat(200))
+      .expect(200);
+
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should include the request ID in error bodies', async () => {
+    const response = await request(app)
+      .get('/api/profiles/999999')
+      .set('X-Request-Id', 'trace-42')
+      .expect(404);
+
+    expect(response.body).toMatchObject({ code: 'PROFILE_NOT_FOUND', request_id: 'trace-42' });
+  });
+});
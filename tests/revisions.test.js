@@ -0,0 +1,144 @@
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+
+describe('Profile revisions API', () => {
+  let authToken;
+  let profileId;
+
+  const tokenFor = async (username) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'password' });
+    return response.body.token;
+  };
+
+  const authed = (req) => req.set('Authorization', `Bearer ${authToken}`);
+
+  beforeAll(async () => {
+    authToken = await tokenFor('admin');
+  });
+
+  // Revision 1 is the created profile, revision 2 renames it, changes a
+  // project and drops the Python skill
+  beforeEach(async () => {
+    const created = await authed(request(app).post('/api/profile'))
+      .send({
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        skills: [{ name: 'JavaScript', level: 4 }, { name: 'Python', level: 2 }],
+        projects: [{ title: 'Portfolio', description: 'First version' }]
+      })
+      .expect(201);
+    profileId = created.body.profileId;
+
+    const current = await request(app).get(`/api/profiles/${profileId}`).expect(200);
+    const [project] = current.body.projects;
+
+    await authed(request(app).patch(`/api/profiles/${profileId}`))
+      .send({
+        name: 'Jane Smith',
+        skills: [{ name: 'JavaScript', level: 5 }],
+        projects: [{ id: project.id, title: 'Portfolio', description: 'Second version' }]
+      })
+      .expect(200);
+  });
+
+  describe('GET /api/profiles/:id/revisions', () => {
+    it('should list revisions newest first with who made them', async () => {
+      const response = await authed(request(app).get(`/api/profiles/${profileId}/revisions`)).expect(200);
+
+      expect(response.body.revisions.map(r => [r.revision, r.action])).toEqual([[2, 'update'], [1, 'create']]);
+      expect(response.body.revisions[0].user.username).toBe('admin');
+      expect(response.body.revisions[0].profile).toBeUndefined();
+      expect(response.body.pagination.total).toBe(2);
+    });
+
+    it('should record a revision for item changes', async () => {
+      await authed(request(app).post(`/api/profiles/${profileId}/work-experience`))
+        .send({ company: 'Acme', position: 'Engineer' })
+        .expect(201);
+
+      const response = await authed(request(app).get(`/api/profiles/${profileId}/revisions?limit=1`)).expect(200);
+
+      expect(response.body.revisions[0].revision).toBe(3);
+    });
+
+    it('should require authentication', async () => {
+      await request(app).get(`/api/profiles/${profileId}/revisions`).expect(401);
+    });
+
+    it('should only show the history to the owner', async () => {
+      const token = await tokenFor('editor');
+      const response = await request(app)
+        .get(`/api/profiles/${profileId}/revisions`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+
+      expect(response.body.code).toBe('NOT_PROFILE_OWNER');
+    });
+  });
+
+  describe('GET /api/profiles/:id/revisions/:rev', () => {
+    it('should return the full profile as it was', async () => {
+      const response = await authed(request(app).get(`/api/profiles/${profileId}/revisions/1`)).expect(200);
+
+      expect(response.body.profile.name).toBe('Jane Doe');
+      expect(response.body.profile.skills.map(s => s.name)).toEqual(['JavaScript', 'Python']);
+    });
+
+    it('should return 404 for an unknown revision', async () => {
+      const response = await authed(request(app).get(`/api/profiles/${profileId}/revisions/9`)).expect(404);
+
+      expect(response.body.code).toBe('REVISION_NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/profiles/:id/revisions/diff', () => {
+    it('should list field-level changes', async () => {
+      const response = await authed(request(app).get(`/api/profiles/${profileId}/revisions/diff?from=1&to=2`)).expect(200);
+      const { changes } = response.body;
+
+      expect(changes).toContainEqual({ path: 'name', change: 'changed', from: 'Jane Doe', to: 'Jane Smith' });
+      expect(changes).toContainEqual(expect.objectContaining({
+        path: expect.stringMatching(/^projects\[\d+\]\.description$/),
+        label: 'Portfolio',
+        from: 'First version',
+        to: 'Second version'
+      }));
+      expect(changes).toContainEqual(expect.objectContaining({ label: 'Python', change: 'removed' }));
+      expect(changes).toContainEqual(expect.objectContaining({ label: 'JavaScript', change: 'changed', from: 4, to: 5 }));
+    });
+
+    it('should require both revision numbers', async () => {
+      const response = await authed(request(app).get(`/api/profiles/${profileId}/revisions/diff?from=1`)).expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /api/profiles/:id/revisions/:rev/restore', () => {
+    it('should restore the revision and record the restore', async () => {
+      const response = await authed(request(app).post(`/api/profiles/${profileId}/revisions/1/restore`)).expect(200);
+
+      expect(response.body.name).toBe('Jane Doe');
+      expect(response.body.skills).toEqual(expect.arrayContaining(['JavaScript', 'Python']));
+      expect(response.body.projects[0].description).toBe('First version');
+
+      const history = await authed(request(app).get(`/api/profiles/${profileId}/revisions`)).expect(200);
+      expect(history.body.revisions[0]).toMatchObject({ revision: 3, action: 'restore', restored_from: 1 });
+
+      const diff = await authed(request(app).get(`/api/profiles/${profileId}/revisions/diff?from=1&to=3`)).expect(200);
+      expect(diff.body.changes.filter(change => change.path.startsWith('projects'))).toEqual([]);
+    });
+
+    it('should refuse to restore an email another profile now uses', async () => {
+      await authed(request(app).patch(`/api/profiles/${profileId}`)).send({ email: 'jane.smith@example.com' }).expect(200);
+      await prisma.profile.create({ data: { name: 'Other Jane', email: 'jane@example.com' } });
+
+      const response = await authed(request(app).post(`/api/profiles/${profileId}/revisions/1/restore`)).expect(409);
+
+      expect(response.body.code).toBe('PROFILE_EXISTS');
+    });
+  });
+});
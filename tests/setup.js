@@ -1,6 +1,18 @@
+import bcrypt from 'bcryptjs';
 import pkg from '@prisma/client';
+import { searchIndexStatements } from '../lib/search.js';
 const { PrismaClient } = pkg;
 
+// Tests send webhook deliveries themselves, so the server must not run its
+// own delivery worker during tests.
+process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS = '0';
+
+// Every request of a suite comes from the same address, and suites send
+// more requests and writes than one address may. Tests of a limit set it
+// back themselves.
+process.env.RATE_LIMIT = '10000';
+process.env.WRITE_RATE_LIMIT = '10000';
+
 // Create a test database client
 const prisma = new PrismaClient({
   datasources: {
@@ -10,11 +22,31 @@ const prisma = new PrismaClient({
   }
 });
 
+// Users the tests log in as (all with password "password"), plus the
+// pg_trgm extension fuzzy search depends on
+beforeAll(async () => {
+  for (const statement of searchIndexStatements()) {
+    await prisma.$executeRawUnsafe(statement);
+  }
+
+  const passwordHash = await bcrypt.hash('password', 10);
+  for (const [username, role] of [['admin', 'admin'], ['editor', 'editor'], ['viewer', 'viewer']]) {
+    await prisma.user.upsert({
+      where: { username },
+      update: { passwordHash, role },
+      create: { username, passwordHash, role }
+    });
+  }
+});
+
 // Clean up database before each test
 beforeEach(async () => {
+  await prisma.webhookSubscription.deleteMany();
+  await prisma.auditEvent.deleteMany();
   await prisma.workExperience.deleteMany();
   await prisma.project.deleteMany();
   await prisma.skill.deleteMany();
+  await prisma.skillCatalogEntry.deleteMany();
   await prisma.profile.deleteMany();
 });
 
@@ -23,7 +55,12 @@ afterAll(async () => {
   await prisma.workExperience.deleteMany();
   await prisma.project.deleteMany();
   await prisma.skill.deleteMany();
+  await prisma.skillCatalogEntry.deleteMany();
   await prisma.profile.deleteMany();
+  await prisma.refreshToken.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.auditEvent.deleteMany();
+  await prisma.webhookSubscription.deleteMany();
   await prisma.$disconnect();
 });
 
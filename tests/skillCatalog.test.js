@@ -0,0 +1,215 @@
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+
+describe('Skill catalog API', () => {
+  let adminToken;
+  let editorToken;
+  let profile;
+
+  const login = async (username) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'password' });
+    return response.body.token;
+  };
+
+  const createEntry = (body) => request(app)
+    .post('/api/skill-catalog')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send(body);
+
+  const putSkills = (skills) => request(app)
+    .patch(`/api/profiles/${profile.id}`)
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ skills })
+    .expect(200);
+
+  beforeAll(async () => {
+    adminToken = await login('admin');
+    editorToken = await login('editor');
+  });
+
+  beforeEach(async () => {
+    profile = await prisma.profile.create({
+      data: { name: 'Catalog User', email: 'catalog@example.com' }
+    });
+  });
+
+  describe('profile skills', () => {
+    it('should store spelling variants as one canonical skill', async () => {
+      await createEntry({ name: 'Node.js', category: 'framework', aliases: ['Node'] }).expect(201);
+
+      const response = await putSkills(['nodejs', { name: 'Node', level: 4 }, 'NODE.JS', 'Python']);
+
+      expect(response.body.skills).toEqual(['Node.js', 'Python']);
+      expect(response.body.skillsWithLevel[0].proficiency_level).toBe(4);
+
+      const stats = await request(app).get('/api/stats').expect(200);
+      expect(stats.body.unique_skills).toBe(2);
+    });
+
+    it('should add unknown skills to the catalog', async () => {
+      await putSkills(['Elixir']);
+
+      const entry = await prisma.skillCatalogEntry.findUnique({ where: { key: 'elixir' } });
+      expect(entry).toMatchObject({ name: 'Elixir', category: 'other' });
+    });
+  });
+
+  describe('project and job skills', () => {
+    const addProject = (body) => request(app)
+      .post(`/api/profiles/${profile.id}/projects`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(body)
+      .expect(201);
+
+    const projectsUsing = async (skill) => {
+      const response = await request(app).get(`/api/projects?skill=${skill}`).expect(200);
+      return response.body.projects.map(project => project.title);
+    };
+
+    it('should link projects and jobs to canonical skills', async () => {
+      await createEntry({ name: 'Node.js', aliases: ['Node'] }).expect(201);
+
+      const project = await addProject({ title: 'API', skills: ['node', 'PostgreSQL', 'NodeJS'] });
+      expect(project.body.skills).toEqual(['Node.js', 'PostgreSQL']);
+
+      const work = await request(app)
+        .post(`/api/profiles/${profile.id}/work-experience`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ company: 'Acme', position: 'Developer', start_date: '2022-01', skills: ['React'] })
+        .expect(201);
+      expect(work.body.skills).toEqual(['React']);
+
+      expect(await projectsUsing('node.js')).toEqual(['API']);
+      expect(await projectsUsing('React')).toEqual([]);
+    });
+
+    it('should only replace links when skills are sent', async () => {
+      const project = await addProject({ title: 'CLI', skills: ['Rust'] });
+      const url = `/api/profiles/${profile.id}/projects/${project.body.id}`;
+
+      const renamed = await request(app)
+        .patch(url)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Rust CLI' })
+        .expect(200);
+      expect(renamed.body.skills).toEqual(['Rust']);
+
+      const cleared = await request(app)
+        .patch(url)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ skills: [] })
+        .expect(200);
+      expect(cleared.body.skills).toEqual([]);
+    });
+
+    it('should keep links when their skill is merged', async () => {
+      await addProject({ title: 'Dashboard', skills: ['ReactJS'] });
+      const created = await createEntry({ name: 'React' }).expect(201);
+      const reactJs = await prisma.skillCatalogEntry.findUnique({ where: { key: 'reactjs' } });
+
+      await request(app)
+        .post(`/api/skill-catalog/${created.body.id}/merge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ sourceIds: [reactJs.id] })
+        .expect(200);
+
+      expect(await projectsUsing('React')).toEqual(['Dashboard']);
+    });
+  });
+
+  describe('GET /api/skill-catalog', () => {
+    it('should autocomplete on names and aliases', async () => {
+      await createEntry({ name: 'PostgreSQL', category: 'database', aliases: ['Postgres'] }).expect(201);
+      await createEntry({ name: 'Python', category: 'language' }).expect(201);
+
+      const byAlias = await request(app).get('/api/skill-catalog?q=postg').expect(200);
+      expect(byAlias.body.skills.map(skill => skill.name)).toEqual(['PostgreSQL']);
+      expect(byAlias.body.skills[0].aliases).toEqual(['Postgres']);
+
+      const byCategory = await request(app).get('/api/skill-catalog?category=language').expect(200);
+      expect(byCategory.body.skills.map(skill => skill.name)).toEqual(['Python']);
+    });
+  });
+
+  describe('catalog changes', () => {
+    it('should reject a name that is already an alias', async () => {
+      await createEntry({ name: 'Node.js', aliases: ['Node'] }).expect(201);
+
+      const response = await createEntry({ name: 'node' }).expect(409);
+      expect(response.body.code).toBe('SKILL_CONFLICT');
+    });
+
+    it('should only let admins change the catalog', async () => {
+      await request(app)
+        .post('/api/skill-catalog')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({ name: 'Go' })
+        .expect(403);
+    });
+
+    it('should rename profile skills with their entry', async () => {
+      const created = await createEntry({ name: 'Golang', category: 'language' }).expect(201);
+      await putSkills(['golang']);
+
+      const renamed = await request(app)
+        .patch(`/api/skill-catalog/${created.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Go' })
+        .expect(200);
+
+      expect(renamed.body.aliases).toEqual(['Golang']);
+
+      const updated = await request(app).get(`/api/profiles/${profile.id}`).expect(200);
+      expect(updated.body.skills).toEqual(['Go']);
+    });
+
+    it('should merge duplicate entries', async () => {
+      const other = await prisma.profile.create({
+        data: { name: 'Other User', email: 'other-catalog@example.com' }
+      });
+
+      await putSkills([{ name: 'React', level: 2 }, { name: 'ReactJS', level: 5 }]);
+      await request(app)
+        .patch(`/api/profiles/${other.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ skills: ['ReactJS'] })
+        .expect(200);
+
+      const [react, reactJs] = await Promise.all([
+        prisma.skillCatalogEntry.findUnique({ where: { key: 'react' } }),
+        prisma.skillCatalogEntry.findUnique({ where: { key: 'reactjs' } })
+      ]);
+
+      const merged = await request(app)
+        .post(`/api/skill-catalog/${react.id}/merge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ sourceIds: [reactJs.id] })
+        .expect(200);
+
+      expect(merged.body).toMatchObject({ name: 'React', aliases: ['ReactJS'], profile_count: 2 });
+
+      const updated = await request(app).get(`/api/profiles/${profile.id}`).expect(200);
+      expect(updated.body.skillsWithLevel).toEqual([
+        expect.objectContaining({ skill_name: 'React', proficiency_level: 5 })
+      ]);
+
+      const top = await request(app).get('/api/skills/top').expect(200);
+      expect(top.body.skills).toEqual([expect.objectContaining({ name: 'React', frequency: 2 })]);
+    });
+
+    it('should not merge an entry into itself', async () => {
+      const created = await createEntry({ name: 'Rust' }).expect(201);
+
+      const response = await request(app)
+        .post(`/api/skill-catalog/${created.body.id}/merge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ sourceIds: [created.body.id] })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_MERGE');
+    });
+  });
+});
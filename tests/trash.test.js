@@ -0,0 +1,135 @@
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+import { purgeTrash } from '../lib/trash.js';
+
+describe('Trash API', () => {
+  let authToken;
+  let profile;
+  let project;
+  let work;
+
+  const authed = (req) => req.set('Authorization', `Bearer ${authToken}`);
+
+  beforeAll(async () => {
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'admin', password: 'password' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  beforeEach(async () => {
+    profile = await prisma.profile.create({
+      data: {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        skills: { create: [{ skillName: 'Rust', proficiencyLevel: 4 }] }
+      }
+    });
+    project = await prisma.project.create({ data: { profileId: profile.id, title: 'Compiler' } });
+    work = await prisma.workExperience.create({ data: { profileId: profile.id, company: 'Acme', position: 'Engineer' } });
+  });
+
+  describe('Deleting', () => {
+    it('should hide a deleted project until it is restored', async () => {
+      const response = await authed(request(app).delete(`/api/profile/projects/${project.id}`)).expect(200);
+
+      expect(response.body.message).toBe('Project moved to trash');
+      expect(new Date(response.body.purge_at) > new Date(response.body.deleted_at)).toBe(true);
+
+      const hidden = await request(app).get(`/api/profiles/${profile.id}`).expect(200);
+      expect(hidden.body.projects).toEqual([]);
+      await request(app).get(`/api/profiles/${profile.id}/projects/${project.id}`).expect(404);
+
+      await authed(request(app).post(`/api/trash/projects/${project.id}/restore`)).expect(200);
+
+      const restored = await request(app).get(`/api/profiles/${profile.id}`).expect(200);
+      expect(restored.body.projects.map(p => p.title)).toEqual(['Compiler']);
+    });
+
+    it('should move items left out of a full update to the trash', async () => {
+      await authed(request(app).put(`/api/profiles/${profile.id}`))
+        .send({ name: 'Jane Doe', email: 'jane@example.com', skills: ['Rust'], projects: [] })
+        .expect(200);
+
+      const trash = await authed(request(app).get('/api/trash')).expect(200);
+      expect(trash.body.trash).toMatchObject([{ type: 'project', id: project.id, title: 'Compiler' }]);
+
+      await authed(request(app).post(`/api/trash/projects/${project.id}/restore`)).expect(200);
+
+      const restored = await request(app).get(`/api/profiles/${profile.id}`).expect(200);
+      expect(restored.body.projects.map(p => p.title)).toEqual(['Compiler']);
+      expect(restored.body.workExperience).toHaveLength(1);
+    });
+
+    it('should leave deleted rows out of queries and stats', async () => {
+      await authed(request(app).delete(`/api/profiles/${profile.id}`)).expect(200);
+
+      const stats = await request(app).get('/api/stats').expect(200);
+      expect(stats.body).toMatchObject({ total_profiles: 0, total_projects: 0, unique_skills: 0, total_work_experience: 0 });
+
+      const search = await request(app).get('/api/search?q=compiler').expect(200);
+      expect(search.body.hits).toEqual([]);
+
+      await request(app).get(`/api/profiles/${profile.id}`).expect(404);
+    });
+
+    it('should restore a profile with the items deleted with it', async () => {
+      await authed(request(app).delete(`/api/profile/work-experience/${work.id}`)).expect(200);
+      await authed(request(app).delete(`/api/profiles/${profile.id}`)).expect(200);
+
+      const trash = await authed(request(app).get('/api/trash')).expect(200);
+      expect(trash.body.trash.map(entry => [entry.type, entry.id])).toEqual([['profile', profile.id]]);
+
+      await authed(request(app).post(`/api/trash/profiles/${profile.id}/restore`)).expect(200);
+
+      const restored = await request(app).get(`/api/profiles/${profile.id}`).expect(200);
+      expect(restored.body.skills).toEqual(['Rust']);
+      expect(restored.body.projects).toHaveLength(1);
+      // Deleted before the profile, so it stays in the trash
+      expect(restored.body.workExperience).toEqual([]);
+
+      const remaining = await authed(request(app).get('/api/trash')).expect(200);
+      expect(remaining.body.trash).toMatchObject([{ type: 'work', id: work.id, title: 'Engineer at Acme' }]);
+    });
+
+    it('should keep the email of a deleted profile reserved', async () => {
+      await authed(request(app).delete(`/api/profiles/${profile.id}`)).expect(200);
+
+      const response = await authed(request(app).post('/api/profile'))
+        .send({ name: 'Jane Again', email: 'jane@example.com' })
+        .expect(409);
+
+      expect(response.body.detail).toContain('trash');
+    });
+  });
+
+  describe('POST /api/trash/:type/:id/restore', () => {
+    it('should return 404 for rows that are not in the trash', async () => {
+      const response = await authed(request(app).post(`/api/trash/projects/${project.id}/restore`)).expect(404);
+
+      expect(response.body.code).toBe('NOT_IN_TRASH');
+    });
+
+    it('should reject unknown types', async () => {
+      const response = await authed(request(app).post(`/api/trash/skills/${project.id}/restore`)).expect(400);
+
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('purgeTrash', () => {
+    it('should only delete rows past the retention period', async () => {
+      const longAgo = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      await prisma.project.update({ where: { id: project.id }, data: { deletedAt: longAgo } });
+      await prisma.workExperience.update({ where: { id: work.id }, data: { deletedAt: new Date() } });
+
+      const purged = await purgeTrash();
+
+      expect(purged).toMatchObject({ profiles: 0, projects: 1, workExperience: 0 });
+      expect(await prisma.project.findUnique({ where: { id: project.id } })).toBeNull();
+      expect(await prisma.workExperience.findUnique({ where: { id: work.id } })).not.toBeNull();
+    });
+  });
+});
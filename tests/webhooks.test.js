@@ -0,0 +1,319 @@
+import http from 'http';
+import request from 'supertest';
+import app from '../server.js';
+import { prisma } from './setup.js';
+import { deliverDueWebhooks, verifySignature } from '../lib/webhooks.js';
+
+describe('Webhooks', () => {
+  let server;
+  let baseUrl;
+  let received;
+  let status;
+  let adminToken;
+  let editorToken;
+
+  // Local receiver. Records every request with its raw body and answers
+  // with `status`; /slow never answers.
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        received.push({ url: req.url, headers: req.headers, body, payload: JSON.parse(body) });
+        if (req.url !== '/slow') {
+          res.writeHead(status).end(status === 200 ? 'ok' : 'receiver error');
+        }
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const login = async (username) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'password' });
+    return response.body.token;
+  };
+
+  const subscribe = async (body) => {
+    const response = await request(app)
+      .post('/api/admin/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(body)
+      .expect(201);
+    return response.body;
+  };
+
+  const createProfile = async () => {
+    const response = await request(app)
+      .post('/api/profile')
+      .set('Authorization', `Bearer ${editorToken}`)
+      .send({ name: 'Jane Doe', email: 'jane@example.com' })
+      .expect(201);
+    return response.body.profileId;
+  };
+
+  const renameProfile = (profileId, name) => request(app)
+    .patch(`/api/profiles/${profileId}`)
+    .set('Authorization', `Bearer ${editorToken}`)
+    .send({ name })
+    .expect(200);
+
+  const deliveries = async (query = {}) => {
+    const response = await request(app)
+      .get('/api/admin/webhooks/deliveries')
+      .query(query)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    return response.body.deliveries;
+  };
+
+  // Make every pending delivery due now, instead of waiting for its retry
+  const makeDue = () => prisma.webhookDelivery.updateMany({
+    where: { status: 'pending' },
+    data: { nextAttemptAt: new Date() }
+  });
+
+  beforeEach(async () => {
+    received = [];
+    status = 200;
+    adminToken = await login('admin');
+    editorToken = await login('editor');
+  });
+
+  it('should send signed events to the subscribers of their type', async () => {
+    const webhook = await subscribe({ url: `${baseUrl}/hooks`, events: ['profile.updated', 'project.created'] });
+    const profileId = await createProfile();
+    await renameProfile(profileId, 'Jane Smith');
+    await request(app)
+      .post(`/api/profiles/${profileId}/projects`)
+      .set('Authorization', `Bearer ${editorToken}`)
+      .send({ title: 'Webhook Project' })
+      .expect(201);
+
+    expect(await deliverDueWebhooks()).toEqual({ attempted: 2, failed: 0 });
+
+    const [update, project] = received;
+    expect(received.map(hook => hook.headers['x-webhook-event'])).toEqual(['profile.updated', 'project.created']);
+    expect(update.headers['content-type']).toBe('application/json');
+    expect(verifySignature(webhook.secret, update.headers['x-webhook-timestamp'], update.body, update.headers['x-webhook-signature'])).toBe(true);
+    expect(verifySignature('another-secret-entirely', update.headers['x-webhook-timestamp'], update.body, update.headers['x-webhook-signature'])).toBe(false);
+
+    expect(update.payload).toMatchObject({
+      event: 'profile.updated',
+      data: {
+        entity_type: 'profile',
+        id: profileId,
+        profile_id: profileId,
+        before: { name: 'Jane Doe' },
+        after: { name: 'Jane Smith' }
+      }
+    });
+    expect(project.payload.data).toMatchObject({
+      entity_type: 'project',
+      profile_id: profileId,
+      before: null,
+      after: { title: 'Webhook Project' }
+    });
+
+    const [log] = await deliveries({ subscription: webhook.id, event: 'profile.updated' });
+    expect(log).toMatchObject({
+      status: 'succeeded',
+      attempt_count: 1,
+      response_status: 200,
+      error: null,
+      event_id: update.payload.id,
+      next_attempt_at: null
+    });
+  });
+
+  it('should skip paused subscriptions and unsubscribed events', async () => {
+    await subscribe({ url: `${baseUrl}/paused`, events: ['work_experience.deleted'], active: false });
+    await subscribe({ url: `${baseUrl}/hooks`, events: ['work_experience.deleted'] });
+    const profileId = await createProfile();
+
+    const work = await request(app)
+      .post(`/api/profiles/${profileId}/work-experience`)
+      .set('Authorization', `Bearer ${editorToken}`)
+      .send({ company: 'Tech Corp', position: 'Developer', start_date: '2023-01' })
+      .expect(201);
+    await request(app)
+      .delete(`/api/profile/work-experience/${work.body.id}`)
+      .set('Authorization', `Bearer ${editorToken}`)
+      .expect(200);
+
+    await deliverDueWebhooks();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/hooks');
+    expect(received[0].payload.data).toMatchObject({
+      entity_type: 'work_experience',
+      id: work.body.id,
+      profile_id: profileId,
+      before: { company: 'Tech Corp' },
+      after: null
+    });
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    const webhook = await subscribe({ url: `${baseUrl}/hooks`, events: ['profile.updated'] });
+    await renameProfile(await createProfile(), 'Jane Smith');
+
+    status = 500;
+    expect(await deliverDueWebhooks()).toEqual({ attempted: 1, failed: 1 });
+    const [first] = await deliveries({ subscription: webhook.id });
+    expect(first).toMatchObject({ status: 'pending', attempt_count: 1, response_status: 500, error: 'Receiver answered with status 500' });
+    const firstDelay = new Date(first.next_attempt_at) - new Date(first.last_attempt_at);
+    expect(firstDelay).toBe(60 * 1000);
+
+    // Not due again until the delay has passed
+    expect(await deliverDueWebhooks()).toEqual({ attempted: 0, failed: 0 });
+
+    await makeDue();
+    await deliverDueWebhooks();
+    const [second] = await deliveries({ subscription: webhook.id });
+    expect(new Date(second.next_attempt_at) - new Date(second.last_attempt_at)).toBe(2 * firstDelay);
+
+    status = 200;
+    await makeDue();
+    await deliverDueWebhooks();
+
+    const detail = await request(app)
+      .get(`/api/admin/webhooks/deliveries/${first.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(detail.body).toMatchObject({ status: 'succeeded', attempt_count: 3, response_status: 200, error: null });
+    expect(detail.body.attempts.map(attempt => attempt.response_status)).toEqual([500, 500, 200]);
+    expect(detail.body.attempts[0].response_body).toBe('receiver error');
+    expect(detail.body.payload.id).toBe(first.event_id);
+
+    // Every attempt carries the same event
+    expect(new Set(received.map(hook => hook.payload.id)).size).toBe(1);
+  });
+
+  it('should give up after the last attempt and report unreachable receivers', async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+    try {
+      await subscribe({ url: `${baseUrl}/slow`, events: ['profile.updated'] });
+      await renameProfile(await createProfile(), 'Jane Smith');
+
+      await deliverDueWebhooks({ timeoutMs: 100 });
+      await makeDue();
+      await deliverDueWebhooks({ timeoutMs: 100 });
+
+      const [delivery] = await deliveries();
+      expect(delivery).toMatchObject({
+        status: 'failed',
+        attempt_count: 2,
+        response_status: null,
+        error: 'No response within 100 ms',
+        next_attempt_at: null
+      });
+      expect(await deliveries({ status: 'pending' })).toEqual([]);
+    } finally {
+      delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    }
+  });
+
+  it('should replay a delivery with the same payload', async () => {
+    await subscribe({ url: `${baseUrl}/hooks`, events: ['profile.updated'] });
+    await renameProfile(await createProfile(), 'Jane Smith');
+    await deliverDueWebhooks();
+    const [original] = await deliveries();
+
+    const replay = await request(app)
+      .post(`/api/admin/webhooks/deliveries/${original.id}/replay`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(202);
+
+    expect(replay.body).toMatchObject({ status: 'pending', replay_of: original.id, event_id: original.event_id });
+
+    await deliverDueWebhooks();
+
+    expect(received).toHaveLength(2);
+    expect(received[1].body).toBe(received[0].body);
+    expect(received[1].headers['x-webhook-delivery']).toBe(String(replay.body.id));
+
+    await request(app)
+      .post('/api/admin/webhooks/deliveries/999999/replay')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+  });
+
+  it('should ping a receiver and sign with a rotated secret', async () => {
+    const webhook = await subscribe({ url: `${baseUrl}/hooks`, events: ['project.created'] });
+    const secret = 'rotated-secret-0123456789';
+
+    await request(app)
+      .patch(`/api/admin/webhooks/${webhook.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ secret })
+      .expect(200);
+
+    const ping = await request(app)
+      .post(`/api/admin/webhooks/${webhook.id}/ping`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(202);
+
+    expect(ping.body.event).toBe('ping');
+
+    await deliverDueWebhooks();
+
+    const [{ headers, body, payload }] = received;
+    expect(payload).toMatchObject({ event: 'ping', data: { subscription_id: webhook.id, events: ['project.created'] } });
+    expect(verifySignature(secret, headers['x-webhook-timestamp'], body, headers['x-webhook-signature'])).toBe(true);
+  });
+
+  it('should manage subscriptions without returning their secrets', async () => {
+    const webhook = await subscribe({ url: 'http://localhost:4000/hooks', events: ['profile.created', 'profile.created'] });
+    expect(webhook.secret).toMatch(/^whsec_/);
+    expect(webhook.events).toEqual(['profile.created']);
+
+    const list = await request(app)
+      .get('/api/admin/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(list.body.webhooks).toEqual([expect.not.objectContaining({ secret: expect.anything() })]);
+
+    const invalid = await request(app)
+      .post('/api/admin/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ url: 'not a url', events: ['profile.renamed'] })
+      .expect(400);
+    expect(invalid.body.errors.map(error => error.path)).toEqual(['url', 'events[0]']);
+
+    await request(app)
+      .delete(`/api/admin/webhooks/${webhook.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const audit = await request(app)
+      .get('/api/admin/audit?entity_type=webhook')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(audit.body.events.map(event => event.action)).toEqual(['delete', 'create']);
+    expect(JSON.stringify(audit.body.events)).not.toContain(webhook.secret);
+  });
+
+  it('should be closed to non-admins', async () => {
+    await request(app).get('/api/admin/webhooks').expect(401);
+
+    const response = await request(app)
+      .post('/api/admin/webhooks')
+      .set('Authorization', `Bearer ${editorToken}`)
+      .send({ url: `${baseUrl}/hooks`, events: ['profile.updated'] })
+      .expect(403);
+
+    expect(response.body.code).toBe('FORBIDDEN');
+  });
+});
@@ -0,0 +1,40 @@
+import { parseMonth, isPresent, formatMonth, tenureMonths, totalExperienceMonths } from '../lib/workDates.js';
+
+const month = (value) => new Date(`${value}-01T00:00:00Z`);
+
+describe('Work experience dates', () => {
+  it('should parse legacy date strings to the first of the month', () => {
+    for (const value of ['2022-01', '2022-01-15', '2022/1', '01/2022', 'Jan 2022', 'January 2022', 'jan. 2022']) {
+      expect(formatMonth(parseMonth(value))).toBe('2022-01');
+    }
+
+    expect(formatMonth(parseMonth('2019'))).toBe('2019-01');
+    expect(formatMonth(parseMonth('Sept 2020'))).toBe('2020-09');
+  });
+
+  it('should not guess unparseable dates', () => {
+    for (const value of ['', null, 'soon', '2022-13', 'Foo 2022', '13/2022']) {
+      expect(parseMonth(value)).toBeNull();
+    }
+
+    expect(isPresent('Present')).toBe(true);
+    expect(isPresent('2022-01')).toBe(false);
+  });
+
+  it('should count both the first and the last month of a job', () => {
+    expect(tenureMonths({ startDate: month('2022-01'), endDate: month('2022-03') })).toBe(3);
+    expect(tenureMonths({ startDate: month('2022-01'), isCurrent: true }, month('2023-01'))).toBe(13);
+    expect(tenureMonths({ startDate: month('2022-01'), endDate: null, isCurrent: false })).toBeNull();
+  });
+
+  it('should count overlapping jobs once', () => {
+    const workExperience = [
+      { startDate: month('2020-01'), endDate: month('2020-12') },
+      { startDate: month('2020-07'), endDate: month('2021-06') },
+      { startDate: month('2022-01'), isCurrent: true },
+      { startDate: null, endDate: month('2019-01') }
+    ];
+
+    expect(totalExperienceMonths(workExperience, month('2022-12'))).toBe(18 + 12);
+  });
+});